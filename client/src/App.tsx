@@ -18,6 +18,7 @@ import VMGroups from './pages/VMGroups';
 import Logs from './pages/Logs';
 import Backups from './pages/Backups';
 import ScheduledTasks from './pages/ScheduledTasks';
+import MaintenanceWindows from './pages/MaintenanceWindows';
 import Settings from './pages/Settings';
 import VNCRecordings from './pages/VNCRecordings';
 import Shell from './pages/Shell';
@@ -70,6 +71,7 @@ function MainLayout() {
               <Route path="/logs" element={<Logs />} />
               <Route path="/backups" element={<Backups />} />
               <Route path="/scheduled-tasks" element={<ScheduledTasks />} />
+              <Route path="/maintenance" element={<MaintenanceWindows />} />
               <Route path="/vnc-recordings" element={<VNCRecordings />} />
               <Route path="/shell" element={<Shell />} />
               <Route path="/settings" element={<Settings />} />
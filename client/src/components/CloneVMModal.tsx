@@ -0,0 +1,256 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  Modal, Form, Input, InputNumber, Select, Switch, Progress, List, Tag, Alert, Typography, message
+} from 'antd';
+import { useAuth } from '../contexts/AuthContext';
+import { usePVE } from '../contexts/PVEContext';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+interface CloneSource {
+  vmid: number;
+  name: string;
+  type: 'qemu' | 'lxc';
+  node: string;
+  connectionId: string;
+  connectionName: string;
+  template?: number;
+}
+
+interface CloneVMModalProps {
+  visible: boolean;
+  source: CloneSource | null;
+  onClose: () => void;
+  onFinished: () => void;
+}
+
+interface CloneItem {
+  index: number;
+  name: string;
+  newid?: number;
+  status: 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+  error?: string;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+const TASK_POLL_INTERVAL = 2000;
+
+// 按命名模式生成名称：{n} 为序号，{vmid} 为新VMID
+export function formatCloneName(pattern: string, index: number, vmid: number): string {
+  return pattern.replace(/\{n\}/g, String(index)).replace(/\{vmid\}/g, String(vmid));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function CloneVMModal({ visible, source, onClose, onFinished }: CloneVMModalProps) {
+  const { token } = useAuth();
+  const { nodes } = usePVE();
+  const [form] = Form.useForm();
+  const [running, setRunning] = useState(false);
+  const [items, setItems] = useState<CloneItem[]>([]);
+  const cancelledRef = useRef(false);
+
+  const isTemplate = source?.template === 1;
+  const connectionNodes = nodes.filter(node => node.connectionId === source?.connectionId);
+
+  useEffect(() => {
+    if (visible && source) {
+      setItems([]);
+      cancelledRef.current = false;
+      form.setFieldsValue({
+        count: 1,
+        namePattern: `${source.name}-clone-{n}`,
+        startId: undefined,
+        target: source.node,
+        storage: '',
+        full: !isTemplate,
+      });
+    }
+  }, [visible, source]);
+
+  const updateItem = (index: number, changes: Partial<CloneItem>) => {
+    setItems(prev => prev.map(item => item.index === index ? { ...item, ...changes } : item));
+  };
+
+  const request = async (url: string, options: RequestInit = {}) => {
+    const response = await fetch(`${API_BASE_URL}${url}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `请求失败: ${response.status}`);
+    }
+    return data;
+  };
+
+  // 轮询PVE任务直到结束
+  const waitForTask = async (node: string, upid: string) => {
+    while (true) {
+      const status = await request(
+        `/api/pve/connections/${source!.connectionId}/tasks/${encodeURIComponent(upid)}/status?node=${encodeURIComponent(node)}`
+      );
+      if (status.status === 'stopped') {
+        if (status.exitstatus !== 'OK') {
+          throw new Error(status.exitstatus || '任务失败');
+        }
+        return;
+      }
+      await sleep(TASK_POLL_INTERVAL);
+    }
+  };
+
+  // 同一源VM的克隆会锁定源配置，因此逐个执行并等待任务完成
+  const handleClone = async () => {
+    if (!source) return;
+    const values = await form.validateFields();
+    const count: number = values.count;
+
+    setItems(Array.from({ length: count }, (_, i) => ({
+      index: i + 1,
+      name: values.startId ? formatCloneName(values.namePattern, i + 1, values.startId + i) : '',
+      status: 'pending' as const,
+    })));
+    cancelledRef.current = false;
+    setRunning(true);
+
+    let successCount = 0;
+    for (let i = 0; i < count; i++) {
+      const index = i + 1;
+      if (cancelledRef.current) {
+        updateItem(index, { status: 'skipped' });
+        continue;
+      }
+
+      try {
+        const newid: number = values.startId
+          ? values.startId + i
+          : (await request(`/api/pve/connections/${source.connectionId}/nextid`)).vmid;
+        const name = formatCloneName(values.namePattern, index, newid);
+        updateItem(index, { status: 'running', newid, name });
+
+        const result = await request(`/api/pve/connections/${source.connectionId}/vms/${source.vmid}/clone`, {
+          method: 'POST',
+          body: JSON.stringify({
+            node: source.node,
+            type: source.type,
+            newid,
+            name,
+            target: values.target !== source.node ? values.target : undefined,
+            storage: values.full && values.storage ? values.storage : undefined,
+            full: values.full,
+          }),
+        });
+
+        await waitForTask(result.node, result.taskId);
+        updateItem(index, { status: 'success' });
+        successCount++;
+      } catch (error: any) {
+        updateItem(index, { status: 'failed', error: error.message });
+      }
+    }
+
+    setRunning(false);
+    if (successCount === count) {
+      message.success(`克隆完成: ${successCount} 台`);
+    } else {
+      message.warning(`克隆结束: ${successCount} 成功, ${count - successCount} 未完成`);
+    }
+    onFinished();
+  };
+
+  const handleCancel = () => {
+    if (running) {
+      // 已提交的克隆任务继续在PVE上执行，只停止后续克隆
+      cancelledRef.current = true;
+      message.info('当前克隆完成后将停止');
+      return;
+    }
+    onClose();
+  };
+
+  const finished = items.filter(item => item.status !== 'pending' && item.status !== 'running').length;
+  const statusConfig: Record<CloneItem['status'], { color: string; text: string }> = {
+    pending: { color: 'default', text: '等待中' },
+    running: { color: 'processing', text: '克隆中' },
+    success: { color: 'success', text: '完成' },
+    failed: { color: 'error', text: '失败' },
+    skipped: { color: 'warning', text: '已取消' },
+  };
+
+  return (
+    <Modal
+      title={source ? `克隆 ${source.name} (${source.vmid})` : '克隆'}
+      open={visible}
+      onOk={items.length > 0 && !running ? onClose : handleClone}
+      okText={items.length > 0 && !running ? '关闭' : '开始克隆'}
+      confirmLoading={running}
+      onCancel={handleCancel}
+      cancelText={running ? '停止后续克隆' : '取消'}
+      maskClosable={false}
+      width={600}
+    >
+      {items.length === 0 ? (
+        <Form form={form} layout="vertical">
+          {isTemplate && (
+            <Alert type="info" showIcon style={{ marginBottom: 16 }} message="源为模板，可使用链接克隆快速创建" />
+          )}
+          <Form.Item name="count" label="克隆数量" rules={[{ required: true }]}>
+            <InputNumber min={1} max={50} style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item
+            name="namePattern"
+            label="命名模式"
+            extra="{n} 为序号 (从1开始)，{vmid} 为新VMID"
+            rules={[{ required: true, message: '请输入命名模式' }]}
+          >
+            <Input />
+          </Form.Item>
+          <Form.Item name="startId" label="起始VMID" extra="留空时自动分配下一个可用的VMID">
+            <InputNumber min={100} style={{ width: '100%' }} placeholder="自动分配" />
+          </Form.Item>
+          <Form.Item name="target" label="目标节点">
+            <Select>
+              {connectionNodes.map(node => (
+                <Option key={node.node} value={node.node}>{node.node}</Option>
+              ))}
+            </Select>
+          </Form.Item>
+          <Form.Item name="full" label="完整克隆" valuePropName="checked" extra={isTemplate ? '关闭时创建链接克隆' : '非模板只能完整克隆'}>
+            <Switch disabled={!isTemplate} />
+          </Form.Item>
+          <Form.Item noStyle shouldUpdate={(prev, cur) => prev.full !== cur.full}>
+            {({ getFieldValue }) => getFieldValue('full') && (
+              <Form.Item name="storage" label="目标存储" extra="留空时使用源磁盘所在存储">
+                <Input placeholder="例如 local-lvm" />
+              </Form.Item>
+            )}
+          </Form.Item>
+        </Form>
+      ) : (
+        <>
+          <Progress percent={Math.round(finished / items.length * 100)} style={{ marginBottom: 16 }} />
+          <List
+            size="small"
+            dataSource={items}
+            renderItem={item => (
+              <List.Item>
+                <Text>#{item.index} {item.name || '-'}{item.newid ? ` (${item.newid})` : ''}</Text>
+                <span>
+                  {item.error && <Text type="danger" style={{ marginRight: 8 }}>{item.error}</Text>}
+                  <Tag color={statusConfig[item.status].color}>{statusConfig[item.status].text}</Tag>
+                </span>
+              </List.Item>
+            )}
+          />
+        </>
+      )}
+    </Modal>
+  );
+}
+
+export default CloneVMModal;
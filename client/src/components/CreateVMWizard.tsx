@@ -0,0 +1,380 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal, Steps, Form, Input, InputNumber, Select, Radio, Switch, Button, Space, Spin, message
+} from 'antd';
+import { useAuth } from '../contexts/AuthContext';
+import { usePVE } from '../contexts/PVEContext';
+
+const { Option } = Select;
+const { TextArea } = Input;
+
+interface CreateVMWizardProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface ProvisioningOptions {
+  nextid: number;
+  storages: {
+    images: { storage: string; avail: number; total: number }[];
+    rootdir: { storage: string; avail: number; total: number }[];
+  };
+  bridges: string[];
+  isos: string[];
+  ostemplates: string[];
+  templates: { vmid: number; name: string; node: string }[];
+  nicModels: string[];
+  osTypes: string[];
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+// 每一步需要校验的字段
+const STEP_FIELDS: string[][] = [
+  ['connectionId', 'type', 'node', 'vmid', 'name'],
+  ['cores', 'sockets', 'memory', 'diskStorage', 'diskSize'],
+  ['source', 'iso', 'templateVmid', 'ostype', 'ostemplate', 'password', 'sshKeys'],
+  ['bridge', 'vlan', 'model', 'ip', 'gateway'],
+];
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GiB`;
+const volumeName = (volid: string) => volid.split('/').pop() || volid;
+
+function CreateVMWizard({ visible, onClose }: CreateVMWizardProps) {
+  const { token } = useAuth();
+  const { connections, nodes } = usePVE();
+  const [form] = Form.useForm();
+  const [step, setStep] = useState(0);
+  const [options, setOptions] = useState<ProvisioningOptions | null>(null);
+  const [loadingOptions, setLoadingOptions] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const connectionId = Form.useWatch('connectionId', form);
+  const node = Form.useWatch('node', form);
+  const type = Form.useWatch('type', form);
+  const source = Form.useWatch('source', form);
+
+  const connectionNodes = nodes.filter(item => item.connectionId === connectionId && item.status === 'online');
+
+  useEffect(() => {
+    if (visible) {
+      setStep(0);
+      setOptions(null);
+      form.resetFields();
+    }
+  }, [visible]);
+
+  // 选择连接和节点后加载存储、网桥、ISO和模板
+  useEffect(() => {
+    if (!visible || !connectionId || !node) return;
+
+    setLoadingOptions(true);
+    fetch(`${API_BASE_URL}/api/pve/connections/${connectionId}/provisioning/options?node=${encodeURIComponent(node)}`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setOptions(data);
+        if (!form.getFieldValue('vmid')) {
+          form.setFieldsValue({ vmid: data.nextid });
+        }
+        if (!form.getFieldValue('bridge') && data.bridges.length > 0) {
+          form.setFieldsValue({ bridge: data.bridges[0] });
+        }
+      })
+      .catch(error => message.error(`加载创建选项失败: ${error.message}`))
+      .finally(() => setLoadingOptions(false));
+  }, [visible, connectionId, node]);
+
+  const handleNext = async () => {
+    await form.validateFields(STEP_FIELDS[step]);
+    setStep(step + 1);
+  };
+
+  const handleSubmit = async () => {
+    await form.validateFields(STEP_FIELDS[step]);
+    const values = form.getFieldsValue(true);
+    const isQemu = values.type === 'qemu';
+
+    const body: any = {
+      type: values.type,
+      node: values.node,
+      vmid: values.vmid,
+      name: values.name,
+      cores: values.cores,
+      memory: values.memory,
+      disk: { storage: values.diskStorage, size: values.diskSize },
+      network: {
+        bridge: values.bridge,
+        vlan: values.vlan || undefined,
+        model: isQemu ? values.model : undefined,
+        ip: isQemu ? undefined : values.ip,
+        gateway: isQemu ? undefined : values.gateway || undefined,
+      },
+      start: values.start,
+    };
+    if (isQemu) {
+      body.sockets = values.sockets;
+      body.ostype = values.ostype;
+      if (values.source === 'iso') body.iso = values.iso;
+      if (values.source === 'template') body.templateVmid = values.templateVmid;
+    } else {
+      body.ostemplate = values.ostemplate;
+      body.password = values.password || undefined;
+      body.sshKeys = values.sshKeys || undefined;
+      body.unprivileged = values.unprivileged;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/pve/connections/${values.connectionId}/vms`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        message.success(`${isQemu ? '虚拟机' : '容器'} ${values.name} (${data.vmid}) 创建中`);
+        onClose();
+      } else {
+        message.error(data.error || '创建失败');
+      }
+    } catch (error: any) {
+      message.error(`创建失败: ${error.message}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const diskStorages = type === 'lxc' ? options?.storages.rootdir : options?.storages.images;
+
+  return (
+    <Modal
+      title="创建虚拟机 / 容器"
+      open={visible}
+      onCancel={onClose}
+      maskClosable={false}
+      width={680}
+      footer={
+        <Space>
+          <Button onClick={onClose}>取消</Button>
+          {step > 0 && <Button onClick={() => setStep(step - 1)}>上一步</Button>}
+          {step < STEP_FIELDS.length - 1 ? (
+            <Button type="primary" onClick={handleNext} disabled={step === 0 && !options}>下一步</Button>
+          ) : (
+            <Button type="primary" onClick={handleSubmit} loading={submitting}>创建</Button>
+          )}
+        </Space>
+      }
+    >
+      <Steps
+        current={step}
+        size="small"
+        style={{ marginBottom: 24 }}
+        items={[{ title: '基本信息' }, { title: '资源' }, { title: '系统' }, { title: '网络' }]}
+      />
+      <Spin spinning={loadingOptions}>
+        <Form
+          form={form}
+          layout="vertical"
+          initialValues={{
+            type: 'qemu',
+            cores: 2,
+            sockets: 1,
+            memory: 2048,
+            diskSize: 32,
+            source: 'iso',
+            ostype: 'l26',
+            model: 'virtio',
+            ip: 'dhcp',
+            unprivileged: true,
+            start: false,
+          }}
+        >
+          {step === 0 && (
+            <>
+              <Form.Item name="connectionId" label="连接" rules={[{ required: true, message: '请选择连接' }]}>
+                <Select placeholder="选择连接" onChange={() => form.setFieldsValue({ node: undefined, vmid: undefined })}>
+                  {connections.filter(conn => conn.status === 'connected').map(conn => (
+                    <Option key={conn.id} value={conn.id}>{conn.name}</Option>
+                  ))}
+                </Select>
+              </Form.Item>
+              <Form.Item name="node" label="节点" rules={[{ required: true, message: '请选择节点' }]}>
+                <Select placeholder="选择节点">
+                  {connectionNodes.map(item => (
+                    <Option key={item.node} value={item.node}>{item.node}</Option>
+                  ))}
+                </Select>
+              </Form.Item>
+              <Form.Item name="type" label="类型">
+                <Radio.Group onChange={(e) => form.setFieldsValue({ memory: e.target.value === 'lxc' ? 512 : 2048, diskSize: e.target.value === 'lxc' ? 8 : 32, diskStorage: undefined })}>
+                  <Radio.Button value="qemu">虚拟机 (QEMU)</Radio.Button>
+                  <Radio.Button value="lxc">容器 (LXC)</Radio.Button>
+                </Radio.Group>
+              </Form.Item>
+              <Form.Item name="vmid" label="VMID" rules={[{ required: true, message: '请输入VMID' }]} extra="默认为集群中下一个可用的VMID">
+                <InputNumber min={100} style={{ width: '100%' }} />
+              </Form.Item>
+              <Form.Item
+                name="name"
+                label={type === 'lxc' ? '主机名' : '名称'}
+                rules={[
+                  { required: true, message: '请输入名称' },
+                  { pattern: /^[a-zA-Z0-9]([a-zA-Z0-9.-]*[a-zA-Z0-9])?$/, message: '只能包含字母、数字、点和连字符' },
+                ]}
+              >
+                <Input />
+              </Form.Item>
+            </>
+          )}
+
+          {step === 1 && (
+            <>
+              <Space size="large">
+                <Form.Item name="cores" label="CPU核心" rules={[{ required: true }]}>
+                  <InputNumber min={1} max={128} />
+                </Form.Item>
+                {type === 'qemu' && (
+                  <Form.Item name="sockets" label="CPU插槽" rules={[{ required: true }]}>
+                    <InputNumber min={1} max={4} />
+                  </Form.Item>
+                )}
+                <Form.Item name="memory" label="内存 (MiB)" rules={[{ required: true }]}>
+                  <InputNumber min={16} step={512} />
+                </Form.Item>
+              </Space>
+              <Form.Item name="diskStorage" label="磁盘存储" rules={[{ required: true, message: '请选择存储' }]}>
+                <Select placeholder="选择存储">
+                  {diskStorages?.map(item => (
+                    <Option key={item.storage} value={item.storage}>
+                      {item.storage} (可用 {formatSize(item.avail)} / {formatSize(item.total)})
+                    </Option>
+                  ))}
+                </Select>
+              </Form.Item>
+              {!(type === 'qemu' && source === 'template') && (
+                <Form.Item name="diskSize" label="磁盘大小 (GiB)" rules={[{ required: true }]}>
+                  <InputNumber min={1} max={65536} />
+                </Form.Item>
+              )}
+            </>
+          )}
+
+          {step === 2 && type === 'qemu' && (
+            <>
+              <Form.Item name="source" label="安装来源">
+                <Radio.Group>
+                  <Radio value="iso">ISO镜像</Radio>
+                  <Radio value="template">虚拟机模板</Radio>
+                  <Radio value="none">暂不安装</Radio>
+                </Radio.Group>
+              </Form.Item>
+              {source === 'iso' && (
+                <Form.Item name="iso" label="ISO镜像" rules={[{ required: true, message: '请选择ISO镜像' }]}>
+                  <Select placeholder="选择ISO" showSearch>
+                    {options?.isos.map(volid => (
+                      <Option key={volid} value={volid}>{volumeName(volid)}</Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              )}
+              {source === 'template' && (
+                <Form.Item name="templateVmid" label="模板" rules={[{ required: true, message: '请选择模板' }]} extra="完整克隆到所选存储，磁盘大小沿用模板">
+                  <Select placeholder="选择模板">
+                    {options?.templates.map(template => (
+                      <Option key={template.vmid} value={template.vmid}>
+                        {template.name} ({template.vmid}, {template.node})
+                      </Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              )}
+              {source !== 'template' && (
+                <Form.Item name="ostype" label="操作系统类型">
+                  <Select>
+                    {options?.osTypes.map(ostype => <Option key={ostype} value={ostype}>{ostype}</Option>)}
+                  </Select>
+                </Form.Item>
+              )}
+            </>
+          )}
+
+          {step === 2 && type === 'lxc' && (
+            <>
+              <Form.Item name="ostemplate" label="容器模板" rules={[{ required: true, message: '请选择容器模板' }]}>
+                <Select placeholder="选择模板" showSearch>
+                  {options?.ostemplates.map(volid => (
+                    <Option key={volid} value={volid}>{volumeName(volid)}</Option>
+                  ))}
+                </Select>
+              </Form.Item>
+              <Form.Item
+                name="password"
+                label="root 密码"
+                dependencies={['sshKeys']}
+                rules={[
+                  { min: 5, message: '密码至少5个字符' },
+                  ({ getFieldValue }) => ({
+                    validator: (_, value) => value || getFieldValue('sshKeys')
+                      ? Promise.resolve()
+                      : Promise.reject(new Error('请设置密码或SSH公钥')),
+                  }),
+                ]}
+              >
+                <Input.Password autoComplete="new-password" />
+              </Form.Item>
+              <Form.Item name="sshKeys" label="SSH 公钥">
+                <TextArea rows={3} placeholder="ssh-ed25519 AAAA... user@host" />
+              </Form.Item>
+              <Form.Item name="unprivileged" label="非特权容器" valuePropName="checked">
+                <Switch />
+              </Form.Item>
+            </>
+          )}
+
+          {step === 3 && (
+            <>
+              <Form.Item name="bridge" label="网桥" rules={[{ required: true, message: '请选择网桥' }]}>
+                <Select>
+                  {options?.bridges.map(bridge => <Option key={bridge} value={bridge}>{bridge}</Option>)}
+                </Select>
+              </Form.Item>
+              <Space size="large">
+                <Form.Item name="vlan" label="VLAN">
+                  <InputNumber min={1} max={4094} placeholder="无" />
+                </Form.Item>
+                {type === 'qemu' && (
+                  <Form.Item name="model" label="网卡型号">
+                    <Select style={{ width: 140 }}>
+                      {options?.nicModels.map(model => <Option key={model} value={model}>{model}</Option>)}
+                    </Select>
+                  </Form.Item>
+                )}
+              </Space>
+              {type === 'lxc' && (
+                <Space size="large">
+                  <Form.Item name="ip" label="IPv4" extra="dhcp 或 CIDR，如 192.168.1.10/24">
+                    <Input />
+                  </Form.Item>
+                  <Form.Item name="gateway" label="网关">
+                    <Input placeholder="192.168.1.1" />
+                  </Form.Item>
+                </Space>
+              )}
+              <Form.Item name="start" label="创建后启动" valuePropName="checked">
+                <Switch />
+              </Form.Item>
+            </>
+          )}
+        </Form>
+      </Spin>
+    </Modal>
+  );
+}
+
+export default CreateVMWizard;
@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react';
+import { Modal, Progress, Table, Tag, Button, Space, Typography, Tooltip, message } from 'antd';
+import { useAuth } from '../contexts/AuthContext';
+import { usePVE } from '../contexts/PVEContext';
+
+const { Text } = Typography;
+
+interface JobItem {
+  id: number;
+  seq: number;
+  stage: number;
+  connection_id: string;
+  node: string;
+  vmid: number;
+  vmname: string | null;
+  status: string;
+  attempts: number;
+  task_id: string | null;
+  exitstatus: string | null;
+  error: string | null;
+}
+
+interface Job {
+  id: string;
+  type: string;
+  status: string;
+  params: any;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  cancel_requested: number;
+  hold_until: string | null;
+  items?: JobItem[];
+}
+
+interface JobProgressModalProps {
+  jobId: string | null;
+  title?: string;
+  onClose: () => void;
+  onFinished?: (job: Job) => void;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+const FINISHED_STATUSES = ['completed', 'partial', 'failed', 'cancelled'];
+
+const jobStatusConfig: Record<string, { color: string; text: string }> = {
+  queued: { color: 'default', text: '排队中' },
+  running: { color: 'processing', text: '执行中' },
+  completed: { color: 'success', text: '已完成' },
+  partial: { color: 'warning', text: '部分失败' },
+  failed: { color: 'error', text: '失败' },
+  cancelled: { color: 'default', text: '已取消' },
+};
+
+const itemStatusConfig: Record<string, { color: string; text: string }> = {
+  pending: { color: 'default', text: '等待' },
+  running: { color: 'processing', text: '执行中' },
+  success: { color: 'success', text: '成功' },
+  failed: { color: 'error', text: '失败' },
+  skipped: { color: 'warning', text: '跳过' },
+  cancelled: { color: 'default', text: '已取消' },
+};
+
+// 后台批量任务进度：初始状态通过接口获取，之后由 job-updated / job-item-updated 事件更新
+function JobProgressModal({ jobId, title, onClose, onFinished }: JobProgressModalProps) {
+  const { token } = useAuth();
+  const { socket } = usePVE();
+  const [job, setJob] = useState<Job | null>(null);
+  const [items, setItems] = useState<JobItem[]>([]);
+  const [cancelling, setCancelling] = useState(false);
+
+  useEffect(() => {
+    if (!jobId) return;
+    setJob(null);
+    setItems([]);
+    fetch(`${API_BASE_URL}/api/jobs/${jobId}`, { headers: { 'Authorization': `Bearer ${token}` } })
+      .then(response => response.json())
+      .then(data => {
+        if (data.error) {
+          message.error(data.error);
+          return;
+        }
+        const { items: jobItems, ...rest } = data;
+        setJob(rest);
+        setItems(jobItems);
+      })
+      .catch(error => message.error(`获取任务失败: ${error.message}`));
+  }, [jobId]);
+
+  useEffect(() => {
+    if (!socket || !jobId) return;
+
+    const onJobUpdated = (data: Job) => {
+      if (data.id !== jobId) return;
+      setJob(data);
+      if (FINISHED_STATUSES.includes(data.status)) {
+        onFinished?.(data);
+      }
+    };
+    const onItemUpdated = ({ jobId: id, item }: { jobId: string; item: JobItem }) => {
+      if (id !== jobId) return;
+      setItems(prev => prev.map(existing => existing.id === item.id ? item : existing));
+    };
+
+    socket.on('job-updated', onJobUpdated);
+    socket.on('job-item-updated', onItemUpdated);
+    return () => {
+      socket.off('job-updated', onJobUpdated);
+      socket.off('job-item-updated', onItemUpdated);
+    };
+  }, [socket, jobId]);
+
+  const handleCancel = async () => {
+    if (!jobId) return;
+    setCancelling(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/jobs/${jobId}/cancel`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setJob(data.job);
+        message.info(data.message);
+      } else {
+        message.error(data.error || '取消失败');
+      }
+    } catch (error: any) {
+      message.error(`取消失败: ${error.message}`);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const finished = job ? FINISHED_STATUSES.includes(job.status) : false;
+  const done = job ? job.succeeded + job.failed + job.skipped : 0;
+  const percent = job && job.total > 0 ? Math.round(done / job.total * 100) : 0;
+
+  // 分阶段执行的任务（分组顺序启动）显示阶段列
+  const staged = new Set(items.map(item => item.stage)).size > 1;
+
+  const columns = [
+    ...(staged ? [{ title: '阶段', dataIndex: 'stage', key: 'stage', width: 60, render: (stage: number) => Math.abs(stage) }] : []),
+    { title: 'VMID', dataIndex: 'vmid', key: 'vmid', width: 80 },
+    { title: '名称', dataIndex: 'vmname', key: 'vmname', render: (name: string | null) => name || '-' },
+    { title: '节点', dataIndex: 'node', key: 'node', width: 100 },
+    {
+      title: '状态',
+      dataIndex: 'status',
+      key: 'status',
+      width: 100,
+      render: (status: string, record: JobItem) => (
+        <Space size={4}>
+          <Tag color={itemStatusConfig[status]?.color}>{itemStatusConfig[status]?.text || status}</Tag>
+          {record.attempts > 1 && <Text type="secondary">第{record.attempts}次</Text>}
+        </Space>
+      ),
+    },
+    {
+      title: '结果',
+      key: 'result',
+      ellipsis: true,
+      render: (_: any, record: JobItem) => record.error
+        ? <Tooltip title={record.error}><Text type={record.status === 'failed' ? 'danger' : 'secondary'}>{record.error}</Text></Tooltip>
+        : <Text type="secondary">{record.exitstatus || ''}</Text>,
+    },
+  ];
+
+  return (
+    <Modal
+      title={title || '批量任务'}
+      open={!!jobId}
+      onCancel={onClose}
+      width={760}
+      footer={[
+        !finished && (
+          <Button key="cancel" danger onClick={handleCancel} loading={cancelling} disabled={!job || !!job.cancel_requested}>
+            {job?.cancel_requested ? '正在取消' : '取消任务'}
+          </Button>
+        ),
+        <Button key="close" type={finished ? 'primary' : 'default'} onClick={onClose}>
+          {finished ? '关闭' : '后台运行'}
+        </Button>,
+      ]}
+    >
+      {job && (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Space>
+            <Tag color={jobStatusConfig[job.status]?.color}>{jobStatusConfig[job.status]?.text || job.status}</Tag>
+            <Text>成功 {job.succeeded}</Text>
+            <Text type="warning">跳过 {job.skipped}</Text>
+            <Text type="danger">失败 {job.failed}</Text>
+            <Text type="secondary">共 {job.total}</Text>
+            {job.status === 'queued' && job.hold_until && (
+              <Text type="secondary">等待维护窗口，{new Date(job.hold_until).toLocaleString()} 开始</Text>
+            )}
+          </Space>
+          <Progress
+            percent={percent}
+            status={job.status === 'failed' ? 'exception' : finished ? (job.failed > 0 ? 'normal' : 'success') : 'active'}
+          />
+          <Table
+            size="small"
+            rowKey="id"
+            columns={columns}
+            dataSource={items}
+            pagination={items.length > 10 ? { pageSize: 10, size: 'small' } : false}
+          />
+        </Space>
+      )}
+    </Modal>
+  );
+}
+
+export default JobProgressModal;
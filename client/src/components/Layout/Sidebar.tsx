@@ -18,6 +18,7 @@ import {
   SettingOutlined,
   VideoCameraOutlined,
   CodeOutlined,
+  ToolOutlined,
 } from '@ant-design/icons';
 import { useAuth, Roles } from '../../contexts/AuthContext';
 
@@ -89,6 +90,11 @@ function Sidebar() {
       icon: <ClockCircleOutlined />,
       label: '调度任务',
     },
+    {
+      key: '/maintenance',
+      icon: <ToolOutlined />,
+      label: '维护窗口',
+    },
     {
       key: '/vnc-recordings',
       icon: <VideoCameraOutlined />,
@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import { Modal, Alert, List, Input, Button, Space, Typography } from 'antd';
+import dayjs from 'dayjs';
+import { useAuth, Roles } from '../contexts/AuthContext';
+
+const { Text } = Typography;
+
+export interface MaintenanceConflict {
+  connection_id: string;
+  node?: string;
+  vmid?: number;
+  reason: 'freeze' | 'outside_window';
+  windows: Array<{ id: string; name: string }>;
+  message: string;
+}
+
+// 中断性操作被维护窗口拒绝 (409) 时服务端返回的内容
+export interface MaintenanceRejection {
+  error: string;
+  conflicts: MaintenanceConflict[];
+  next_allowed_at: string | null;
+}
+
+// 重新提交时附加到请求中的参数
+export type MaintenanceResolution = { maintenance_policy: 'queue' } | { override_reason: string };
+
+interface MaintenanceConflictModalProps {
+  rejection: MaintenanceRejection | null;
+  allowQueue?: boolean;
+  onCancel: () => void;
+  onResolve: (resolution: MaintenanceResolution) => Promise<void> | void;
+}
+
+export function isMaintenanceRejection(status: number, data: any): data is MaintenanceRejection {
+  return status === 409 && Array.isArray(data?.conflicts);
+}
+
+// 显示不允许执行的原因，可选择排队到允许的时间执行，管理员可填写原因后忽略限制
+function MaintenanceConflictModal({ rejection, allowQueue = true, onCancel, onResolve }: MaintenanceConflictModalProps) {
+  const { hasRole } = useAuth();
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReason('');
+  }, [rejection]);
+
+  const resolve = async (resolution: MaintenanceResolution) => {
+    setSubmitting(true);
+    try {
+      await onResolve(resolution);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const nextAllowed = rejection?.next_allowed_at ? dayjs(rejection.next_allowed_at).format('YYYY-MM-DD HH:mm') : null;
+
+  return (
+    <Modal
+      title="维护窗口限制"
+      open={!!rejection}
+      onCancel={onCancel}
+      footer={[
+        <Button key="cancel" onClick={onCancel}>取消</Button>,
+        allowQueue && nextAllowed && (
+          <Button key="queue" type="primary" loading={submitting} onClick={() => resolve({ maintenance_policy: 'queue' })}>
+            排队到 {nextAllowed} 执行
+          </Button>
+        ),
+      ]}
+    >
+      {rejection && (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Alert
+            type="warning"
+            showIcon
+            message="当前不允许执行中断性操作"
+            description={nextAllowed ? `最早可执行时间: ${nextAllowed}` : `${allowQueue ? '31天内' : '近期'}没有允许执行的时间`}
+          />
+          <List
+            size="small"
+            bordered
+            dataSource={rejection.conflicts.slice(0, 20)}
+            renderItem={(conflict) => (
+              <List.Item>
+                <Text type={conflict.reason === 'freeze' ? 'danger' : undefined}>{conflict.message}</Text>
+              </List.Item>
+            )}
+            footer={rejection.conflicts.length > 20 ? <Text type="secondary">共 {rejection.conflicts.length} 个目标</Text> : undefined}
+          />
+          {hasRole(Roles.ADMIN) && (
+            <Space.Compact style={{ width: '100%' }}>
+              <Input
+                placeholder="忽略限制的原因（记录到操作日志）"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <Button danger loading={submitting} disabled={!reason.trim()} onClick={() => resolve({ override_reason: reason.trim() })}>
+                忽略限制执行
+              </Button>
+            </Space.Compact>
+          )}
+        </Space>
+      )}
+    </Modal>
+  );
+}
+
+export default MaintenanceConflictModal;
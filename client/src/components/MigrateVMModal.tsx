@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal, Form, Select, Switch, Input, Alert, Button, Progress, Typography, Space, Tag, message
+} from 'antd';
+import { useAuth } from '../contexts/AuthContext';
+import { usePVE } from '../contexts/PVEContext';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+interface MigrateSource {
+  vmid: number;
+  name: string;
+  type: 'qemu' | 'lxc';
+  node: string;
+  status: string;
+  connectionId: string;
+}
+
+interface MigrateVMModalProps {
+  visible: boolean;
+  source: MigrateSource | null;
+  onClose: () => void;
+}
+
+interface Precheck {
+  allowed: boolean;
+  running: boolean;
+  localDisks: string[];
+  localResources: string[];
+  storages: string[];
+  unavailableStorages: string[];
+  problems: string[];
+  warnings: string[];
+}
+
+interface MigrationState {
+  upid: string;
+  status: 'running' | 'success' | 'failed';
+  progress?: number;
+  lastLine?: string;
+  exitstatus?: string;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+function MigrateVMModal({ visible, source, onClose }: MigrateVMModalProps) {
+  const { token } = useAuth();
+  const { nodes, socket, refreshVMs } = usePVE();
+  const [form] = Form.useForm();
+  const [checking, setChecking] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [precheck, setPrecheck] = useState<Precheck | null>(null);
+  const [migration, setMigration] = useState<MigrationState | null>(null);
+
+  const targetNodes = nodes.filter(node => node.connectionId === source?.connectionId && node.node !== source?.node);
+  const running = source?.status === 'running';
+
+  useEffect(() => {
+    if (visible && source) {
+      setPrecheck(null);
+      setMigration(null);
+      form.setFieldsValue({
+        target: undefined,
+        online: running,
+        restart: running,
+        withLocalDisks: false,
+        targetStorage: '',
+      });
+    }
+  }, [visible, source]);
+
+  // 接收迁移进度推送
+  useEffect(() => {
+    if (!socket || !migration) return;
+
+    const onProgress = (data: any) => {
+      if (data.upid !== migration.upid) return;
+      setMigration(prev => prev && {
+        ...prev,
+        progress: data.progress ?? prev.progress,
+        lastLine: data.lastLine ?? prev.lastLine,
+      });
+    };
+    const onCompleted = (data: any) => {
+      if (data.upid !== migration.upid) return;
+      setMigration(prev => prev && {
+        ...prev,
+        status: data.success ? 'success' : 'failed',
+        progress: data.success ? 100 : prev.progress,
+        exitstatus: data.exitstatus,
+      });
+      if (data.success) {
+        message.success(`VM ${data.vmid} 已迁移到 ${data.target}`);
+        refreshVMs();
+      } else {
+        message.error(`VM ${data.vmid} 迁移失败: ${data.exitstatus}`);
+      }
+    };
+
+    socket.on('vm-migration-progress', onProgress);
+    socket.on('vm-migration-completed', onCompleted);
+    return () => {
+      socket.off('vm-migration-progress', onProgress);
+      socket.off('vm-migration-completed', onCompleted);
+    };
+  }, [socket, migration?.upid]);
+
+  const buildParams = (values: any) => ({
+    node: source!.node,
+    type: source!.type,
+    target: values.target,
+    online: source!.type === 'qemu' && values.online,
+    restart: source!.type === 'lxc' && values.restart,
+    withLocalDisks: source!.type === 'qemu' && values.withLocalDisks,
+    targetStorage: values.targetStorage || undefined,
+  });
+
+  const handlePrecheck = async () => {
+    if (!source) return;
+    const values = await form.validateFields();
+    setChecking(true);
+    try {
+      const params = new URLSearchParams();
+      Object.entries(buildParams(values)).forEach(([key, value]) => {
+        if (value !== undefined) params.append(key, String(value));
+      });
+      const response = await fetch(
+        `${API_BASE_URL}/api/pve/connections/${source.connectionId}/vms/${source.vmid}/migrate/precheck?${params}`,
+        { headers: { 'Authorization': `Bearer ${token}` } }
+      );
+      const data = await response.json();
+      if (response.ok) {
+        setPrecheck(data);
+      } else {
+        message.error(data.error || '预检失败');
+      }
+    } catch (error: any) {
+      message.error(`预检失败: ${error.message}`);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleMigrate = async () => {
+    if (!source) return;
+    const values = await form.validateFields();
+    setSubmitting(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/pve/connections/${source.connectionId}/vms/${source.vmid}/migrate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(buildParams(values)),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMigration({ upid: data.taskId, status: 'running' });
+      } else {
+        if (data.precheck) setPrecheck(data.precheck);
+        message.error(data.error || '迁移失败');
+      }
+    } catch (error: any) {
+      message.error(`迁移失败: ${error.message}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={source ? `迁移 ${source.name} (${source.vmid})` : '迁移'}
+      open={visible}
+      onCancel={onClose}
+      maskClosable={false}
+      width={600}
+      footer={migration ? [
+        <Button key="close" onClick={onClose}>
+          {migration.status === 'running' ? '后台运行' : '关闭'}
+        </Button>
+      ] : [
+        <Button key="cancel" onClick={onClose}>取消</Button>,
+        <Button key="precheck" onClick={handlePrecheck} loading={checking}>预检</Button>,
+        <Button key="migrate" type="primary" onClick={handleMigrate} loading={submitting} disabled={!precheck?.allowed}>
+          开始迁移
+        </Button>,
+      ]}
+    >
+      {migration ? (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Progress
+            percent={migration.progress ?? 0}
+            status={migration.status === 'failed' ? 'exception' : migration.status === 'success' ? 'success' : 'active'}
+          />
+          {migration.lastLine && <Text type="secondary">{migration.lastLine}</Text>}
+          {migration.status === 'failed' && <Alert type="error" showIcon message={migration.exitstatus} />}
+        </Space>
+      ) : (
+        <Form form={form} layout="vertical" onValuesChange={() => setPrecheck(null)}>
+          <Form.Item name="target" label="目标节点" rules={[{ required: true, message: '请选择目标节点' }]}>
+            <Select placeholder="选择节点">
+              {targetNodes.map(node => (
+                <Option key={node.node} value={node.node} disabled={node.status !== 'online'}>
+                  {node.node}
+                </Option>
+              ))}
+            </Select>
+          </Form.Item>
+          {source?.type === 'qemu' ? (
+            <>
+              <Form.Item name="online" label="在线迁移" valuePropName="checked">
+                <Switch />
+              </Form.Item>
+              <Form.Item name="withLocalDisks" label="迁移本地磁盘 (with-local-disks)" valuePropName="checked">
+                <Switch />
+              </Form.Item>
+            </>
+          ) : (
+            <Form.Item name="restart" label="重启模式" valuePropName="checked" extra="运行中的容器需要停止后在目标节点重新启动">
+              <Switch />
+            </Form.Item>
+          )}
+          <Form.Item name="targetStorage" label="目标存储" extra="留空时使用与源相同的存储">
+            <Input placeholder="例如 local-lvm" />
+          </Form.Item>
+
+          {precheck && (
+            <Alert
+              type={precheck.allowed ? (precheck.warnings.length > 0 ? 'warning' : 'success') : 'error'}
+              showIcon
+              message={precheck.allowed ? '预检通过' : '预检未通过'}
+              description={
+                <Space direction="vertical" size={4}>
+                  {precheck.problems.map(problem => <Text key={problem} type="danger">{problem}</Text>)}
+                  {precheck.warnings.map(warning => <Text key={warning} type="warning">{warning}</Text>)}
+                  {precheck.storages.length > 0 && (
+                    <span>
+                      存储:{' '}
+                      {precheck.storages.map(storage => (
+                        <Tag key={storage} color={precheck.unavailableStorages.includes(storage) ? 'red' : 'green'}>{storage}</Tag>
+                      ))}
+                    </span>
+                  )}
+                  {precheck.localDisks.length > 0 && <span>本地磁盘: {precheck.localDisks.join(', ')}</span>}
+                </Space>
+              }
+            />
+          )}
+        </Form>
+      )}
+    </Modal>
+  );
+}
+
+export default MigrateVMModal;
@@ -0,0 +1,414 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal, Form, InputNumber, Input, Select, Switch, Table, Button, Alert, Tag, Space, Typography, Divider, Spin, message
+} from 'antd';
+import { DeleteOutlined, UndoOutlined, PlusOutlined } from '@ant-design/icons';
+import { useAuth } from '../contexts/AuthContext';
+import { usePVE } from '../contexts/PVEContext';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+interface ConfigTarget {
+  vmid: number;
+  name: string;
+  type: 'qemu' | 'lxc';
+  node: string;
+  connectionId: string;
+}
+
+interface VMConfigModalProps {
+  visible: boolean;
+  target: ConfigTarget | null;
+  onClose: () => void;
+}
+
+interface PendingChange {
+  key: string;
+  value?: any;
+  pending?: any;
+  delete: boolean;
+}
+
+interface ConfigData {
+  config: Record<string, any>;
+  digest: string;
+  running: boolean;
+  hotplug?: string[];
+  pending: PendingChange[];
+}
+
+interface ConfigChange {
+  key: string;
+  action: 'set' | 'delete' | 'resize';
+  value?: string | number;
+  effect: 'live' | 'hotplug' | 'reboot';
+}
+
+interface NewNetwork {
+  bridge: string;
+  model?: string;
+  vlan?: number;
+  firewall?: boolean;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+const DISK_KEY = /^(ide|sata|scsi|virtio|efidisk|tpmstate)\d+$|^(rootfs|mp\d+)$/;
+const NIC_MODELS = ['virtio', 'e1000', 'rtl8139', 'vmxnet3'];
+
+const effectTags: Record<string, { color: string; text: string }> = {
+  live: { color: 'green', text: '立即生效' },
+  hotplug: { color: 'blue', text: '热插拔' },
+  reboot: { color: 'orange', text: '重启后生效' },
+};
+
+const actionLabels: Record<string, string> = {
+  set: '修改',
+  delete: '删除',
+  resize: '扩容',
+};
+
+function diskSize(value: string): string {
+  return /size=([^,]+)/.exec(value)?.[1] || '-';
+}
+
+// 有待生效修改时以修改后的值为准
+function effectiveValue(data: ConfigData, key: string): any {
+  const pending = data.pending.find(item => item.key === key);
+  return pending && !pending.delete ? pending.pending : data.config[key];
+}
+
+function VMConfigModal({ visible, target, onClose }: VMConfigModalProps) {
+  const { token, hasPermission } = useAuth();
+  const { refreshVMs } = usePVE();
+  const [form] = Form.useForm();
+  const [nicForm] = Form.useForm();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [data, setData] = useState<ConfigData | null>(null);
+  const [removedNics, setRemovedNics] = useState<string[]>([]);
+  const [newNics, setNewNics] = useState<NewNetwork[]>([]);
+  const [resizes, setResizes] = useState<Record<string, number>>({});
+  const [preview, setPreview] = useState<ConfigChange[] | null>(null);
+  const [conflict, setConflict] = useState(false);
+
+  const canEdit = hasPermission('vm:config');
+
+  const loadConfig = async () => {
+    if (!target) return;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ node: target.node, type: target.type });
+      const response = await fetch(
+        `${API_BASE_URL}/api/pve/connections/${target.connectionId}/vms/${target.vmid}/config?${params}`,
+        { headers: { 'Authorization': `Bearer ${token}` } }
+      );
+      const result = await response.json();
+      if (response.ok) {
+        setData(result);
+        setRemovedNics([]);
+        setNewNics([]);
+        setResizes({});
+        setPreview(null);
+        setConflict(false);
+        form.setFieldsValue({
+          cores: effectiveValue(result, 'cores') ?? 1,
+          sockets: effectiveValue(result, 'sockets') ?? 1,
+          memory: effectiveValue(result, 'memory') ?? 512,
+          swap: effectiveValue(result, 'swap'),
+        });
+      } else {
+        message.error(result.error || '读取配置失败');
+      }
+    } catch (error: any) {
+      message.error(`读取配置失败: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (visible && target) {
+      setData(null);
+      loadConfig();
+    }
+  }, [visible, target]);
+
+  // 只提交与当前配置不同的字段
+  const buildRequest = () => {
+    const values = form.getFieldsValue();
+    const set: Record<string, number> = {};
+    const fields = target?.type === 'qemu' ? ['cores', 'sockets', 'memory'] : ['cores', 'memory', 'swap'];
+    for (const field of fields) {
+      if (values[field] !== undefined && values[field] !== null && String(values[field]) !== String(effectiveValue(data!, field))) {
+        set[field] = values[field];
+      }
+    }
+    return {
+      node: target!.node,
+      type: target!.type,
+      digest: data!.digest,
+      set,
+      delete: removedNics,
+      addNetworks: newNics,
+      resize: Object.entries(resizes)
+        .filter(([, size]) => size > 0)
+        .map(([disk, size]) => ({ disk, size: `+${size}G` })),
+    };
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!target || !data) return;
+    const body = buildRequest();
+    if (Object.keys(body.set).length === 0 && body.delete.length === 0 && body.addNetworks.length === 0 && body.resize.length === 0) {
+      message.info('没有修改');
+      return;
+    }
+    setSaving(true);
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/pve/connections/${target.connectionId}/vms/${target.vmid}/config${dryRun ? '?dryRun=true' : ''}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify(body),
+        }
+      );
+      const result = await response.json();
+      if (response.status === 409) {
+        setConflict(true);
+        message.error(result.error);
+      } else if (!response.ok) {
+        message.error(result.error || '保存失败');
+      } else if (dryRun) {
+        setPreview(result.changes);
+      } else {
+        const rebootKeys = result.changes.filter((change: ConfigChange) => change.effect === 'reboot').map((change: ConfigChange) => change.key);
+        if (rebootKeys.length > 0) {
+          message.warning(`配置已保存，${rebootKeys.join(', ')} 需要重启后生效`);
+        } else {
+          message.success('配置已保存并生效');
+        }
+        loadConfig();
+        refreshVMs();
+      }
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const config = data?.config || {};
+  const disks = Object.keys(config)
+    .filter(key => DISK_KEY.test(key) && !String(config[key]).includes('media=cdrom') && !String(config[key]).includes('cloudinit'))
+    .map(key => ({ key, value: String(config[key]) }));
+  const nics = Object.keys(config)
+    .filter(key => /^net\d+$/.test(key))
+    .map(key => ({ key, value: String(config[key]) }));
+
+  const addNic = async () => {
+    const values = await nicForm.validateFields();
+    setNewNics([...newNics, { ...values, vlan: values.vlan || undefined }]);
+    setPreview(null);
+    nicForm.resetFields();
+  };
+
+  return (
+    <Modal
+      title={target ? `硬件配置 - ${target.name} (${target.vmid})` : '硬件配置'}
+      open={visible}
+      onCancel={onClose}
+      maskClosable={false}
+      width={760}
+      footer={canEdit ? [
+        <Button key="cancel" onClick={onClose}>关闭</Button>,
+        <Button key="preview" onClick={() => submit(true)} loading={saving} disabled={!data || conflict}>预览生效方式</Button>,
+        <Button key="save" type="primary" onClick={() => submit(false)} loading={saving} disabled={!data || conflict}>保存</Button>,
+      ] : [
+        <Button key="cancel" onClick={onClose}>关闭</Button>,
+      ]}
+    >
+      <Spin spinning={loading}>
+        {conflict && (
+          <Alert
+            type="error"
+            showIcon
+            style={{ marginBottom: 16 }}
+            message="配置已被其他用户修改"
+            description="为避免覆盖他人的修改，请重新加载最新配置后再编辑。"
+            action={<Button size="small" onClick={loadConfig}>重新加载</Button>}
+          />
+        )}
+
+        {data && data.pending.length > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: 16 }}
+            message="以下修改需要重启后生效"
+            description={
+              <Space direction="vertical" size={2}>
+                {data.pending.map(item => (
+                  <Text key={item.key}>
+                    <Text code>{item.key}</Text>
+                    {item.delete ? ' 将被删除' : `: ${item.value ?? '-'} → ${item.pending}`}
+                  </Text>
+                ))}
+              </Space>
+            }
+          />
+        )}
+
+        {data?.hotplug && (
+          <div style={{ marginBottom: 16 }}>
+            <Text type="secondary">热插拔: </Text>
+            {data.hotplug.length > 0
+              ? data.hotplug.map(feature => <Tag key={feature}>{feature}</Tag>)
+              : <Text type="secondary">未启用</Text>}
+          </div>
+        )}
+
+        <Form form={form} layout="inline" disabled={!canEdit} onValuesChange={() => setPreview(null)}>
+          <Form.Item name="cores" label="CPU核心">
+            <InputNumber min={1} max={128} />
+          </Form.Item>
+          {target?.type === 'qemu' && (
+            <Form.Item name="sockets" label="插槽">
+              <InputNumber min={1} max={4} />
+            </Form.Item>
+          )}
+          <Form.Item name="memory" label="内存 (MiB)">
+            <InputNumber min={16} step={512} />
+          </Form.Item>
+          {target?.type === 'lxc' && (
+            <Form.Item name="swap" label="Swap (MiB)">
+              <InputNumber min={0} step={512} />
+            </Form.Item>
+          )}
+        </Form>
+
+        <Divider orientation="left">磁盘</Divider>
+        <Table
+          size="small"
+          rowKey="key"
+          pagination={false}
+          dataSource={disks}
+          columns={[
+            { title: '设备', dataIndex: 'key', width: 90 },
+            { title: '卷', dataIndex: 'value', ellipsis: true, render: (value: string) => value.split(',')[0] },
+            { title: '大小', dataIndex: 'value', width: 90, render: (value: string) => diskSize(value) },
+            {
+              title: '扩容 (GiB)',
+              width: 130,
+              render: (_: any, record: { key: string }) => (
+                <InputNumber
+                  min={0}
+                  size="small"
+                  disabled={!canEdit}
+                  value={resizes[record.key]}
+                  placeholder="+0"
+                  onChange={(value) => {
+                    setResizes({ ...resizes, [record.key]: value || 0 });
+                    setPreview(null);
+                  }}
+                />
+              ),
+            },
+          ]}
+        />
+
+        <Divider orientation="left">网卡</Divider>
+        <Table
+          size="small"
+          rowKey="key"
+          pagination={false}
+          dataSource={[
+            ...nics,
+            ...newNics.map((nic, index) => ({ key: `new-${index}`, value: `${nic.model || 'virtio'},bridge=${nic.bridge}${nic.vlan ? `,tag=${nic.vlan}` : ''}` })),
+          ]}
+          columns={[
+            {
+              title: '设备',
+              dataIndex: 'key',
+              width: 90,
+              render: (key: string) => key.startsWith('new-') ? <Tag color="green">新增</Tag> : key,
+            },
+            {
+              title: '配置',
+              dataIndex: 'value',
+              ellipsis: true,
+              render: (value: string, record: { key: string }) => removedNics.includes(record.key) ? <Text delete>{value}</Text> : value,
+            },
+            {
+              title: '',
+              width: 60,
+              render: (_: any, record: { key: string }) => {
+                if (!canEdit) return null;
+                if (record.key.startsWith('new-')) {
+                  const index = parseInt(record.key.slice(4));
+                  return <Button size="small" type="text" danger icon={<DeleteOutlined />} onClick={() => setNewNics(newNics.filter((_, i) => i !== index))} />;
+                }
+                return removedNics.includes(record.key)
+                  ? <Button size="small" type="text" icon={<UndoOutlined />} onClick={() => setRemovedNics(removedNics.filter(key => key !== record.key))} />
+                  : <Button size="small" type="text" danger icon={<DeleteOutlined />} onClick={() => { setRemovedNics([...removedNics, record.key]); setPreview(null); }} />;
+              },
+            },
+          ]}
+        />
+        {canEdit && (
+          <Form form={nicForm} layout="inline" style={{ marginTop: 8 }}>
+            <Form.Item name="bridge" rules={[{ required: true, message: '请输入网桥' }]}>
+              <Input placeholder="网桥 (如 vmbr0)" style={{ width: 140 }} />
+            </Form.Item>
+            {target?.type === 'qemu' && (
+              <Form.Item name="model" initialValue="virtio">
+                <Select style={{ width: 110 }}>
+                  {NIC_MODELS.map(model => <Option key={model} value={model}>{model}</Option>)}
+                </Select>
+              </Form.Item>
+            )}
+            <Form.Item name="vlan">
+              <InputNumber min={1} max={4094} placeholder="VLAN" />
+            </Form.Item>
+            <Form.Item name="firewall" valuePropName="checked" label="防火墙">
+              <Switch size="small" />
+            </Form.Item>
+            <Button icon={<PlusOutlined />} onClick={addNic}>添加网卡</Button>
+          </Form>
+        )}
+
+        {preview && (
+          <>
+            <Divider orientation="left">生效方式</Divider>
+            <Table
+              size="small"
+              rowKey={(record) => `${record.action}-${record.key}`}
+              pagination={false}
+              dataSource={preview}
+              columns={[
+                { title: '配置项', dataIndex: 'key', width: 100 },
+                { title: '操作', dataIndex: 'action', width: 70, render: (action: string) => actionLabels[action] },
+                { title: '值', dataIndex: 'value', ellipsis: true, render: (value: any) => value ?? '-' },
+                {
+                  title: data?.running ? '运行中生效方式' : '生效方式',
+                  dataIndex: 'effect',
+                  width: 130,
+                  render: (effect: string) => data?.running
+                    ? <Tag color={effectTags[effect].color}>{effectTags[effect].text}</Tag>
+                    : <Tag color="green">立即生效（已关机）</Tag>,
+                },
+              ]}
+            />
+          </>
+        )}
+      </Spin>
+    </Modal>
+  );
+}
+
+export default VMConfigModal;
@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { Modal, Form, Select, Input, Button, Space, Divider, message } from 'antd';
+import { PlusOutlined } from '@ant-design/icons';
+import { useAuth } from '../contexts/AuthContext';
+import { usePVE } from '../contexts/PVEContext';
+
+const { Option } = Select;
+
+interface TagsTarget {
+  vmid: number;
+  name: string;
+  type: 'qemu' | 'lxc';
+  node: string;
+  connectionId: string;
+  tags?: string;
+  pool?: string;
+}
+
+interface VMTagsModalProps {
+  visible: boolean;
+  target: TagsTarget | null;
+  knownTags: string[];
+  onClose: () => void;
+}
+
+interface Pool {
+  poolid: string;
+  comment?: string;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+// PVE标签只能包含字母、数字、_、-、+、.
+const TAG_PATTERN = /^[a-z0-9_][a-z0-9_\-+.]*$/i;
+
+export function splitTags(tags?: string): string[] {
+  return tags ? tags.split(/[;,\s]+/).filter(Boolean) : [];
+}
+
+// 编辑VM的PVE标签和所属资源池
+function VMTagsModal({ visible, target, knownTags, onClose }: VMTagsModalProps) {
+  const { token, hasPermission } = useAuth();
+  const { refreshVMs } = usePVE();
+  const [pools, setPools] = useState<Pool[]>([]);
+  const [newPool, setNewPool] = useState('');
+  const [creatingPool, setCreatingPool] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm();
+
+  const canEditTags = hasPermission('vm:config');
+  const canManagePools = hasPermission('pool:manage');
+
+  const loadPools = async () => {
+    if (!target) return;
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/pve/connections/${target.connectionId}/pools`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setPools(data);
+      }
+    } catch (error: any) {
+      message.error(`获取资源池失败: ${error.message}`);
+    }
+  };
+
+  useEffect(() => {
+    if (!visible || !target) return;
+    form.setFieldsValue({ tags: splitTags(target.tags), pool: target.pool || undefined });
+    setNewPool('');
+    if (canManagePools) {
+      loadPools();
+    }
+  }, [visible, target]);
+
+  const handleCreatePool = async () => {
+    if (!target || !newPool) return;
+    setCreatingPool(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/pve/connections/${target.connectionId}/pools`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ poolid: newPool }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        message.success(data.message);
+        await loadPools();
+        form.setFieldValue('pool', newPool);
+        setNewPool('');
+      } else {
+        message.error(data.error || '创建资源池失败');
+      }
+    } catch (error: any) {
+      message.error(`创建资源池失败: ${error.message}`);
+    } finally {
+      setCreatingPool(false);
+    }
+  };
+
+  const request = async (path: string, body: any) => {
+    const response = await fetch(`${API_BASE_URL}/api/pve/connections/${target!.connectionId}/vms/${target!.vmid}/${path}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || '保存失败');
+    }
+  };
+
+  const handleSave = async (values: any) => {
+    if (!target) return;
+    const tags: string[] = values.tags || [];
+    const invalid = tags.find(tag => !TAG_PATTERN.test(tag));
+    if (invalid) {
+      message.error(`标签 "${invalid}" 无效，只能包含字母、数字、_、-、+、.`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const currentTags = splitTags(target.tags);
+      const tagsChanged = tags.length !== currentTags.length || tags.some(tag => !currentTags.includes(tag.toLowerCase()));
+      if (canEditTags && tagsChanged) {
+        await request('tags', { node: target.node, type: target.type, tags });
+      }
+      const pool = values.pool || null;
+      if (canManagePools && pool !== (target.pool || null)) {
+        await request('pool', { pool });
+      }
+      message.success('已保存');
+      refreshVMs();
+      onClose();
+    } catch (error: any) {
+      message.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={`标签与资源池 - ${target?.name} (${target?.vmid})`}
+      open={visible}
+      onCancel={onClose}
+      onOk={() => form.submit()}
+      confirmLoading={saving}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical" onFinish={handleSave}>
+        <Form.Item name="tags" label="标签" tooltip="PVE标签，输入后回车添加">
+          <Select mode="tags" placeholder="输入标签" disabled={!canEditTags} tokenSeparators={[',', ';', ' ']}>
+            {knownTags.map(tag => (
+              <Option key={tag} value={tag}>{tag}</Option>
+            ))}
+          </Select>
+        </Form.Item>
+        <Form.Item name="pool" label="资源池">
+          <Select
+            allowClear
+            placeholder="不属于任何资源池"
+            disabled={!canManagePools}
+            dropdownRender={(menu) => (
+              <>
+                {menu}
+                <Divider style={{ margin: '8px 0' }} />
+                <Space style={{ padding: '0 8px 4px' }}>
+                  <Input
+                    placeholder="新资源池ID"
+                    value={newPool}
+                    onChange={(e) => setNewPool(e.target.value.trim())}
+                    onKeyDown={(e) => e.stopPropagation()}
+                  />
+                  <Button type="text" icon={<PlusOutlined />} onClick={handleCreatePool} loading={creatingPool} disabled={!newPool}>
+                    创建
+                  </Button>
+                </Space>
+              </>
+            )}
+          >
+            {pools.map(pool => (
+              <Option key={pool.poolid} value={pool.poolid}>
+                {pool.poolid}{pool.comment ? ` (${pool.comment})` : ''}
+              </Option>
+            ))}
+          </Select>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
+
+export default VMTagsModal;
@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react';
+import { Modal, Form, Input, Select, InputNumber, Checkbox, Button, Card, Space, Typography, message } from 'antd';
+import { PlusOutlined, DeleteOutlined, ArrowUpOutlined, ArrowDownOutlined } from '@ant-design/icons';
+import { useAuth } from '../contexts/AuthContext';
+
+const { Option } = Select;
+const { Text } = Typography;
+
+export interface WorkflowStep {
+  name?: string;
+  action: string;
+  on_failure: 'continue' | 'abort' | 'rollback';
+  options?: { storage?: string; mode?: string; compress?: string; snapshot_prefix?: string; vmstate?: boolean };
+  check?: { type: 'agent' | 'tcp' | 'http'; host?: string; port?: number; url?: string; expect_status?: number; timeout?: number };
+  seconds?: number;
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description?: string;
+  steps: WorkflowStep[];
+  task_count?: number;
+}
+
+interface WorkflowEditorModalProps {
+  visible: boolean;
+  workflow: Workflow | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const STEP_ACTIONS: Record<string, string> = {
+  snapshot: '创建快照',
+  shutdown: '关机',
+  stop: '强制关机',
+  backup: '备份',
+  start: '启动',
+  reboot: '重启',
+  health_check: '健康检查',
+  wait: '等待',
+};
+
+const FAILURE_POLICIES: Record<string, string> = {
+  abort: '停止该VM的后续步骤',
+  continue: '继续后续步骤',
+  rollback: '回滚快照并停止',
+};
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+// 表单中的步骤字段是扁平的，提交时转换为接口格式
+function toFormStep(step: WorkflowStep) {
+  return {
+    name: step.name,
+    action: step.action,
+    on_failure: step.on_failure,
+    ...step.options,
+    check_type: step.check?.type,
+    check_host: step.check?.host,
+    check_port: step.check?.port,
+    check_url: step.check?.url,
+    check_timeout: step.check?.timeout,
+    seconds: step.seconds,
+  };
+}
+
+function fromFormStep(values: any): WorkflowStep {
+  const step: WorkflowStep = { action: values.action, on_failure: values.on_failure || 'abort' };
+  if (values.name) {
+    step.name = values.name;
+  }
+  if (values.action === 'snapshot') {
+    step.options = { snapshot_prefix: values.snapshot_prefix || undefined, vmstate: !!values.vmstate };
+  } else if (values.action === 'backup') {
+    step.options = { storage: values.storage || 'local', mode: values.mode || 'snapshot', compress: values.compress || 'zstd' };
+  } else if (values.action === 'wait') {
+    step.seconds = values.seconds;
+  } else if (values.action === 'health_check') {
+    step.check = {
+      type: values.check_type,
+      host: values.check_host,
+      port: values.check_port,
+      url: values.check_url,
+      timeout: values.check_timeout || undefined,
+    };
+  }
+  return step;
+}
+
+// 创建/编辑工作流：有序步骤及每步失败时的处理方式
+function WorkflowEditorModal({ visible, workflow, onClose, onSaved }: WorkflowEditorModalProps) {
+  const { token } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm();
+
+  useEffect(() => {
+    if (!visible) return;
+    form.resetFields();
+    if (workflow) {
+      form.setFieldsValue({
+        name: workflow.name,
+        description: workflow.description,
+        steps: workflow.steps.map(toFormStep),
+      });
+    } else {
+      form.setFieldsValue({ steps: [{ action: 'snapshot', on_failure: 'abort' }] });
+    }
+  }, [visible, workflow]);
+
+  const handleSave = async (values: any) => {
+    setSaving(true);
+    try {
+      const response = await fetch(
+        workflow ? `${API_BASE_URL}/api/scheduler/workflows/${workflow.id}` : `${API_BASE_URL}/api/scheduler/workflows`,
+        {
+          method: workflow ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            name: values.name,
+            description: values.description,
+            steps: (values.steps || []).map(fromFormStep),
+          }),
+        }
+      );
+      const data = await response.json();
+      if (data.success) {
+        message.success(workflow ? '工作流已更新' : '工作流已创建');
+        onSaved();
+        onClose();
+      } else {
+        message.error(data.error || '保存失败');
+      }
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={workflow ? `编辑工作流 - ${workflow.name}` : '创建工作流'}
+      open={visible}
+      onCancel={onClose}
+      onOk={() => form.submit()}
+      confirmLoading={saving}
+      width={760}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical" onFinish={handleSave}>
+        <Form.Item name="name" label="名称" rules={[{ required: true, message: '请输入工作流名称' }]}>
+          <Input placeholder="例如: 月度补丁窗口" />
+        </Form.Item>
+        <Form.Item name="description" label="描述">
+          <Input.TextArea rows={2} />
+        </Form.Item>
+
+        <Form.List name="steps">
+          {(fields, { add, remove, move }) => (
+            <>
+              {fields.map((field, index) => (
+                <Card
+                  key={field.key}
+                  size="small"
+                  style={{ marginBottom: 12 }}
+                  title={<Text>第 {index + 1} 步</Text>}
+                  extra={
+                    <Space>
+                      <Button size="small" icon={<ArrowUpOutlined />} disabled={index === 0} onClick={() => move(index, index - 1)} />
+                      <Button size="small" icon={<ArrowDownOutlined />} disabled={index === fields.length - 1} onClick={() => move(index, index + 1)} />
+                      <Button size="small" danger icon={<DeleteOutlined />} disabled={fields.length === 1} onClick={() => remove(field.name)} />
+                    </Space>
+                  }
+                >
+                  <Space wrap align="start">
+                    <Form.Item name={[field.name, 'action']} label="操作" rules={[{ required: true, message: '请选择操作' }]}>
+                      <Select style={{ width: 140 }}>
+                        {Object.entries(STEP_ACTIONS).map(([value, label]) => (
+                          <Option key={value} value={value}>{label}</Option>
+                        ))}
+                      </Select>
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'name']} label="步骤名称">
+                      <Input placeholder="可选" style={{ width: 160 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'on_failure']} label="失败时" initialValue="abort">
+                      <Select style={{ width: 180 }}>
+                        {Object.entries(FAILURE_POLICIES).map(([value, label]) => (
+                          <Option key={value} value={value}>{label}</Option>
+                        ))}
+                      </Select>
+                    </Form.Item>
+                  </Space>
+
+                  <Form.Item noStyle shouldUpdate>
+                    {() => {
+                      const action = form.getFieldValue(['steps', field.name, 'action']);
+                      const checkType = form.getFieldValue(['steps', field.name, 'check_type']);
+                      if (action === 'snapshot') {
+                        return (
+                          <Space wrap align="start">
+                            <Form.Item name={[field.name, 'snapshot_prefix']} label="快照名前缀">
+                              <Input placeholder="auto" style={{ width: 160 }} />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'vmstate']} label=" " valuePropName="checked">
+                              <Checkbox>包含内存状态 (仅QEMU)</Checkbox>
+                            </Form.Item>
+                          </Space>
+                        );
+                      }
+                      if (action === 'backup') {
+                        return (
+                          <Space wrap align="start">
+                            <Form.Item name={[field.name, 'storage']} label="存储" initialValue="local">
+                              <Input style={{ width: 160 }} />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'mode']} label="备份模式" initialValue="snapshot">
+                              <Select style={{ width: 140 }}>
+                                <Option value="snapshot">快照</Option>
+                                <Option value="suspend">挂起</Option>
+                                <Option value="stop">停止</Option>
+                              </Select>
+                            </Form.Item>
+                          </Space>
+                        );
+                      }
+                      if (action === 'wait') {
+                        return (
+                          <Form.Item name={[field.name, 'seconds']} label="等待秒数" rules={[{ required: true, message: '请输入等待秒数' }]}>
+                            <InputNumber min={1} max={3600} />
+                          </Form.Item>
+                        );
+                      }
+                      if (action === 'health_check') {
+                        return (
+                          <Space wrap align="start">
+                            <Form.Item name={[field.name, 'check_type']} label="检查方式" initialValue="agent">
+                              <Select style={{ width: 140 }}>
+                                <Option value="agent">Guest Agent</Option>
+                                <Option value="tcp">TCP 端口</Option>
+                                <Option value="http">HTTP</Option>
+                              </Select>
+                            </Form.Item>
+                            {checkType === 'tcp' && (
+                              <>
+                                <Form.Item name={[field.name, 'check_host']} label="地址" tooltip="可使用 {name}、{vmid}、{node} 占位符" rules={[{ required: true, message: '请输入地址' }]}>
+                                  <Input placeholder="{name}.example.lan" style={{ width: 200 }} />
+                                </Form.Item>
+                                <Form.Item name={[field.name, 'check_port']} label="端口" rules={[{ required: true, message: '请输入端口' }]}>
+                                  <InputNumber min={1} max={65535} />
+                                </Form.Item>
+                              </>
+                            )}
+                            {checkType === 'http' && (
+                              <Form.Item name={[field.name, 'check_url']} label="URL" tooltip="可使用 {name}、{vmid}、{node} 占位符" rules={[{ required: true, message: '请输入URL' }]}>
+                                <Input placeholder="http://{name}.example.lan/health" style={{ width: 280 }} />
+                              </Form.Item>
+                            )}
+                            <Form.Item name={[field.name, 'check_timeout']} label="超时 (秒)">
+                              <InputNumber min={1} max={3600} placeholder="300" />
+                            </Form.Item>
+                          </Space>
+                        );
+                      }
+                      return null;
+                    }}
+                  </Form.Item>
+                </Card>
+              ))}
+              <Button type="dashed" block icon={<PlusOutlined />} disabled={fields.length >= 20} onClick={() => add({ action: 'start', on_failure: 'abort' })}>
+                添加步骤
+              </Button>
+            </>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+}
+
+export default WorkflowEditorModal;
@@ -209,10 +209,20 @@ export const Permissions = {
   USER_EDIT: 'user:edit',
   USER_DELETE: 'user:delete',
   VM_VIEW: 'vm:view',
+  VM_CREATE: 'vm:create',
   VM_START: 'vm:start',
   VM_STOP: 'vm:stop',
   VM_DELETE: 'vm:delete',
   VM_CONSOLE: 'vm:console',
+  VM_CLONE: 'vm:clone',
+  VM_TEMPLATE: 'vm:template',
+  VM_MIGRATE: 'vm:migrate',
+  VM_CONFIG: 'vm:config',
+  POOL_MANAGE: 'pool:manage',
+  SNAPSHOT_VIEW: 'snapshot:view',
+  SNAPSHOT_CREATE: 'snapshot:create',
+  SNAPSHOT_ROLLBACK: 'snapshot:rollback',
+  SNAPSHOT_DELETE: 'snapshot:delete',
   BACKUP_VIEW: 'backup:view',
   BACKUP_CREATE: 'backup:create',
   BACKUP_RESTORE: 'backup:restore',
@@ -227,6 +237,8 @@ export const Permissions = {
   CONNECTION_CREATE: 'connection:create',
   CONNECTION_EDIT: 'connection:edit',
   CONNECTION_DELETE: 'connection:delete',
+  MAINTENANCE_VIEW: 'maintenance:view',
+  MAINTENANCE_MANAGE: 'maintenance:manage',
 } as const;
 
 export const Roles = {
@@ -4,11 +4,26 @@ import { io, Socket } from 'socket.io-client';
 export interface PVEConnection {
   id: string;
   name: string;
-  status: 'connected' | 'disconnected' | 'error';
+  status: 'connected' | 'disconnected' | 'error' | 'certificate-mismatch';
   lastConnected?: string;
   lastError?: string;
   host: string;
   port: number;
+  endpoints?: string[];
+  activeEndpoint?: string;
+  ssl?: boolean;
+  authType?: 'password' | 'token';
+  tlsMode?: 'tofu' | 'fingerprint' | 'ca' | null;
+}
+
+// 编辑连接时单独获取的信息（需要 connection:edit 权限）
+export interface PVEConnectionDetails extends PVEConnection {
+  username: string;
+  realm: string;
+  timeout?: number;
+  maxConcurrency?: number | null;
+  tokenId?: string | null;
+  fingerprint?: string | null;
 }
 
 export interface VMInfo {
@@ -24,6 +39,9 @@ export interface VMInfo {
   uptime: number;
   node: string;
   type: 'qemu' | 'lxc';
+  template?: number;
+  tags?: string; // PVE标签，分号分隔
+  pool?: string;
   connectionId: string;
   connectionName: string;
 }
@@ -169,6 +187,13 @@ export function PVEProvider({ children }: { children: React.ReactNode }) {
       }
     });
 
+    // 资源清单变化时刷新VM列表
+    ['vm-added', 'vm-removed', 'vm-status-changed', 'vm-migrated', 'vm-renamed'].forEach((eventName) => {
+      socket.on(eventName, () => {
+        socket.emit('get-vms');
+      });
+    });
+
     socket.on('connection-deleted', (data: any) => {
       console.log(`连接已删除: ${data.connectionId}`);
       // 连接删除后，后端已经自动广播了更新的数据
@@ -32,6 +32,7 @@ import {
   EyeOutlined,
   CheckOutlined,
   DeleteOutlined,
+  ToolOutlined,
 } from '@ant-design/icons';
 import dayjs from 'dayjs';
 import type { ColumnsType } from 'antd/es/table';
@@ -58,7 +59,8 @@ enum AlertType {
 enum AlertStatus {
   ACTIVE = 'active',
   ACKNOWLEDGED = 'acknowledged',
-  RESOLVED = 'resolved'
+  RESOLVED = 'resolved',
+  SUPPRESSED = 'suppressed'
 }
 
 interface AlertItem {
@@ -77,6 +79,7 @@ interface AlertItem {
   acknowledgedAt?: string;
   acknowledgedBy?: string;
   resolvedAt?: string;
+  suppressedBy?: string;
 }
 
 function Alerts() {
@@ -207,6 +210,8 @@ function Alerts() {
         return <Tag color="orange" icon={<WarningOutlined />}>已确认</Tag>;
       case AlertStatus.RESOLVED:
         return <Tag color="green" icon={<CheckCircleOutlined />}>已解决</Tag>;
+      case AlertStatus.SUPPRESSED:
+        return <Tooltip title="维护窗口期间产生"><Tag color="default" icon={<ToolOutlined />}>已抑制</Tag></Tooltip>;
       default:
         return <Tag>未知</Tag>;
     }
@@ -481,6 +486,7 @@ function Alerts() {
               <Option value={AlertStatus.ACTIVE}>活跃</Option>
               <Option value={AlertStatus.ACKNOWLEDGED}>已确认</Option>
               <Option value={AlertStatus.RESOLVED}>已解决</Option>
+              <Option value={AlertStatus.SUPPRESSED}>已抑制</Option>
             </Select>
           </Col>
         </Row>
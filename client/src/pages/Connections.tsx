@@ -10,6 +10,8 @@ import {
   Input,
   InputNumber,
   Switch,
+  Radio,
+  Select,
   message,
   Popconfirm,
 } from 'antd';
@@ -17,10 +19,15 @@ import {
   PlusOutlined,
   ReloadOutlined,
   DeleteOutlined,
+  EditOutlined,
   CheckCircleOutlined,
   ExclamationCircleOutlined,
+  SafetyCertificateOutlined,
 } from '@ant-design/icons';
-import { usePVE } from '../contexts/PVEContext';
+import { usePVE, PVEConnection, PVEConnectionDetails } from '../contexts/PVEContext';
+import { useAuth, Permissions } from '../contexts/AuthContext';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
 
 function Connections() {
   const {
@@ -30,23 +37,67 @@ function Connections() {
     testConnection,
     refreshConnections,
   } = usePVE();
+  const { token, hasPermission } = useAuth();
   
   const [isModalVisible, setIsModalVisible] = useState(false);
+  const [editingConnection, setEditingConnection] = useState<PVEConnectionDetails | null>(null);
   const [loading, setLoading] = useState(false);
   const [form] = Form.useForm();
 
+  const closeModal = () => {
+    setIsModalVisible(false);
+    setEditingConnection(null);
+    form.resetFields();
+  };
+
+  const openEditModal = async (record: PVEConnection) => {
+    let connection: PVEConnectionDetails;
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/pve/connections/${record.id}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      connection = await response.json();
+      if (!response.ok) {
+        throw new Error((connection as any).error);
+      }
+    } catch (error: any) {
+      message.error(`获取连接信息失败: ${error.message}`);
+      return;
+    }
+
+    setEditingConnection(connection);
+    form.setFieldsValue({
+      name: connection.name,
+      host: connection.host,
+      port: connection.port,
+      endpoints: connection.endpoints?.filter(endpoint => endpoint !== connection.host),
+      username: connection.username,
+      realm: connection.realm,
+      ssl: connection.ssl,
+      timeout: connection.timeout,
+      authType: connection.authType || 'password',
+      tokenId: connection.tokenId || undefined,
+      tlsMode: connection.tlsMode || 'tofu',
+      fingerprint: connection.fingerprint || undefined,
+    });
+    setIsModalVisible(true);
+  };
+
   const handleAddConnection = async (values: any) => {
     setLoading(true);
     try {
+      const { authType, ...connectionValues } = values;
       const success = await addConnection({
         id: `pve-${Date.now()}`,
-        ...values,
+        ...connectionValues,
+        ...(authType === 'token'
+          ? { password: undefined }
+          : { tokenId: undefined, tokenSecret: undefined }),
       });
       
       if (success) {
         message.success('连接添加成功');
-        setIsModalVisible(false);
-        form.resetFields();
+        closeModal();
       }
     } catch (error: any) {
       message.error(`添加连接失败: ${error.message}`);
@@ -55,6 +106,45 @@ function Connections() {
     }
   };
 
+  // 编辑连接：凭据留空则保持不变
+  const handleUpdateConnection = async (values: any) => {
+    if (!editingConnection) return;
+
+    setLoading(true);
+    try {
+      const { authType, password, tokenId, tokenSecret, ...connectionValues } = values;
+      const credentials = authType === 'token'
+        ? (tokenSecret || tokenId !== editingConnection.tokenId ? { tokenId, tokenSecret } : {})
+        : (password ? { password } : {});
+
+      const response = await fetch(`${API_BASE_URL}/api/pve/connections/${editingConnection.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ ...connectionValues, ...credentials }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error);
+      }
+
+      if (result.success) {
+        message.success(result.message);
+      } else {
+        message.warning(result.message);
+      }
+      closeModal();
+      await refreshConnections();
+    } catch (error: any) {
+      message.error(`更新连接失败: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleDeleteConnection = async (id: string) => {
     setLoading(true);
     try {
@@ -85,6 +175,56 @@ function Connections() {
     }
   };
 
+  // 证书指纹变化后，核对并信任服务器当前证书
+  const handleTrustCertificate = async (id: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/pve/connections/${id}/certificate`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const certificate = await response.json();
+      if (!response.ok) {
+        throw new Error(certificate.error);
+      }
+
+      Modal.confirm({
+        title: '信任新的服务器证书？',
+        width: 640,
+        content: (
+          <div>
+            <p>地址: <code>{certificate.endpoint}</code></p>
+            <p>记录的指纹: <code>{certificate.storedFingerprint || '-'}</code></p>
+            <p>当前指纹: <code>{certificate.currentFingerprint}</code></p>
+            <p style={{ color: '#ff4d4f' }}>请通过PVE节点确认当前指纹后再信任，否则可能遭受中间人攻击。</p>
+          </div>
+        ),
+        okText: '信任',
+        cancelText: '取消',
+        onOk: async () => {
+          const trustResponse = await fetch(`${API_BASE_URL}/api/pve/connections/${id}/certificate/trust`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${token}`,
+            },
+            body: JSON.stringify({ fingerprint: certificate.currentFingerprint, endpoint: certificate.endpoint }),
+          });
+          const result = await trustResponse.json();
+          if (trustResponse.ok && result.success) {
+            message.success(result.message);
+          } else {
+            message.error(result.message || result.error);
+          }
+          await refreshConnections();
+        },
+      });
+    } catch (error: any) {
+      message.error(`获取证书失败: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const columns = [
     {
       title: '连接名称',
@@ -95,12 +235,29 @@ function Connections() {
       title: '主机地址',
       dataIndex: 'host',
       key: 'host',
+      render: (host: string, record: PVEConnection) => (
+        <Space direction="vertical" size={0}>
+          <span>{host}</span>
+          {record.activeEndpoint && record.activeEndpoint !== host && (
+            <Tag color="warning">当前: {record.activeEndpoint}</Tag>
+          )}
+          {record.endpoints && record.endpoints.length > 1 && (
+            <span style={{ color: '#8c8c8c', fontSize: 12 }}>集群节点 {record.endpoints.length} 个</span>
+          )}
+        </Space>
+      ),
     },
     {
       title: '端口',
       dataIndex: 'port',
       key: 'port',
     },
+    {
+      title: '认证方式',
+      dataIndex: 'authType',
+      key: 'authType',
+      render: (authType: string) => authType === 'token' ? <Tag color="blue">API Token</Tag> : <Tag>密码</Tag>,
+    },
     {
       title: '状态',
       dataIndex: 'status',
@@ -110,6 +267,7 @@ function Connections() {
           connected: { color: 'success', text: '已连接', icon: <CheckCircleOutlined /> },
           disconnected: { color: 'default', text: '断开连接', icon: <ExclamationCircleOutlined /> },
           error: { color: 'error', text: '连接错误', icon: <ExclamationCircleOutlined /> },
+          'certificate-mismatch': { color: 'error', text: '证书不匹配', icon: <SafetyCertificateOutlined /> },
         };
         const config = configs[status as keyof typeof configs] || configs.disconnected;
         return (
@@ -146,6 +304,27 @@ function Connections() {
           >
             测试连接
           </Button>
+
+          {hasPermission(Permissions.CONNECTION_EDIT) && (
+            <Button
+              size="small"
+              icon={<EditOutlined />}
+              onClick={() => openEditModal(record)}
+            >
+              编辑
+            </Button>
+          )}
+
+          {record.status === 'certificate-mismatch' && (
+            <Button
+              size="small"
+              icon={<SafetyCertificateOutlined />}
+              onClick={() => handleTrustCertificate(record.id)}
+              loading={loading}
+            >
+              信任证书
+            </Button>
+          )}
           
           <Popconfirm
             title="确定要删除这个连接吗？"
@@ -175,7 +354,10 @@ function Connections() {
           <Button
             type="primary"
             icon={<PlusOutlined />}
-            onClick={() => setIsModalVisible(true)}
+            onClick={() => {
+              setEditingConnection(null);
+              setIsModalVisible(true);
+            }}
           >
             添加连接
           </Button>
@@ -202,23 +384,23 @@ function Connections() {
       />
 
       <Modal
-        title="添加PVE连接"
+        title={editingConnection ? `编辑连接: ${editingConnection.name}` : '添加PVE连接'}
         open={isModalVisible}
-        onCancel={() => {
-          setIsModalVisible(false);
-          form.resetFields();
-        }}
+        onCancel={closeModal}
         footer={null}
         width={600}
       >
         <Form
           form={form}
           layout="vertical"
-          onFinish={handleAddConnection}
+          onFinish={editingConnection ? handleUpdateConnection : handleAddConnection}
           initialValues={{
             port: 8006,
             realm: 'pam',
             ssl: true,
+            timeout: 30000,
+            authType: 'password',
+            tlsMode: 'tofu',
           }}
         >
           <Form.Item
@@ -250,6 +432,14 @@ function Connections() {
             />
           </Form.Item>
 
+          <Form.Item
+            label="故障转移地址"
+            name="endpoints"
+            extra="集群中其他节点的地址 (host 或 host:port)，连接成功后也会从集群状态自动发现"
+          >
+            <Select mode="tags" placeholder="例如: 192.168.1.11" tokenSeparators={[',', ' ']} />
+          </Form.Item>
+
           <Form.Item
             label="用户名"
             name="username"
@@ -258,12 +448,42 @@ function Connections() {
             <Input placeholder="例如: root" />
           </Form.Item>
 
-          <Form.Item
-            label="密码"
-            name="password"
-            rules={[{ required: true, message: '请输入密码' }]}
-          >
-            <Input.Password placeholder="请输入密码" />
+          <Form.Item label="认证方式" name="authType">
+            <Radio.Group>
+              <Radio.Button value="password">密码</Radio.Button>
+              <Radio.Button value="token">API Token</Radio.Button>
+            </Radio.Group>
+          </Form.Item>
+
+          <Form.Item noStyle shouldUpdate={(prev, curr) => prev.authType !== curr.authType}>
+            {({ getFieldValue }) => getFieldValue('authType') === 'token' ? (
+              <>
+                <Form.Item
+                  label="Token ID"
+                  name="tokenId"
+                  rules={[{ required: true, message: '请输入Token ID' }]}
+                  extra="格式: user@realm!tokenid，也可只填写 tokenid"
+                >
+                  <Input placeholder="例如: root@pam!manager" />
+                </Form.Item>
+
+                <Form.Item
+                  label="Token Secret"
+                  name="tokenSecret"
+                  rules={[{ required: !editingConnection || editingConnection.authType !== 'token', message: '请输入Token Secret' }]}
+                >
+                  <Input.Password placeholder={editingConnection?.authType === 'token' ? '留空则保持不变' : '请输入Token Secret'} />
+                </Form.Item>
+              </>
+            ) : (
+              <Form.Item
+                label="密码"
+                name="password"
+                rules={[{ required: !editingConnection || editingConnection.authType === 'token', message: '请输入密码' }]}
+              >
+                <Input.Password placeholder={editingConnection && editingConnection.authType !== 'token' ? '留空则保持不变' : '请输入密码'} />
+              </Form.Item>
+            )}
           </Form.Item>
 
           <Form.Item
@@ -282,17 +502,52 @@ function Connections() {
             <Switch />
           </Form.Item>
 
+          <Form.Item label="请求超时 (毫秒)" name="timeout">
+            <InputNumber style={{ width: '100%' }} min={1000} step={1000} />
+          </Form.Item>
+
+          <Form.Item noStyle shouldUpdate={(prev, curr) => prev.ssl !== curr.ssl || prev.tlsMode !== curr.tlsMode}>
+            {({ getFieldValue }) => getFieldValue('ssl') && (
+              <>
+                <Form.Item label="证书校验" name="tlsMode">
+                  <Select
+                    options={[
+                      { value: 'tofu', label: '首次信任 (记录证书指纹)' },
+                      { value: 'fingerprint', label: '固定指纹' },
+                      { value: 'ca', label: '自定义CA证书' },
+                    ]}
+                  />
+                </Form.Item>
+
+                {getFieldValue('tlsMode') === 'fingerprint' && (
+                  <Form.Item
+                    label="SHA-256指纹"
+                    name="fingerprint"
+                    rules={[{ required: true, message: '请输入证书指纹' }]}
+                  >
+                    <Input placeholder="例如: AB:CD:EF:..." />
+                  </Form.Item>
+                )}
+
+                {getFieldValue('tlsMode') === 'ca' && (
+                  <Form.Item
+                    label="CA证书 (PEM)"
+                    name="caCert"
+                    rules={[{ required: true, message: '请输入CA证书' }]}
+                  >
+                    <Input.TextArea rows={4} placeholder="-----BEGIN CERTIFICATE-----" />
+                  </Form.Item>
+                )}
+              </>
+            )}
+          </Form.Item>
+
           <Form.Item>
             <Space>
               <Button type="primary" htmlType="submit" loading={loading}>
-                添加连接
+                {editingConnection ? '保存' : '添加连接'}
               </Button>
-              <Button
-                onClick={() => {
-                  setIsModalVisible(false);
-                  form.resetFields();
-                }}
-              >
+              <Button onClick={closeModal}>
                 取消
               </Button>
             </Space>
@@ -46,14 +46,28 @@ const actionConfig: Record<string, { color: string; icon: React.ReactNode; label
   vm_stop: { color: 'red', icon: <DesktopOutlined />, label: '停止VM' },
   vm_shutdown: { color: 'orange', icon: <DesktopOutlined />, label: '关闭VM' },
   batch_vm_action: { color: 'blue', icon: <DesktopOutlined />, label: '批量VM操作' },
+  cancel_job: { color: 'default', icon: <DesktopOutlined />, label: '取消后台任务' },
   create_backup: { color: 'cyan', icon: <DatabaseOutlined />, label: '创建备份' },
   restore_backup: { color: 'geekblue', icon: <DatabaseOutlined />, label: '恢复备份' },
   delete_backup: { color: 'red', icon: <DatabaseOutlined />, label: '删除备份' },
+  create_vm: { color: 'green', icon: <DesktopOutlined />, label: '创建VM' },
+  cloudinit_deploy: { color: 'green', icon: <DesktopOutlined />, label: 'cloud-init部署' },
+  clone_vm: { color: 'blue', icon: <DesktopOutlined />, label: '克隆VM' },
+  migrate_vm: { color: 'geekblue', icon: <DesktopOutlined />, label: '迁移VM' },
+  update_vm_config: { color: 'orange', icon: <DesktopOutlined />, label: '修改配置' },
+  update_vm_tags: { color: 'orange', icon: <DesktopOutlined />, label: '修改标签' },
+  create_pool: { color: 'green', icon: <DesktopOutlined />, label: '创建资源池' },
+  move_vm_pool: { color: 'blue', icon: <DesktopOutlined />, label: '移动资源池' },
+  convert_template: { color: 'purple', icon: <DesktopOutlined />, label: '转换模板' },
+  create_snapshot: { color: 'cyan', icon: <DesktopOutlined />, label: '创建快照' },
+  rollback_snapshot: { color: 'volcano', icon: <DesktopOutlined />, label: '回滚快照' },
+  delete_snapshot: { color: 'red', icon: <DesktopOutlined />, label: '删除快照' },
   vnc_connect: { color: 'purple', icon: <DesktopOutlined />, label: 'VNC连接' },
   vnc_disconnect: { color: 'default', icon: <DesktopOutlined />, label: 'VNC断开' },
   create_group: { color: 'green', icon: <SettingOutlined />, label: '创建分组' },
   update_group: { color: 'orange', icon: <SettingOutlined />, label: '更新分组' },
   delete_group: { color: 'red', icon: <SettingOutlined />, label: '删除分组' },
+  update_group_member: { color: 'orange', icon: <SettingOutlined />, label: '更新分组成员启动设置' },
 };
 
 function Logs() {
@@ -0,0 +1,388 @@
+import { useState, useEffect } from 'react';
+import {
+  Card, Table, Button, Space, Tag, Modal, Form, Input, InputNumber, Select, Switch, Radio,
+  DatePicker, Popconfirm, Tooltip, Typography, message
+} from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined, ReloadOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { useAuth, Permissions } from '../contexts/AuthContext';
+import { usePVE } from '../contexts/PVEContext';
+
+const { Option } = Select;
+const { TextArea } = Input;
+const { RangePicker } = DatePicker;
+const { Text } = Typography;
+
+interface MaintenanceWindow {
+  id: string;
+  name: string;
+  description: string | null;
+  kind: 'window' | 'freeze';
+  schedule_type: 'once' | 'cron';
+  start_at: string | null;
+  end_at: string | null;
+  cron_expression: string | null;
+  duration: number | null;
+  timezone: string;
+  scope: { connection_id?: string; nodes?: string[]; vmids?: number[] };
+  suppress_alerts: number;
+  enabled: number;
+  active: boolean;
+  current_end: string | null;
+  next_start: string | null;
+}
+
+const TIMEZONES = [
+  'Asia/Shanghai',
+  'Asia/Hong_Kong',
+  'Asia/Tokyo',
+  'Asia/Singapore',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Los_Angeles',
+  'UTC',
+];
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+const formatTime = (time: string | null) => (time ? dayjs(time).format('YYYY-MM-DD HH:mm') : '-');
+
+// 维护窗口和变更冻结期：中断性操作只能在维护窗口内执行，冻结期内禁止执行
+function MaintenanceWindows() {
+  const { token, hasPermission } = useAuth();
+  const { connections, nodes } = usePVE();
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editing, setEditing] = useState<MaintenanceWindow | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm();
+  const kind = Form.useWatch('kind', form);
+  const scheduleType = Form.useWatch('schedule_type', form);
+  const canManage = hasPermission(Permissions.MAINTENANCE_MANAGE);
+
+  useEffect(() => {
+    fetchWindows();
+  }, []);
+
+  const fetchWindows = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/maintenance/windows`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        setWindows(data.windows);
+      } else {
+        message.error(data.error || '获取维护窗口失败');
+      }
+    } catch (error) {
+      message.error('获取维护窗口失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (record: MaintenanceWindow | null) => {
+    setEditing(record);
+    form.resetFields();
+    if (record) {
+      form.setFieldsValue({
+        ...record,
+        range: record.start_at && record.end_at ? [dayjs(record.start_at), dayjs(record.end_at)] : undefined,
+        connection_id: record.scope.connection_id,
+        nodes: record.scope.nodes || [],
+        vmids: (record.scope.vmids || []).map(String),
+        suppress_alerts: !!record.suppress_alerts,
+        enabled: !!record.enabled,
+      });
+    }
+    setModalVisible(true);
+  };
+
+  const handleSave = async (values: any) => {
+    setSaving(true);
+    try {
+      const payload = {
+        name: values.name,
+        description: values.description,
+        kind: values.kind,
+        schedule_type: values.schedule_type,
+        start_at: values.schedule_type === 'once' ? values.range?.[0]?.toISOString() : undefined,
+        end_at: values.schedule_type === 'once' ? values.range?.[1]?.toISOString() : undefined,
+        cron_expression: values.schedule_type === 'cron' ? values.cron_expression : undefined,
+        duration: values.schedule_type === 'cron' ? values.duration : undefined,
+        timezone: values.timezone,
+        scope: {
+          connection_id: values.connection_id || undefined,
+          nodes: values.nodes || [],
+          vmids: (values.vmids || []).map(Number).filter((vmid: number) => Number.isInteger(vmid) && vmid > 0),
+        },
+        suppress_alerts: values.suppress_alerts,
+        enabled: values.enabled,
+      };
+      const response = await fetch(
+        editing ? `${API_BASE_URL}/api/maintenance/windows/${editing.id}` : `${API_BASE_URL}/api/maintenance/windows`,
+        {
+          method: editing ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+      if (data.success) {
+        message.success(editing ? '维护窗口已更新' : '维护窗口已创建');
+        setModalVisible(false);
+        fetchWindows();
+      } else {
+        message.error(data.error || '保存失败');
+      }
+    } catch (error: any) {
+      message.error(`保存失败: ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/maintenance/windows/${id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        message.success('维护窗口已删除');
+        fetchWindows();
+      } else {
+        message.error(data.error || '删除失败');
+      }
+    } catch (error) {
+      message.error('删除失败');
+    }
+  };
+
+  const describeScope = (scope: MaintenanceWindow['scope']) => {
+    const parts: string[] = [];
+    if (scope.connection_id) {
+      parts.push(connections.find(conn => conn.id === scope.connection_id)?.name || scope.connection_id);
+    }
+    if (scope.nodes?.length) {
+      parts.push(`节点 ${scope.nodes.join(', ')}`);
+    }
+    if (scope.vmids?.length) {
+      parts.push(`VM ${scope.vmids.join(', ')}`);
+    }
+    return parts.length > 0 ? parts.join(' / ') : '全部';
+  };
+
+  const columns = [
+    {
+      title: '名称',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, record: MaintenanceWindow) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{name}</Text>
+          {record.description && <Text type="secondary">{record.description}</Text>}
+        </Space>
+      ),
+    },
+    {
+      title: '类型',
+      dataIndex: 'kind',
+      key: 'kind',
+      width: 100,
+      render: (kind: string) => kind === 'freeze'
+        ? <Tag color="red">冻结期</Tag>
+        : <Tag color="blue">维护窗口</Tag>,
+    },
+    {
+      title: '时间',
+      key: 'schedule',
+      render: (record: MaintenanceWindow) => record.schedule_type === 'once'
+        ? `${formatTime(record.start_at)} ~ ${formatTime(record.end_at)}`
+        : <Tooltip title={record.timezone}><code>{record.cron_expression}</code> 持续 {record.duration} 分钟</Tooltip>,
+    },
+    {
+      title: '范围',
+      key: 'scope',
+      render: (record: MaintenanceWindow) => describeScope(record.scope),
+    },
+    {
+      title: '状态',
+      key: 'state',
+      width: 220,
+      render: (record: MaintenanceWindow) => {
+        if (!record.enabled) {
+          return <Tag>已停用</Tag>;
+        }
+        if (record.active) {
+          return <Tag color={record.kind === 'freeze' ? 'red' : 'green'}>进行中，至 {formatTime(record.current_end)}</Tag>;
+        }
+        return record.next_start ? <Text type="secondary">下次 {formatTime(record.next_start)}</Text> : <Text type="secondary">已结束</Text>;
+      },
+    },
+    {
+      title: '抑制告警',
+      dataIndex: 'suppress_alerts',
+      key: 'suppress_alerts',
+      width: 90,
+      render: (suppress: number, record: MaintenanceWindow) => record.kind === 'window' && suppress ? <Tag color="purple">是</Tag> : '-',
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      width: 100,
+      render: (record: MaintenanceWindow) => canManage && (
+        <Space>
+          <Tooltip title="编辑">
+            <Button type="text" icon={<EditOutlined />} onClick={() => openEditor(record)} />
+          </Tooltip>
+          <Popconfirm title="确定删除？" onConfirm={() => handleDelete(record.id)}>
+            <Button type="text" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <Card
+        title="维护窗口与变更冻结"
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={fetchWindows}>刷新</Button>
+            {canManage && (
+              <Button type="primary" icon={<PlusOutlined />} onClick={() => openEditor(null)}>
+                新建
+              </Button>
+            )}
+          </Space>
+        }
+      >
+        <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+          关机、重启、停机备份等中断性操作只能在适用的维护窗口内执行（没有适用窗口的VM不受限制），冻结期内禁止执行。
+          调度任务、批量操作和分组操作都会检查；管理员可填写原因后忽略限制。
+        </Text>
+        <Table
+          columns={columns}
+          dataSource={windows}
+          rowKey="id"
+          loading={loading}
+          pagination={{ pageSize: 20 }}
+        />
+      </Card>
+
+      <Modal
+        title={editing ? `编辑 - ${editing.name}` : '新建维护窗口 / 冻结期'}
+        open={modalVisible}
+        onCancel={() => setModalVisible(false)}
+        onOk={() => form.submit()}
+        confirmLoading={saving}
+        width={640}
+        destroyOnClose
+      >
+        <Form
+          form={form}
+          layout="vertical"
+          onFinish={handleSave}
+          initialValues={{
+            kind: 'window',
+            schedule_type: 'cron',
+            timezone: 'Asia/Shanghai',
+            duration: 240,
+            suppress_alerts: true,
+            enabled: true,
+          }}
+        >
+          <Form.Item name="name" label="名称" rules={[{ required: true, message: '请输入名称' }]}>
+            <Input placeholder="例如: 周六凌晨维护" />
+          </Form.Item>
+          <Form.Item name="description" label="描述">
+            <TextArea rows={2} />
+          </Form.Item>
+          <Form.Item name="kind" label="类型">
+            <Radio.Group>
+              <Radio value="window">维护窗口 (允许中断性操作)</Radio>
+              <Radio value="freeze">冻结期 (禁止中断性操作)</Radio>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item name="schedule_type" label="时间">
+            <Radio.Group>
+              <Radio value="cron">周期性</Radio>
+              <Radio value="once">一次性</Radio>
+            </Radio.Group>
+          </Form.Item>
+
+          {scheduleType === 'once' ? (
+            <Form.Item name="range" label="开始 / 结束时间" rules={[{ required: true, message: '请选择时间' }]}>
+              <RangePicker showTime={{ format: 'HH:mm' }} format="YYYY-MM-DD HH:mm" style={{ width: '100%' }} />
+            </Form.Item>
+          ) : (
+            <Space align="start" wrap>
+              <Form.Item
+                name="cron_expression"
+                label="开始时间 (cron 表达式)"
+                tooltip="例如 0 2 * * 6 表示每周六 02:00 开始"
+                rules={[{ required: true, message: '请输入 cron 表达式' }]}
+              >
+                <Input placeholder="0 2 * * 6" style={{ width: 200 }} />
+              </Form.Item>
+              <Form.Item name="duration" label="持续分钟" rules={[{ required: true, message: '请输入持续时间' }]}>
+                <InputNumber min={1} max={10080} />
+              </Form.Item>
+              <Form.Item name="timezone" label="时区">
+                <Select style={{ width: 180 }}>
+                  {TIMEZONES.map(tz => (
+                    <Option key={tz} value={tz}>{tz}</Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            </Space>
+          )}
+
+          <Form.Item name="connection_id" label="PVE连接" tooltip="留空表示全部连接">
+            <Select allowClear placeholder="全部">
+              {connections.map(conn => (
+                <Option key={conn.id} value={conn.id}>{conn.name}</Option>
+              ))}
+            </Select>
+          </Form.Item>
+          <Space style={{ width: '100%' }} align="start">
+            <Form.Item name="nodes" label="节点" tooltip="节点和VM都留空表示连接内的全部VM和节点">
+              <Select
+                mode="tags"
+                placeholder="全部"
+                style={{ width: 260 }}
+                options={[...new Set(nodes.map(node => node.node))].map(node => ({ value: node, label: node }))}
+              />
+            </Form.Item>
+            <Form.Item name="vmids" label="VMID">
+              <Select mode="tags" placeholder="全部" style={{ width: 260 }} tokenSeparators={[',', ' ']} />
+            </Form.Item>
+          </Space>
+
+          <Space size="large">
+            {kind !== 'freeze' && (
+              <Form.Item name="suppress_alerts" label="窗口期间抑制告警" valuePropName="checked">
+                <Switch />
+              </Form.Item>
+            )}
+            <Form.Item name="enabled" label="启用" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Space>
+        </Form>
+      </Modal>
+    </>
+  );
+}
+
+export default MaintenanceWindows;
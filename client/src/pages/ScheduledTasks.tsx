@@ -18,7 +18,9 @@ import {
   Typography,
   TimePicker,
   Checkbox,
+  InputNumber,
   Descriptions,
+  Alert,
 } from 'antd';
 import {
   PlusOutlined,
@@ -36,6 +38,8 @@ import {
 import dayjs from 'dayjs';
 import { useAuth } from '../contexts/AuthContext';
 import { usePVE } from '../contexts/PVEContext';
+import WorkflowEditorModal, { Workflow, STEP_ACTIONS } from '../components/WorkflowEditorModal';
+import MaintenanceConflictModal, { MaintenanceRejection, MaintenanceResolution, isMaintenanceRejection } from '../components/MaintenanceConflictModal';
 
 const { Option } = Select;
 const { Text } = Typography;
@@ -53,6 +57,11 @@ interface ScheduledTask {
   cron_expression: string;
   scheduled_time: string;
   timezone: string;
+  misfire_policy: string;
+  overlap_policy: string;
+  maintenance_policy: string;
+  max_runtime: number | null;
+  workflow_id: string | null;
   enabled: number;
   last_run: string;
   last_status: string;
@@ -73,6 +82,8 @@ interface TaskHistory {
   started_at: string;
   completed_at: string;
   duration: number;
+  scheduled_for: string | null;
+  triggered_by: string;
 }
 
 interface VMGroup {
@@ -80,6 +91,23 @@ interface VMGroup {
   name: string;
 }
 
+interface CronRun {
+  time: string;
+  local: string;
+}
+
+const TIMEZONES = [
+  'Asia/Shanghai',
+  'Asia/Hong_Kong',
+  'Asia/Tokyo',
+  'Asia/Singapore',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Los_Angeles',
+  'UTC',
+];
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
 
 function ScheduledTasks() {
@@ -98,11 +126,21 @@ function ScheduledTasks() {
   const [taskType, setTaskType] = useState<string>('power');
   const [scheduleType, setScheduleType] = useState<string>('daily');
   const [selectedDays, setSelectedDays] = useState<number[]>([1, 2, 3, 4, 5]); // 周一到周五
+  const [previewRuns, setPreviewRuns] = useState<CronRun[]>([]);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const scheduledTime = Form.useWatch('scheduled_time', form);
+  const customCron = Form.useWatch('cron_expression', form);
+  const timezone = Form.useWatch('timezone', form);
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [workflowModalVisible, setWorkflowModalVisible] = useState(false);
+  const [editingWorkflow, setEditingWorkflow] = useState<Workflow | null>(null);
+  const [maintenanceRejection, setMaintenanceRejection] = useState<{ taskId: string; rejection: MaintenanceRejection } | null>(null);
 
   useEffect(() => {
     fetchTasks();
     fetchVMGroups();
     fetchHistory();
+    fetchWorkflows();
   }, []);
 
   const fetchTasks = async () => {
@@ -150,6 +188,38 @@ function ScheduledTasks() {
     }
   };
 
+  const fetchWorkflows = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/scheduler/workflows`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        setWorkflows(data.workflows);
+      }
+    } catch (error) {
+      console.error('获取工作流失败:', error);
+    }
+  };
+
+  const handleDeleteWorkflow = async (id: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/scheduler/workflows/${id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        message.success('工作流已删除');
+        fetchWorkflows();
+      } else {
+        message.error(data.error || '删除失败');
+      }
+    } catch (error) {
+      message.error('删除失败');
+    }
+  };
+
   const handleCreate = () => {
     setEditingTask(null);
     form.resetFields();
@@ -160,6 +230,54 @@ function ScheduledTasks() {
     setModalVisible(true);
   };
 
+  // 根据调度类型构建 cron 表达式
+  const buildCronExpression = (time: dayjs.Dayjs | null | undefined, cron: string | undefined) => {
+    if (scheduleType === 'cron') {
+      return cron?.trim() || '';
+    }
+    if (!time) {
+      return '0 0 * * *';
+    }
+    const minute = time.minute();
+    const hour = time.hour();
+    if (scheduleType === 'weekly') {
+      return `${minute} ${hour} * * ${selectedDays.join(',')}`;
+    }
+    return `${minute} ${hour} * * *`;
+  };
+
+  // 保存前预览接下来的执行时间
+  useEffect(() => {
+    if (!modalVisible) return;
+    const cron = buildCronExpression(scheduledTime, customCron);
+    if (!cron || (scheduleType !== 'cron' && !scheduledTime) || (scheduleType === 'weekly' && selectedDays.length === 0)) {
+      setPreviewRuns([]);
+      setPreviewError(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ cron, timezone: timezone || 'Asia/Shanghai', count: '5' });
+        const response = await fetch(`${API_BASE_URL}/api/scheduler/preview?${params}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const data = await response.json();
+        if (data.success) {
+          setPreviewRuns(data.runs);
+          setPreviewError(data.runs.length === 0 ? '该表达式没有匹配的执行时间' : null);
+        } else {
+          setPreviewRuns([]);
+          setPreviewError(data.error || '表达式无效');
+        }
+      } catch (error) {
+        setPreviewRuns([]);
+        setPreviewError('获取执行时间预览失败');
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [modalVisible, scheduleType, scheduledTime, customCron, timezone, selectedDays]);
+
   const handleEdit = (task: ScheduledTask) => {
     setEditingTask(task);
     setTargetType(task.target_type);
@@ -167,7 +285,7 @@ function ScheduledTasks() {
     setScheduleType(task.schedule_type);
     
     // 解析 cron 表达式中的星期几
-    if (task.cron_expression) {
+    if (task.cron_expression && task.schedule_type === 'weekly') {
       const parts = task.cron_expression.split(' ');
       if (parts.length >= 5 && parts[4] !== '*') {
         setSelectedDays(parts[4].split(',').map(Number));
@@ -180,10 +298,17 @@ function ScheduledTasks() {
       name: task.name,
       task_type: task.task_type,
       action: task.action,
+      workflow_id: task.workflow_id,
       target_type: task.target_type,
       target_id: task.target_id,
       schedule_type: task.schedule_type,
       scheduled_time: task.scheduled_time ? dayjs(task.scheduled_time, 'HH:mm') : null,
+      cron_expression: task.schedule_type === 'cron' ? task.cron_expression : undefined,
+      timezone: task.timezone || 'Asia/Shanghai',
+      misfire_policy: task.misfire_policy || 'run_once',
+      overlap_policy: task.overlap_policy || 'skip',
+      maintenance_policy: task.maintenance_policy || 'skip',
+      max_runtime_minutes: task.max_runtime ? Math.round(task.max_runtime / 60) : null,
       enabled: task.enabled === 1,
       ...targetDetails,
     });
@@ -226,13 +351,23 @@ function ScheduledTasks() {
     }
   };
 
-  const handleRunNow = async (id: string) => {
+  // resolution: 被维护窗口拒绝后由管理员填写原因忽略限制
+  const handleRunNow = async (id: string, resolution?: MaintenanceResolution) => {
     try {
       const response = await fetch(`${API_BASE_URL}/api/scheduler/tasks/${id}/run`, {
         method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ ...resolution }),
       });
       const data = await response.json();
+      if (isMaintenanceRejection(response.status, data)) {
+        setMaintenanceRejection({ taskId: id, rejection: data });
+        return;
+      }
+      setMaintenanceRejection(null);
       if (data.success) {
         if (data.result.status === 'success') {
           message.success('任务执行成功');
@@ -259,21 +394,9 @@ function ScheduledTasks() {
   const handleSubmit = async (values: any) => {
     try {
       // 构建 cron 表达式
-      let cron_expression = '0 0 * * *';
-      if (values.scheduled_time) {
-        const time = values.scheduled_time.format('HH:mm');
-        const [hour, minute] = time.split(':');
-        
-        if (scheduleType === 'daily') {
-          cron_expression = `${minute} ${hour} * * *`;
-        } else if (scheduleType === 'weekly') {
-          cron_expression = `${minute} ${hour} * * ${selectedDays.join(',')}`;
-        } else if (scheduleType === 'once') {
-          cron_expression = `${minute} ${hour} * * *`;
-        }
-      }
+      const cron_expression = buildCronExpression(values.scheduled_time, values.cron_expression);
 
-      // 构建目标详情
+      // 构建目标详情（操作参数对单个虚拟机和分组同样适用）
       let target_details: any = {};
       if (targetType === 'vm') {
         const selectedVM = vms.find(vm => `${vm.connectionId}-${vm.vmid}` === values.target_id);
@@ -285,31 +408,38 @@ function ScheduledTasks() {
             type: selectedVM.type,
           };
         }
-      } else if (targetType === 'backup' && values.target_id) {
-        const selectedVM = vms.find(vm => `${vm.connectionId}-${vm.vmid}` === values.target_id);
-        if (selectedVM) {
-          target_details = {
-            connectionId: selectedVM.connectionId,
-            node: selectedVM.node,
-            vmid: selectedVM.vmid,
-            type: selectedVM.type,
-            storage: values.storage || 'local',
-            mode: values.mode || 'snapshot',
-            compress: values.compress || 'zstd',
-          };
-        }
+      }
+      if (taskType === 'backup') {
+        target_details = {
+          ...target_details,
+          storage: values.storage || 'local',
+          mode: values.mode || 'snapshot',
+          compress: values.compress || 'zstd',
+        };
+      } else if (taskType === 'snapshot') {
+        target_details = {
+          ...target_details,
+          snapshot_prefix: values.snapshot_prefix || undefined,
+          vmstate: !!values.vmstate,
+        };
       }
 
       const payload = {
         name: values.name,
         task_type: taskType,
-        action: values.action,
+        action: taskType === 'workflow' ? 'workflow' : values.action,
+        workflow_id: taskType === 'workflow' ? values.workflow_id : undefined,
         target_type: targetType,
         target_id: values.target_id,
         target_details,
         schedule_type: scheduleType,
         cron_expression,
-        scheduled_time: values.scheduled_time?.format('HH:mm'),
+        scheduled_time: scheduleType === 'cron' ? undefined : values.scheduled_time?.format('HH:mm'),
+        timezone: values.timezone || 'Asia/Shanghai',
+        misfire_policy: values.misfire_policy,
+        overlap_policy: values.overlap_policy,
+        maintenance_policy: values.maintenance_policy,
+        max_runtime: values.max_runtime_minutes ? values.max_runtime_minutes * 60 : null,
         enabled: values.enabled !== false,
       };
 
@@ -349,6 +479,8 @@ function ScheduledTasks() {
       success: { color: 'success', text: '成功', icon: <CheckCircleOutlined /> },
       partial: { color: 'warning', text: '部分成功', icon: <ExclamationCircleOutlined /> },
       failed: { color: 'error', text: '失败', icon: <CloseCircleOutlined /> },
+      timeout: { color: 'error', text: '超时', icon: <ClockCircleOutlined /> },
+      skipped: { color: 'default', text: '已跳过', icon: null },
     };
     const config = configs[status] || { color: 'default', text: status, icon: null };
     return <Tag color={config.color} icon={config.icon}>{config.text}</Tag>;
@@ -370,6 +502,8 @@ function ScheduledTasks() {
         const types: Record<string, { color: string; text: string }> = {
           power: { color: 'blue', text: '电源操作' },
           backup: { color: 'green', text: '备份' },
+          snapshot: { color: 'orange', text: '快照' },
+          workflow: { color: 'purple', text: '工作流' },
         };
         const config = types[type] || { color: 'default', text: type };
         return <Tag color={config.color}>{config.text}</Tag>;
@@ -380,13 +514,17 @@ function ScheduledTasks() {
       dataIndex: 'action',
       key: 'action',
       width: 100,
-      render: (action: string) => {
+      render: (action: string, record: ScheduledTask) => {
+        if (action === 'workflow') {
+          return workflows.find(w => w.id === record.workflow_id)?.name || '工作流';
+        }
         const actions: Record<string, string> = {
           start: '启动',
           stop: '强制关机',
           shutdown: '关机',
           reboot: '重启',
           backup: '备份',
+          snapshot: '快照',
         };
         return actions[action] || action;
       },
@@ -412,11 +550,14 @@ function ScheduledTasks() {
           once: '一次性',
           daily: '每天',
           weekly: '每周',
+          cron: 'Cron',
         };
         return (
           <Space direction="vertical" size={0}>
             <Text>{scheduleTypes[record.schedule_type] || record.schedule_type}</Text>
-            {record.scheduled_time && <Text type="secondary">{record.scheduled_time}</Text>}
+            {record.schedule_type === 'cron'
+              ? <Text type="secondary" code>{record.cron_expression}</Text>
+              : record.scheduled_time && <Text type="secondary">{record.scheduled_time}</Text>}
           </Space>
         );
       },
@@ -526,6 +667,23 @@ function ScheduledTasks() {
       width: 100,
       render: (status: string) => getStatusTag(status),
     },
+    {
+      title: '触发方式',
+      dataIndex: 'triggered_by',
+      key: 'triggered_by',
+      width: 100,
+      render: (triggeredBy: string, record: TaskHistory) => {
+        const labels: Record<string, string> = {
+          schedule: '计划',
+          catch_up: '补执行',
+          manual: '手动',
+        };
+        const label = labels[triggeredBy] || triggeredBy || '-';
+        return record.scheduled_for
+          ? <Tooltip title={`计划时间: ${formatDate(record.scheduled_for)}`}>{label}</Tooltip>
+          : label;
+      },
+    },
     {
       title: '开始时间',
       dataIndex: 'started_at',
@@ -556,6 +714,114 @@ function ScheduledTasks() {
     },
   ];
 
+  const workflowColumns = [
+    {
+      title: '名称',
+      dataIndex: 'name',
+      key: 'name',
+      width: 180,
+    },
+    {
+      title: '步骤',
+      key: 'steps',
+      render: (record: Workflow) => record.steps.map(step => step.name || STEP_ACTIONS[step.action]).join(' → '),
+    },
+    {
+      title: '使用任务数',
+      dataIndex: 'task_count',
+      key: 'task_count',
+      width: 110,
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      width: 120,
+      render: (record: Workflow) => hasPermission('manage_tasks') && (
+        <Space>
+          <Tooltip title="编辑">
+            <Button type="text" icon={<EditOutlined />} onClick={() => { setEditingWorkflow(record); setWorkflowModalVisible(true); }} />
+          </Tooltip>
+          <Popconfirm title="确定删除此工作流？" onConfirm={() => handleDeleteWorkflow(record.id)}>
+            <Button type="text" danger icon={<DeleteOutlined />} disabled={!!record.task_count} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const resultStatus: Record<string, { color: string; text: string }> = {
+    success: { color: 'success', text: '成功' },
+    partial: { color: 'warning', text: '部分成功' },
+    failed: { color: 'error', text: '失败' },
+    skipped: { color: 'default', text: '跳过' },
+  };
+
+  // 执行历史中每个目标的执行结果，工作流另列出每个步骤的输出
+  const historyExpandable = {
+    rowExpandable: (record: TaskHistory) => !!record.details && (JSON.parse(record.details).results || []).length > 0,
+    expandedRowRender: (record: TaskHistory) => {
+      const details = JSON.parse(record.details);
+      const results = details.results || [];
+      const steps = details.steps || [];
+      return (
+        <Space direction="vertical" style={{ width: '100%' }}>
+        <Table
+          size="small"
+          pagination={false}
+          rowKey={(result: any) => `${result.connectionId}-${result.vmid}`}
+          dataSource={results}
+          columns={[
+            { title: '虚拟机', key: 'vm', render: (result: any) => `${result.vmname || '-'} (${result.vmid})` },
+            { title: '节点', dataIndex: 'node', key: 'node', render: (node: string) => node || '-' },
+            {
+              title: '结果',
+              dataIndex: 'status',
+              key: 'status',
+              render: (status: string) => {
+                const config = resultStatus[status] || { color: 'default', text: status };
+                return <Tag color={config.color}>{config.text}</Tag>;
+              },
+            },
+            { title: '快照', dataIndex: 'snapname', key: 'snapname', render: (name: string) => name || '-' },
+            { title: '说明', dataIndex: 'error', key: 'error', render: (error: string) => error || '-' },
+          ]}
+        />
+        {steps.length > 0 && (
+          <Table
+            size="small"
+            pagination={false}
+            rowKey="index"
+            dataSource={steps}
+            columns={[
+              { title: '步骤', key: 'step', width: 160, render: (step: any) => `${step.index + 1}. ${step.name}` },
+              {
+                title: '输出',
+                key: 'results',
+                render: (step: any) => (
+                  <Space direction="vertical" size={0}>
+                    {step.results.map((result: any) => {
+                      const config = resultStatus[result.status] || { color: 'default', text: result.status };
+                      const output = [result.snapname, result.check, result.error, result.rollback && `回滚到 ${result.rollback.snapname}: ${result.rollback.status === 'success' ? '成功' : result.rollback.error}`]
+                        .filter(Boolean)
+                        .join('；');
+                      return (
+                        <Text key={`${result.connectionId}-${result.vmid}`}>
+                          <Tag color={config.color}>{config.text}</Tag>
+                          {result.vmname || result.vmid}{output && ` - ${output}`}
+                        </Text>
+                      );
+                    })}
+                  </Space>
+                ),
+              },
+            ]}
+          />
+        )}
+        </Space>
+      );
+    },
+  };
+
   const weekDays = [
     { label: '周日', value: 0 },
     { label: '周一', value: 1 },
@@ -609,17 +875,53 @@ function ScheduledTasks() {
             pagination={{ pageSize: 10 }}
           />
         </TabPane>
+        <TabPane tab="工作流" key="workflows">
+          {hasPermission('manage_tasks') && (
+            <Button
+              icon={<PlusOutlined />}
+              style={{ marginBottom: 16 }}
+              onClick={() => { setEditingWorkflow(null); setWorkflowModalVisible(true); }}
+            >
+              创建工作流
+            </Button>
+          )}
+          <Table
+            columns={workflowColumns}
+            dataSource={workflows}
+            rowKey="id"
+            pagination={{ pageSize: 10 }}
+          />
+        </TabPane>
         <TabPane tab="执行历史" key="history">
           <Table
             columns={historyColumns}
             dataSource={history}
             rowKey="id"
+            expandable={historyExpandable}
             scroll={{ x: 1000 }}
             pagination={{ pageSize: 20 }}
           />
         </TabPane>
       </Tabs>
 
+      <MaintenanceConflictModal
+        rejection={maintenanceRejection?.rejection || null}
+        allowQueue={false}
+        onCancel={() => setMaintenanceRejection(null)}
+        onResolve={async (resolution) => {
+          if (maintenanceRejection) {
+            await handleRunNow(maintenanceRejection.taskId, resolution);
+          }
+        }}
+      />
+
+      <WorkflowEditorModal
+        visible={workflowModalVisible}
+        workflow={editingWorkflow}
+        onClose={() => setWorkflowModalVisible(false)}
+        onSaved={fetchWorkflows}
+      />
+
       {/* 创建/编辑任务 Modal */}
       <Modal
         title={editingTask ? '编辑任务' : '创建任务'}
@@ -637,6 +939,10 @@ function ScheduledTasks() {
             task_type: 'power',
             target_type: 'vm',
             schedule_type: 'daily',
+            timezone: 'Asia/Shanghai',
+            misfire_policy: 'run_once',
+            overlap_policy: 'skip',
+            maintenance_policy: 'skip',
           }}
         >
           <Form.Item
@@ -651,13 +957,32 @@ function ScheduledTasks() {
             <Select value={taskType} onChange={setTaskType}>
               <Option value="power">电源操作</Option>
               <Option value="backup">备份任务</Option>
+              <Option value="snapshot">快照任务</Option>
+              <Option value="workflow">工作流</Option>
             </Select>
           </Form.Item>
 
+          {taskType === 'workflow' && (
+            <Form.Item
+              name="workflow_id"
+              label="工作流"
+              rules={[{ required: true, message: '请选择工作流' }]}
+            >
+              <Select placeholder="选择工作流">
+                {workflows.map(workflow => (
+                  <Option key={workflow.id} value={workflow.id}>
+                    {workflow.name} ({workflow.steps.map(step => step.name || STEP_ACTIONS[step.action]).join(' → ')})
+                  </Option>
+                ))}
+              </Select>
+            </Form.Item>
+          )}
+
           <Form.Item
             name="action"
             label="执行操作"
-            rules={[{ required: true, message: '请选择操作' }]}
+            hidden={taskType === 'workflow'}
+            rules={[{ required: taskType !== 'workflow', message: '请选择操作' }]}
           >
             <Select placeholder="选择操作">
               {taskType === 'power' && (
@@ -671,6 +996,9 @@ function ScheduledTasks() {
               {taskType === 'backup' && (
                 <Option value="backup">创建备份</Option>
               )}
+              {taskType === 'snapshot' && (
+                <Option value="snapshot">创建快照</Option>
+              )}
             </Select>
           </Form.Item>
 
@@ -719,20 +1047,56 @@ function ScheduledTasks() {
             </>
           )}
 
+          {taskType === 'snapshot' && (
+            <>
+              <Form.Item
+                name="snapshot_prefix"
+                label="快照名前缀"
+                tooltip="快照名为 前缀_执行时间，例如 auto_20260101_020000"
+                rules={[{ pattern: /^[a-zA-Z][a-zA-Z0-9_-]{0,23}$/, message: '以字母开头，最多24个字母、数字、下划线或连字符' }]}
+              >
+                <Input placeholder="auto" />
+              </Form.Item>
+              <Form.Item name="vmstate" valuePropName="checked">
+                <Checkbox>包含内存状态 (仅QEMU)</Checkbox>
+              </Form.Item>
+            </>
+          )}
+
           <Form.Item label="调度类型">
             <Select value={scheduleType} onChange={setScheduleType}>
               <Option value="once">一次性</Option>
               <Option value="daily">每天</Option>
               <Option value="weekly">每周</Option>
+              <Option value="cron">自定义 (Cron)</Option>
             </Select>
           </Form.Item>
 
-          <Form.Item
-            name="scheduled_time"
-            label="执行时间"
-            rules={[{ required: true, message: '请选择执行时间' }]}
-          >
-            <TimePicker format="HH:mm" style={{ width: '100%' }} />
+          {scheduleType === 'cron' ? (
+            <Form.Item
+              name="cron_expression"
+              label="Cron 表达式"
+              tooltip="5段 (分 时 日 月 周) 或 6段 (秒 分 时 日 月 周)，支持 *、列表、范围、步长 (*/15)、L (月末)、5L (最后一个周五) 和 @daily 等别名"
+              rules={[{ required: true, message: '请输入 Cron 表达式' }]}
+            >
+              <Input placeholder="例如: 0 2 * * 1-5" />
+            </Form.Item>
+          ) : (
+            <Form.Item
+              name="scheduled_time"
+              label="执行时间"
+              rules={[{ required: true, message: '请选择执行时间' }]}
+            >
+              <TimePicker format="HH:mm" style={{ width: '100%' }} />
+            </Form.Item>
+          )}
+
+          <Form.Item name="timezone" label="时区">
+            <Select showSearch>
+              {TIMEZONES.map(tz => (
+                <Option key={tz} value={tz}>{tz}</Option>
+              ))}
+            </Select>
           </Form.Item>
 
           {scheduleType === 'weekly' && (
@@ -745,6 +1109,57 @@ function ScheduledTasks() {
             </Form.Item>
           )}
 
+          {previewError && (
+            <Alert type="error" showIcon message={previewError} style={{ marginBottom: 16 }} />
+          )}
+          {previewRuns.length > 0 && (
+            <Form.Item label={scheduleType === 'once' ? '执行时间' : '接下来的执行时间'}>
+              <Space direction="vertical" size={0}>
+                {(scheduleType === 'once' ? previewRuns.slice(0, 1) : previewRuns).map(run => (
+                  <Text key={run.time} type="secondary">{run.local} ({timezone || 'Asia/Shanghai'})</Text>
+                ))}
+              </Space>
+            </Form.Item>
+          )}
+
+          <Form.Item
+            name="misfire_policy"
+            label="错过执行时"
+            tooltip="服务重启或停机期间错过计划执行时间的处理方式"
+          >
+            <Select>
+              <Option value="run_once">启动后补执行一次</Option>
+              <Option value="run_all">逐次补执行所有错过的执行 (最多24次)</Option>
+              <Option value="skip">跳过，等待下一次</Option>
+            </Select>
+          </Form.Item>
+
+          <Form.Item name="overlap_policy" label="上一次执行未结束时">
+            <Select>
+              <Option value="skip">跳过本次执行</Option>
+              <Option value="queue">等待上一次结束后执行</Option>
+            </Select>
+          </Form.Item>
+
+          <Form.Item
+            name="maintenance_policy"
+            label="不在维护窗口内时"
+            tooltip="关机、重启、停机备份等中断性操作不在适用的维护窗口内或处于冻结期时的处理方式"
+          >
+            <Select>
+              <Option value="skip">跳过本次执行</Option>
+              <Option value="queue">等到允许执行时再执行</Option>
+            </Select>
+          </Form.Item>
+
+          <Form.Item
+            name="max_runtime_minutes"
+            label="最长运行时间 (分钟)"
+            tooltip="超时后不再执行剩余目标，已发出的PVE任务会继续运行；留空表示不限制"
+          >
+            <InputNumber min={1} max={10080} placeholder="不限制" style={{ width: '100%' }} />
+          </Form.Item>
+
           <Form.Item name="enabled" label="启用" valuePropName="checked">
             <Switch checkedChildren="启用" unCheckedChildren="禁用" />
           </Form.Item>
@@ -775,6 +1190,7 @@ function ScheduledTasks() {
           columns={historyColumns}
           dataSource={filteredHistory}
           rowKey="id"
+          expandable={historyExpandable}
           pagination={{ pageSize: 10 }}
           scroll={{ x: 800 }}
         />
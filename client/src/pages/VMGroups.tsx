@@ -1,15 +1,17 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import {
-  Card, Table, Button, Space, Tag, Modal, Form, Input, Select, message, 
-  Popconfirm, Tooltip, Row, Col, Statistic, ColorPicker
+  Card, Table, Button, Space, Tag, Modal, Form, Input, InputNumber, Select, message, 
+  Popconfirm, Tooltip, Row, Col, Statistic, ColorPicker, Checkbox, Radio, Alert
 } from 'antd';
 import type { Color } from 'antd/es/color-picker';
 import {
   PlusOutlined, EditOutlined, DeleteOutlined, ReloadOutlined,
-  PlayCircleOutlined, PoweroffOutlined, StopOutlined, FolderOutlined
+  PlayCircleOutlined, PoweroffOutlined, StopOutlined, FolderOutlined, ThunderboltOutlined
 } from '@ant-design/icons';
 import { useAuth } from '../contexts/AuthContext';
 import { usePVE } from '../contexts/PVEContext';
+import JobProgressModal from '../components/JobProgressModal';
+import MaintenanceConflictModal, { MaintenanceRejection, MaintenanceResolution, isMaintenanceRejection } from '../components/MaintenanceConflictModal';
 
 const { Option } = Select;
 const { TextArea } = Input;
@@ -19,16 +21,65 @@ interface VMGroup {
   name: string;
   description: string;
   color: string;
+  type: 'static' | 'dynamic';
+  rules: GroupRules | null;
   member_count: number;
   created_at: string;
   members?: any[];
 }
 
+interface GroupRules {
+  name?: string;
+  tags?: string[];
+  nodes?: string[];
+  connections?: string[];
+  type?: 'qemu' | 'lxc';
+  pools?: string[];
+  statuses?: string[];
+}
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
 
+const readinessLabels: Record<string, string> = {
+  agent: 'Guest Agent',
+  tcp: 'TCP端口',
+  http: 'HTTP检查',
+};
+
+// 表单字段 -> 动态分组规则（空条件不提交）
+function buildRules(values: any): GroupRules {
+  const rules: GroupRules = {};
+  if (values.rule_name) rules.name = values.rule_name;
+  if (values.rule_tags?.length) rules.tags = values.rule_tags;
+  if (values.rule_nodes?.length) rules.nodes = values.rule_nodes;
+  if (values.rule_connections?.length) rules.connections = values.rule_connections;
+  if (values.rule_type) rules.type = values.rule_type;
+  if (values.rule_pools?.length) rules.pools = values.rule_pools;
+  if (values.rule_statuses?.length) rules.statuses = values.rule_statuses;
+  return rules;
+}
+
+function describeRules(rules: GroupRules): string {
+  const parts: string[] = [];
+  if (rules.name) parts.push(`名称 /${rules.name}/`);
+  if (rules.tags) parts.push(`标签 ${rules.tags.join(', ')}`);
+  if (rules.nodes) parts.push(`节点 ${rules.nodes.join(', ')}`);
+  if (rules.connections) parts.push(`${rules.connections.length} 个连接`);
+  if (rules.type) parts.push(rules.type === 'qemu' ? '虚拟机' : '容器');
+  if (rules.pools) parts.push(`资源池 ${rules.pools.join(', ')}`);
+  if (rules.statuses) parts.push(`状态 ${rules.statuses.join(', ')}`);
+  return parts.join('；');
+}
+
+function describeReadiness(readiness: any): string {
+  if (readiness.type === 'tcp') return `${readiness.host}:${readiness.port}`;
+  if (readiness.type === 'http') return readiness.url;
+  return 'agent ping';
+}
+
 function VMGroups() {
   const { token, hasPermission } = useAuth();
-  const { vms, connections } = usePVE();
+  const { vms, connections, nodes, socket } = usePVE();
   const [groups, setGroups] = useState<VMGroup[]>([]);
   const [loading, setLoading] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
@@ -36,8 +87,21 @@ function VMGroups() {
   const [editingGroup, setEditingGroup] = useState<VMGroup | null>(null);
   const [selectedGroup, setSelectedGroup] = useState<VMGroup | null>(null);
   const [selectedVMs, setSelectedVMs] = useState<string[]>([]);
+  const [batchJob, setBatchJob] = useState<{ id: string; groupId: string; title: string } | null>(null);
   const [batchLoading, setBatchLoading] = useState(false);
+  const [continueOnError, setContinueOnError] = useState(false);
+  const [maintenanceRejection, setMaintenanceRejection] = useState<{
+    rejection: MaintenanceRejection;
+    retry: (resolution: MaintenanceResolution) => Promise<void>;
+  } | null>(null);
+  const [editingMember, setEditingMember] = useState<any>(null);
+  const [memberSaving, setMemberSaving] = useState(false);
+  const [rulesPreview, setRulesPreview] = useState<{ total: number; members: any[] } | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
   const [form] = Form.useForm();
+  const [memberForm] = Form.useForm();
+  const groupType = Form.useWatch('type', form);
+  const readinessType = Form.useWatch('readiness_type', memberForm);
 
   const fetchGroups = useCallback(async () => {
     setLoading(true);
@@ -74,18 +138,41 @@ function VMGroups() {
     fetchGroups();
   }, [fetchGroups]);
 
+  // 新VM按规则加入动态分组时刷新
+  useEffect(() => {
+    if (!socket) return;
+    const onMemberJoined = (data: { groupName: string; vm: any }) => {
+      message.info(`${data.vm.name} (${data.vm.vmid}) 已加入动态分组 ${data.groupName}`);
+      fetchGroups();
+    };
+    socket.on('group-member-joined', onMemberJoined);
+    return () => {
+      socket.off('group-member-joined', onMemberJoined);
+    };
+  }, [socket, fetchGroups]);
+
   const handleCreate = () => {
     setEditingGroup(null);
+    setRulesPreview(null);
     form.resetFields();
     setModalVisible(true);
   };
 
   const handleEdit = (group: VMGroup) => {
     setEditingGroup(group);
+    setRulesPreview(null);
     form.setFieldsValue({
       name: group.name,
       description: group.description,
       color: group.color,
+      type: group.type,
+      rule_name: group.rules?.name,
+      rule_tags: group.rules?.tags,
+      rule_nodes: group.rules?.nodes,
+      rule_connections: group.rules?.connections,
+      rule_type: group.rules?.type,
+      rule_pools: group.rules?.pools,
+      rule_statuses: group.rules?.statuses,
     });
     setModalVisible(true);
   };
@@ -120,19 +207,53 @@ function VMGroups() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ ...values, color }),
+        body: JSON.stringify({
+          name: values.name,
+          description: values.description,
+          color,
+          type: values.type,
+          rules: values.type === 'dynamic' ? buildRules(values) : undefined,
+        }),
       });
 
+      const data = await response.json();
       if (response.ok) {
         message.success(editingGroup ? '分组已更新' : '分组已创建');
         setModalVisible(false);
         fetchGroups();
+      } else {
+        message.error(data.error || '操作失败');
       }
     } catch (error) {
       message.error('操作失败');
     }
   };
 
+  const handlePreviewRules = async () => {
+    setPreviewLoading(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/groups/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ rules: buildRules(form.getFieldsValue()) }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setRulesPreview(data);
+      } else {
+        setRulesPreview(null);
+        message.error(data.error || '预览失败');
+      }
+    } catch (error) {
+      message.error('预览失败');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
   const handleManageMembers = async (group: VMGroup) => {
     await fetchGroupDetails(group.id);
     setMembersModalVisible(true);
@@ -193,7 +314,68 @@ function VMGroups() {
     }
   };
 
-  const handleBatchAction = async (groupId: string, action: string) => {
+  const handleEditMember = (member: any) => {
+    setEditingMember(member);
+    memberForm.setFieldsValue({
+      boot_order: member.boot_order ?? 0,
+      start_delay: member.start_delay ?? 0,
+      readiness_type: member.readiness?.type || 'none',
+      host: member.readiness?.host,
+      port: member.readiness?.port,
+      url: member.readiness?.url,
+      expect_status: member.readiness?.expect_status,
+      timeout: member.readiness?.timeout ?? 300,
+    });
+  };
+
+  const handleSaveMember = async (values: any) => {
+    if (!selectedGroup || !editingMember) return;
+
+    const readiness = values.readiness_type === 'none' ? null : {
+      type: values.readiness_type,
+      host: values.host,
+      port: values.port,
+      url: values.url,
+      expect_status: values.expect_status,
+      timeout: values.timeout,
+    };
+
+    setMemberSaving(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/groups/${selectedGroup.id}/members/${editingMember.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ boot_order: values.boot_order, start_delay: values.start_delay, readiness }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        message.success('启动设置已保存');
+        setEditingMember(null);
+        fetchGroupDetails(selectedGroup.id);
+      } else {
+        message.error(data.error || '保存失败');
+      }
+    } catch (error) {
+      message.error('保存失败');
+    } finally {
+      setMemberSaving(false);
+    }
+  };
+
+  const actionNames: Record<string, string> = {
+    start: '启动',
+    shutdown: '关机',
+    stop: '强制停止',
+    reboot: '重启',
+  };
+
+  // resolution: 被维护窗口拒绝后选择排队或忽略限制重新提交
+  // allowPartial: 部分连接无法读取清单时，确认只操作已读取到的成员
+  const handleBatchAction = async (groupId: string, action: string, resolution?: MaintenanceResolution, allowPartial = false) => {
     setBatchLoading(true);
     try {
       const response = await fetch(`${API_BASE_URL}/api/groups/${groupId}/batch-action`, {
@@ -202,13 +384,37 @@ function VMGroups() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ action }),
+        body: JSON.stringify({ action, continueOnError, allowPartial, ...resolution }),
       });
 
       const data = await response.json();
       if (response.ok) {
-        message.success(`批量${action}操作已执行: 成功 ${data.successCount}, 失败 ${data.failCount}`);
-        fetchGroupDetails(groupId);
+        setMaintenanceRejection(null);
+        setBatchJob({ id: data.jobId, groupId, title: `分组批量${actionNames[action] || action}` });
+        if (data.job?.hold_until) {
+          message.info(data.message);
+        }
+      } else if (isMaintenanceRejection(response.status, data)) {
+        setMaintenanceRejection({ rejection: data, retry: (next) => handleBatchAction(groupId, action, next, allowPartial) });
+      } else if (response.status === 503 && Array.isArray(data.errors)) {
+        Modal.confirm({
+          title: '分组成员不完整，是否继续？',
+          width: 560,
+          content: (
+            <div>
+              <p>以下连接无法读取资源清单，其中匹配的虚拟机不会被操作：</p>
+              <ul>
+                {data.errors.map((item: { connectionName?: string; connectionId?: string; error: string }, index: number) => (
+                  <li key={index}>{item.connectionName || item.connectionId || '未知连接'}: {item.error}</li>
+                ))}
+              </ul>
+              <p>已读取到 {data.total} 台虚拟机。</p>
+            </div>
+          ),
+          okText: '继续执行',
+          cancelText: '取消',
+          onOk: () => handleBatchAction(groupId, action, resolution, true),
+        });
       } else {
         message.error(data.error || '操作失败');
       }
@@ -228,6 +434,11 @@ function VMGroups() {
         <Space>
           <FolderOutlined style={{ color: record.color }} />
           <span style={{ color: record.color, fontWeight: 500 }}>{name}</span>
+          {record.type === 'dynamic' && (
+            <Tooltip title={record.rules ? describeRules(record.rules) : ''}>
+              <Tag icon={<ThunderboltOutlined />} color="geekblue">动态</Tag>
+            </Tooltip>
+          )}
         </Space>
       ),
     },
@@ -311,6 +522,7 @@ function VMGroups() {
   ];
 
   const memberColumns = [
+    { title: '顺序', dataIndex: 'boot_order', key: 'boot_order', width: 60 },
     { title: 'VMID', dataIndex: 'vmid', key: 'vmid', width: 80 },
     { title: '名称', dataIndex: 'vmname', key: 'vmname' },
     { title: '节点', dataIndex: 'node', key: 'node' },
@@ -325,13 +537,30 @@ function VMGroups() {
         </Tag>
       ),
     },
+    {
+      title: '启动条件',
+      key: 'readiness',
+      render: (_: any, record: any) => (
+        <Space size={4} wrap>
+          {record.readiness && (
+            <Tooltip title={describeReadiness(record.readiness)}>
+              <Tag color="purple">{readinessLabels[record.readiness.type]}</Tag>
+            </Tooltip>
+          )}
+          {record.start_delay > 0 && <Tag>延迟 {record.start_delay}s</Tag>}
+        </Space>
+      ),
+    },
     {
       title: '操作',
       key: 'action',
-      render: (_: any, record: any) => (
-        <Popconfirm title="确定要从分组移除此虚拟机吗？" onConfirm={() => handleRemoveMember(record)}>
-          <Button type="link" size="small" danger>移除</Button>
-        </Popconfirm>
+      render: (_: any, record: any) => selectedGroup?.type === 'dynamic' ? null : (
+        <Space size={0}>
+          <Button type="link" size="small" onClick={() => handleEditMember(record)}>启动设置</Button>
+          <Popconfirm title="确定要从分组移除此虚拟机吗？" onConfirm={() => handleRemoveMember(record)}>
+            <Button type="link" size="small" danger>移除</Button>
+          </Popconfirm>
+        </Space>
       ),
     },
   ];
@@ -399,6 +628,76 @@ function VMGroups() {
           <Form.Item name="color" label="颜色" initialValue="#1890ff">
             <ColorPicker />
           </Form.Item>
+          <Form.Item name="type" label="分组类型" initialValue="static" tooltip="动态分组按规则实时匹配资源清单中的虚拟机，新建的VM满足规则时自动加入">
+            <Radio.Group disabled={!!editingGroup}>
+              <Radio value="static">静态（手动添加成员）</Radio>
+              <Radio value="dynamic">动态（按规则匹配）</Radio>
+            </Radio.Group>
+          </Form.Item>
+          {groupType === 'dynamic' && (
+            <Card size="small" title="匹配规则（同时满足所有条件）" style={{ marginBottom: 24 }}>
+              <Form.Item name="rule_name" label="名称正则" tooltip="不区分大小写，例如 ^db-">
+                <Input placeholder="^db-" />
+              </Form.Item>
+              <Row gutter={16}>
+                <Col span={12}>
+                  <Form.Item name="rule_tags" label="PVE标签" tooltip="需同时包含所有标签">
+                    <Select mode="tags" placeholder="输入标签" />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item name="rule_pools" label="资源池">
+                    <Select mode="tags" placeholder="输入资源池" />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item name="rule_nodes" label="节点">
+                    <Select mode="tags" placeholder="选择或输入节点">
+                      {[...new Set(nodes.map(node => node.node))].map(name => (
+                        <Option key={name} value={name}>{name}</Option>
+                      ))}
+                    </Select>
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item name="rule_connections" label="连接">
+                    <Select mode="multiple" placeholder="全部连接">
+                      {connections.map(conn => (
+                        <Option key={conn.id} value={conn.id}>{conn.name}</Option>
+                      ))}
+                    </Select>
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item name="rule_type" label="类型">
+                    <Select allowClear placeholder="全部类型">
+                      <Option value="qemu">虚拟机 (QEMU)</Option>
+                      <Option value="lxc">容器 (LXC)</Option>
+                    </Select>
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item name="rule_statuses" label="状态">
+                    <Select mode="multiple" placeholder="全部状态">
+                      <Option value="running">running</Option>
+                      <Option value="stopped">stopped</Option>
+                      <Option value="suspended">suspended</Option>
+                    </Select>
+                  </Form.Item>
+                </Col>
+              </Row>
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Button onClick={handlePreviewRules} loading={previewLoading}>预览匹配结果</Button>
+                {rulesPreview && (
+                  <Alert
+                    type={rulesPreview.total > 0 ? 'info' : 'warning'}
+                    message={`当前匹配 ${rulesPreview.total} 台虚拟机`}
+                    description={rulesPreview.members.slice(0, 20).map(m => `${m.vmname} (${m.vmid})`).join('、') + (rulesPreview.total > 20 ? ' …' : '')}
+                  />
+                )}
+              </Space>
+            </Card>
+          )}
           <Form.Item>
             <Space>
               <Button type="primary" htmlType="submit">
@@ -415,10 +714,18 @@ function VMGroups() {
         title={`管理分组成员 - ${selectedGroup?.name}`}
         open={membersModalVisible}
         onCancel={() => { setMembersModalVisible(false); setSelectedGroup(null); }}
-        width={800}
+        width={900}
         footer={null}
       >
         <Space direction="vertical" style={{ width: '100%' }} size="large">
+          {selectedGroup?.type === 'dynamic' ? (
+            <Alert
+              type="info"
+              showIcon
+              message="动态分组"
+              description={`成员按规则实时匹配：${selectedGroup.rules ? describeRules(selectedGroup.rules) : ''}`}
+            />
+          ) : (
           <Card size="small" title="添加虚拟机">
             <Space style={{ width: '100%' }}>
               <Select
@@ -439,6 +746,7 @@ function VMGroups() {
               </Button>
             </Space>
           </Card>
+          )}
 
           <Card size="small" title={`已添加的虚拟机 (${selectedGroup?.members?.length || 0})`}>
             <Table
@@ -451,7 +759,7 @@ function VMGroups() {
           </Card>
 
           <Card size="small" title="批量操作">
-            <Space>
+            <Space wrap>
               <Button
                 type="primary"
                 icon={<PlayCircleOutlined />}
@@ -475,10 +783,96 @@ function VMGroups() {
               >
                 全部强制停止
               </Button>
+              <Tooltip title="默认按启动顺序分阶段执行（关机时反向），某一阶段失败后不再执行后续阶段">
+                <Checkbox checked={continueOnError} onChange={(e) => setContinueOnError(e.target.checked)}>
+                  失败后继续
+                </Checkbox>
+              </Tooltip>
             </Space>
           </Card>
         </Space>
       </Modal>
+
+      {/* 成员启动设置弹窗 */}
+      <Modal
+        title={`启动设置 - ${editingMember?.vmname || editingMember?.vmid || ''}`}
+        open={!!editingMember}
+        onCancel={() => setEditingMember(null)}
+        onOk={() => memberForm.submit()}
+        confirmLoading={memberSaving}
+        destroyOnClose
+      >
+        <Form form={memberForm} layout="vertical" onFinish={handleSaveMember}>
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item name="boot_order" label="启动顺序" tooltip="数字小的先启动，关机时反向；相同顺序的成员同时执行" rules={[{ required: true }]}>
+                <InputNumber min={0} max={1000} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="start_delay" label="启动后延迟（秒）" tooltip="启动并通过就绪检查后，等待该时间再启动下一顺序的成员" rules={[{ required: true }]}>
+                <InputNumber min={0} max={3600} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item name="readiness_type" label="就绪检查">
+            <Select>
+              <Option value="none">不检查</Option>
+              <Option value="agent">Guest Agent 响应（仅QEMU）</Option>
+              <Option value="tcp">TCP 端口可连接</Option>
+              <Option value="http">HTTP 请求成功</Option>
+            </Select>
+          </Form.Item>
+          {readinessType === 'tcp' && (
+            <Row gutter={16}>
+              <Col span={16}>
+                <Form.Item name="host" label="地址" rules={[{ required: true, message: '请输入地址' }]}>
+                  <Input placeholder="10.0.0.10" />
+                </Form.Item>
+              </Col>
+              <Col span={8}>
+                <Form.Item name="port" label="端口" rules={[{ required: true, message: '请输入端口' }]}>
+                  <InputNumber min={1} max={65535} style={{ width: '100%' }} />
+                </Form.Item>
+              </Col>
+            </Row>
+          )}
+          {readinessType === 'http' && (
+            <Row gutter={16}>
+              <Col span={16}>
+                <Form.Item name="url" label="URL" rules={[{ required: true, message: '请输入URL' }]}>
+                  <Input placeholder="http://10.0.0.20:8080/health" />
+                </Form.Item>
+              </Col>
+              <Col span={8}>
+                <Form.Item name="expect_status" label="期望状态码" tooltip="留空时接受 2xx/3xx">
+                  <InputNumber min={100} max={599} style={{ width: '100%' }} />
+                </Form.Item>
+              </Col>
+            </Row>
+          )}
+          {readinessType && readinessType !== 'none' && (
+            <Form.Item name="timeout" label="最长等待（秒）" tooltip="超时未就绪时该成员标记为失败">
+              <InputNumber min={1} max={3600} style={{ width: '100%' }} />
+            </Form.Item>
+          )}
+        </Form>
+      </Modal>
+
+      {/* 维护窗口限制 */}
+      <MaintenanceConflictModal
+        rejection={maintenanceRejection?.rejection || null}
+        onCancel={() => setMaintenanceRejection(null)}
+        onResolve={(resolution) => maintenanceRejection?.retry(resolution)}
+      />
+
+      {/* 分组批量任务进度 */}
+      <JobProgressModal
+        jobId={batchJob?.id || null}
+        title={batchJob?.title}
+        onClose={() => setBatchJob(null)}
+        onFinished={() => batchJob && fetchGroupDetails(batchJob.groupId)}
+      />
     </>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Card,
   Table,
@@ -27,10 +27,23 @@ import {
   BorderOutlined,
   CloudUploadOutlined,
   AppstoreOutlined,
+  CopyOutlined,
+  FileProtectOutlined,
+  SwapOutlined,
+  PlusOutlined,
+  SettingOutlined,
+  TagsOutlined,
 } from '@ant-design/icons';
 import { usePVE } from '../contexts/PVEContext';
 import { useAuth } from '../contexts/AuthContext';
 import VNCConsole from '../components/VNCConsole';
+import CloneVMModal from '../components/CloneVMModal';
+import MigrateVMModal from '../components/MigrateVMModal';
+import VMConfigModal from '../components/VMConfigModal';
+import VMTagsModal, { splitTags } from '../components/VMTagsModal';
+import JobProgressModal from '../components/JobProgressModal';
+import MaintenanceConflictModal, { MaintenanceRejection, MaintenanceResolution, isMaintenanceRejection } from '../components/MaintenanceConflictModal';
+import CreateVMWizard from '../components/CreateVMWizard';
 
 const { Option } = Select;
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
@@ -48,10 +61,13 @@ interface VMRecord {
   mem: number;
   maxmem: number;
   uptime: number;
+  template?: number;
+  tags?: string;
+  pool?: string;
 }
 
 function VirtualMachines() {
-  const { vms, connections, vmAction, refreshVMs } = usePVE();
+  const { vms, connections, socket, vmAction, refreshVMs } = usePVE();
   const { token, hasPermission } = useAuth();
   const [loading, setLoading] = useState(false);
   const [batchLoading, setBatchLoading] = useState(false);
@@ -63,10 +79,49 @@ function VirtualMachines() {
   const [batchVncTargets, setBatchVncTargets] = useState<VMRecord[]>([]);
   const [backupModalVisible, setBackupModalVisible] = useState(false);
   const [backupStorage, setBackupStorage] = useState<string>('local');
+  const [cloneTarget, setCloneTarget] = useState<VMRecord | null>(null);
+  const [migrateTarget, setMigrateTarget] = useState<VMRecord | null>(null);
+  const [configTarget, setConfigTarget] = useState<VMRecord | null>(null);
+  const [tagsTarget, setTagsTarget] = useState<VMRecord | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [poolFilter, setPoolFilter] = useState<string | undefined>(undefined);
+  const [batchJob, setBatchJob] = useState<{ id: string; title: string } | null>(null);
+  // 被维护窗口拒绝的批量请求，选择排队或忽略限制后重新提交
+  const [maintenanceRejection, setMaintenanceRejection] = useState<{
+    rejection: MaintenanceRejection;
+    retry: (resolution: MaintenanceResolution) => Promise<void>;
+  } | null>(null);
+  const [createVisible, setCreateVisible] = useState(false);
 
-  const filteredVMs = selectedConnection === 'all' 
-    ? vms 
-    : vms.filter(vm => vm.connectionId === selectedConnection);
+  // 创建任务完成通知
+  useEffect(() => {
+    if (!socket) return;
+    const onProvisioned = (data: any) => {
+      if (data.success) {
+        message.success(`${data.name} (${data.vmid}) 创建完成`);
+        refreshVMs();
+      } else {
+        message.error(`${data.name} (${data.vmid}) 创建失败: ${data.error}`);
+      }
+    };
+    socket.on('vm-provisioned', onProvisioned);
+    return () => {
+      socket.off('vm-provisioned', onProvisioned);
+    };
+  }, [socket]);
+
+  const allTags = [...new Set(vms.flatMap(vm => splitTags(vm.tags)))].sort();
+  const allPools = [...new Set(vms.map(vm => vm.pool).filter((pool): pool is string => !!pool))].sort();
+
+  // 按连接、标签（需包含全部所选标签）和资源池过滤
+  const filteredVMs = vms.filter(vm => {
+    if (selectedConnection !== 'all' && vm.connectionId !== selectedConnection) return false;
+    if (tagFilter.length > 0) {
+      const tags = splitTags(vm.tags);
+      if (!tagFilter.every(tag => tags.includes(tag))) return false;
+    }
+    return !poolFilter || vm.pool === poolFilter;
+  });
 
   const selectedVMs = filteredVMs.filter(vm => 
     selectedRowKeys.includes(`${vm.connectionId}-${vm.vmid}`)
@@ -118,51 +173,83 @@ function VirtualMachines() {
       reboot: '重启',
     };
 
+    const vmList = selectedVMs.map(vm => ({
+      connection_id: vm.connectionId,
+      node: vm.node,
+      vmid: vm.vmid,
+      type: vm.type,
+    }));
+
+    const submit = async (resolution?: MaintenanceResolution) => {
+      setBatchLoading(true);
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/batch/vms/action`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({ action, vms: vmList, ...resolution }),
+        });
+
+        const data = await response.json();
+        
+        if (data.success) {
+          // 服务端在后台任务中执行，进度在弹窗中显示
+          setMaintenanceRejection(null);
+          setBatchJob({ id: data.jobId, title: `批量${actionNames[action] || action}` });
+          setSelectedRowKeys([]);
+          if (data.job?.hold_until) {
+            message.info(data.message);
+          }
+        } else if (isMaintenanceRejection(response.status, data)) {
+          setMaintenanceRejection({ rejection: data, retry: submit });
+        } else {
+          message.error(data.error || '批量操作失败');
+        }
+      } catch (error: any) {
+        message.error(`批量操作失败: ${error.message}`);
+      } finally {
+        setBatchLoading(false);
+      }
+    };
+
     Modal.confirm({
       title: `批量${actionNames[action] || action}`,
       content: `确定要对选中的 ${selectedVMs.length} 台虚拟机执行 ${actionNames[action] || action} 操作吗？`,
       okText: '确认',
       cancelText: '取消',
+      onOk: () => submit(),
+    });
+  };
+
+  // 转换为模板（不可逆）
+  const showTemplateConfirm = (vm: VMRecord) => {
+    Modal.confirm({
+      title: '转换为模板',
+      content: `确定要将 ${vm.name} (ID: ${vm.vmid}) 转换为模板吗？转换后无法再启动，且不可撤销。`,
+      okText: '确认转换',
+      okType: 'danger',
+      cancelText: '取消',
       async onOk() {
-        setBatchLoading(true);
         try {
-          const vmList = selectedVMs.map(vm => ({
-            connectionId: vm.connectionId,
-            node: vm.node,
-            vmid: vm.vmid,
-            type: vm.type,
-          }));
-
-          const response = await fetch(`${API_BASE_URL}/api/batch/vms/action`, {
+          const response = await fetch(`${API_BASE_URL}/api/pve/connections/${vm.connectionId}/vms/${vm.vmid}/template`, {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
               'Authorization': `Bearer ${token}`,
             },
-            body: JSON.stringify({ action, vms: vmList }),
+            body: JSON.stringify({ node: vm.node, type: vm.type }),
           });
-
           const data = await response.json();
-          
-          if (data.success) {
-            const successCount = data.results.filter((r: any) => r.success).length;
-            const failCount = data.results.filter((r: any) => !r.success).length;
-            
-            if (failCount > 0) {
-              message.warning(`操作完成: ${successCount} 成功, ${failCount} 失败`);
-            } else {
-              message.success(`批量操作成功: ${successCount} 台虚拟机`);
-            }
-            
-            setSelectedRowKeys([]);
+          if (response.ok) {
+            message.success(data.message);
             setTimeout(refreshVMs, 2000);
           } else {
-            message.error(data.error || '批量操作失败');
+            message.error(data.error || '转换失败');
           }
         } catch (error: any) {
-          message.error(`批量操作失败: ${error.message}`);
-        } finally {
-          setBatchLoading(false);
+          message.error(`转换失败: ${error.message}`);
         }
       },
     });
@@ -233,15 +320,7 @@ function VirtualMachines() {
           const data = await response.json();
           
           if (data.success) {
-            const successCount = data.results.filter((r: any) => r.success).length;
-            const failCount = data.results.filter((r: any) => !r.success).length;
-            
-            if (failCount > 0) {
-              message.warning(`备份任务已启动: ${successCount} 成功, ${failCount} 失败`);
-            } else {
-              message.success(`批量备份任务已启动: ${successCount} 台虚拟机`);
-            }
-            
+            setBatchJob({ id: data.jobId, title: `批量备份 (${backupStorage})` });
             setSelectedRowKeys([]);
           } else {
             message.error(data.error || '批量备份失败');
@@ -352,6 +431,12 @@ function VirtualMachines() {
       dataIndex: 'name',
       key: 'name',
       width: 150,
+      render: (name: string, record: VMRecord) => (
+        <Space size={4}>
+          {name}
+          {record.template === 1 && <Tag color="purple">模板</Tag>}
+        </Space>
+      ),
     },
     {
       title: '类型',
@@ -379,6 +464,25 @@ function VirtualMachines() {
         return <Tag color={config.color}>{config.text}</Tag>;
       },
     },
+    {
+      title: '标签',
+      key: 'tags',
+      width: 180,
+      render: (_: any, record: VMRecord) => (
+        <Space size={[0, 4]} wrap>
+          {record.pool && <Tag color="gold">池: {record.pool}</Tag>}
+          {splitTags(record.tags).map(tag => (
+            <Tag
+              key={tag}
+              style={{ cursor: 'pointer' }}
+              onClick={() => !tagFilter.includes(tag) && setTagFilter([...tagFilter, tag])}
+            >
+              {tag}
+            </Tag>
+          ))}
+        </Space>
+      ),
+    },
     {
       title: '节点',
       dataIndex: 'node',
@@ -444,7 +548,7 @@ function VirtualMachines() {
             </Tooltip>
           )}
           
-          {record.status === 'stopped' && hasPermission('vm:start') && (
+          {record.status === 'stopped' && record.template !== 1 && hasPermission('vm:start') && (
             <Tooltip title="启动">
               <Button
                 type="primary"
@@ -502,6 +606,56 @@ function VirtualMachines() {
             </Tooltip>
           )}
           
+          {hasPermission('vm:clone') && (
+            <Tooltip title="克隆">
+              <Button
+                size="small"
+                icon={<CopyOutlined />}
+                onClick={() => setCloneTarget(record)}
+              />
+            </Tooltip>
+          )}
+
+          {hasPermission('vm:migrate') && (
+            <Tooltip title="迁移">
+              <Button
+                size="small"
+                icon={<SwapOutlined />}
+                onClick={() => setMigrateTarget(record)}
+              />
+            </Tooltip>
+          )}
+
+          {record.template !== 1 && hasPermission('vm:config') && (
+            <Tooltip title="硬件配置">
+              <Button
+                size="small"
+                icon={<SettingOutlined />}
+                onClick={() => setConfigTarget(record)}
+              />
+            </Tooltip>
+          )}
+
+          {(hasPermission('vm:config') || hasPermission('pool:manage')) && (
+            <Tooltip title="标签与资源池">
+              <Button
+                size="small"
+                icon={<TagsOutlined />}
+                onClick={() => setTagsTarget(record)}
+              />
+            </Tooltip>
+          )}
+
+          {record.status === 'stopped' && record.template !== 1 && hasPermission('vm:template') && (
+            <Tooltip title="转换为模板">
+              <Button
+                size="small"
+                icon={<FileProtectOutlined />}
+                onClick={() => showTemplateConfirm(record)}
+              />
+            </Tooltip>
+          )}
+          
           {record.status === 'stopped' && hasPermission('vm:delete') && (
             <Tooltip title="删除">
               <Button
@@ -537,6 +691,34 @@ function VirtualMachines() {
                 </Option>
               ))}
             </Select>
+
+            <Select
+              mode="multiple"
+              style={{ minWidth: 160 }}
+              placeholder="按标签过滤"
+              value={tagFilter}
+              onChange={setTagFilter}
+              allowClear
+              maxTagCount="responsive"
+            >
+              {allTags.map(tag => (
+                <Option key={tag} value={tag}>{tag}</Option>
+              ))}
+            </Select>
+
+            {allPools.length > 0 && (
+              <Select
+                style={{ width: 140 }}
+                placeholder="资源池"
+                value={poolFilter}
+                onChange={setPoolFilter}
+                allowClear
+              >
+                {allPools.map(pool => (
+                  <Option key={pool} value={pool}>{pool}</Option>
+                ))}
+              </Select>
+            )}
             
             {hasPermission('vm:start') && (
               <>
@@ -558,6 +740,12 @@ function VirtualMachines() {
               </>
             )}
             
+            {hasPermission('vm:create') && (
+              <Button icon={<PlusOutlined />} onClick={() => setCreateVisible(true)}>
+                创建
+              </Button>
+            )}
+
             <Button
               type="primary"
               icon={<ReloadOutlined />}
@@ -594,7 +782,7 @@ function VirtualMachines() {
             showQuickJumper: true,
             showTotal: (total, range) => `第 ${range[0]}-${range[1]} 条，共 ${total} 条`,
           }}
-          scroll={{ x: 1300 }}
+          scroll={{ x: 1480 }}
           size="small"
         />
       </Card>
@@ -615,6 +803,57 @@ function VirtualMachines() {
         />
       )}
 
+      {/* 克隆 Modal */}
+      <CloneVMModal
+        visible={!!cloneTarget}
+        source={cloneTarget}
+        onClose={() => setCloneTarget(null)}
+        onFinished={refreshVMs}
+      />
+
+      {/* 迁移 Modal */}
+      <MigrateVMModal
+        visible={!!migrateTarget}
+        source={migrateTarget}
+        onClose={() => setMigrateTarget(null)}
+      />
+
+      {/* 批量任务进度 */}
+      <JobProgressModal
+        jobId={batchJob?.id || null}
+        title={batchJob?.title}
+        onClose={() => setBatchJob(null)}
+        onFinished={() => refreshVMs()}
+      />
+
+      {/* 维护窗口限制 */}
+      <MaintenanceConflictModal
+        rejection={maintenanceRejection?.rejection || null}
+        onCancel={() => setMaintenanceRejection(null)}
+        onResolve={(resolution) => maintenanceRejection?.retry(resolution)}
+      />
+
+      {/* 硬件配置 Modal */}
+      <VMConfigModal
+        visible={!!configTarget}
+        target={configTarget}
+        onClose={() => setConfigTarget(null)}
+      />
+
+      {/* 标签与资源池 Modal */}
+      <VMTagsModal
+        visible={!!tagsTarget}
+        target={tagsTarget}
+        knownTags={allTags}
+        onClose={() => setTagsTarget(null)}
+      />
+
+      {/* 创建向导 */}
+      <CreateVMWizard
+        visible={createVisible}
+        onClose={() => setCreateVisible(false)}
+      />
+
       {/* 批量 VNC 控制台 Modal */}
       <Modal
         title={`批量控制台 (${batchVncTargets.length} 台虚拟机)`}
@@ -1,11 +1,24 @@
 export interface PVEConfig {
   host: string;
   port: number;
+  // 集群中其他节点的API地址（host 或 host:port），主机不可达时按顺序故障转移
+  endpoints?: string[];
   username: string;
-  password: string;
+  password?: string;
   realm: string;
+  // API Token 认证（user@realm!tokenid + secret），配置后优先于密码认证
+  tokenId?: string;
+  tokenSecret?: string;
   ssl: boolean;
+  // TLS证书校验: tofu（首次信任并记录指纹）、fingerprint（固定指纹）、ca（自定义CA证书）
+  tlsMode?: 'tofu' | 'fingerprint' | 'ca';
+  fingerprint?: string;
+  // 故障转移节点各自的证书指纹（key 为 endpoints 中的地址）
+  endpointFingerprints?: Record<string, string>;
+  caCert?: string;
   timeout: number;
+  // 该连接同时进行的API请求上限
+  maxConcurrency?: number;
 }
 
 export const defaultPVEConfig: Partial<PVEConfig> = {
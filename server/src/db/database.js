@@ -4,12 +4,62 @@ const path = require('path');
 const fs = require('fs');
 const EventEmitter = require('events');
 
+// 旧数据库的增量字段迁移（CREATE TABLE IF NOT EXISTS 不会给已存在的表补充新列）
+const columnMigrations = [
+  { table: 'pve_connections', column: 'token_id', definition: 'TEXT' },
+  { table: 'pve_connections', column: 'token_secret', definition: 'TEXT' },
+  { table: 'pve_connections', column: 'tls_mode', definition: "TEXT NOT NULL DEFAULT 'tofu'" },
+  { table: 'pve_connections', column: 'tls_fingerprint', definition: 'TEXT' },
+  { table: 'pve_connections', column: 'tls_ca_cert', definition: 'TEXT' },
+  { table: 'pve_connections', column: 'timeout', definition: 'INTEGER NOT NULL DEFAULT 30000' },
+  { table: 'pve_connections', column: 'endpoints', definition: 'TEXT' },
+  { table: 'pve_connections', column: 'tls_endpoint_fingerprints', definition: 'TEXT' },
+  { table: 'pve_connections', column: 'max_concurrency', definition: 'INTEGER' },
+  { table: 'vm_groups', column: 'type', definition: "TEXT NOT NULL DEFAULT 'static'" },
+  { table: 'vm_groups', column: 'rules', definition: 'TEXT' },
+  { table: 'vm_group_members', column: 'boot_order', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'vm_group_members', column: 'start_delay', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'vm_group_members', column: 'readiness', definition: 'TEXT' },
+  { table: 'job_items', column: 'stage', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'job_items', column: 'options', definition: 'TEXT' },
+  { table: 'scheduled_tasks', column: 'misfire_policy', definition: "TEXT NOT NULL DEFAULT 'run_once'" },
+  { table: 'scheduled_tasks', column: 'overlap_policy', definition: "TEXT NOT NULL DEFAULT 'skip'" },
+  { table: 'scheduled_tasks', column: 'max_runtime', definition: 'INTEGER' },
+  { table: 'scheduled_tasks', column: 'lock_owner', definition: 'TEXT' },
+  { table: 'scheduled_tasks', column: 'lock_expires', definition: 'DATETIME' },
+  { table: 'scheduled_tasks', column: 'workflow_id', definition: 'TEXT' },
+  { table: 'task_history', column: 'scheduled_for', definition: 'DATETIME' },
+  { table: 'task_history', column: 'triggered_by', definition: "TEXT NOT NULL DEFAULT 'schedule'" },
+  { table: 'scheduled_tasks', column: 'maintenance_policy', definition: "TEXT NOT NULL DEFAULT 'skip'" },
+  { table: 'jobs', column: 'hold_until', definition: 'DATETIME' },
+  { table: 'alerts', column: 'suppressed_by', definition: 'TEXT' },
+];
+
+// 虚拟机清单表：每行对应一个VM的生命周期（VMID删除后可能被新VM重用，因此不以 connection_id + vmid 作为主键）
+const virtualMachinesTable = `CREATE TABLE IF NOT EXISTS virtual_machines (
+        id TEXT PRIMARY KEY, -- connection_id-vmid-首次发现时间戳
+        connection_id TEXT NOT NULL,
+        node TEXT NOT NULL,
+        vmid INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL, -- qemu 或 lxc
+        status TEXT,
+        first_seen DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_seen DATETIME DEFAULT CURRENT_TIMESTAMP,
+        deleted_at DATETIME, -- 墓碑：VM从集群中消失的时间
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (connection_id) REFERENCES pve_connections(id) ON DELETE CASCADE
+      )`;
+
 class Database extends EventEmitter {
   constructor() {
     super();
     this.db = null;
     this.dbPath = path.join(__dirname, '../../data/pve_manager.db');
     this.isReady = false;
+    // 所有事务共用一个连接，必须依次执行，否则 BEGIN 会嵌套或语句混入其他事务
+    this.transactionQueue = Promise.resolve();
     this.init();
   }
 
@@ -26,11 +76,14 @@ class Database extends EventEmitter {
         console.error('数据库连接失败:', err.message);
       } else {
         console.log('数据库连接成功:', this.dbPath);
-        // 同步等待表创建完成
+        // 表创建和列迁移全部完成后才触发 ready，避免旧数据库在迁移完成前被查询
         setTimeout(() => {
-          this.createTables();
-          this.isReady = true;
-          this.emit('ready');
+          this.createTables()
+            .catch((error) => console.error('数据库初始化失败:', error.message))
+            .then(() => {
+              this.isReady = true;
+              this.emit('ready');
+            });
         }, 100);
       }
     });
@@ -39,7 +92,7 @@ class Database extends EventEmitter {
     this.db.run('PRAGMA foreign_keys = ON');
   }
 
-  createTables() {
+  async createTables() {
     const statements = [
       // PVE连接表
       `CREATE TABLE IF NOT EXISTS pve_connections (
@@ -47,10 +100,19 @@ class Database extends EventEmitter {
         name TEXT NOT NULL,
         host TEXT NOT NULL,
         port INTEGER NOT NULL DEFAULT 8006,
+        endpoints TEXT, -- JSON数组: 集群中其他节点的API地址，按故障转移顺序
         username TEXT NOT NULL,
-        password TEXT NOT NULL,
+        password TEXT NOT NULL DEFAULT '',
         realm TEXT NOT NULL DEFAULT 'pam',
+        token_id TEXT, -- API Token: user@realm!tokenid
+        token_secret TEXT,
         ssl BOOLEAN NOT NULL DEFAULT 1,
+        tls_mode TEXT NOT NULL DEFAULT 'tofu', -- tofu, fingerprint, ca
+        tls_fingerprint TEXT, -- SHA-256证书指纹
+        tls_endpoint_fingerprints TEXT, -- JSON对象: 故障转移节点的证书指纹
+        tls_ca_cert TEXT, -- 自定义CA证书(PEM)
+        timeout INTEGER NOT NULL DEFAULT 30000, -- 请求超时(毫秒)
+        max_concurrency INTEGER, -- 同时进行的API请求上限，为空时使用默认值
         status TEXT NOT NULL DEFAULT 'disconnected',
         last_connected DATETIME,
         last_error TEXT,
@@ -59,18 +121,21 @@ class Database extends EventEmitter {
       )`,
       
       // 虚拟机表
-      `CREATE TABLE IF NOT EXISTS virtual_machines (
-        id TEXT PRIMARY KEY, -- connection_id-node-vmid
+      virtualMachinesTable,
+
+      // 资源清单历史表 - 记录VM的发现、迁移、改名和删除
+      `CREATE TABLE IF NOT EXISTS vm_inventory_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        vm_id TEXT NOT NULL, -- virtual_machines.id
         connection_id TEXT NOT NULL,
-        node TEXT NOT NULL,
         vmid INTEGER NOT NULL,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL, -- qemu 或 lxc
-        status TEXT,
+        event TEXT NOT NULL, -- added, removed, migrated, renamed
+        old_value TEXT,
+        new_value TEXT,
+        node TEXT,
+        name TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (connection_id) REFERENCES pve_connections(id) ON DELETE CASCADE,
-        UNIQUE(connection_id, node, vmid)
+        FOREIGN KEY (connection_id) REFERENCES pve_connections(id) ON DELETE CASCADE
       )`,
 
       // 流量统计表 - 当前数据
@@ -140,7 +205,7 @@ class Database extends EventEmitter {
         id TEXT PRIMARY KEY,
         level TEXT NOT NULL, -- critical, warning, info
         type TEXT NOT NULL, -- pve_system, performance, network, service
-        status TEXT NOT NULL DEFAULT 'active', -- active, acknowledged, resolved
+        status TEXT NOT NULL DEFAULT 'active', -- active, acknowledged, resolved, suppressed
         title TEXT NOT NULL,
         description TEXT NOT NULL,
         source TEXT NOT NULL, -- 告警源：节点名、VM名等
@@ -152,6 +217,7 @@ class Database extends EventEmitter {
         acknowledged_at DATETIME,
         acknowledged_by TEXT,
         resolved_at DATETIME,
+        suppressed_by TEXT, -- 维护窗口期间产生而被抑制时对应的窗口
         FOREIGN KEY (connection_id) REFERENCES pve_connections(id) ON DELETE CASCADE
       )`,
 
@@ -201,6 +267,8 @@ class Database extends EventEmitter {
         name TEXT NOT NULL,
         description TEXT,
         color TEXT DEFAULT '#1890ff',
+        type TEXT NOT NULL DEFAULT 'static', -- static: 手动维护成员, dynamic: 按规则实时匹配
+        rules TEXT, -- JSON: 动态分组规则
         user_id TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -214,6 +282,9 @@ class Database extends EventEmitter {
         connection_id TEXT NOT NULL,
         node TEXT NOT NULL,
         vmid INTEGER NOT NULL,
+        boot_order INTEGER NOT NULL DEFAULT 0, -- 启动顺序，小的先启动，关机时反向
+        start_delay INTEGER NOT NULL DEFAULT 0, -- 启动（并就绪）后等待的秒数
+        readiness TEXT, -- JSON: 就绪检查 {type: agent|tcp|http, ...}
         added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (group_id) REFERENCES vm_groups(id) ON DELETE CASCADE,
         FOREIGN KEY (connection_id) REFERENCES pve_connections(id) ON DELETE CASCADE,
@@ -261,6 +332,46 @@ class Database extends EventEmitter {
         last_error TEXT,
         next_run DATETIME,
         run_count INTEGER DEFAULT 0,
+        misfire_policy TEXT NOT NULL DEFAULT 'run_once', -- 错过执行时间: run_once 补执行一次, run_all 逐次补执行, skip 跳过
+        overlap_policy TEXT NOT NULL DEFAULT 'skip', -- 上一次执行未结束: skip 跳过, queue 等待后执行
+        max_runtime INTEGER, -- 最长运行秒数，超时后不再执行剩余目标
+        lock_owner TEXT, -- 持有执行租约的管理实例
+        lock_expires DATETIME,
+        workflow_id TEXT, -- action 为 workflow 时执行的工作流
+        maintenance_policy TEXT NOT NULL DEFAULT 'skip', -- 不在维护窗口内或处于冻结期: skip 跳过, queue 等到允许时执行
+        user_id TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+      )`,
+
+      // 工作流表：有序步骤 (JSON)，可被多个调度任务复用
+      `CREATE TABLE IF NOT EXISTS workflows (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        steps TEXT NOT NULL,
+        user_id TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+      )`,
+
+      // 维护窗口和变更冻结期：一次性 (start_at/end_at) 或周期性 (cron 表达式 + 持续分钟数)
+      `CREATE TABLE IF NOT EXISTS maintenance_windows (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        kind TEXT NOT NULL, -- window 允许中断性操作的维护窗口, freeze 禁止中断性操作的冻结期
+        schedule_type TEXT NOT NULL, -- once, cron
+        start_at DATETIME,
+        end_at DATETIME,
+        cron_expression TEXT,
+        duration INTEGER, -- 周期性窗口每次持续的分钟数
+        timezone TEXT DEFAULT 'Asia/Shanghai',
+        scope TEXT, -- JSON: {connection_id, nodes, vmids}，为空时适用于全部
+        suppress_alerts INTEGER NOT NULL DEFAULT 1, -- 维护窗口期间抑制受影响VM和节点的告警
+        enabled INTEGER NOT NULL DEFAULT 1,
         user_id TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -279,9 +390,55 @@ class Database extends EventEmitter {
         started_at DATETIME NOT NULL,
         completed_at DATETIME,
         duration INTEGER,
+        scheduled_for DATETIME, -- 对应的计划执行时间，手动执行为空
+        triggered_by TEXT NOT NULL DEFAULT 'schedule', -- schedule, catch_up, manual
         FOREIGN KEY (task_id) REFERENCES scheduled_tasks(id) ON DELETE CASCADE
       )`,
 
+      // 后台批量任务表
+      `CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL, -- vm_action, backup, group_action
+        status TEXT NOT NULL DEFAULT 'queued', -- queued, running, completed, partial, failed, cancelled
+        params TEXT, -- JSON: 操作参数（动作、备份存储等）
+        max_retries INTEGER NOT NULL DEFAULT 0,
+        total INTEGER NOT NULL DEFAULT 0,
+        succeeded INTEGER NOT NULL DEFAULT 0,
+        failed INTEGER NOT NULL DEFAULT 0,
+        skipped INTEGER NOT NULL DEFAULT 0,
+        cancel_requested INTEGER NOT NULL DEFAULT 0,
+        hold_until DATETIME, -- 等待维护窗口：到达该时间后再检查并开始执行
+        error TEXT,
+        user_id TEXT,
+        username TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        started_at DATETIME,
+        finished_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+      )`,
+
+      // 后台批量任务的逐项执行状态
+      `CREATE TABLE IF NOT EXISTS job_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        stage INTEGER NOT NULL DEFAULT 0, -- 执行阶段，按从小到大依次执行，同一阶段内并发
+        options TEXT, -- JSON: 条目级参数（如分组成员的就绪检查）
+        connection_id TEXT NOT NULL,
+        node TEXT NOT NULL,
+        vmid INTEGER NOT NULL,
+        type TEXT, -- qemu 或 lxc，分组任务执行时再确定
+        vmname TEXT,
+        status TEXT NOT NULL DEFAULT 'pending', -- pending, running, success, failed, skipped, cancelled
+        attempts INTEGER NOT NULL DEFAULT 0,
+        task_id TEXT, -- PVE任务UPID
+        exitstatus TEXT,
+        error TEXT,
+        started_at DATETIME,
+        finished_at DATETIME,
+        FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE
+      )`,
+
       // Shell命令执行历史表
       `CREATE TABLE IF NOT EXISTS shell_history (
         id TEXT PRIMARY KEY,
@@ -307,6 +464,9 @@ class Database extends EventEmitter {
       'CREATE INDEX IF NOT EXISTS idx_traffic_daily_day ON traffic_daily(day)',
       'CREATE INDEX IF NOT EXISTS idx_traffic_daily_vm ON traffic_daily(vm_key)',
       'CREATE INDEX IF NOT EXISTS idx_virtual_machines_connection ON virtual_machines(connection_id)',
+      'CREATE INDEX IF NOT EXISTS idx_vm_inventory_history_vm ON vm_inventory_history(vm_id)',
+      'CREATE INDEX IF NOT EXISTS idx_vm_inventory_history_vmid ON vm_inventory_history(connection_id, vmid)',
+      'CREATE INDEX IF NOT EXISTS idx_vm_inventory_history_created ON vm_inventory_history(created_at)',
       'CREATE INDEX IF NOT EXISTS idx_alerts_level ON alerts(level)',
       'CREATE INDEX IF NOT EXISTS idx_alerts_type ON alerts(type)',
       'CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts(status)',
@@ -328,27 +488,95 @@ class Database extends EventEmitter {
       'CREATE INDEX IF NOT EXISTS idx_scheduled_tasks_next_run ON scheduled_tasks(next_run)',
       'CREATE INDEX IF NOT EXISTS idx_task_history_task ON task_history(task_id)',
       'CREATE INDEX IF NOT EXISTS idx_task_history_status ON task_history(status)',
+      'CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status)',
+      'CREATE INDEX IF NOT EXISTS idx_jobs_created ON jobs(created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_job_items_job ON job_items(job_id)',
       'CREATE INDEX IF NOT EXISTS idx_shell_history_user ON shell_history(user_id)',
       'CREATE INDEX IF NOT EXISTS idx_shell_history_connection ON shell_history(connection_id)',
       'CREATE INDEX IF NOT EXISTS idx_shell_history_created ON shell_history(created_at)'
     ];
 
     // 序列化执行所有SQL语句
+    const created = [];
     this.db.serialize(() => {
-      let completed = 0;
-      
       statements.forEach((sql, index) => {
-        this.db.run(sql, (err) => {
-          if (err) {
-            console.error(`创建表/索引失败 (${index}):`, err.message);
-          }
-          completed++;
-          if (completed === statements.length) {
-            console.log('数据库表创建完成');
-          }
-        });
+        created.push(this.run(sql).catch((err) => {
+          console.error(`创建表/索引失败 (${index}):`, err.message);
+        }));
       });
     });
+    await Promise.all(created);
+    console.log('数据库表创建完成');
+
+    await this.migrateColumns();
+    await this.migrateVirtualMachines();
+  }
+
+  // 旧版 virtual_machines 以 (connection_id, node, vmid) 唯一，无法记录迁移和VMID重用，重建为清单表
+  async migrateVirtualMachines() {
+    const createIndexes = async () => {
+      try {
+        await this.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_virtual_machines_active ON virtual_machines(connection_id, vmid) WHERE deleted_at IS NULL');
+        await this.run('CREATE INDEX IF NOT EXISTS idx_virtual_machines_vmid ON virtual_machines(vmid)');
+      } catch (err) {
+        console.error('创建 virtual_machines 索引失败:', err.message);
+      }
+    };
+
+    let row;
+    try {
+      row = await this.get("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'virtual_machines'");
+    } catch (err) {
+      console.error('读取 virtual_machines 表结构失败:', err.message);
+      return;
+    }
+    if (!row || !row.sql.includes('UNIQUE(connection_id, node, vmid)')) {
+      await createIndexes();
+      return;
+    }
+
+    try {
+      await this.run('ALTER TABLE virtual_machines RENAME TO virtual_machines_legacy');
+      await this.run(virtualMachinesTable);
+      await this.run(`
+        INSERT INTO virtual_machines (id, connection_id, node, vmid, name, type, status, first_seen, last_seen, created_at, updated_at)
+        SELECT id, connection_id, node, vmid, name, type, status, created_at, updated_at, created_at, updated_at
+        FROM virtual_machines_legacy
+        WHERE rowid IN (SELECT MAX(rowid) FROM virtual_machines_legacy GROUP BY connection_id, vmid)
+      `);
+      await this.run('DROP TABLE virtual_machines_legacy');
+      await this.run('CREATE INDEX IF NOT EXISTS idx_virtual_machines_connection ON virtual_machines(connection_id)');
+      console.log('已重建 virtual_machines 表');
+    } catch (err) {
+      console.error('重建 virtual_machines 表失败:', err.message);
+    }
+    await createIndexes();
+  }
+
+  // 为旧表补充缺失的列
+  async migrateColumns() {
+    const tables = [...new Set(columnMigrations.map(m => m.table))];
+
+    for (const table of tables) {
+      let columns;
+      try {
+        columns = await this.query(`PRAGMA table_info(${table})`);
+      } catch (err) {
+        console.error(`读取表结构失败 (${table}):`, err.message);
+        continue;
+      }
+
+      const existing = new Set(columns.map(c => c.name));
+      const missing = columnMigrations.filter(m => m.table === table && !existing.has(m.column));
+      for (const m of missing) {
+        try {
+          await this.run(`ALTER TABLE ${table} ADD COLUMN ${m.column} ${m.definition}`);
+          console.log(`已添加列 ${table}.${m.column}`);
+        } catch (alterErr) {
+          console.error(`添加列失败 (${table}.${m.column}):`, alterErr.message);
+        }
+      }
+    }
   }
 
   // 获取数据库实例
@@ -400,6 +628,14 @@ class Database extends EventEmitter {
 
   // 执行事务
   async transaction(operations) {
+    const current = this.transactionQueue
+      .catch(() => undefined)
+      .then(() => this.runTransaction(operations));
+    this.transactionQueue = current;
+    return current;
+  }
+
+  runTransaction(operations) {
     return new Promise((resolve, reject) => {
       this.db.serialize(() => {
         this.db.run('BEGIN TRANSACTION');
@@ -420,7 +656,7 @@ class Database extends EventEmitter {
           }
           
           const operation = operations[index];
-          this.db.run(operation.sql, operation.params || [], function(err) {
+          this.db.run(operation.sql, operation.params || [], (err) => {
             if (err) {
               this.db.run('ROLLBACK');
               reject(err);
@@ -1,5 +1,7 @@
 import { Express, Request, Response } from 'express';
 import { PVEManager } from '../services/pve-manager';
+import { matchesVMFilters, parseVMFilters } from '../services/vm-filters';
+import { findSuppressingWindow } from '../services/maintenance';
 
 // 告警等级
 export enum AlertLevel {
@@ -20,7 +22,8 @@ export enum AlertType {
 export enum AlertStatus {
   ACTIVE = 'active',
   ACKNOWLEDGED = 'acknowledged',
-  RESOLVED = 'resolved'
+  RESOLVED = 'resolved',
+  SUPPRESSED = 'suppressed' // 维护窗口期间产生的告警
 }
 
 interface AlertItem {
@@ -39,6 +42,7 @@ interface AlertItem {
   acknowledgedAt?: string;
   acknowledgedBy?: string;
   resolvedAt?: string;
+  suppressedBy?: string;
 }
 
 export function setupAlertRoutes(app: Express, pveManager: PVEManager, getDatabase: () => any) {
@@ -47,6 +51,7 @@ export function setupAlertRoutes(app: Express, pveManager: PVEManager, getDataba
   app.get('/api/alerts', async (req: Request, res: Response) => {
     try {
       const { level, type, status, limit = 100 } = req.query;
+      const filters = parseVMFilters(req.query);
       const database = getDatabase();
       
       let query = 'SELECT * FROM alerts WHERE 1=1';
@@ -67,10 +72,28 @@ export function setupAlertRoutes(app: Express, pveManager: PVEManager, getDataba
         params.push(status);
       }
       
-      query += ' ORDER BY created_at DESC LIMIT ?';
-      params.push(parseInt(limit as string));
+      // 按标签/资源池过滤时只保留虚拟机告警，过滤后再限制数量
+      query += ' ORDER BY created_at DESC';
+      if (!filters) {
+        query += ' LIMIT ?';
+        params.push(parseInt(limit as string));
+      }
+      
+      let alerts = await database.query(query, params);
       
-      const alerts = await database.query(query, params);
+      // VM仍存在时按当前清单判断，已删除的VM按告警产生时记录的标签和资源池判断
+      if (filters) {
+        const { data: vms } = await pveManager.getAllVMs();
+        const inventory = new Map(vms.map((vm: any) => [`${vm.connectionId}:${vm.vmid}`, vm]));
+        alerts = alerts.filter((alert: any) => {
+          const metadata = alert.metadata ? JSON.parse(alert.metadata) : {};
+          if (metadata.vmid === undefined) {
+            return false;
+          }
+          const vm = inventory.get(`${alert.connection_id}:${metadata.vmid}`);
+          return matchesVMFilters(vm || { tags: metadata.tags, pool: metadata.pool }, filters);
+        }).slice(0, parseInt(limit as string));
+      }
       
       // 转换数据格式
       const formattedAlerts = alerts.map((alert: any) => ({
@@ -81,6 +104,7 @@ export function setupAlertRoutes(app: Express, pveManager: PVEManager, getDataba
         acknowledgedAt: alert.acknowledged_at,
         acknowledgedBy: alert.acknowledged_by,
         resolvedAt: alert.resolved_at,
+        suppressedBy: alert.suppressed_by,
       }));
       
       res.json(formattedAlerts);
@@ -191,7 +215,8 @@ export function setupAlertRoutes(app: Express, pveManager: PVEManager, getDataba
           SUM(CASE WHEN level = 'info' THEN 1 ELSE 0 END) as info,
           SUM(CASE WHEN status = 'active' THEN 1 ELSE 0 END) as active,
           SUM(CASE WHEN status = 'acknowledged' THEN 1 ELSE 0 END) as acknowledged,
-          SUM(CASE WHEN status = 'resolved' THEN 1 ELSE 0 END) as resolved
+          SUM(CASE WHEN status = 'resolved' THEN 1 ELSE 0 END) as resolved,
+          SUM(CASE WHEN status = 'suppressed' THEN 1 ELSE 0 END) as suppressed
         FROM alerts
       `);
       
@@ -271,17 +296,20 @@ export class AlertGenerator {
     const id = `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
     try {
+      const window = await this.findSuppressingWindow(connectionId, metadata);
       await this.database.run(`
         INSERT INTO alerts (
           id, level, type, status, title, description, source,
-          connection_id, connection_name, metadata, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+          connection_id, connection_name, metadata, suppressed_by, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
       `, [
-        id, level, type, AlertStatus.ACTIVE, title, description, source,
-        connectionId, connectionName, metadata ? JSON.stringify(metadata) : null
+        id, level, type, window ? AlertStatus.SUPPRESSED : AlertStatus.ACTIVE, title, description, source,
+        connectionId, connectionName, metadata ? JSON.stringify(metadata) : null, window?.id || null
       ]);
       
-      console.log(`创建告警: ${title} | ${description}`);
+      console.log(window
+        ? `维护窗口 "${window.name}" 期间的告警已抑制: ${title} | ${description}`
+        : `创建告警: ${title} | ${description}`);
       return id;
     } catch (error) {
       console.error('创建告警失败:', error);
@@ -289,12 +317,48 @@ export class AlertGenerator {
     }
   }
 
+  // 告警针对的VM或节点处于设置了抑制告警的维护窗口内时返回该窗口
+  private async findSuppressingWindow(connectionId?: string, metadata?: any) {
+    if (!connectionId || (!metadata?.node && metadata?.vmid === undefined)) {
+      return null;
+    }
+    try {
+      return await findSuppressingWindow(this.database, { connection_id: connectionId, node: metadata.node, vmid: metadata.vmid });
+    } catch (error: any) {
+      console.error('检查维护窗口失败:', error.message);
+      return null;
+    }
+  }
+
+  // 证书指纹不匹配告警（可能存在中间人攻击）
+  async createCertificateMismatchAlert(data: { id: string; name: string; host: string; expected?: string; actual?: string }) {
+    return this.createAlert(
+      AlertLevel.CRITICAL,
+      AlertType.PVE_SYSTEM,
+      'TLS证书指纹不匹配',
+      `PVE连接 "${data.name}" (${data.host}) 的证书指纹已变化，连接已暂停，请确认证书是否可信`,
+      data.name,
+      data.id,
+      data.name,
+      {
+        host: data.host,
+        expectedFingerprint: data.expected,
+        actualFingerprint: data.actual
+      }
+    );
+  }
+
   // 检查PVE系统告警
   async checkPVESystemAlerts() {
     const connections = this.pveManager.getAllConnections();
     
     for (const connection of connections) {
       try {
+        // 证书指纹不匹配在状态变化时已单独告警
+        if (connection.status === 'certificate-mismatch') {
+          continue;
+        }
+
         // 检查连接状态
         if (connection.status !== 'connected') {
           await this.createAlert(
@@ -330,6 +394,7 @@ export class AlertGenerator {
               connection.id,
               connection.name,
               {
+                node: node.node,
                 nodeStatus: node.status,
                 uptime: node.uptime,
                 load: (node as any).load
@@ -350,6 +415,7 @@ export class AlertGenerator {
                 connection.id,
                 connection.name,
                 {
+                  node: node.node,
                   diskUsage: diskUsage.toFixed(1),
                   diskUsed: this.formatBytes(node.disk),
                   diskTotal: this.formatBytes(node.maxdisk)
@@ -365,6 +431,7 @@ export class AlertGenerator {
                 connection.id,
                 connection.name,
                 {
+                  node: node.node,
                   diskUsage: diskUsage.toFixed(1),
                   diskUsed: this.formatBytes(node.disk),
                   diskTotal: this.formatBytes(node.maxdisk)
@@ -386,6 +453,7 @@ export class AlertGenerator {
                 connection.id,
                 connection.name,
                 {
+                  node: node.node,
                   memUsage: memUsage.toFixed(1),
                   memUsed: this.formatBytes(node.mem),
                   memTotal: this.formatBytes(node.maxmem)
@@ -401,6 +469,7 @@ export class AlertGenerator {
                 connection.id,
                 connection.name,
                 {
+                  node: node.node,
                   memUsage: memUsage.toFixed(1),
                   memUsed: this.formatBytes(node.mem),
                   memTotal: this.formatBytes(node.maxmem)
@@ -422,6 +491,7 @@ export class AlertGenerator {
                 connection.id,
                 connection.name,
                 {
+                  node: node.node,
                   cpuUsage: cpuUsage.toFixed(1),
                   load: (node as any).load
                 }
@@ -431,9 +501,7 @@ export class AlertGenerator {
         }
         
         // 检查VM状态
-        const vms = await this.pveManager.executeOnConnection(connection.id,
-          (client) => client.getVMs()
-        );
+        const vms = await this.pveManager.getConnectionVMs(connection.id);
         
         for (const vm of vms) {
           // 检查VM异常状态
@@ -451,7 +519,9 @@ export class AlertGenerator {
                 vmname: vm.name,
                 vmtype: vm.type,
                 vmstatus: vm.status,
-                node: vm.node
+                node: vm.node,
+                tags: vm.tags,
+                pool: vm.pool
               }
             );
           }
@@ -492,7 +562,7 @@ export class AlertGenerator {
         await this.database.run(`
           UPDATE alerts 
           SET status = ?, resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
-          WHERE type = ? AND title IN ('PVE连接断开', 'PVE连接错误') 
+          WHERE type = ? AND title IN ('PVE连接断开', 'PVE连接错误', 'TLS证书指纹不匹配') 
           AND connection_id IN (${placeholders}) AND status = ?
         `, [AlertStatus.RESOLVED, AlertType.PVE_SYSTEM, ...connectedIds, AlertStatus.ACTIVE]);
       }
@@ -526,7 +596,7 @@ export class AlertGenerator {
     }
   }
 
-  // 清理旧告警
+  // 清理旧告警（已解决和被抑制的）
   async cleanupOldAlerts(daysToKeep: number = 30) {
     try {
       const cutoffDate = new Date();
@@ -534,8 +604,8 @@ export class AlertGenerator {
       
       const result = await this.database.run(`
         DELETE FROM alerts 
-        WHERE status = ? AND created_at < ?
-      `, [AlertStatus.RESOLVED, cutoffDate.toISOString()]);
+        WHERE status IN (?, ?) AND created_at < ?
+      `, [AlertStatus.RESOLVED, AlertStatus.SUPPRESSED, cutoffDate.toISOString()]);
       
       console.log(`清理了 ${result.changes} 条已解决的告警记录`);
       return result.changes;
@@ -25,10 +25,22 @@ export const Permissions = {
   USER_DELETE: 'user:delete',
   // 虚拟机管理
   VM_VIEW: 'vm:view',
+  VM_CREATE: 'vm:create',
   VM_START: 'vm:start',
   VM_STOP: 'vm:stop',
   VM_DELETE: 'vm:delete',
   VM_CONSOLE: 'vm:console',
+  VM_CLONE: 'vm:clone',
+  VM_TEMPLATE: 'vm:template',
+  VM_MIGRATE: 'vm:migrate',
+  VM_CONFIG: 'vm:config',
+  // 资源池管理
+  POOL_MANAGE: 'pool:manage',
+  // 快照管理
+  SNAPSHOT_VIEW: 'snapshot:view',
+  SNAPSHOT_CREATE: 'snapshot:create',
+  SNAPSHOT_ROLLBACK: 'snapshot:rollback',
+  SNAPSHOT_DELETE: 'snapshot:delete',
   // 备份管理
   BACKUP_VIEW: 'backup:view',
   BACKUP_CREATE: 'backup:create',
@@ -47,24 +59,29 @@ export const Permissions = {
   CONNECTION_CREATE: 'connection:create',
   CONNECTION_EDIT: 'connection:edit',
   CONNECTION_DELETE: 'connection:delete',
+  // 维护窗口
+  MAINTENANCE_VIEW: 'maintenance:view',
+  MAINTENANCE_MANAGE: 'maintenance:manage',
 } as const;
 
 // 角色权限映射
 const RolePermissions: Record<string, string[]> = {
   [UserRoles.ADMIN]: Object.values(Permissions), // 管理员拥有所有权限
   [UserRoles.OPERATOR]: [
-    Permissions.VM_VIEW, Permissions.VM_START, Permissions.VM_STOP, Permissions.VM_CONSOLE,
+    Permissions.VM_VIEW, Permissions.VM_START, Permissions.VM_STOP, Permissions.VM_CONSOLE, Permissions.VM_CREATE, Permissions.VM_CLONE, Permissions.VM_MIGRATE, Permissions.VM_CONFIG,
+    Permissions.SNAPSHOT_VIEW, Permissions.SNAPSHOT_CREATE, Permissions.SNAPSHOT_ROLLBACK,
     Permissions.BACKUP_VIEW, Permissions.BACKUP_CREATE, Permissions.BACKUP_RESTORE,
     Permissions.GROUP_VIEW, Permissions.GROUP_CREATE, Permissions.GROUP_EDIT,
-    Permissions.LOG_VIEW, Permissions.CONNECTION_VIEW
+    Permissions.LOG_VIEW, Permissions.CONNECTION_VIEW, Permissions.MAINTENANCE_VIEW
   ],
   [UserRoles.USER]: [
     Permissions.VM_VIEW, Permissions.VM_START, Permissions.VM_STOP, Permissions.VM_CONSOLE,
-    Permissions.BACKUP_VIEW, Permissions.GROUP_VIEW, Permissions.CONNECTION_VIEW
+    Permissions.SNAPSHOT_VIEW, Permissions.BACKUP_VIEW, Permissions.GROUP_VIEW, Permissions.CONNECTION_VIEW,
+    Permissions.MAINTENANCE_VIEW
   ],
   [UserRoles.VIEWER]: [
-    Permissions.VM_VIEW, Permissions.BACKUP_VIEW, Permissions.GROUP_VIEW, 
-    Permissions.LOG_VIEW, Permissions.CONNECTION_VIEW
+    Permissions.VM_VIEW, Permissions.SNAPSHOT_VIEW, Permissions.BACKUP_VIEW, Permissions.GROUP_VIEW, 
+    Permissions.LOG_VIEW, Permissions.CONNECTION_VIEW, Permissions.MAINTENANCE_VIEW
   ]
 };
 
@@ -212,13 +229,11 @@ export function setupAuthRoutes(app: Express) {
     }
   };
   
-  // 数据库就绪后延迟初始化管理员（给表创建预留时间）
+  // 数据库就绪（表创建和迁移完成）后初始化管理员
   if (database.isReady) {
-    setTimeout(initDefaultAdmin, 500);
+    initDefaultAdmin();
   } else {
-    database.once('ready', () => {
-      setTimeout(initDefaultAdmin, 500);
-    });
+    database.once('ready', initDefaultAdmin);
   }
 
   // 用户登录
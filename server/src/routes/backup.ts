@@ -1,8 +1,11 @@
 import { Express, Response } from 'express';
 import { PVEManager } from '../services/pve-manager';
+import { JobEngine, MAX_JOB_RETRIES, parseJobRetries, validateJobTargets } from '../services/job-engine';
+import { isDisruptiveAction } from '../services/maintenance';
 import { authMiddleware, requirePermission, AuthRequest, Permissions, logUserAction } from './auth';
+import { checkMaintenanceGate, MaintenanceGate } from './maintenance';
 
-export function setupBackupRoutes(app: Express, pveManager: PVEManager) {
+export function setupBackupRoutes(app: Express, pveManager: PVEManager, jobEngine: JobEngine) {
   
   // 获取所有备份列表
   app.get('/api/backups', authMiddleware, requirePermission(Permissions.BACKUP_VIEW), async (req: AuthRequest, res: Response) => {
@@ -135,19 +138,14 @@ export function setupBackupRoutes(app: Express, pveManager: PVEManager) {
       }
       
       // 调用PVE API创建备份
-      const taskId = await pveManager.executeOnConnection(id, async (client) => {
-        const response = await (client as any).client.post(
-          `/nodes/${node}/vzdump`,
-          {
-            vmid: parseInt(vmid),
-            storage,
-            mode, // snapshot, suspend, stop
-            compress,
-            notes: notes || `Backup created by PVE Manager at ${new Date().toISOString()}`
-          }
-        );
-        return response.data.data;
-      });
+      const taskId = await pveManager.executeOnConnection(id, (client) =>
+        client.createBackup(node, parseInt(vmid), {
+          storage,
+          mode, // snapshot, suspend, stop
+          compress,
+          notes: notes || `Backup created by PVE Manager at ${new Date().toISOString()}`
+        })
+      );
       
       await logUserAction(req.user!.id, req.user!.username, 'create_backup', `VM ${vmid}`,
         { connectionId: id, node, vmid, storage, mode, taskId },
@@ -285,73 +283,40 @@ export function setupBackupRoutes(app: Express, pveManager: PVEManager) {
       const { vms, storage, mode = 'snapshot', compress = 'zstd' } = req.body;
       // vms: [{connection_id, node, vmid, type}, ...]
       
-      if (!vms || !Array.isArray(vms) || vms.length === 0) {
-        return res.status(400).json({ error: '请提供要备份的虚拟机列表' });
+      const targetError = validateJobTargets(vms, false);
+      if (targetError) {
+        return res.status(400).json({ error: targetError });
       }
       
       if (!storage) {
         return res.status(400).json({ error: '请指定备份存储' });
       }
       
-      const results: any[] = [];
+      const retries = parseJobRetries(req.body.retries);
+      if (retries === null) {
+        return res.status(400).json({ error: `retries 必须是 0-${MAX_JOB_RETRIES} 之间的整数` });
+      }
       
-      for (const vm of vms) {
-        try {
-          const connection = pveManager.getConnection(vm.connection_id);
-          if (!connection || connection.status !== 'connected') {
-            results.push({
-              connection_id: vm.connection_id,
-              vmid: vm.vmid,
-              success: false,
-              error: '连接不可用'
-            });
-            continue;
-          }
-          
-          const taskId = await pveManager.executeOnConnection(vm.connection_id, async (client) => {
-            const response = await (client as any).client.post(
-              `/nodes/${vm.node}/vzdump`,
-              {
-                vmid: vm.vmid,
-                storage,
-                mode,
-                compress,
-                notes: `Batch backup by PVE Manager at ${new Date().toISOString()}`
-              }
-            );
-            return response.data.data;
-          });
-          
-          results.push({
-            connection_id: vm.connection_id,
-            node: vm.node,
-            vmid: vm.vmid,
-            success: true,
-            taskId
-          });
-        } catch (err: any) {
-          results.push({
-            connection_id: vm.connection_id,
-            vmid: vm.vmid,
-            success: false,
-            error: err.message
-          });
-        }
+      // 停机或挂起模式的备份受维护窗口限制
+      const gate: MaintenanceGate = isDisruptiveAction('backup', { mode }) ? await checkMaintenanceGate(req, vms, 'backup', null) : {};
+      if (gate.status) {
+        return res.status(gate.status).json(gate.body);
       }
       
-      const successCount = results.filter(r => r.success).length;
-      const failCount = results.filter(r => !r.success).length;
+      // 在后台任务中逐台备份并等待 vzdump 完成，进度通过 WebSocket 推送
+      const job = await jobEngine.create('backup', { storage, mode, compress }, vms, req.user!, retries, gate.holdUntil);
       
       await logUserAction(req.user!.id, req.user!.username, 'batch_create_backup', null,
-        { total: vms.length, successCount, failCount, storage, mode },
+        { total: vms.length, storage, mode, jobId: job.id, holdUntil: job.hold_until },
         req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
       
-      res.json({
+      res.status(202).json({
         success: true,
-        total: vms.length,
-        successCount,
-        failCount,
-        results
+        jobId: job.id,
+        job,
+        message: job.hold_until
+          ? `不在维护窗口内，备份任务已排队，共 ${vms.length} 台虚拟机`
+          : `已创建批量备份任务，共 ${vms.length} 台虚拟机`
       });
     } catch (error: any) {
       console.error('批量备份失败:', error);
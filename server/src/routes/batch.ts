@@ -1,135 +1,54 @@
 import { Express, Response } from 'express';
 import { PVEManager } from '../services/pve-manager';
+import { JobEngine, MAX_JOB_RETRIES, parseJobRetries, validateJobTargets } from '../services/job-engine';
+import { POWER_ACTIONS, normalizePowerAction } from '../services/vm-actions';
+import { isDisruptiveAction } from '../services/maintenance';
 import { authMiddleware, requirePermission, AuthRequest, Permissions, logUserAction } from './auth';
+import { checkMaintenanceGate, MaintenanceGate } from './maintenance';
 
-export function setupBatchRoutes(app: Express, pveManager: PVEManager) {
+export function setupBatchRoutes(app: Express, pveManager: PVEManager, jobEngine: JobEngine) {
   
   // 批量VM操作
   app.post('/api/batch/vms/action', authMiddleware, requirePermission(Permissions.VM_START, Permissions.VM_STOP), async (req: AuthRequest, res: Response) => {
     try {
-      const { action, vms } = req.body;
+      const { vms } = req.body;
       // vms: [{connection_id, node, vmid, type}, ...]
+      const action = normalizePowerAction(req.body.action);
       
-      if (!action || !['start', 'stop', 'shutdown', 'restart'].includes(action)) {
-        return res.status(400).json({ error: '无效的操作类型，支持: start, stop, shutdown, restart' });
+      if (!action) {
+        return res.status(400).json({ error: `无效的操作类型，支持: ${POWER_ACTIONS.join(', ')}` });
       }
       
-      if (!vms || !Array.isArray(vms) || vms.length === 0) {
-        return res.status(400).json({ error: '请提供要操作的虚拟机列表' });
+      const targetError = validateJobTargets(vms);
+      if (targetError) {
+        return res.status(400).json({ error: targetError });
       }
       
-      const results: any[] = [];
+      const retries = parseJobRetries(req.body.retries);
+      if (retries === null) {
+        return res.status(400).json({ error: `retries 必须是 0-${MAX_JOB_RETRIES} 之间的整数` });
+      }
       
-      for (const vm of vms) {
-        try {
-          const connection = pveManager.getConnection(vm.connection_id);
-          if (!connection || connection.status !== 'connected') {
-            results.push({
-              connection_id: vm.connection_id,
-              node: vm.node,
-              vmid: vm.vmid,
-              success: false,
-              error: '连接不可用'
-            });
-            continue;
-          }
-          
-          // 获取当前VM状态
-          const vmStatus = await pveManager.executeOnConnection(vm.connection_id,
-            (client) => client.getVMStatus(vm.node, vm.vmid, vm.type)
-          );
-          
-          let taskId: string | null = null;
-          let skipped = false;
-          
-          switch (action) {
-            case 'start':
-              if (vmStatus.status === 'stopped') {
-                taskId = await pveManager.executeOnConnection(vm.connection_id,
-                  (client) => client.startVM(vm.node, vm.vmid, vm.type)
-                );
-              } else {
-                skipped = true;
-              }
-              break;
-            case 'stop':
-              if (vmStatus.status === 'running') {
-                taskId = await pveManager.executeOnConnection(vm.connection_id,
-                  (client) => client.stopVM(vm.node, vm.vmid, vm.type)
-                );
-              } else {
-                skipped = true;
-              }
-              break;
-            case 'shutdown':
-              if (vmStatus.status === 'running') {
-                taskId = await pveManager.executeOnConnection(vm.connection_id,
-                  (client) => client.shutdownVM(vm.node, vm.vmid, vm.type)
-                );
-              } else {
-                skipped = true;
-              }
-              break;
-            case 'restart':
-              if (vmStatus.status === 'running') {
-                await pveManager.executeOnConnection(vm.connection_id,
-                  (client) => client.shutdownVM(vm.node, vm.vmid, vm.type)
-                );
-                // 延迟启动
-                setTimeout(async () => {
-                  try {
-                    await pveManager.executeOnConnection(vm.connection_id,
-                      (client) => client.startVM(vm.node, vm.vmid, vm.type)
-                    );
-                  } catch (e) {
-                    console.error(`重启 VM ${vm.vmid} 失败:`, e);
-                  }
-                }, 10000);
-                taskId = 'restart-scheduled';
-              } else {
-                skipped = true;
-              }
-              break;
-          }
-          
-          results.push({
-            connection_id: vm.connection_id,
-            node: vm.node,
-            vmid: vm.vmid,
-            vmname: vmStatus.name,
-            success: true,
-            taskId,
-            skipped,
-            previousStatus: vmStatus.status
-          });
-          
-        } catch (err: any) {
-          results.push({
-            connection_id: vm.connection_id,
-            node: vm.node,
-            vmid: vm.vmid,
-            success: false,
-            error: err.message
-          });
-        }
+      // 中断性操作受维护窗口限制：拒绝、排队到允许时执行，或由管理员填写原因后强制执行
+      const gate: MaintenanceGate = isDisruptiveAction(action) ? await checkMaintenanceGate(req, vms, action, null) : {};
+      if (gate.status) {
+        return res.status(gate.status).json(gate.body);
       }
       
-      const successCount = results.filter(r => r.success && !r.skipped).length;
-      const skippedCount = results.filter(r => r.success && r.skipped).length;
-      const failCount = results.filter(r => !r.success).length;
+      // 在后台任务中发送命令并等待每个PVE任务结束，进度通过 WebSocket 推送
+      const job = await jobEngine.create('vm_action', { action }, vms, req.user!, retries, gate.holdUntil);
       
       await logUserAction(req.user!.id, req.user!.username, 'batch_vm_action', null,
-        { action, total: vms.length, successCount, skippedCount, failCount },
+        { action, total: vms.length, jobId: job.id, holdUntil: job.hold_until },
         req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
       
-      res.json({
+      res.status(202).json({
         success: true,
-        action,
-        total: vms.length,
-        successCount,
-        skippedCount,
-        failCount,
-        results
+        jobId: job.id,
+        job,
+        message: job.hold_until
+          ? `不在维护窗口内，任务已排队，共 ${vms.length} 台虚拟机`
+          : `已创建批量任务，共 ${vms.length} 台虚拟机`
       });
     } catch (error: any) {
       console.error('批量VM操作失败:', error);
@@ -0,0 +1,55 @@
+import { Express, Response } from 'express';
+import { PVEManager } from '../services/pve-manager';
+import { CloudInitDeployer, validateDeploymentRequest } from '../services/cloud-init';
+import { authMiddleware, requirePermission, AuthRequest, Permissions, logUserAction } from './auth';
+
+export function setupCloudInitRoutes(app: Express, pveManager: PVEManager) {
+  const deployer = new CloudInitDeployer(pveManager);
+
+  // 从cloud-init模板批量部署虚拟机，返回部署任务ID
+  app.post('/api/pve/connections/:id/cloudinit/deployments', authMiddleware, requirePermission(Permissions.VM_CREATE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { errors, spec } = validateDeploymentRequest(req.body);
+      if (!spec) {
+        return res.status(400).json({ error: errors.join('; '), errors });
+      }
+      if (!pveManager.getConnection(id)) {
+        return res.status(404).json({ error: '连接不存在' });
+      }
+
+      const job = deployer.start(id, spec, req.user!.username);
+
+      await logUserAction(req.user!.id, req.user!.username, 'cloudinit_deploy', `模板 ${spec.templateVmid}`,
+        {
+          connectionId: id,
+          jobId: job.id,
+          templateVmid: spec.templateVmid,
+          node: spec.node,
+          full: spec.full,
+          vms: spec.vms.map(vm => ({ name: vm.name, vmid: vm.vmid, ipconfig0: vm.ipconfig0 }))
+        },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ jobId: job.id, job, message: `已开始部署 ${spec.vms.length} 台虚拟机` });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 部署任务列表
+  app.get('/api/pve/cloudinit/deployments', authMiddleware, requirePermission(Permissions.VM_VIEW), (req: AuthRequest, res: Response) => {
+    const { connectionId } = req.query;
+    const jobs = deployer.list().filter(job => !connectionId || job.connectionId === connectionId);
+    res.json(jobs);
+  });
+
+  // 部署任务详情（每台VM的步骤状态和对应的PVE任务ID）
+  app.get('/api/pve/cloudinit/deployments/:jobId', authMiddleware, requirePermission(Permissions.VM_VIEW), (req: AuthRequest, res: Response) => {
+    const job = deployer.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: '部署任务不存在' });
+    }
+    res.json(job);
+  });
+}
@@ -1,6 +1,12 @@
 import { Express, Response } from 'express';
 import { PVEManager } from '../services/pve-manager';
+import { JobEngine, MAX_JOB_RETRIES, parseJobRetries } from '../services/job-engine';
+import { POWER_ACTIONS, normalizePowerAction } from '../services/vm-actions';
+import { normalizeReadinessCheck } from '../services/readiness';
+import { evaluateGroupRules, matchesGroupRules, normalizeGroupRules, parseGroup, parseGroupMember, resolveGroupMembers } from '../services/group-rules';
+import { isDisruptiveAction } from '../services/maintenance';
 import { authMiddleware, optionalAuthMiddleware, requirePermission, AuthRequest, Permissions, logUserAction } from './auth';
+import { checkMaintenanceGate, MaintenanceGate } from './maintenance';
 
 const database = require('../db/database');
 
@@ -9,17 +15,32 @@ function generateGroupId(): string {
   return `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
-export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
+// 成员启动后最长的等待时间（秒）
+const MAX_START_DELAY = 3600;
+
+const DYNAMIC_MEMBERS_ERROR = '动态分组的成员由规则决定，不能手动修改';
+
+export function setupGroupRoutes(app: Express, pveManager: PVEManager, jobEngine: JobEngine) {
   
   // 获取所有分组
   app.get('/api/groups', optionalAuthMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const groups = await database.query(`
+      const groups = (await database.query(`
         SELECT g.*, 
           (SELECT COUNT(*) FROM vm_group_members WHERE group_id = g.id) as member_count
         FROM vm_groups g
         ORDER BY g.created_at DESC
-      `);
+      `)).map(parseGroup);
+      
+      // 动态分组的成员数按当前资源清单计算
+      if (groups.some((group: any) => group.type === 'dynamic')) {
+        const { data: vms } = await pveManager.getAllVMs();
+        for (const group of groups) {
+          if (group.type === 'dynamic') {
+            group.member_count = evaluateGroupRules(group.rules, vms).length;
+          }
+        }
+      }
       
       res.json(groups);
     } catch (error: any) {
@@ -33,14 +54,18 @@ export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
     try {
       const { id } = req.params;
       
-      const group = await database.get('SELECT * FROM vm_groups WHERE id = ?', [id]);
-      if (!group) {
+      const row = await database.get('SELECT * FROM vm_groups WHERE id = ?', [id]);
+      if (!row) {
         return res.status(404).json({ error: '分组不存在' });
       }
+      const group = parseGroup(row);
       
-      const members = await database.query(`
-        SELECT * FROM vm_group_members WHERE group_id = ?
-      `, [id]);
+      const { members, errors } = await resolveGroupMembers(database, pveManager, group);
+      
+      // 动态分组的成员直接来自资源清单，已包含VM信息
+      if (group.type === 'dynamic') {
+        return res.json({ ...group, members, errors });
+      }
       
       // 获取成员VM的详细信息
       const memberDetails = [];
@@ -48,9 +73,7 @@ export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
         try {
           const connection = pveManager.getConnection(member.connection_id);
           if (connection && connection.status === 'connected') {
-            const vms = await pveManager.executeOnConnection(member.connection_id, 
-              (client) => client.getVMs(member.node)
-            );
+            const vms = await pveManager.getConnectionVMs(member.connection_id, member.node);
             const vm = vms.find((v: any) => v.vmid === member.vmid);
             if (vm) {
               memberDetails.push({
@@ -102,21 +125,33 @@ export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
   // 创建分组
   app.post('/api/groups', authMiddleware, requirePermission(Permissions.GROUP_CREATE), async (req: AuthRequest, res: Response) => {
     try {
-      const { name, description, color } = req.body;
+      const { name, description, color, type = 'static' } = req.body;
       
       if (!name) {
         return res.status(400).json({ error: '分组名称不能为空' });
       }
+      if (type !== 'static' && type !== 'dynamic') {
+        return res.status(400).json({ error: '分组类型必须是 static 或 dynamic' });
+      }
+      
+      let rules = null;
+      if (type === 'dynamic') {
+        const normalized = normalizeGroupRules(req.body.rules);
+        if (normalized.error) {
+          return res.status(400).json({ error: normalized.error });
+        }
+        rules = normalized.rules!;
+      }
       
       const groupId = generateGroupId();
       
       await database.run(`
-        INSERT INTO vm_groups (id, name, description, color, user_id)
-        VALUES (?, ?, ?, ?, ?)
-      `, [groupId, name, description || null, color || '#1890ff', req.user!.id]);
+        INSERT INTO vm_groups (id, name, description, color, type, rules, user_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [groupId, name, description || null, color || '#1890ff', type, rules ? JSON.stringify(rules) : null, req.user!.id]);
       
       await logUserAction(req.user!.id, req.user!.username, 'create_group', name,
-        { groupId }, req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+        { groupId, type, rules }, req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
       
       res.json({ success: true, id: groupId, message: '分组创建成功' });
     } catch (error: any) {
@@ -125,6 +160,23 @@ export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
     }
   });
 
+  // 预览动态分组规则当前匹配的虚拟机
+  app.post('/api/groups/preview', authMiddleware, requirePermission(Permissions.GROUP_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const { rules, error } = normalizeGroupRules(req.body.rules);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      
+      const { data: vms, errors } = await pveManager.getAllVMs();
+      const members = evaluateGroupRules(rules!, vms);
+      res.json({ total: members.length, members, errors });
+    } catch (error: any) {
+      console.error('预览分组规则失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // 更新分组
   app.put('/api/groups/:id', authMiddleware, requirePermission(Permissions.GROUP_EDIT), async (req: AuthRequest, res: Response) => {
     try {
@@ -136,14 +188,27 @@ export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
         return res.status(404).json({ error: '分组不存在' });
       }
       
+      // 分组类型创建后不可修改；动态分组可以更新规则
+      let rules = group.rules;
+      if (req.body.rules !== undefined) {
+        if (group.type !== 'dynamic') {
+          return res.status(400).json({ error: '静态分组不支持规则' });
+        }
+        const normalized = normalizeGroupRules(req.body.rules);
+        if (normalized.error) {
+          return res.status(400).json({ error: normalized.error });
+        }
+        rules = JSON.stringify(normalized.rules);
+      }
+      
       await database.run(`
-        UPDATE vm_groups SET name = ?, description = ?, color = ?, updated_at = CURRENT_TIMESTAMP
+        UPDATE vm_groups SET name = ?, description = ?, color = ?, rules = ?, updated_at = CURRENT_TIMESTAMP
         WHERE id = ?
       `, [name || group.name, description !== undefined ? description : group.description, 
-          color || group.color, id]);
+          color || group.color, rules, id]);
       
       await logUserAction(req.user!.id, req.user!.username, 'update_group', group.name,
-        { groupId: id, changes: { name, description, color } },
+        { groupId: id, changes: { name, description, color, rules: req.body.rules } },
         req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
       
       res.json({ success: true, message: '分组更新成功' });
@@ -185,6 +250,9 @@ export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
       if (!group) {
         return res.status(404).json({ error: '分组不存在' });
       }
+      if (group.type === 'dynamic') {
+        return res.status(400).json({ error: DYNAMIC_MEMBERS_ERROR });
+      }
       
       if (!members || !Array.isArray(members) || members.length === 0) {
         return res.status(400).json({ error: '请提供要添加的虚拟机列表' });
@@ -236,6 +304,9 @@ export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
       if (!group) {
         return res.status(404).json({ error: '分组不存在' });
       }
+      if (group.type === 'dynamic') {
+        return res.status(400).json({ error: DYNAMIC_MEMBERS_ERROR });
+      }
       
       if (!members || !Array.isArray(members) || members.length === 0) {
         return res.status(400).json({ error: '请提供要移除的虚拟机列表' });
@@ -261,139 +332,128 @@ export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
     }
   });
 
-  // 批量操作分组内的VM
+  // 设置成员的启动顺序、启动后延迟和就绪检查
+  app.put('/api/groups/:id/members/:memberId', authMiddleware, requirePermission(Permissions.GROUP_EDIT), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, memberId } = req.params;
+      const { boot_order, start_delay, readiness } = req.body;
+      
+      const member = await database.get('SELECT * FROM vm_group_members WHERE id = ? AND group_id = ?', [memberId, id]);
+      if (!member) {
+        return res.status(404).json({ error: '分组成员不存在' });
+      }
+      
+      const bootOrder = boot_order ?? member.boot_order;
+      if (!Number.isInteger(bootOrder) || bootOrder < 0 || bootOrder > 1000) {
+        return res.status(400).json({ error: 'boot_order 必须是 0-1000 之间的整数' });
+      }
+      const startDelay = start_delay ?? member.start_delay;
+      if (!Number.isInteger(startDelay) || startDelay < 0 || startDelay > MAX_START_DELAY) {
+        return res.status(400).json({ error: `start_delay 必须是 0-${MAX_START_DELAY} 秒之间的整数` });
+      }
+      
+      // readiness 为 null 时清除就绪检查，未提供时保持不变
+      let readinessJson = member.readiness;
+      if (readiness === null) {
+        readinessJson = null;
+      } else if (readiness !== undefined) {
+        const { check, error } = normalizeReadinessCheck(readiness);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+        readinessJson = JSON.stringify(check);
+      }
+      
+      await database.run(`
+        UPDATE vm_group_members SET boot_order = ?, start_delay = ?, readiness = ? WHERE id = ?
+      `, [bootOrder, startDelay, readinessJson, member.id]);
+      
+      const group = await database.get('SELECT name FROM vm_groups WHERE id = ?', [id]);
+      await logUserAction(req.user!.id, req.user!.username, 'update_group_member', group?.name || id,
+        { groupId: id, vmid: member.vmid, boot_order: bootOrder, start_delay: startDelay, readiness: readinessJson ? JSON.parse(readinessJson) : null },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+      
+      const updated = await database.get('SELECT * FROM vm_group_members WHERE id = ?', [member.id]);
+      res.json({ success: true, member: parseGroupMember(updated), message: '成员启动设置已更新' });
+    } catch (error: any) {
+      console.error('更新分组成员失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 批量操作分组内的VM：按 boot_order 分阶段执行（启动/重启从小到大，关机/停止反向）
   app.post('/api/groups/:id/batch-action', authMiddleware, requirePermission(Permissions.VM_START, Permissions.VM_STOP), async (req: AuthRequest, res: Response) => {
     try {
       const { id } = req.params;
-      const { action } = req.body; // start, stop, shutdown, restart
+      const action = normalizePowerAction(req.body.action); // start, stop, shutdown, reboot (restart)
+      if (!action) {
+        return res.status(400).json({ error: `无效的操作类型，支持: ${POWER_ACTIONS.join(', ')}` });
+      }
       
       const group = await database.get('SELECT * FROM vm_groups WHERE id = ?', [id]);
       if (!group) {
         return res.status(404).json({ error: '分组不存在' });
       }
       
-      const members = await database.query(`
-        SELECT * FROM vm_group_members WHERE group_id = ?
-      `, [id]);
+      // 动态分组在此时按规则确定成员
+      const { members, errors } = await resolveGroupMembers(database, pveManager, group);
+      
+      // 有连接无法读取清单时成员不完整，需调用方明确同意只操作可读取到的成员
+      if (errors.length > 0 && req.body.allowPartial !== true) {
+        return res.status(503).json({
+          error: '部分连接无法读取资源清单，分组成员不完整',
+          errors,
+          total: members.length
+        });
+      }
       
       if (members.length === 0) {
         return res.status(400).json({ error: '分组内没有虚拟机' });
       }
       
-      const results: any[] = [];
+      const retries = parseJobRetries(req.body.retries);
+      if (retries === null) {
+        return res.status(400).json({ error: `retries 必须是 0-${MAX_JOB_RETRIES} 之间的整数` });
+      }
       
-      for (const member of members) {
-        try {
-          const connection = pveManager.getConnection(member.connection_id);
-          if (!connection || connection.status !== 'connected') {
-            results.push({
-              connection_id: member.connection_id,
-              node: member.node,
-              vmid: member.vmid,
-              success: false,
-              error: '连接不可用'
-            });
-            continue;
-          }
-          
-          // 获取VM信息
-          const vms = await pveManager.executeOnConnection(member.connection_id, 
-            (client) => client.getVMs(member.node)
-          );
-          const vm = vms.find((v: any) => v.vmid === member.vmid);
-          
-          if (!vm) {
-            results.push({
-              connection_id: member.connection_id,
-              node: member.node,
-              vmid: member.vmid,
-              success: false,
-              error: '虚拟机不存在'
-            });
-            continue;
-          }
-          
-          // 执行操作
-          let taskId: string | null = null;
-          
-          switch (action) {
-            case 'start':
-              if (vm.status === 'stopped') {
-                taskId = await pveManager.executeOnConnection(member.connection_id,
-                  (client) => client.startVM(member.node, member.vmid, vm.type)
-                );
-              }
-              break;
-            case 'stop':
-              if (vm.status === 'running') {
-                taskId = await pveManager.executeOnConnection(member.connection_id,
-                  (client) => client.stopVM(member.node, member.vmid, vm.type)
-                );
-              }
-              break;
-            case 'shutdown':
-              if (vm.status === 'running') {
-                taskId = await pveManager.executeOnConnection(member.connection_id,
-                  (client) => client.shutdownVM(member.node, member.vmid, vm.type)
-                );
-              }
-              break;
-            case 'restart':
-              if (vm.status === 'running') {
-                // 先关机再开机
-                await pveManager.executeOnConnection(member.connection_id,
-                  (client) => client.shutdownVM(member.node, member.vmid, vm.type)
-                );
-                // 等待一段时间后启动
-                setTimeout(async () => {
-                  try {
-                    await pveManager.executeOnConnection(member.connection_id,
-                      (client) => client.startVM(member.node, member.vmid, vm.type)
-                    );
-                  } catch (e) {
-                    console.error('重启虚拟机失败:', e);
-                  }
-                }, 10000);
-                taskId = 'restart-scheduled';
-              }
-              break;
-          }
-          
-          results.push({
-            connection_id: member.connection_id,
-            node: member.node,
-            vmid: member.vmid,
-            vmname: vm.name,
-            success: true,
-            taskId,
-            previousStatus: vm.status
-          });
-          
-        } catch (err: any) {
-          results.push({
-            connection_id: member.connection_id,
-            node: member.node,
-            vmid: member.vmid,
-            success: false,
-            error: err.message
-          });
-        }
+      // 默认某一阶段失败后不再执行后续阶段（后面的成员依赖前面的成员）
+      const stopOnFailure = req.body.continueOnError !== true;
+      const startsVM = action === 'start' || action === 'reboot';
+      
+      // 静态分组成员的VM类型在后台任务执行时确定；就绪检查和延迟只在启动/重启时生效
+      const targets = members.map(member => ({
+        connection_id: member.connection_id,
+        node: member.node,
+        vmid: member.vmid,
+        type: member.type,
+        stage: startsVM ? member.boot_order : -member.boot_order,
+        options: startsVM && (member.readiness || member.start_delay > 0)
+          ? { readiness: member.readiness, startDelay: member.start_delay }
+          : undefined
+      }));
+      
+      // 中断性操作受维护窗口限制：拒绝、排队到允许时执行，或由管理员填写原因后强制执行
+      const gate: MaintenanceGate = isDisruptiveAction(action) ? await checkMaintenanceGate(req, targets, action, group.name) : {};
+      if (gate.status) {
+        return res.status(gate.status).json(gate.body);
       }
       
-      const successCount = results.filter(r => r.success).length;
-      const failCount = results.filter(r => !r.success).length;
+      const job = await jobEngine.create('group_action', { action, groupId: id, groupName: group.name, stopOnFailure, unresolved: errors }, targets, req.user!, retries, gate.holdUntil);
       
       await logUserAction(req.user!.id, req.user!.username, 'batch_action_group', group.name,
-        { groupId: id, action, successCount, failCount },
+        { groupId: id, action, total: members.length, stopOnFailure, jobId: job.id, holdUntil: job.hold_until, unresolved: errors },
         req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
       
-      res.json({
+      res.status(202).json({
         success: true,
         action,
         total: members.length,
-        successCount,
-        failCount,
-        results
+        jobId: job.id,
+        job,
+        errors,
+        message: job.hold_until
+          ? `不在维护窗口内，任务已排队，共 ${members.length} 台虚拟机`
+          : `已创建批量任务，共 ${members.length} 台虚拟机`
       });
     } catch (error: any) {
       console.error('批量操作分组失败:', error);
@@ -416,6 +476,16 @@ export function setupGroupRoutes(app: Express, pveManager: PVEManager) {
         WHERE m.connection_id = ? AND m.node = ? AND m.vmid = ?
       `, [connection_id, node, parseInt(vmid as string)]);
       
+      // 动态分组按该VM当前的清单信息匹配
+      const dynamicGroups = (await database.query(`SELECT * FROM vm_groups WHERE type = 'dynamic'`)).map(parseGroup);
+      if (dynamicGroups.length > 0) {
+        const vms = await pveManager.getConnectionVMs(connection_id as string).catch(() => []);
+        const vm = vms.find((v: any) => v.vmid === parseInt(vmid as string));
+        if (vm) {
+          groups.push(...dynamicGroups.filter((group: any) => group.rules && matchesGroupRules(vm, connection_id as string, group.rules)));
+        }
+      }
+      
       res.json(groups);
     } catch (error: any) {
       console.error('获取VM分组失败:', error);
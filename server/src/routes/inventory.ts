@@ -0,0 +1,190 @@
+import { Express, Response } from 'express';
+import { authMiddleware, requirePermission, AuthRequest, Permissions } from './auth';
+import { toDbTimestamp } from '../services/inventory-store';
+
+const database = require('../db/database');
+
+// 将查询参数中的时间统一为数据库格式，无法解析时返回 null
+function parseTimestamp(value: any): string | null {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : toDbTimestamp(date);
+}
+
+export function setupInventoryRoutes(app: Express) {
+
+  // 查询资源清单中的VM，可包含已删除的VM或查询某一时间点的清单
+  app.get('/api/inventory/vms', authMiddleware, requirePermission(Permissions.VM_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const {
+        connection_id,
+        vmid,
+        name,
+        node,
+        type,
+        state = 'active', // active, deleted, all
+        at,
+        limit = 100,
+        offset = 0
+      } = req.query;
+
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (connection_id) {
+        conditions.push('vm.connection_id = ?');
+        params.push(connection_id);
+      }
+
+      if (vmid) {
+        conditions.push('vm.vmid = ?');
+        params.push(parseInt(vmid as string));
+      }
+
+      if (name) {
+        conditions.push('vm.name LIKE ?');
+        params.push(`%${name}%`);
+      }
+
+      if (node) {
+        conditions.push('vm.node = ?');
+        params.push(node);
+      }
+
+      if (type) {
+        conditions.push('vm.type = ?');
+        params.push(type);
+      }
+
+      if (at) {
+        // 时间点查询：该时间已被发现且尚未删除的VM
+        const timestamp = parseTimestamp(at);
+        if (!timestamp) {
+          return res.status(400).json({ error: '无效的时间参数 at' });
+        }
+        conditions.push('vm.first_seen <= ? AND (vm.deleted_at IS NULL OR vm.deleted_at > ?)');
+        params.push(timestamp, timestamp);
+      } else if (state === 'active') {
+        conditions.push('vm.deleted_at IS NULL');
+      } else if (state === 'deleted') {
+        conditions.push('vm.deleted_at IS NOT NULL');
+      } else if (state !== 'all') {
+        return res.status(400).json({ error: 'state 必须是 active、deleted 或 all' });
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const vms = await database.query(`
+        SELECT vm.*, c.name as connection_name
+        FROM virtual_machines vm
+        LEFT JOIN pve_connections c ON vm.connection_id = c.id
+        ${where}
+        ORDER BY vm.connection_id, vm.vmid, vm.first_seen DESC
+        LIMIT ? OFFSET ?
+      `, [...params, parseInt(limit as string), parseInt(offset as string)]);
+      const totalResult = await database.get(`SELECT COUNT(*) as total FROM virtual_machines vm ${where}`, params);
+
+      res.json({
+        vms,
+        total: totalResult.total,
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string)
+      });
+    } catch (error: any) {
+      console.error('获取资源清单失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 获取单个VM的清单记录及其变化历史
+  app.get('/api/inventory/vms/:id', authMiddleware, requirePermission(Permissions.VM_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const vm = await database.get(`
+        SELECT vm.*, c.name as connection_name
+        FROM virtual_machines vm
+        LEFT JOIN pve_connections c ON vm.connection_id = c.id
+        WHERE vm.id = ?
+      `, [req.params.id]);
+
+      if (!vm) {
+        return res.status(404).json({ error: 'VM记录不存在' });
+      }
+
+      const history = await database.query(
+        'SELECT * FROM vm_inventory_history WHERE vm_id = ? ORDER BY created_at ASC, id ASC',
+        [req.params.id]
+      );
+
+      res.json({ vm, history });
+    } catch (error: any) {
+      console.error('获取VM清单记录失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 查询清单变化历史（新增、删除、迁移、改名）
+  app.get('/api/inventory/history', authMiddleware, requirePermission(Permissions.VM_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const {
+        connection_id,
+        vmid,
+        event,
+        start_date,
+        end_date,
+        limit = 100,
+        offset = 0
+      } = req.query;
+
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (connection_id) {
+        conditions.push('connection_id = ?');
+        params.push(connection_id);
+      }
+
+      if (vmid) {
+        conditions.push('vmid = ?');
+        params.push(parseInt(vmid as string));
+      }
+
+      if (event) {
+        conditions.push('event = ?');
+        params.push(event);
+      }
+
+      if (start_date) {
+        const timestamp = parseTimestamp(start_date);
+        if (!timestamp) {
+          return res.status(400).json({ error: '无效的开始时间' });
+        }
+        conditions.push('created_at >= ?');
+        params.push(timestamp);
+      }
+
+      if (end_date) {
+        const timestamp = parseTimestamp(end_date);
+        if (!timestamp) {
+          return res.status(400).json({ error: '无效的结束时间' });
+        }
+        conditions.push('created_at <= ?');
+        params.push(timestamp);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const history = await database.query(
+        `SELECT * FROM vm_inventory_history ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+        [...params, parseInt(limit as string), parseInt(offset as string)]
+      );
+      const totalResult = await database.get(`SELECT COUNT(*) as total FROM vm_inventory_history ${where}`, params);
+
+      res.json({
+        history,
+        total: totalResult.total,
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string)
+      });
+    } catch (error: any) {
+      console.error('获取清单历史失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+}
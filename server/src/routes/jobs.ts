@@ -0,0 +1,55 @@
+import { Express, Response } from 'express';
+import { JobEngine } from '../services/job-engine';
+import { authMiddleware, requirePermission, AuthRequest, Permissions, UserRoles, logUserAction } from './auth';
+
+export function setupJobRoutes(app: Express, jobEngine: JobEngine) {
+
+  // 后台任务列表（非管理员只能看到自己创建的任务）
+  app.get('/api/jobs', authMiddleware, requirePermission(Permissions.VM_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const { status, type, limit = '50', offset = '0' } = req.query;
+      const result = await jobEngine.list({
+        status: status as string | undefined,
+        type: type as string | undefined,
+        userId: req.user!.role === UserRoles.ADMIN ? undefined : req.user!.id,
+        limit: Math.min(parseInt(limit as string) || 50, 500),
+        offset: parseInt(offset as string) || 0
+      });
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 任务详情及每台虚拟机的执行状态
+  app.get('/api/jobs/:id', authMiddleware, requirePermission(Permissions.VM_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const job = await jobEngine.getJob(req.params.id);
+      if (!job || (req.user!.role !== UserRoles.ADMIN && job.user_id !== req.user!.id)) {
+        return res.status(404).json({ error: '任务不存在' });
+      }
+      res.json({ ...job, items: await jobEngine.getItems(job.id) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 取消任务：尚未开始的条目不再执行
+  app.post('/api/jobs/:id/cancel', authMiddleware, requirePermission(Permissions.VM_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const existing = await jobEngine.getJob(req.params.id);
+      if (!existing || (req.user!.role !== UserRoles.ADMIN && existing.user_id !== req.user!.id)) {
+        return res.status(404).json({ error: '任务不存在' });
+      }
+
+      const job = await jobEngine.cancel(existing.id);
+      await logUserAction(req.user!.id, req.user!.username, 'cancel_job', existing.id,
+        { type: existing.type, status: existing.status },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ job, message: '已请求取消任务' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+}
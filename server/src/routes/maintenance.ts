@@ -0,0 +1,220 @@
+import { Express, Response } from 'express';
+import {
+  MaintenanceTarget,
+  checkMaintenance,
+  describeConflicts,
+  getActiveOccurrence,
+  getNextOccurrence,
+  normalizeMaintenanceWindow,
+  parseMaintenanceWindow
+} from '../services/maintenance';
+import { authMiddleware, requirePermission, AuthRequest, Permissions, UserRoles, logUserAction } from './auth';
+
+const database = require('../db/database');
+
+// 生成维护窗口ID
+function generateWindowId(): string {
+  return `mw-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+const MAINTENANCE_POLICIES = ['reject', 'queue'];
+
+export interface MaintenanceGate {
+  status?: number; // 不为空时应以该状态码返回 body
+  body?: any;
+  holdUntil?: Date; // 排队：任务保留到该时间再执行
+}
+
+// 中断性操作执行前检查维护窗口：不允许时按请求的 maintenance_policy 拒绝 (409) 或排队 (holdUntil)；
+// 管理员可提供 override_reason 强制执行，原因记录到操作日志
+export async function checkMaintenanceGate(
+  req: AuthRequest,
+  targets: MaintenanceTarget[],
+  action: string,
+  target: string | null,
+  allowQueue: boolean = true
+): Promise<MaintenanceGate> {
+  const { override_reason: overrideReason, maintenance_policy: policy = 'reject' } = req.body || {};
+
+  if (overrideReason !== undefined && overrideReason !== null) {
+    if (req.user?.role !== UserRoles.ADMIN) {
+      return { status: 403, body: { error: '只有管理员可以忽略维护窗口限制' } };
+    }
+    if (typeof overrideReason !== 'string' || !overrideReason.trim()) {
+      return { status: 400, body: { error: '忽略维护窗口限制需要填写原因' } };
+    }
+  }
+  if (!MAINTENANCE_POLICIES.includes(policy) || (policy === 'queue' && !allowQueue)) {
+    return { status: 400, body: { error: `maintenance_policy 必须是 ${allowQueue ? MAINTENANCE_POLICIES.join('、') : 'reject'}` } };
+  }
+
+  const check = await checkMaintenance(database, targets);
+  if (check.allowed) {
+    return {};
+  }
+
+  if (overrideReason) {
+    await logUserAction(req.user!.id, req.user!.username, 'maintenance_override', target,
+      { action, reason: overrideReason.trim(), conflicts: check.conflicts },
+      req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+    return {};
+  }
+
+  if (policy === 'queue' && check.nextAllowedAt) {
+    return { holdUntil: new Date(check.nextAllowedAt) };
+  }
+
+  return {
+    status: 409,
+    body: {
+      error: `维护窗口限制: ${describeConflicts(check.conflicts)}`,
+      conflicts: check.conflicts,
+      next_allowed_at: check.nextAllowedAt
+    }
+  };
+}
+
+// 附加当前状态：是否正在进行、本次结束时间、下次开始时间
+function withState(row: any) {
+  const window = parseMaintenanceWindow(row);
+  const now = new Date();
+  const active = getActiveOccurrence(window, now);
+  const next = getNextOccurrence(window, active ? active.end : now);
+  return {
+    ...window,
+    active: !!window.enabled && !!active,
+    current_end: active ? active.end.toISOString() : null,
+    next_start: next ? next.toISOString() : null
+  };
+}
+
+export function setupMaintenanceRoutes(app: Express) {
+
+  // 获取维护窗口和冻结期列表
+  app.get('/api/maintenance/windows', authMiddleware, requirePermission(Permissions.MAINTENANCE_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const rows = await database.query('SELECT * FROM maintenance_windows ORDER BY kind, name');
+      res.json({ success: true, windows: rows.map(withState) });
+    } catch (error: any) {
+      console.error('获取维护窗口失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get('/api/maintenance/windows/:id', authMiddleware, requirePermission(Permissions.MAINTENANCE_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const row = await database.get('SELECT * FROM maintenance_windows WHERE id = ?', [req.params.id]);
+      if (!row) {
+        return res.status(404).json({ error: '维护窗口不存在' });
+      }
+      res.json({ success: true, window: withState(row) });
+    } catch (error: any) {
+      console.error('获取维护窗口失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 创建维护窗口或冻结期
+  app.post('/api/maintenance/windows', authMiddleware, requirePermission(Permissions.MAINTENANCE_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { values, error } = normalizeMaintenanceWindow(req.body);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const existing = await database.get('SELECT id FROM maintenance_windows WHERE name = ?', [values.name]);
+      if (existing) {
+        return res.status(400).json({ error: '名称已存在' });
+      }
+
+      const id = generateWindowId();
+      await database.run(`
+        INSERT INTO maintenance_windows (id, name, description, kind, schedule_type, start_at, end_at, cron_expression, duration, timezone, scope, suppress_alerts, enabled, user_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [id, values.name, values.description, values.kind, values.schedule_type, values.start_at, values.end_at,
+        values.cron_expression, values.duration, values.timezone, values.scope, values.suppress_alerts, values.enabled, req.user!.id]);
+
+      await logUserAction(req.user!.id, req.user!.username, 'create_maintenance_window', values.name,
+        { windowId: id, ...values, scope: JSON.parse(values.scope) },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      const row = await database.get('SELECT * FROM maintenance_windows WHERE id = ?', [id]);
+      res.json({ success: true, window: withState(row) });
+    } catch (error: any) {
+      console.error('创建维护窗口失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put('/api/maintenance/windows/:id', authMiddleware, requirePermission(Permissions.MAINTENANCE_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const row = await database.get('SELECT * FROM maintenance_windows WHERE id = ?', [id]);
+      if (!row) {
+        return res.status(404).json({ error: '维护窗口不存在' });
+      }
+
+      const { values, error } = normalizeMaintenanceWindow(req.body, parseMaintenanceWindow(row));
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      const duplicate = await database.get('SELECT id FROM maintenance_windows WHERE name = ? AND id != ?', [values.name, id]);
+      if (duplicate) {
+        return res.status(400).json({ error: '名称已存在' });
+      }
+
+      await database.run(`
+        UPDATE maintenance_windows SET name = ?, description = ?, kind = ?, schedule_type = ?, start_at = ?, end_at = ?, cron_expression = ?,
+          duration = ?, timezone = ?, scope = ?, suppress_alerts = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [values.name, values.description, values.kind, values.schedule_type, values.start_at, values.end_at, values.cron_expression,
+        values.duration, values.timezone, values.scope, values.suppress_alerts, values.enabled, id]);
+
+      await logUserAction(req.user!.id, req.user!.username, 'update_maintenance_window', row.name,
+        { windowId: id, changes: req.body },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      const updated = await database.get('SELECT * FROM maintenance_windows WHERE id = ?', [id]);
+      res.json({ success: true, window: withState(updated) });
+    } catch (error: any) {
+      console.error('更新维护窗口失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete('/api/maintenance/windows/:id', authMiddleware, requirePermission(Permissions.MAINTENANCE_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const row = await database.get('SELECT * FROM maintenance_windows WHERE id = ?', [id]);
+      if (!row) {
+        return res.status(404).json({ error: '维护窗口不存在' });
+      }
+
+      await database.run('DELETE FROM maintenance_windows WHERE id = ?', [id]);
+
+      await logUserAction(req.user!.id, req.user!.username, 'delete_maintenance_window', row.name,
+        { windowId: id }, req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ success: true, message: '维护窗口已删除' });
+    } catch (error: any) {
+      console.error('删除维护窗口失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 检查现在是否允许对目标执行中断性操作 (body: targets [{connection_id, node, vmid}])
+  app.post('/api/maintenance/check', authMiddleware, requirePermission(Permissions.MAINTENANCE_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const { targets } = req.body;
+      if (!Array.isArray(targets) || targets.length === 0 || targets.some((t: any) => !t || !t.connection_id || (!t.node && !Number.isInteger(t.vmid)))) {
+        return res.status(400).json({ error: 'targets 中每项需要 connection_id 以及 node 或 vmid' });
+      }
+
+      const check = await checkMaintenance(database, targets.map((t: any) => ({ connection_id: t.connection_id, node: t.node, vmid: t.vmid })));
+      res.json({ success: true, allowed: check.allowed, conflicts: check.conflicts, next_allowed_at: check.nextAllowedAt });
+    } catch (error: any) {
+      console.error('检查维护窗口失败:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+}
@@ -1,23 +1,130 @@
 import { Express, Request, Response } from 'express';
-import { PVEManager } from '../services/pve-manager';
+import { PVEConnection, PVEManager } from '../services/pve-manager';
 import { PVEConfig, defaultPVEConfig } from '../config/pve';
+import { encryptSecret } from '../services/credential-vault';
+import { parseEndpoint } from '../services/pve-api';
+import { MigrationRequest, precheckMigration, trackMigration } from '../services/migration';
+import { QEMU_NIC_MODELS, QEMU_OS_TYPES, provision, trackProvisioning, validateProvisioningRequest } from '../services/provisioning';
+import { ConfigConflictError, applyConfigUpdate, readVMConfig, validateConfigUpdate } from '../services/vm-config';
+import { filterVMs, isValidTag, parseVMFilters } from '../services/vm-filters';
+import { DEFAULT_TLS_MODE, TLSMode, fetchCertificateFingerprint, normalizeFingerprint } from '../services/tls-pinning';
+import { authMiddleware, requirePermission, AuthRequest, Permissions, logUserAction } from './auth';
 
 const database = require('../db/database');
 
+// PVE快照名称规则：字母开头，2-40个字母、数字、下划线或连字符
+const SNAPSHOT_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]{1,39}$/;
+
+// PVE资源池ID规则
+const POOL_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+function isGuestType(type: any): type is 'qemu' | 'lxc' {
+  return type === 'qemu' || type === 'lxc';
+}
+
+// 从请求参数构造迁移请求（GET 预检使用 query，POST 迁移使用 body）
+function parseMigrationRequest(vmid: string, params: any): MigrationRequest | null {
+  if (!params.node || !isGuestType(params.type) || !params.target) {
+    return null;
+  }
+  const flag = (value: any) => value === true || value === 'true' || value === 1 || value === '1';
+  return {
+    node: params.node,
+    vmid: parseInt(vmid),
+    type: params.type,
+    target: params.target,
+    online: flag(params.online),
+    restart: flag(params.restart),
+    withLocalDisks: flag(params.withLocalDisks),
+    targetStorage: params.targetStorage || undefined,
+    timeout: params.timeout ? parseInt(params.timeout) : undefined
+  };
+}
+
+// 解析端口号（数字或数字字符串），无效时返回 null
+function parsePort(port: any): number | null {
+  const value = typeof port === 'string' && /^\d+$/.test(port.trim()) ? Number(port.trim()) : port;
+  return Number.isInteger(value) && value >= 1 && value <= 65535 ? value : null;
+}
+
+// 校验故障转移地址列表（host 或 host:port）
+function resolveEndpoints(endpoints: any, host: string): string[] {
+  if (endpoints === undefined || endpoints === null) {
+    return [];
+  }
+  if (!Array.isArray(endpoints) || endpoints.some(endpoint => typeof endpoint !== 'string' || !endpoint.trim())) {
+    throw new Error('endpoints 必须是地址字符串数组');
+  }
+  return [...new Set(endpoints.map((endpoint: string) => endpoint.trim()))].filter(endpoint => endpoint !== host);
+}
+
+// 校验TLS选项，返回规范化后的配置；参数无效时抛出错误
+function resolveTLSOptions(
+  tlsMode: string,
+  fingerprint?: string,
+  caCert?: string
+): { tlsMode: TLSMode; fingerprint?: string; caCert?: string } {
+  if (!['tofu', 'fingerprint', 'ca'].includes(tlsMode)) {
+    throw new Error('无效的TLS模式，支持: tofu, fingerprint, ca');
+  }
+  if (tlsMode === 'fingerprint' && !fingerprint) {
+    throw new Error('指纹模式需要提供 fingerprint');
+  }
+  if (tlsMode === 'ca' && !caCert) {
+    throw new Error('CA证书模式需要提供 caCert');
+  }
+
+  return {
+    tlsMode: tlsMode as TLSMode,
+    fingerprint: fingerprint ? normalizeFingerprint(fingerprint) : undefined,
+    caCert: tlsMode === 'ca' ? caCert : undefined
+  };
+}
+
+// 连接列表中的公开信息（不含账户、Token ID 等）
+function summarizeConnection(conn: PVEConnection) {
+  return {
+    id: conn.id,
+    name: conn.name,
+    status: conn.status,
+    lastConnected: conn.lastConnected,
+    lastError: conn.lastError,
+    host: conn.config.host,
+    port: conn.config.port,
+    endpoints: conn.client.getEndpoints(),
+    activeEndpoint: conn.client.getActiveEndpoint(),
+    ssl: conn.config.ssl,
+    authType: conn.client.usesApiToken() ? 'token' : 'password',
+    tlsMode: conn.config.ssl ? (conn.config.tlsMode || DEFAULT_TLS_MODE) : null
+  };
+}
+
 export function setupPVERoutes(app: Express, pveManager: PVEManager) {
   // 获取所有连接
   app.get('/api/pve/connections', (req, res) => {
     try {
-      const connections = pveManager.getAllConnections().map(conn => ({
-        id: conn.id,
-        name: conn.name,
-        status: conn.status,
-        lastConnected: conn.lastConnected,
-        lastError: conn.lastError,
-        host: conn.config.host,
-        port: conn.config.port
-      }));
-      res.json(connections);
+      res.json(pveManager.getAllConnections().map(summarizeConnection));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 获取连接的编辑信息（账户、Token ID、超时等，不含密码和 Token Secret）
+  app.get('/api/pve/connections/:id', authMiddleware, requirePermission(Permissions.CONNECTION_EDIT), (req: AuthRequest, res: Response) => {
+    try {
+      const conn = pveManager.getConnection(req.params.id);
+      if (!conn) {
+        return res.status(404).json({ error: `连接 ${req.params.id} 不存在` });
+      }
+      res.json({
+        ...summarizeConnection(conn),
+        username: conn.config.username,
+        realm: conn.config.realm,
+        timeout: conn.config.timeout,
+        maxConcurrency: conn.config.maxConcurrency || null,
+        tokenId: conn.config.tokenId || null,
+        fingerprint: conn.config.fingerprint || null
+      });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -26,22 +133,52 @@ export function setupPVERoutes(app: Express, pveManager: PVEManager) {
   // 添加PVE连接
   app.post('/api/pve/connections', async (req, res) => {
     try {
-      const { id, name, host, port, username, password, realm, ssl } = req.body;
+      const {
+        id, name, host, port: rawPort = defaultPVEConfig.port, username, password, realm, ssl, tokenId, tokenSecret,
+        tlsMode = DEFAULT_TLS_MODE, fingerprint, caCert, timeout, endpoints, maxConcurrency
+      } = req.body;
       
-      if (!id || !name || !host || !username || !password) {
+      if (!id || !name || !host || !username) {
         return res.status(400).json({ 
-          error: '缺少必需参数: id, name, host, username, password' 
+          error: '缺少必需参数: id, name, host, username' 
         });
       }
 
+      const port = parsePort(rawPort);
+      if (port === null) {
+        return res.status(400).json({ error: 'port 必须是 1-65535 之间的整数' });
+      }
+
+      const useToken = !!(tokenId || tokenSecret);
+      if (useToken && (!tokenId || !tokenSecret)) {
+        return res.status(400).json({ error: 'API Token认证需要同时提供 tokenId 和 tokenSecret' });
+      }
+      if (!useToken && !password) {
+        return res.status(400).json({ error: '缺少认证信息: 请提供 password 或 tokenId/tokenSecret' });
+      }
+
+      let tls: ReturnType<typeof resolveTLSOptions>;
+      let failoverEndpoints: string[];
+      try {
+        tls = resolveTLSOptions(tlsMode, fingerprint, caCert);
+        failoverEndpoints = resolveEndpoints(endpoints, host);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
       const config: PVEConfig = {
         host,
-        port: port || defaultPVEConfig.port!,
+        port,
+        endpoints: failoverEndpoints,
         username,
-        password,
+        password: useToken ? undefined : password,
+        tokenId: useToken ? tokenId : undefined,
+        tokenSecret: useToken ? tokenSecret : undefined,
         realm: realm || defaultPVEConfig.realm!,
         ssl: ssl !== undefined ? ssl : defaultPVEConfig.ssl!,
-        timeout: defaultPVEConfig.timeout!
+        ...tls,
+        timeout: timeout || defaultPVEConfig.timeout!,
+        maxConcurrency: maxConcurrency || undefined
       };
 
       const success = await pveManager.addConnection(id, name, config);
@@ -51,9 +188,14 @@ export function setupPVERoutes(app: Express, pveManager: PVEManager) {
         try {
           await database.run(`
             INSERT OR REPLACE INTO pve_connections 
-            (id, name, host, port, username, password, realm, ssl, status, last_connected, created_at, updated_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'connected', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-          `, [id, name, host, port, username, password, realm, ssl ? 1 : 0]);
+            (id, name, host, port, endpoints, username, password, realm, ssl, token_id, token_secret,
+             tls_mode, tls_fingerprint, tls_endpoint_fingerprints, tls_ca_cert, timeout, max_concurrency,
+             status, last_connected, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'connected', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+          `, [id, name, host, config.port, JSON.stringify(config.endpoints || []), username, encryptSecret(config.password) || '', config.realm, config.ssl ? 1 : 0,
+              config.tokenId || null, encryptSecret(config.tokenSecret),
+              config.tlsMode, config.fingerprint || null, JSON.stringify(config.endpointFingerprints || {}),
+              config.caCert || null, config.timeout, config.maxConcurrency || null]);
           console.log(`连接 ${name} (${id}) 已保存到数据库`);
         } catch (dbError: any) {
           console.error(`保存连接到数据库失败:`, dbError.message);
@@ -74,6 +216,122 @@ export function setupPVERoutes(app: Express, pveManager: PVEManager) {
     }
   });
 
+  // 编辑PVE连接（保留连接ID，未提供的字段保持不变）
+  app.put('/api/pve/connections/:id', authMiddleware, requirePermission(Permissions.CONNECTION_EDIT), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const connection = pveManager.getConnection(id);
+      if (!connection) {
+        return res.status(404).json({ error: `连接 ${id} 不存在` });
+      }
+
+      const current = connection.config;
+      const {
+        name = connection.name, host = current.host, port: rawPort = current.port, username = current.username,
+        realm = current.realm, ssl = current.ssl, timeout = current.timeout, maxConcurrency = current.maxConcurrency,
+        password, tokenId, tokenSecret, tlsMode = current.tlsMode || DEFAULT_TLS_MODE, caCert = current.caCert,
+        endpoints = current.endpoints
+      } = req.body;
+
+      if (!name || !host || !username) {
+        return res.status(400).json({ error: 'name, host, username 不能为空' });
+      }
+
+      // 端口统一为整数后再比较，避免 "8006" 与 8006 被视为更换了地址而丢弃已记录的证书指纹
+      const port = parsePort(rawPort);
+      if (port === null) {
+        return res.status(400).json({ error: 'port 必须是 1-65535 之间的整数' });
+      }
+
+      // 提供密码则切换为密码认证，提供Token则切换为Token认证，都未提供时沿用现有凭据
+      let credentials: Pick<PVEConfig, 'password' | 'tokenId' | 'tokenSecret'>;
+      if (password) {
+        credentials = { password };
+      } else if (tokenId || tokenSecret) {
+        const nextTokenId = tokenId || current.tokenId;
+        const nextTokenSecret = tokenSecret || current.tokenSecret;
+        if (!nextTokenId || !nextTokenSecret) {
+          return res.status(400).json({ error: 'API Token认证需要同时提供 tokenId 和 tokenSecret' });
+        }
+        credentials = { tokenId: nextTokenId, tokenSecret: nextTokenSecret };
+      } else {
+        credentials = { password: current.password, tokenId: current.tokenId, tokenSecret: current.tokenSecret };
+      }
+
+      // 更换主机后，TOFU模式需要重新记录新主机的证书指纹
+      const endpointChanged = host !== current.host || port !== current.port;
+      const fingerprint = req.body.fingerprint !== undefined
+        ? req.body.fingerprint
+        : (endpointChanged && tlsMode === 'tofu' ? undefined : current.fingerprint);
+
+      let tls: ReturnType<typeof resolveTLSOptions>;
+      let failoverEndpoints: string[];
+      try {
+        tls = resolveTLSOptions(tlsMode, fingerprint || undefined, caCert);
+        failoverEndpoints = resolveEndpoints(endpoints, host);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      // 只保留仍在地址列表中的故障转移节点指纹
+      const endpointFingerprints = Object.fromEntries(
+        Object.entries(current.endpointFingerprints || {}).filter(([endpoint]) => failoverEndpoints.includes(endpoint))
+      );
+
+      const config: PVEConfig = {
+        host,
+        port,
+        endpoints: failoverEndpoints,
+        endpointFingerprints,
+        username,
+        ...credentials,
+        realm,
+        ssl,
+        ...tls,
+        timeout,
+        maxConcurrency: maxConcurrency || undefined
+      };
+
+      // 记录变更的字段（不记录凭据内容）
+      const changes = [
+        name !== connection.name && 'name',
+        host !== current.host && 'host',
+        port !== current.port && 'port',
+        failoverEndpoints.join(',') !== (current.endpoints || []).join(',') && 'endpoints',
+        username !== current.username && 'username',
+        realm !== current.realm && 'realm',
+        ssl !== current.ssl && 'ssl',
+        timeout !== current.timeout && 'timeout',
+        (maxConcurrency || undefined) !== current.maxConcurrency && 'maxConcurrency',
+        (password || tokenId || tokenSecret) && 'credentials',
+        (tls.tlsMode !== (current.tlsMode || DEFAULT_TLS_MODE) || tls.fingerprint !== current.fingerprint || tls.caCert !== current.caCert) && 'tls'
+      ].filter(Boolean);
+
+      const success = await pveManager.updateConnection(id, name, config);
+
+      await database.run(`
+        UPDATE pve_connections SET
+          name = ?, host = ?, port = ?, endpoints = ?, username = ?, password = ?, realm = ?, ssl = ?,
+          token_id = ?, token_secret = ?, tls_mode = ?, tls_fingerprint = ?, tls_endpoint_fingerprints = ?,
+          tls_ca_cert = ?, timeout = ?, max_concurrency = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [name, host, port, JSON.stringify(config.endpoints || []), username, encryptSecret(config.password) || '', realm, ssl ? 1 : 0,
+          config.tokenId || null, encryptSecret(config.tokenSecret),
+          config.tlsMode, config.fingerprint || null, JSON.stringify(config.endpointFingerprints || {}),
+          config.caCert || null, timeout, config.maxConcurrency || null, id]);
+
+      await logUserAction(req.user!.id, req.user!.username, 'update_connection', name,
+        { connectionId: id, changes, connected: success }, req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({
+        success,
+        message: success ? `连接 ${name} 更新成功` : `连接 ${name} 已更新，但连接测试失败`
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // 删除PVE连接
   app.delete('/api/pve/connections/:id', async (req, res) => {
     try {
@@ -113,21 +371,108 @@ export function setupPVERoutes(app: Express, pveManager: PVEManager) {
     }
   });
 
-  // 获取所有节点
+  // 获取连接的证书信息（记录的指纹与服务器当前指纹），默认为当前活动地址
+  app.get('/api/pve/connections/:id/certificate', authMiddleware, requirePermission(Permissions.CONNECTION_EDIT), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const connection = pveManager.getConnection(id);
+      if (!connection) {
+        return res.status(404).json({ error: `连接 ${id} 不存在` });
+      }
+      if (!connection.config.ssl) {
+        return res.status(400).json({ error: '该连接未启用SSL' });
+      }
+
+      const endpoint = (req.query.endpoint as string) || connection.client.getActiveEndpoint();
+      if (!connection.client.getEndpoints().includes(endpoint)) {
+        return res.status(400).json({ error: `地址 ${endpoint} 不属于该连接` });
+      }
+
+      const { host, port } = parseEndpoint(endpoint, connection.config.port);
+      const storedFingerprint = endpoint === connection.config.host
+        ? connection.config.fingerprint
+        : connection.config.endpointFingerprints?.[endpoint];
+      const currentFingerprint = await fetchCertificateFingerprint(host, port);
+      res.json({
+        endpoint,
+        tlsMode: connection.config.tlsMode || DEFAULT_TLS_MODE,
+        storedFingerprint: storedFingerprint || null,
+        currentFingerprint,
+        matches: storedFingerprint ? storedFingerprint === currentFingerprint : null
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 信任服务器当前证书（证书更换后确认新指纹）
+  app.post('/api/pve/connections/:id/certificate/trust', authMiddleware, requirePermission(Permissions.CONNECTION_EDIT), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const connection = pveManager.getConnection(id);
+      if (!connection) {
+        return res.status(404).json({ error: `连接 ${id} 不存在` });
+      }
+
+      // 需要显式提交管理员核对过的指纹，防止误信任中间人证书
+      const { fingerprint, endpoint } = req.body;
+      if (!fingerprint) {
+        return res.status(400).json({ error: '缺少参数: fingerprint' });
+      }
+      if (endpoint && !connection.client.getEndpoints().includes(endpoint)) {
+        return res.status(400).json({ error: `地址 ${endpoint} 不属于该连接` });
+      }
+
+      let normalizedFingerprint: string;
+      try {
+        normalizedFingerprint = normalizeFingerprint(fingerprint);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const trustedEndpoint = endpoint || connection.config.host;
+      const previousFingerprint = trustedEndpoint === connection.config.host
+        ? connection.config.fingerprint
+        : connection.config.endpointFingerprints?.[trustedEndpoint];
+
+      const success = await pveManager.trustCertificate(id, normalizedFingerprint, endpoint);
+
+      await database.run(
+        'UPDATE pve_connections SET tls_mode = ?, tls_fingerprint = ?, tls_endpoint_fingerprints = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [connection.config.tlsMode || DEFAULT_TLS_MODE, connection.config.fingerprint || null,
+         JSON.stringify(connection.config.endpointFingerprints || {}), id]
+      );
+
+      await logUserAction(req.user!.id, req.user!.username, 'trust_certificate', connection.name,
+        { connectionId: id, endpoint: trustedEndpoint, oldFingerprint: previousFingerprint || null, newFingerprint: normalizedFingerprint, connected: success },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({
+        success,
+        fingerprint: normalizedFingerprint,
+        message: success ? '证书已信任，连接恢复' : '证书已信任，但连接测试失败'
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 获取所有节点（detailed=true 时返回 { data, errors }，包含查询失败的连接）
   app.get('/api/pve/nodes', async (req, res) => {
     try {
-      const nodes = await pveManager.getAllNodes();
-      res.json(nodes);
+      const result = await pveManager.getAllNodes();
+      res.json(req.query.detailed === 'true' ? result : result.data);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // 获取所有虚拟机
+  // 获取所有虚拟机（detailed=true 时返回 { data, errors }，包含查询失败的连接和节点；可按 tags、pool 过滤）
   app.get('/api/pve/vms', async (req, res) => {
     try {
-      const vms = await pveManager.getAllVMs();
-      res.json(vms);
+      const result = await pveManager.getAllVMs();
+      result.data = filterVMs(result.data, parseVMFilters(req.query));
+      res.json(req.query.detailed === 'true' ? result : result.data);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -137,8 +482,95 @@ export function setupPVERoutes(app: Express, pveManager: PVEManager) {
   app.get('/api/pve/connections/:id/vms', async (req, res) => {
     try {
       const { id } = req.params;
-      const vms = await pveManager.executeOnConnection(id, (client) => client.getVMs());
-      res.json(vms);
+      const vms = await pveManager.getConnectionVMs(id);
+      res.json(filterVMs(vms, parseVMFilters(req.query)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 创建向导所需的选项：下一个VMID、存储、网桥、ISO、容器模板和虚拟机模板
+  app.get('/api/pve/connections/:id/provisioning/options', authMiddleware, requirePermission(Permissions.VM_CREATE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { node } = req.query;
+
+      if (!node) {
+        return res.status(400).json({ error: '缺少参数: node' });
+      }
+
+      const options = await pveManager.executeOnConnection(id, async (client) => {
+        const [nextid, storages, networks, resources] = await Promise.all([
+          client.getNextVMID(),
+          client.getStorages(node as string),
+          client.getNetworks(node as string),
+          client.getClusterResources()
+        ]);
+        const activeStorages = storages.filter((storage: any) => storage.enabled !== 0 && storage.active !== 0);
+        const hasContent = (storage: any, content: string) => (storage.content || '').split(',').includes(content);
+
+        // 逐个存储读取ISO和容器模板，单个存储失败不影响其他存储
+        const listContent = async (content: string) => {
+          const results = await Promise.allSettled(
+            activeStorages
+              .filter((storage: any) => hasContent(storage, content))
+              .map((storage: any) => client.getStorageContent(node as string, storage.storage, content))
+          );
+          return results.flatMap(result => result.status === 'fulfilled' ? result.value.map((item: any) => item.volid) : []);
+        };
+        const [isos, ostemplates] = await Promise.all([listContent('iso'), listContent('vztmpl')]);
+
+        return {
+          nextid,
+          storages: {
+            images: activeStorages.filter((storage: any) => hasContent(storage, 'images')).map((storage: any) => ({ storage: storage.storage, avail: storage.avail, total: storage.total })),
+            rootdir: activeStorages.filter((storage: any) => hasContent(storage, 'rootdir')).map((storage: any) => ({ storage: storage.storage, avail: storage.avail, total: storage.total }))
+          },
+          bridges: networks.filter((network: any) => network.type === 'bridge' || network.type === 'OVSBridge').map((network: any) => network.iface),
+          isos,
+          ostemplates,
+          templates: resources
+            .filter((resource: any) => resource.type === 'qemu' && resource.template === 1)
+            .map((resource: any) => ({ vmid: resource.vmid, name: resource.name, node: resource.node })),
+          nicModels: QEMU_NIC_MODELS,
+          osTypes: QEMU_OS_TYPES
+        };
+      });
+
+      res.json(options);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 创建虚拟机/容器（QEMU可从ISO安装或从模板克隆）
+  app.post('/api/pve/connections/:id/vms', authMiddleware, requirePermission(Permissions.VM_CREATE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { errors, spec } = validateProvisioningRequest(req.body);
+      if (!spec) {
+        return res.status(400).json({ error: errors.join('; '), errors });
+      }
+
+      const result = await pveManager.executeOnConnection(id, (client) => provision(client, spec));
+      trackProvisioning(pveManager, id, spec, result);
+
+      await logUserAction(req.user!.id, req.user!.username, 'create_vm', `VM ${result.vmid}`,
+        {
+          connectionId: id,
+          vmid: result.vmid,
+          type: spec.type,
+          node: spec.node,
+          name: spec.name,
+          cores: spec.cores,
+          memory: spec.memory,
+          disk: spec.disk,
+          source: spec.templateVmid ?? spec.iso ?? spec.ostemplate ?? null,
+          taskId: result.taskId
+        },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ ...result, message: '创建命令已发送' });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -277,6 +709,382 @@ export function setupPVERoutes(app: Express, pveManager: PVEManager) {
     }
   });
 
+  // 获取虚拟机快照列表
+  app.get('/api/pve/connections/:id/vms/:vmid/snapshots', authMiddleware, requirePermission(Permissions.SNAPSHOT_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid } = req.params;
+      const { node, type } = req.query;
+
+      if (!node || !isGuestType(type)) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc)' });
+      }
+
+      const snapshots = await pveManager.executeOnConnection(id, (client) =>
+        client.getSnapshots(node as string, parseInt(vmid), type)
+      );
+      res.json(snapshots);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 创建快照（QEMU可选保存内存状态）
+  app.post('/api/pve/connections/:id/vms/:vmid/snapshots', authMiddleware, requirePermission(Permissions.SNAPSHOT_CREATE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid } = req.params;
+      const { node, type, snapname, description, vmstate } = req.body;
+
+      if (!node || !isGuestType(type) || !snapname) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc), snapname' });
+      }
+      if (!SNAPSHOT_NAME_PATTERN.test(snapname)) {
+        return res.status(400).json({ error: '快照名称必须以字母开头，由2-40个字母、数字、下划线或连字符组成' });
+      }
+      if (vmstate && type !== 'qemu') {
+        return res.status(400).json({ error: '只有QEMU虚拟机支持保存内存状态' });
+      }
+
+      const taskId = await pveManager.executeOnConnection(id, (client) =>
+        client.createSnapshot(node, parseInt(vmid), type, snapname, { description, vmstate: !!vmstate })
+      );
+
+      await logUserAction(req.user!.id, req.user!.username, 'create_snapshot', `VM ${vmid}`,
+        { connectionId: id, node, vmid: parseInt(vmid), type, snapname, vmstate: !!vmstate, taskId },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ taskId, message: '快照创建命令已发送' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 回滚到快照
+  app.post('/api/pve/connections/:id/vms/:vmid/snapshots/:snapname/rollback', authMiddleware, requirePermission(Permissions.SNAPSHOT_ROLLBACK), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid, snapname } = req.params;
+      const { node, type, start } = req.body;
+
+      if (!node || !isGuestType(type)) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc)' });
+      }
+
+      const taskId = await pveManager.executeOnConnection(id, (client) =>
+        client.rollbackSnapshot(node, parseInt(vmid), type, snapname, !!start)
+      );
+
+      await logUserAction(req.user!.id, req.user!.username, 'rollback_snapshot', `VM ${vmid}`,
+        { connectionId: id, node, vmid: parseInt(vmid), type, snapname, start: !!start, taskId },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ taskId, message: '快照回滚命令已发送' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 删除快照
+  app.delete('/api/pve/connections/:id/vms/:vmid/snapshots/:snapname', authMiddleware, requirePermission(Permissions.SNAPSHOT_DELETE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid, snapname } = req.params;
+      const { node, type, force } = req.query;
+
+      if (!node || !isGuestType(type)) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc)' });
+      }
+
+      const taskId = await pveManager.executeOnConnection(id, (client) =>
+        client.deleteSnapshot(node as string, parseInt(vmid), type, snapname, force === 'true')
+      );
+
+      await logUserAction(req.user!.id, req.user!.username, 'delete_snapshot', `VM ${vmid}`,
+        { connectionId: id, node, vmid: parseInt(vmid), type, snapname, force: force === 'true', taskId },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ taskId, message: '快照删除命令已发送' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 获取下一个可用的VMID
+  app.get('/api/pve/connections/:id/nextid', authMiddleware, requirePermission(Permissions.VM_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const vmid = await pveManager.executeOnConnection(req.params.id, (client) => client.getNextVMID());
+      res.json({ vmid });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 克隆虚拟机/容器，进度通过任务状态接口查询
+  app.post('/api/pve/connections/:id/vms/:vmid/clone', authMiddleware, requirePermission(Permissions.VM_CLONE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid } = req.params;
+      const { node, type, newid, name, target, storage, full, description } = req.body;
+
+      if (!node || !isGuestType(type)) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc)' });
+      }
+      if (newid !== undefined && (!Number.isInteger(newid) || newid < 100)) {
+        return res.status(400).json({ error: 'newid 必须是不小于100的整数' });
+      }
+      if (storage && full === false) {
+        return res.status(400).json({ error: '只有完整克隆可以指定目标存储' });
+      }
+
+      const result = await pveManager.executeOnConnection(id, async (client) => {
+        const targetId: number = newid ?? await client.getNextVMID();
+        const taskId = await client.cloneVM(node, parseInt(vmid), type, {
+          newid: targetId,
+          name,
+          target,
+          storage,
+          full: full === undefined ? undefined : !!full,
+          description
+        });
+        return { taskId, newid: targetId };
+      });
+
+      await logUserAction(req.user!.id, req.user!.username, 'clone_vm', `VM ${vmid}`,
+        { connectionId: id, node, vmid: parseInt(vmid), type, newid: result.newid, name, target, storage, full, taskId: result.taskId },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      // 克隆任务在源节点上执行
+      res.json({ ...result, node, message: '克隆命令已发送' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 将虚拟机/容器转换为模板（不可逆）
+  app.post('/api/pve/connections/:id/vms/:vmid/template', authMiddleware, requirePermission(Permissions.VM_TEMPLATE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid } = req.params;
+      const { node, type } = req.body;
+
+      if (!node || !isGuestType(type)) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc)' });
+      }
+
+      const taskId = await pveManager.executeOnConnection(id, (client) =>
+        client.convertToTemplate(node, parseInt(vmid), type)
+      );
+
+      await logUserAction(req.user!.id, req.user!.username, 'convert_template', `VM ${vmid}`,
+        { connectionId: id, node, vmid: parseInt(vmid), type, taskId },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ taskId, message: taskId ? '模板转换命令已发送' : '已转换为模板' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 迁移预检：本地磁盘、本地资源、目标节点存储是否可用
+  app.get('/api/pve/connections/:id/vms/:vmid/migrate/precheck', authMiddleware, requirePermission(Permissions.VM_MIGRATE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid } = req.params;
+      const request = parseMigrationRequest(vmid, req.query);
+      if (!request) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc), target' });
+      }
+
+      const precheck = await pveManager.executeOnConnection(id, (client) => precheckMigration(client, request));
+      res.json(precheck);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 迁移虚拟机/容器到其他节点，进度通过 WebSocket 推送
+  app.post('/api/pve/connections/:id/vms/:vmid/migrate', authMiddleware, requirePermission(Permissions.VM_MIGRATE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid } = req.params;
+      const request = parseMigrationRequest(vmid, req.body);
+      if (!request) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc), target' });
+      }
+
+      const precheck = await pveManager.executeOnConnection(id, (client) => precheckMigration(client, request));
+      if (!precheck.allowed) {
+        return res.status(409).json({ error: `迁移预检未通过: ${precheck.problems.join('; ')}`, precheck });
+      }
+
+      const taskId = await pveManager.executeOnConnection(id, (client) =>
+        client.migrateVM(request.node, request.vmid, request.type, request)
+      );
+      trackMigration(pveManager, id, request, taskId);
+
+      await logUserAction(req.user!.id, req.user!.username, 'migrate_vm', `VM ${vmid}`,
+        { connectionId: id, ...request, taskId },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ taskId, precheck, message: '迁移命令已发送' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 硬件配置：当前配置、digest、待重启生效的修改及热插拔功能
+  app.get('/api/pve/connections/:id/vms/:vmid/config', authMiddleware, requirePermission(Permissions.VM_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid } = req.params;
+      const { node, type } = req.query;
+      if (!node || !isGuestType(type)) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc)' });
+      }
+
+      const result = await pveManager.executeOnConnection(id, (client) =>
+        readVMConfig(client, node as string, parseInt(vmid), type)
+      );
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 修改硬件配置（CPU、内存、网卡增删、磁盘扩容），digest 不一致时返回 409；?dryRun=true 只返回各项修改的生效方式
+  app.put('/api/pve/connections/:id/vms/:vmid/config', authMiddleware, requirePermission(Permissions.VM_CONFIG), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid } = req.params;
+      const { node, type } = req.body;
+      if (!node || !isGuestType(type)) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc)' });
+      }
+      const { errors, request } = validateConfigUpdate(req.body, type);
+      if (!request) {
+        return res.status(400).json({ error: errors.join('; '), errors });
+      }
+      const dryRun = req.query.dryRun === 'true';
+
+      const result = await pveManager.executeOnConnection(id, (client) =>
+        applyConfigUpdate(client, node, parseInt(vmid), type, request, dryRun)
+      );
+
+      if (!dryRun) {
+        // 不记录 cipassword 等敏感值
+        await logUserAction(req.user!.id, req.user!.username, 'update_vm_config', `VM ${vmid}`,
+          {
+            connectionId: id,
+            node,
+            type,
+            changes: result.changes.map(change => ({
+              key: change.key,
+              action: change.action,
+              value: change.key === 'cipassword' ? '***' : change.value,
+              effect: change.effect
+            }))
+          },
+          req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof ConfigConflictError) {
+        return res.status(409).json({ error: error.message, digest: error.currentDigest });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 设置VM的标签（覆盖原有标签，空列表表示清除）
+  app.put('/api/pve/connections/:id/vms/:vmid/tags', authMiddleware, requirePermission(Permissions.VM_CONFIG), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id, vmid } = req.params;
+      const { node, type, tags } = req.body;
+      if (!node || !isGuestType(type)) {
+        return res.status(400).json({ error: '缺少参数: node, type (qemu 或 lxc)' });
+      }
+      if (!Array.isArray(tags) || tags.some((tag: any) => typeof tag !== 'string' || !isValidTag(tag))) {
+        return res.status(400).json({ error: 'tags 必须是标签数组，标签只能包含字母、数字、_、-、+、.' });
+      }
+      const normalized: string[] = [...new Set(tags.map((tag: string) => tag.toLowerCase()))];
+
+      await pveManager.executeOnConnection(id, (client) => client.setVMTags(node, parseInt(vmid), type, normalized));
+      // 立即刷新资源清单，使过滤和动态分组使用新标签
+      await pveManager.getInventory(id, 0);
+
+      await logUserAction(req.user!.id, req.user!.username, 'update_vm_tags', `VM ${vmid}`,
+        { connectionId: id, node, tags: normalized },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ success: true, tags: normalized, message: '标签已更新' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 资源池列表
+  app.get('/api/pve/connections/:id/pools', authMiddleware, requirePermission(Permissions.VM_VIEW), async (req: AuthRequest, res: Response) => {
+    try {
+      const pools = await pveManager.executeOnConnection(req.params.id, (client) => client.getPools());
+      res.json(pools);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 创建资源池
+  app.post('/api/pve/connections/:id/pools', authMiddleware, requirePermission(Permissions.POOL_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { poolid, comment } = req.body;
+      if (typeof poolid !== 'string' || !POOL_ID_PATTERN.test(poolid)) {
+        return res.status(400).json({ error: '资源池ID只能包含字母、数字、.、_、-，长度不超过64' });
+      }
+
+      await pveManager.executeOnConnection(id, (client) => client.createPool(poolid, comment || undefined));
+
+      await logUserAction(req.user!.id, req.user!.username, 'create_pool', poolid,
+        { connectionId: id, comment },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ success: true, poolid, message: '资源池创建成功' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // 将VM移动到资源池（pool 为 null 时移出当前资源池）
+  app.put('/api/pve/connections/:id/vms/:vmid/pool', authMiddleware, requirePermission(Permissions.POOL_MANAGE), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const vmid = parseInt(req.params.vmid);
+      const { pool } = req.body;
+      if (pool !== null && (typeof pool !== 'string' || !POOL_ID_PATTERN.test(pool))) {
+        return res.status(400).json({ error: 'pool 必须是资源池ID或 null' });
+      }
+
+      const snapshot = await pveManager.getInventory(id, 0);
+      const vm = snapshot.vms.get(vmid);
+      if (!vm) {
+        return res.status(404).json({ error: '虚拟机不存在' });
+      }
+      const from = vm.pool || null;
+      if (from === pool) {
+        return res.json({ success: true, pool, message: '虚拟机已在该资源池中' });
+      }
+
+      // 一个VM只能属于一个资源池；在资源池之间移动时由PVE一次完成，避免移出后加入失败导致VM不属于任何资源池
+      await pveManager.executeOnConnection(id, async (client) => {
+        if (pool) {
+          await client.addVMToPool(pool, vmid, from !== null);
+        } else if (from) {
+          await client.removeVMFromPool(from, vmid);
+        }
+      });
+      await pveManager.getInventory(id, 0);
+
+      await logUserAction(req.user!.id, req.user!.username, 'move_vm_pool', `VM ${vmid}`,
+        { connectionId: id, from, to: pool },
+        req.ip || req.socket.remoteAddress || null, req.headers['user-agent'] || null);
+
+      res.json({ success: true, pool, message: pool ? `已移动到资源池 ${pool}` : '已移出资源池' });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // 获取任务状态
   app.get('/api/pve/connections/:id/tasks/:upid/status', async (req, res) => {
     try {
@@ -1,4 +1,13 @@
 import { Router, Request, Response } from 'express';
+import { resolveGroupMembers } from '../services/group-rules';
+import { PVEManager } from '../services/pve-manager';
+import { SCHEDULED_ACTIONS, ScheduledAction, ScheduledTarget, executeScheduledAction, normalizeScheduledAction, validateScheduledOptions } from '../services/scheduled-actions';
+import { parseCron, getNextRunTime as getNextCronRun, getNextRunTimes, formatInTimezone, isValidTimezone, DEFAULT_TIMEZONE, MAX_PREVIEW_COUNT } from '../services/cron';
+import { acquireTaskLease, claimOccurrence, isTaskLeased } from '../services/task-lease';
+import { DeadlineExceededError, withDeadline } from '../services/concurrency';
+import { WorkflowStep, normalizeWorkflowSteps, parseWorkflow, runWorkflow } from '../services/workflows';
+import { MaintenanceCheck, checkMaintenance, describeConflicts, isDisruptiveAction } from '../services/maintenance';
+import { checkMaintenanceGate } from './maintenance';
 
 // 生成 UUID
 function generateUUID(): string {
@@ -14,114 +23,216 @@ const router = Router();
 // 内存中的定时器管理
 const taskTimers: Map<string, NodeJS.Timeout> = new Map();
 
-// 辅助函数：解析 cron 表达式获取下次执行时间
-function getNextRunTime(cronExpression: string, scheduledTime?: string): Date {
-  const now = new Date();
-  
-  // 简化的 cron 解析，支持常见模式
-  // 格式: minute hour dayOfMonth month dayOfWeek
-  const parts = cronExpression.split(' ');
-  
-  if (parts.length !== 5) {
-    // 如果有指定时间，使用指定时间
-    if (scheduledTime) {
-      const [hours, minutes] = scheduledTime.split(':').map(Number);
-      const next = new Date(now);
-      next.setHours(hours, minutes, 0, 0);
-      if (next <= now) {
-        next.setDate(next.getDate() + 1);
-      }
-      return next;
-    }
-    // 默认下一分钟
-    return new Date(now.getTime() + 60000);
+const MISFIRE_POLICIES = ['run_once', 'run_all', 'skip'];
+const OVERLAP_POLICIES = ['skip', 'queue'];
+const MAINTENANCE_POLICIES = ['skip', 'queue'];
+// 触发晚于计划时间超过该值时视为错过
+const MISFIRE_GRACE = 60 * 1000;
+// run_all 策略最多补执行的次数
+const MAX_CATCH_UP_RUNS = 24;
+// queue 策略等待上一次执行结束的检查间隔
+const QUEUE_RETRY_INTERVAL = 30 * 1000;
+// 定时器的最长间隔，超过时到期后重新检查
+const MAX_TIMER_DELAY = 24 * 60 * 60 * 1000;
+const MAX_RUNTIME_LIMIT = 7 * 24 * 60 * 60;
+// 执行工作流的任务使用的操作名，工作流由 workflow_id 指定
+const WORKFLOW_ACTION = 'workflow';
+
+interface TaskRun {
+  triggeredBy: 'schedule' | 'catch_up' | 'manual';
+  scheduledFor?: string;
+}
+
+// 任务的 cron 表达式；旧任务没有保存表达式时按执行时间 (HH:mm) 每天执行
+function getTaskCron(cronExpression?: string, scheduledTime?: string): string {
+  if (cronExpression) {
+    return cronExpression;
+  }
+  if (scheduledTime) {
+    const [hours, minutes] = scheduledTime.split(':').map(Number);
+    return `${minutes} ${hours} * * *`;
   }
+  return '0 0 * * *';
+}
 
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
-  const next = new Date(now);
-  
-  // 解析小时和分钟
-  const targetMinute = minute === '*' ? now.getMinutes() : parseInt(minute);
-  const targetHour = hour === '*' ? now.getHours() : parseInt(hour);
-  
-  next.setHours(targetHour, targetMinute, 0, 0);
-  
-  // 如果时间已过，设置为明天
-  if (next <= now) {
-    next.setDate(next.getDate() + 1);
+// 按任务时区计算下次执行时间，表达式不再匹配任何时间时返回 null
+function getNextRunTime(cronExpression?: string, scheduledTime?: string, timezone?: string, from?: Date): Date | null {
+  return getNextCronRun(getTaskCron(cronExpression, scheduledTime), timezone || DEFAULT_TIMEZONE, from);
+}
+
+// 校验错过策略、重叠策略、维护窗口策略和最长运行时间，返回错误信息
+function validatePolicies(misfirePolicy: any, overlapPolicy: any, maxRuntime: any, maintenancePolicy?: any): string | null {
+  if (misfirePolicy !== undefined && !MISFIRE_POLICIES.includes(misfirePolicy)) {
+    return `misfire_policy 必须是 ${MISFIRE_POLICIES.join('、')} 之一`;
   }
-  
-  // 处理星期几
-  if (dayOfWeek !== '*') {
-    const targetDays = dayOfWeek.split(',').map(d => parseInt(d));
-    while (!targetDays.includes(next.getDay())) {
-      next.setDate(next.getDate() + 1);
+  if (overlapPolicy !== undefined && !OVERLAP_POLICIES.includes(overlapPolicy)) {
+    return `overlap_policy 必须是 ${OVERLAP_POLICIES.join('、')} 之一`;
+  }
+  if (maintenancePolicy !== undefined && !MAINTENANCE_POLICIES.includes(maintenancePolicy)) {
+    return `maintenance_policy 必须是 ${MAINTENANCE_POLICIES.join('、')} 之一`;
+  }
+  if (maxRuntime !== undefined && maxRuntime !== null && (!Number.isInteger(maxRuntime) || maxRuntime < 60 || maxRuntime > MAX_RUNTIME_LIMIT)) {
+    return `max_runtime 必须是 60-${MAX_RUNTIME_LIMIT} 秒之间的整数`;
+  }
+  return null;
+}
+
+// 校验任务的调度配置，返回错误信息
+function validateSchedule(cronExpression?: string, scheduledTime?: string, timezone?: string): string | null {
+  if (timezone && !isValidTimezone(timezone)) {
+    return `无效的时区: ${timezone}`;
+  }
+  if (!cronExpression && scheduledTime && !/^([01]?\d|2[0-3]):[0-5]\d$/.test(scheduledTime)) {
+    return '执行时间格式必须是 HH:mm';
+  }
+  const { error } = parseCron(getTaskCron(cronExpression, scheduledTime));
+  if (error) {
+    return error;
+  }
+  if (!getNextRunTime(cronExpression, scheduledTime, timezone)) {
+    return 'cron 表达式没有匹配的执行时间';
+  }
+  return null;
+}
+
+// 校验任务的操作、目标类型和操作参数，返回错误信息
+function validateTaskAction(action: any, targetType: any, targetDetails: any): string | null {
+  const normalized = action === WORKFLOW_ACTION ? null : normalizeScheduledAction(action);
+  if (!normalized && action !== WORKFLOW_ACTION) {
+    return `不支持的操作: ${action}，可选 ${[...SCHEDULED_ACTIONS, WORKFLOW_ACTION].join('、')}`;
+  }
+  if (!['vm', 'group', 'backup'].includes(targetType)) {
+    return '目标类型必须是 vm 或 group';
+  }
+  if (targetType !== 'group' && (!targetDetails?.connectionId || !targetDetails?.vmid)) {
+    return '缺少目标虚拟机信息 (target_details.connectionId, vmid)';
+  }
+  return normalized ? validateScheduledOptions(normalized, targetDetails || {}) : null;
+}
+
+// 执行工作流的任务需要指定存在的工作流
+async function validateTaskWorkflow(db: any, action: any, workflowId: any): Promise<string | null> {
+  if (action !== WORKFLOW_ACTION) {
+    return null;
+  }
+  if (!workflowId) {
+    return '工作流任务需要指定 workflow_id';
+  }
+  const workflow = await db.get('SELECT id FROM workflows WHERE id = ?', [workflowId]);
+  return workflow ? null : '工作流不存在';
+}
+
+// 解析任务的执行目标：单个VM（含旧的 backup 目标类型）或分组成员（动态分组在执行时按规则确定成员）
+async function resolveTaskTargets(db: any, pveManager: PVEManager, task: any, action: ScheduledAction, targetDetails: any): Promise<ScheduledTarget[]> {
+  if (task.target_type === 'vm' || task.target_type === 'backup') {
+    const { connectionId, node, vmid } = targetDetails;
+    if (!connectionId || !vmid) {
+      throw new Error('任务目标无效');
     }
+    return [{ connection_id: connectionId, node, vmid: Number(vmid) }];
+  }
+
+  if (task.target_type === 'group') {
+    const group = await db.get('SELECT * FROM vm_groups WHERE id = ?', [task.target_id]);
+    if (!group) {
+      throw new Error('分组不存在');
+    }
+    const { members } = await resolveGroupMembers(db, pveManager, group);
+    const targets = members.map(member => ({ connection_id: member.connection_id, node: member.node, vmid: member.vmid }));
+    // 与分组批量操作一致：启动按启动顺序，关机按相反顺序
+    return action === 'stop' || action === 'shutdown' ? targets.reverse() : targets;
+  }
+
+  throw new Error(`不支持的目标类型: ${task.target_type}`);
+}
+
+// 检查任务现在是否允许执行：只有中断性操作（含包含中断性步骤的工作流）受维护窗口限制
+async function checkTaskMaintenance(db: any, pveManager: PVEManager, task: any): Promise<MaintenanceCheck> {
+  const allowed: MaintenanceCheck = { allowed: true, conflicts: [], nextAllowedAt: null };
+  const targetDetails = JSON.parse(task.target_details || '{}');
+
+  let disruptive: boolean;
+  if (task.action === WORKFLOW_ACTION) {
+    const row = await db.get('SELECT * FROM workflows WHERE id = ?', [task.workflow_id]);
+    disruptive = !!row && parseWorkflow(row).steps.some((step: WorkflowStep) => isDisruptiveAction(step.action, step.options));
+  } else {
+    disruptive = isDisruptiveAction(task.action, targetDetails);
+  }
+  if (!disruptive) {
+    return allowed;
+  }
+
+  try {
+    return await checkMaintenance(db, await resolveTaskTargets(db, pveManager, task, 'start', targetDetails));
+  } catch {
+    // 目标无效时由执行过程记录错误
+    return allowed;
   }
-  
-  return next;
 }
 
-// 执行任务
-async function executeTask(db: any, pveService: any, task: any) {
+// 执行任务：逐个目标执行并等待PVE任务结束；超过 max_runtime 后不再执行剩余目标（已发出的PVE任务继续运行）
+async function executeTask(db: any, pveManager: PVEManager, task: any, run: TaskRun = { triggeredBy: 'manual' }) {
   const startTime = new Date();
   let status = 'success';
   let error = null;
   let details: any = { results: [] };
+  let timedOut = false;
 
   try {
     const targetDetails = JSON.parse(task.target_details || '{}');
-    
-    if (task.target_type === 'vm') {
-      // 单个虚拟机操作
-      const { connectionId, node, vmid, type } = targetDetails;
-      const connection = await db.get('SELECT * FROM pve_connections WHERE id = ?', [connectionId]);
-      
-      if (connection) {
-        await pveService.vmAction(connection, vmid, node, type, task.action);
-        details.results.push({ vmid, status: 'success' });
-      }
-    } else if (task.target_type === 'group') {
-      // 分组操作
-      const members = await db.query(
-        `SELECT m.*, c.host, c.port, c.username, c.token_id, c.token_secret, c.name as connection_name
-         FROM vm_group_members m
-         JOIN pve_connections c ON m.connection_id = c.id
-         WHERE m.group_id = ?`,
-        [task.target_id]
-      );
-      
-      for (const member of members) {
-        try {
-          const connection = {
-            id: member.connection_id,
-            host: member.host,
-            port: member.port,
-            username: member.username,
-            token_id: member.token_id,
-            token_secret: member.token_secret,
-          };
-          await pveService.vmAction(connection, member.vmid, member.node, 'qemu', task.action);
-          details.results.push({ vmid: member.vmid, node: member.node, status: 'success' });
-        } catch (err: any) {
-          details.results.push({ vmid: member.vmid, node: member.node, status: 'failed', error: err.message });
-        }
+    let runTargets: () => Promise<void>;
+
+    if (task.action === WORKFLOW_ACTION) {
+      // 工作流：按步骤对目标执行，details 记录每个步骤的输出
+      const row = await db.get('SELECT * FROM workflows WHERE id = ?', [task.workflow_id]);
+      if (!row) {
+        throw new Error('工作流不存在');
       }
-    } else if (task.target_type === 'backup') {
-      // 备份任务
-      const { connectionId, node, vmid, storage, mode, compress } = targetDetails;
-      const connection = await db.get('SELECT * FROM pve_connections WHERE id = ?', [connectionId]);
-      
-      if (connection) {
-        await pveService.createBackup(connection, node, vmid, storage, mode, compress);
-        details.results.push({ vmid, status: 'success', action: 'backup' });
+      const workflow = parseWorkflow(row);
+      const targets = await resolveTaskTargets(db, pveManager, task, 'start', targetDetails);
+      details = { workflowId: workflow.id, workflowName: workflow.name, steps: [], results: [] };
+      runTargets = () => runWorkflow(pveManager, workflow, targets, details, () => timedOut);
+    } else {
+      const action = normalizeScheduledAction(task.action);
+      if (!action) {
+        throw new Error(`不支持的操作: ${task.action}`);
+      }
+
+      const targets = await resolveTaskTargets(db, pveManager, task, action, targetDetails);
+      runTargets = async () => {
+        for (const target of targets) {
+          if (timedOut) {
+            break;
+          }
+          details.results.push(await executeScheduledAction(pveManager, target, action, targetDetails));
+        }
+      };
+    }
+
+    if (task.max_runtime) {
+      try {
+        await withDeadline(runTargets(), task.max_runtime * 1000, `任务 ${task.name}`);
+      } catch (err) {
+        if (!(err instanceof DeadlineExceededError)) {
+          throw err;
+        }
+        timedOut = true;
       }
+    } else {
+      await runTargets();
     }
 
-    // 检查是否有失败的
-    const failedCount = details.results.filter((r: any) => r.status === 'failed').length;
-    if (failedCount > 0) {
+    // 全部失败记为失败，部分失败（含工作流中失败后继续的VM）记为部分成功
+    const failed = details.results.filter((r: any) => r.status === 'failed' || r.status === 'partial');
+    if (timedOut) {
+      status = 'timeout';
+      error = `超过最长运行时间 ${task.max_runtime} 秒，已停止执行剩余${task.action === WORKFLOW_ACTION ? '步骤' : '目标'}`;
+    } else if (failed.length > 0 && failed.length === details.results.length && failed.every((r: any) => r.status === 'failed')) {
+      status = 'failed';
+      error = failed.length === 1 ? failed[0].error : `${failed.length} 个目标执行失败`;
+    } else if (failed.length > 0) {
       status = 'partial';
+      error = `${failed.length}/${details.results.length} 个目标执行失败`;
     }
   } catch (err: any) {
     status = 'failed';
@@ -132,32 +243,145 @@ async function executeTask(db: any, pveService: any, task: any) {
   const endTime = new Date();
   const duration = endTime.getTime() - startTime.getTime();
 
-  // 记录执行历史
+  // 记录执行历史（超时时 details 为截止时已完成的部分）
   await db.run(
-    `INSERT INTO task_history (task_id, task_name, action, status, details, error, started_at, completed_at, duration)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-    [task.id, task.name, task.action, status, JSON.stringify(details), error, startTime.toISOString(), endTime.toISOString(), duration]
+    `INSERT INTO task_history (task_id, task_name, action, status, details, error, started_at, completed_at, duration, scheduled_for, triggered_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [task.id, task.name, task.action, status, JSON.stringify(details), error, startTime.toISOString(), endTime.toISOString(), duration, run.scheduledFor || null, run.triggeredBy]
   );
 
-  // 更新任务状态
-  const nextRun = task.schedule_type === 'once' ? null : getNextRunTime(task.cron_expression, task.scheduled_time);
+  // 更新任务状态（下次执行时间在认领计划执行时已推进）
   await db.run(
     `UPDATE scheduled_tasks 
-     SET last_run = ?, last_status = ?, last_error = ?, next_run = ?, run_count = run_count + 1, updated_at = ?
+     SET last_run = ?, last_status = ?, last_error = ?, run_count = run_count + 1, updated_at = ?
      WHERE id = ?`,
-    [startTime.toISOString(), status, error, nextRun?.toISOString(), new Date().toISOString(), task.id]
+    [startTime.toISOString(), status, error, new Date().toISOString(), task.id]
+  );
+
+  return { status, error, details };
+}
+
+// 记录被跳过的计划执行
+async function recordSkippedRun(db: any, task: any, scheduledFor: string, reason: string, details: any = { results: [] }) {
+  const now = new Date().toISOString();
+  await db.run(
+    `INSERT INTO task_history (task_id, task_name, action, status, details, error, started_at, completed_at, duration, scheduled_for, triggered_by)
+     VALUES (?, ?, ?, 'skipped', ?, ?, ?, ?, 0, ?, 'schedule')`,
+    [task.id, task.name, task.action, JSON.stringify(details), reason, now, now, scheduledFor]
   );
+  console.log(`Task ${task.name} run at ${scheduledFor} skipped: ${reason}`);
+}
 
-  // 如果是一次性任务，禁用它
+// 错过的计划执行时间（含 dueAt，最多 MAX_CATCH_UP_RUNS 次）
+function getMissedRuns(task: any, dueAt: string, now: Date): string[] {
+  const runs = [dueAt];
   if (task.schedule_type === 'once') {
-    await db.run('UPDATE scheduled_tasks SET enabled = 0 WHERE id = ?', [task.id]);
+    return runs;
   }
+  const times = getNextRunTimes(getTaskCron(task.cron_expression, task.scheduled_time), task.timezone || DEFAULT_TIMEZONE, MAX_CATCH_UP_RUNS - 1, new Date(dueAt));
+  for (const time of times) {
+    if (time > now) {
+      break;
+    }
+    runs.push(time.toISOString());
+  }
+  return runs;
+}
 
-  return { status, error, details };
+async function rescheduleFromDb(db: any, pveManager: PVEManager, taskId: string) {
+  const task = await db.get('SELECT * FROM scheduled_tasks WHERE id = ?', [taskId]);
+  if (task) {
+    scheduleTask(db, pveManager, task);
+  }
 }
 
-// 调度单个任务
-function scheduleTask(db: any, pveService: any, task: any) {
+// 计划执行时间到达：认领本次执行并获取租约后执行，其他实例已认领时只重新调度
+// queued 表示因上一次执行未结束或维护窗口限制而等待的执行，不再按错过处理
+async function fireTask(db: any, pveManager: PVEManager, taskId: string, dueAt: string, queued = false) {
+  taskTimers.delete(taskId);
+  const task = await db.get('SELECT * FROM scheduled_tasks WHERE id = ?', [taskId]);
+  if (!task || !task.enabled) {
+    return;
+  }
+  if (task.next_run !== dueAt) {
+    // 已被其他实例处理或任务已修改
+    scheduleTask(db, pveManager, task);
+    return;
+  }
+
+  const now = new Date();
+  const once = task.schedule_type === 'once';
+  const nextRun = once ? null : getNextRunTime(task.cron_expression, task.scheduled_time, task.timezone, now);
+  const claim = { dueAt, nextRun: nextRun?.toISOString() ?? null, disable: once };
+
+  // 超过宽限时间才触发视为错过（如服务重启期间），按任务的 misfire_policy 处理
+  const missed = !queued && now.getTime() - new Date(dueAt).getTime() > MISFIRE_GRACE;
+  let runs = [dueAt];
+  if (missed) {
+    const policy = task.misfire_policy || 'run_once';
+    if (policy === 'skip') {
+      if (await claimOccurrence(db, taskId, claim)) {
+        await recordSkippedRun(db, task, dueAt, '错过计划执行时间，按策略跳过');
+      }
+      return rescheduleFromDb(db, pveManager, taskId);
+    }
+    if (policy === 'run_all') {
+      runs = getMissedRuns(task, dueAt, now);
+    }
+  }
+
+  // 上一次执行尚未结束（本实例或其他实例），按 overlap_policy 跳过或等待
+  if (isTaskLeased(task)) {
+    if (task.overlap_policy === 'queue') {
+      taskTimers.set(taskId, setTimeout(() => {
+        fireTask(db, pveManager, taskId, dueAt, true)
+          .catch((error: any) => console.error(`Task ${task.name} scheduling failed:`, error.message));
+      }, QUEUE_RETRY_INTERVAL));
+      return;
+    }
+    if (await claimOccurrence(db, taskId, claim)) {
+      await recordSkippedRun(db, task, dueAt, '上一次执行尚未结束，按策略跳过');
+    }
+    return rescheduleFromDb(db, pveManager, taskId);
+  }
+
+  // 不在维护窗口内或处于冻结期，按 maintenance_policy 跳过或等到允许执行的时间
+  const maintenance = await checkTaskMaintenance(db, pveManager, task);
+  if (!maintenance.allowed) {
+    if (task.maintenance_policy === 'queue' && maintenance.nextAllowedAt) {
+      const delay = Math.min(Math.max(new Date(maintenance.nextAllowedAt).getTime() - Date.now(), 0), MAX_TIMER_DELAY);
+      taskTimers.set(taskId, setTimeout(() => {
+        fireTask(db, pveManager, taskId, dueAt, true)
+          .catch((error: any) => console.error(`Task ${task.name} scheduling failed:`, error.message));
+      }, delay));
+      console.log(`Task ${task.name} run at ${dueAt} waiting for maintenance window until ${maintenance.nextAllowedAt}`);
+      return;
+    }
+    if (await claimOccurrence(db, taskId, claim)) {
+      await recordSkippedRun(db, task, dueAt, `维护窗口限制，按策略跳过: ${describeConflicts(maintenance.conflicts)}`,
+        { results: [], conflicts: maintenance.conflicts, nextAllowedAt: maintenance.nextAllowedAt });
+    }
+    return rescheduleFromDb(db, pveManager, taskId);
+  }
+
+  const lease = await acquireTaskLease(db, taskId, claim);
+  if (!lease) {
+    return rescheduleFromDb(db, pveManager, taskId);
+  }
+
+  // 先调度下一次执行，执行时间较长时下一次到达即可按 overlap_policy 处理
+  await rescheduleFromDb(db, pveManager, taskId);
+  try {
+    for (const scheduledFor of runs) {
+      await executeTask(db, pveManager, task, { triggeredBy: missed ? 'catch_up' : 'schedule', scheduledFor });
+    }
+  } finally {
+    await lease.release();
+  }
+}
+
+// 调度单个任务，已过期的计划执行立即触发（按错过策略处理）
+function scheduleTask(db: any, pveManager: PVEManager, task: any) {
   // 取消现有定时器
   if (taskTimers.has(task.id)) {
     clearTimeout(taskTimers.get(task.id));
@@ -166,50 +390,40 @@ function scheduleTask(db: any, pveService: any, task: any) {
 
   if (!task.enabled) return;
 
-  const nextRun = task.next_run ? new Date(task.next_run) : getNextRunTime(task.cron_expression, task.scheduled_time);
-  const delay = nextRun.getTime() - Date.now();
-
-  if (delay < 0) {
-    // 已过期，计算下一次
-    const newNextRun = getNextRunTime(task.cron_expression, task.scheduled_time);
-    db.run('UPDATE scheduled_tasks SET next_run = ? WHERE id = ?', [newNextRun.toISOString(), task.id]);
-    scheduleTask(db, pveService, { ...task, next_run: newNextRun.toISOString() });
+  if (!task.next_run) {
+    const nextRun = getNextRunTime(task.cron_expression, task.scheduled_time, task.timezone);
+    if (!nextRun) {
+      console.warn(`Task ${task.name} has no upcoming run time, not scheduled`);
+      return;
+    }
+    db.run('UPDATE scheduled_tasks SET next_run = ? WHERE id = ? AND next_run IS NULL', [nextRun.toISOString(), task.id])
+      .then(() => rescheduleFromDb(db, pveManager, task.id))
+      .catch((error: any) => console.error(`Failed to schedule task ${task.name}:`, error.message));
     return;
   }
 
+  const delay = Math.max(new Date(task.next_run).getTime() - Date.now(), 0);
+
   // 设置定时器（最长24小时，超过的话每天重新检查）
   const maxDelay = 24 * 60 * 60 * 1000;
-  const actualDelay = Math.min(delay, maxDelay);
-
-  const timer = setTimeout(async () => {
-    if (delay > maxDelay) {
-      // 还没到时间，重新调度
-      scheduleTask(db, pveService, task);
-    } else {
-      // 执行任务
-      await executeTask(db, pveService, task);
-      
-      // 重新调度（如果是周期性任务）
-      if (task.schedule_type !== 'once') {
-        const updatedTask = await db.get('SELECT * FROM scheduled_tasks WHERE id = ?', [task.id]);
-        if (updatedTask && updatedTask.enabled) {
-          scheduleTask(db, pveService, updatedTask);
-        }
-      }
-    }
-  }, actualDelay);
+  const timer = setTimeout(() => {
+    const run = delay > maxDelay
+      ? rescheduleFromDb(db, pveManager, task.id)
+      : fireTask(db, pveManager, task.id, task.next_run);
+    run.catch((error: any) => console.error(`Task ${task.name} scheduling failed:`, error.message));
+  }, Math.min(delay, maxDelay));
 
   taskTimers.set(task.id, timer);
-  console.log(`Task ${task.name} scheduled for ${nextRun.toISOString()}`);
+  console.log(`Task ${task.name} scheduled for ${task.next_run}`);
 }
 
 // 初始化调度器
-export async function initScheduler(db: any, pveService: any) {
+export async function initScheduler(db: any, pveManager: PVEManager) {
   try {
     const tasks = await db.query('SELECT * FROM scheduled_tasks WHERE enabled = 1');
     
     for (const task of tasks) {
-      scheduleTask(db, pveService, task);
+      scheduleTask(db, pveManager, task);
     }
     
     console.log(`Scheduler initialized with ${tasks.length} active tasks`);
@@ -219,7 +433,7 @@ export async function initScheduler(db: any, pveService: any) {
 }
 
 // 路由处理函数
-export function createSchedulerRoutes(db: any, authenticateToken: any, requirePermission: any, logAction: any, pveService: any) {
+export function createSchedulerRoutes(db: any, authenticateToken: any, requirePermission: any, logAction: any, pveManager: PVEManager) {
   
   // 获取所有调度任务
   router.get('/tasks', authenticateToken, async (req: Request, res: Response) => {
@@ -253,6 +467,155 @@ export function createSchedulerRoutes(db: any, authenticateToken: any, requirePe
     }
   });
 
+  // 获取工作流列表（含引用该工作流的任务数）
+  router.get('/workflows', authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const rows = await db.query(
+        `SELECT w.*, (SELECT COUNT(*) FROM scheduled_tasks t WHERE t.workflow_id = w.id) as task_count
+         FROM workflows w ORDER BY w.name`
+      );
+      res.json({ success: true, workflows: rows.map(parseWorkflow) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // 获取单个工作流
+  router.get('/workflows/:id', authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const row = await db.get('SELECT * FROM workflows WHERE id = ?', [req.params.id]);
+      if (!row) {
+        return res.status(404).json({ success: false, error: '工作流不存在' });
+      }
+      res.json({ success: true, workflow: parseWorkflow(row) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // 创建工作流
+  router.post('/workflows', authenticateToken, requirePermission('manage_tasks'), async (req: Request, res: Response) => {
+    try {
+      const { name, description, steps } = req.body;
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ success: false, error: '工作流名称不能为空' });
+      }
+      const normalized = normalizeWorkflowSteps(steps);
+      if (normalized.error) {
+        return res.status(400).json({ success: false, error: normalized.error });
+      }
+      
+      const existing = await db.get('SELECT id FROM workflows WHERE name = ?', [name.trim()]);
+      if (existing) {
+        return res.status(400).json({ success: false, error: '工作流名称已存在' });
+      }
+      
+      const id = generateUUID();
+      const now = new Date().toISOString();
+      await db.run(
+        'INSERT INTO workflows (id, name, description, steps, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [id, name.trim(), description || null, JSON.stringify(normalized.steps), (req as any).user.id, now, now]
+      );
+      
+      const workflow = parseWorkflow(await db.get('SELECT * FROM workflows WHERE id = ?', [id]));
+      await logAction(req, 'create_workflow', workflow.name, { workflowId: id, steps: workflow.steps.length });
+      
+      res.json({ success: true, workflow });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // 更新工作流（引用它的任务在下次执行时使用新的步骤）
+  router.put('/workflows/:id', authenticateToken, requirePermission('manage_tasks'), async (req: Request, res: Response) => {
+    try {
+      const { name, description, steps } = req.body;
+      const existing = await db.get('SELECT * FROM workflows WHERE id = ?', [req.params.id]);
+      if (!existing) {
+        return res.status(404).json({ success: false, error: '工作流不存在' });
+      }
+      
+      let stepsJson: string | null = null;
+      if (steps !== undefined) {
+        const normalized = normalizeWorkflowSteps(steps);
+        if (normalized.error) {
+          return res.status(400).json({ success: false, error: normalized.error });
+        }
+        stepsJson = JSON.stringify(normalized.steps);
+      }
+      if (name !== undefined) {
+        if (typeof name !== 'string' || !name.trim()) {
+          return res.status(400).json({ success: false, error: '工作流名称不能为空' });
+        }
+        const duplicate = await db.get('SELECT id FROM workflows WHERE name = ? AND id != ?', [name.trim(), req.params.id]);
+        if (duplicate) {
+          return res.status(400).json({ success: false, error: '工作流名称已存在' });
+        }
+      }
+      
+      await db.run(
+        `UPDATE workflows SET name = COALESCE(?, name), description = COALESCE(?, description), steps = COALESCE(?, steps), updated_at = ?
+         WHERE id = ?`,
+        [name?.trim() ?? null, description ?? null, stepsJson, new Date().toISOString(), req.params.id]
+      );
+      
+      const workflow = parseWorkflow(await db.get('SELECT * FROM workflows WHERE id = ?', [req.params.id]));
+      await logAction(req, 'update_workflow', workflow.name, { workflowId: req.params.id });
+      
+      res.json({ success: true, workflow });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // 删除工作流（仍被任务引用时不允许删除）
+  router.delete('/workflows/:id', authenticateToken, requirePermission('manage_tasks'), async (req: Request, res: Response) => {
+    try {
+      const workflow = await db.get('SELECT * FROM workflows WHERE id = ?', [req.params.id]);
+      if (!workflow) {
+        return res.status(404).json({ success: false, error: '工作流不存在' });
+      }
+      
+      const usage = await db.get('SELECT COUNT(*) as count FROM scheduled_tasks WHERE workflow_id = ?', [req.params.id]);
+      if (usage.count > 0) {
+        return res.status(409).json({ success: false, error: `工作流正被 ${usage.count} 个任务使用，无法删除` });
+      }
+      
+      await db.run('DELETE FROM workflows WHERE id = ?', [req.params.id]);
+      await logAction(req, 'delete_workflow', workflow.name, { workflowId: req.params.id });
+      
+      res.json({ success: true, message: '工作流已删除' });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // 预览 cron 表达式接下来的执行时间
+  router.get('/preview', authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const cron = typeof req.query.cron === 'string' ? req.query.cron : '';
+      const timezone = typeof req.query.timezone === 'string' && req.query.timezone ? req.query.timezone : DEFAULT_TIMEZONE;
+      const count = Math.min(Math.max(parseInt(req.query.count as string) || 5, 1), MAX_PREVIEW_COUNT);
+      
+      const { error } = parseCron(cron);
+      if (error) {
+        return res.status(400).json({ success: false, error });
+      }
+      if (!isValidTimezone(timezone)) {
+        return res.status(400).json({ success: false, error: `无效的时区: ${timezone}` });
+      }
+      
+      const runs = getNextRunTimes(cron, timezone, count).map(time => ({
+        time: time.toISOString(),
+        local: formatInTimezone(time, timezone),
+      }));
+      
+      res.json({ success: true, cron, timezone, runs });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   // 获取单个任务
   router.get('/tasks/:id', authenticateToken, async (req: Request, res: Response) => {
     try {
@@ -282,27 +645,42 @@ export function createSchedulerRoutes(db: any, authenticateToken: any, requirePe
         cron_expression,
         scheduled_time,
         timezone,
+        misfire_policy,
+        overlap_policy,
+        max_runtime,
+        workflow_id,
+        maintenance_policy,
       } = req.body;
       
       if (!name || !task_type || !action || !target_type || !target_id || !schedule_type) {
         return res.status(400).json({ success: false, error: '缺少必要参数' });
       }
       
+      const actionError = validateTaskAction(action, target_type, target_details) || await validateTaskWorkflow(db, action, workflow_id);
+      if (actionError) {
+        return res.status(400).json({ success: false, error: actionError });
+      }
+      
+      const scheduleError = validateSchedule(cron_expression, scheduled_time, timezone) || validatePolicies(misfire_policy, overlap_policy, max_runtime, maintenance_policy);
+      if (scheduleError) {
+        return res.status(400).json({ success: false, error: scheduleError });
+      }
+      
       const id = generateUUID();
       const now = new Date().toISOString();
-      const nextRun = getNextRunTime(cron_expression || '0 0 * * *', scheduled_time);
+      const nextRun = getNextRunTime(cron_expression, scheduled_time, timezone)!;
       
       await db.run(
         `INSERT INTO scheduled_tasks 
-         (id, name, task_type, action, target_type, target_id, target_details, schedule_type, cron_expression, scheduled_time, timezone, next_run, user_id, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [id, name, task_type, action, target_type, target_id, JSON.stringify(target_details), schedule_type, cron_expression, scheduled_time, timezone || 'Asia/Shanghai', nextRun.toISOString(), (req as any).user.id, now, now]
+         (id, name, task_type, action, target_type, target_id, target_details, schedule_type, cron_expression, scheduled_time, timezone, misfire_policy, overlap_policy, max_runtime, workflow_id, maintenance_policy, next_run, user_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, name, task_type, action, target_type, target_id, JSON.stringify(target_details), schedule_type, cron_expression, scheduled_time, timezone || 'Asia/Shanghai', misfire_policy || 'run_once', overlap_policy || 'skip', max_runtime ?? null, action === WORKFLOW_ACTION ? workflow_id : null, maintenance_policy || 'skip', nextRun.toISOString(), (req as any).user.id, now, now]
       );
       
       const task = await db.get('SELECT * FROM scheduled_tasks WHERE id = ?', [id]);
       
       // 调度任务
-      scheduleTask(db, pveService, task);
+      scheduleTask(db, pveManager, task);
       
       await logAction(req, 'create_task', task.name, { taskId: id, type: task_type, action });
       
@@ -327,6 +705,11 @@ export function createSchedulerRoutes(db: any, authenticateToken: any, requirePe
         scheduled_time,
         timezone,
         enabled,
+        misfire_policy,
+        overlap_policy,
+        max_runtime,
+        workflow_id,
+        maintenance_policy,
       } = req.body;
       
       const existingTask = await db.get('SELECT * FROM scheduled_tasks WHERE id = ?', [req.params.id]);
@@ -334,7 +717,28 @@ export function createSchedulerRoutes(db: any, authenticateToken: any, requirePe
         return res.status(404).json({ success: false, error: '任务不存在' });
       }
       
-      const nextRun = getNextRunTime(cron_expression || existingTask.cron_expression, scheduled_time || existingTask.scheduled_time);
+      const nextAction = action || existingTask.action;
+      const nextWorkflowId = nextAction === WORKFLOW_ACTION ? workflow_id || existingTask.workflow_id : null;
+      if (action || target_type || target_details || workflow_id) {
+        const actionError = validateTaskAction(
+          nextAction,
+          target_type || existingTask.target_type,
+          target_details || JSON.parse(existingTask.target_details || '{}')
+        ) || await validateTaskWorkflow(db, nextAction, nextWorkflowId);
+        if (actionError) {
+          return res.status(400).json({ success: false, error: actionError });
+        }
+      }
+      
+      const nextCron = cron_expression || existingTask.cron_expression;
+      const nextScheduledTime = scheduled_time || existingTask.scheduled_time;
+      const nextTimezone = timezone || existingTask.timezone;
+      const scheduleError = validateSchedule(nextCron, nextScheduledTime, nextTimezone) || validatePolicies(misfire_policy, overlap_policy, max_runtime, maintenance_policy);
+      if (scheduleError) {
+        return res.status(400).json({ success: false, error: scheduleError });
+      }
+      
+      const nextRun = getNextRunTime(nextCron, nextScheduledTime, nextTimezone)!;
       
       await db.run(
         `UPDATE scheduled_tasks SET
@@ -349,16 +753,21 @@ export function createSchedulerRoutes(db: any, authenticateToken: any, requirePe
          scheduled_time = COALESCE(?, scheduled_time),
          timezone = COALESCE(?, timezone),
          enabled = COALESCE(?, enabled),
+         misfire_policy = COALESCE(?, misfire_policy),
+         overlap_policy = COALESCE(?, overlap_policy),
+         maintenance_policy = COALESCE(?, maintenance_policy),
+         max_runtime = ?,
+         workflow_id = ?,
          next_run = ?,
          updated_at = ?
          WHERE id = ?`,
-        [name, task_type, action, target_type, target_id, target_details ? JSON.stringify(target_details) : null, schedule_type, cron_expression, scheduled_time, timezone, enabled, nextRun.toISOString(), new Date().toISOString(), req.params.id]
+        [name, task_type, action, target_type, target_id, target_details ? JSON.stringify(target_details) : null, schedule_type, cron_expression, scheduled_time, timezone, enabled, misfire_policy, overlap_policy, maintenance_policy, max_runtime !== undefined ? max_runtime : existingTask.max_runtime, nextWorkflowId, nextRun.toISOString(), new Date().toISOString(), req.params.id]
       );
       
       const task = await db.get('SELECT * FROM scheduled_tasks WHERE id = ?', [req.params.id]);
       
       // 重新调度
-      scheduleTask(db, pveService, task);
+      scheduleTask(db, pveManager, task);
       
       await logAction(req, 'update_task', task.name, { taskId: req.params.id });
       
@@ -401,7 +810,7 @@ export function createSchedulerRoutes(db: any, authenticateToken: any, requirePe
       }
       
       const newEnabled = task.enabled ? 0 : 1;
-      const nextRun = newEnabled ? getNextRunTime(task.cron_expression, task.scheduled_time) : null;
+      const nextRun = newEnabled ? getNextRunTime(task.cron_expression, task.scheduled_time, task.timezone) : null;
       
       await db.run(
         'UPDATE scheduled_tasks SET enabled = ?, next_run = ?, updated_at = ? WHERE id = ?',
@@ -412,7 +821,7 @@ export function createSchedulerRoutes(db: any, authenticateToken: any, requirePe
       
       // 重新调度或取消
       if (newEnabled) {
-        scheduleTask(db, pveService, updatedTask);
+        scheduleTask(db, pveManager, updatedTask);
       } else if (taskTimers.has(req.params.id)) {
         clearTimeout(taskTimers.get(req.params.id));
         taskTimers.delete(req.params.id);
@@ -434,7 +843,28 @@ export function createSchedulerRoutes(db: any, authenticateToken: any, requirePe
         return res.status(404).json({ success: false, error: '任务不存在' });
       }
       
-      const result = await executeTask(db, pveService, task);
+      // 手动执行同样受维护窗口限制，管理员可填写原因后强制执行
+      const maintenance = await checkTaskMaintenance(db, pveManager, task);
+      if (!maintenance.allowed) {
+        const targets = maintenance.conflicts.map(({ connection_id, node, vmid }) => ({ connection_id, node, vmid }));
+        const gate = await checkMaintenanceGate(req, targets, task.action, task.name, false);
+        if (gate.status) {
+          return res.status(gate.status).json({ success: false, ...gate.body });
+        }
+      }
+      
+      // 与计划执行共用租约，避免同一任务同时执行
+      const lease = await acquireTaskLease(db, task.id);
+      if (!lease) {
+        return res.status(409).json({ success: false, error: '任务正在执行中' });
+      }
+      
+      let result;
+      try {
+        result = await executeTask(db, pveManager, task, { triggeredBy: 'manual' });
+      } finally {
+        await lease.release();
+      }
       
       await logAction(req, 'run_task', task.name, { taskId: req.params.id, result });
       
@@ -1,5 +1,7 @@
 import { Express, Request, Response } from 'express';
 import { PVEManager } from '../services/pve-manager';
+import { filterVMs, parseVMFilters } from '../services/vm-filters';
+import { parseVMTags } from '../services/inventory';
 
 export function setupAdvancedTrafficRoutes(app: Express, pveManager: PVEManager, getTrafficMonitor: () => any) {
   
@@ -56,7 +58,7 @@ export function setupAdvancedTrafficRoutes(app: Express, pveManager: PVEManager,
       const connections = pveManager.getAllConnections().filter(c => c.status === 'connected');
       const connectionPromises = connections.map(async (connection) => {
         try {
-          const vms = await pveManager.executeOnConnection(connection.id, (client) => client.getVMs());
+          const vms = filterVMs(await pveManager.getConnectionVMs(connection.id), parseVMFilters(req.query));
           return { connection, vms };
         } catch (error: any) {
           console.error(`获取连接 ${connection.id} 的VM列表失败:`, error.message);
@@ -84,6 +86,8 @@ export function setupAdvancedTrafficRoutes(app: Express, pveManager: PVEManager,
             name: vm.name,
             type: vm.type,
             status: vm.status,
+            tags: parseVMTags(vm.tags),
+            pool: vm.pool || null,
             current: currentTraffic,
             hourly: hourlyTraffic,
             // 计算实时流量速率 (基于5秒收集间隔估算)
@@ -217,7 +221,7 @@ export function setupAdvancedTrafficRoutes(app: Express, pveManager: PVEManager,
       for (const connection of connections) {
         if (connection.status === 'connected') {
           try {
-            const vms = await pveManager.executeOnConnection(connection.id, (client) => client.getVMs());
+            const vms = filterVMs(await pveManager.getConnectionVMs(connection.id), parseVMFilters(req.query));
             
             for (const vm of vms) {
               const vmKey = `${connection.id}-${vm.node}-${vm.vmid}`;
@@ -337,7 +341,7 @@ export function setupAdvancedTrafficRoutes(app: Express, pveManager: PVEManager,
         };
 
         try {
-          const vms = await pveManager.executeOnConnection(connection.id, (client) => client.getVMs());
+          const vms = filterVMs(await pveManager.getConnectionVMs(connection.id), parseVMFilters(req.query));
           connectionData.vmCount = vms.length;
           analyticsData.overview.totalVMs += vms.length;
 
@@ -488,7 +492,7 @@ export function setupAdvancedTrafficRoutes(app: Express, pveManager: PVEManager,
           const connections = pveManager.getAllConnections();
           const connection = connections.find(c => c.id === connectionId);
           if (connection && connection.status === 'connected') {
-            const vms = await pveManager.executeOnConnection(connectionId, (client) => client.getVMs());
+            const vms = await pveManager.getConnectionVMs(connectionId);
             const vmInfo = vms.find((v: any) => v.node === node && v.vmid === parseInt(vmid));
             
             if (vmInfo) {
@@ -1,5 +1,6 @@
 import { Express, Request, Response } from 'express';
 import { PVEManager } from '../services/pve-manager';
+import { filterVMRecords, parseVMFilters } from '../services/vm-filters';
 
 export function setupTrafficRoutes(app: Express, pveManager: PVEManager, getTrafficMonitor: () => any) {
   // 获取小时流量统计
@@ -11,7 +12,7 @@ export function setupTrafficRoutes(app: Express, pveManager: PVEManager, getTraf
       }
       const { hour } = req.query;
       const hourlyTraffic = await trafficMonitor.getAllHourlyTraffic(hour);
-      res.json(hourlyTraffic);
+      res.json(await filterVMRecords(pveManager, parseVMFilters(req.query), hourlyTraffic));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -26,7 +27,7 @@ export function setupTrafficRoutes(app: Express, pveManager: PVEManager, getTraf
       }
       const { day } = req.query;
       const dailyTraffic = await trafficMonitor.getAllDailyTraffic(day);
-      res.json(dailyTraffic);
+      res.json(await filterVMRecords(pveManager, parseVMFilters(req.query), dailyTraffic));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -109,7 +110,7 @@ export function setupTrafficRoutes(app: Express, pveManager: PVEManager, getTraf
       for (const connection of connections) {
         if (connection.status === 'connected') {
           try {
-            const vms = await pveManager.executeOnConnection(connection.id, (client) => client.getVMs());
+            const vms = await pveManager.getConnectionVMs(connection.id);
             vms.forEach((vm: any) => {
               activeVMs.push({
                 vmKey: `${connection.id}-${vm.node}-${vm.vmid}`,
@@ -155,7 +156,7 @@ export function setupTrafficRoutes(app: Express, pveManager: PVEManager, getTraf
       
       const { connectionId, startDate, endDate } = req.query;
       const vmHourlyRecords = await trafficMonitor.getVMHourlyRecords(connectionId, startDate, endDate);
-      res.json(vmHourlyRecords);
+      res.json(await filterVMRecords(pveManager, parseVMFilters(req.query), vmHourlyRecords));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -171,7 +172,7 @@ export function setupTrafficRoutes(app: Express, pveManager: PVEManager, getTraf
       
       const { connectionId, startDate, endDate } = req.query;
       const vmDailyRecords = await trafficMonitor.getVMDailyRecords(connectionId, startDate, endDate);
-      res.json(vmDailyRecords);
+      res.json(await filterVMRecords(pveManager, parseVMFilters(req.query), vmDailyRecords));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -191,7 +192,7 @@ export function setupTrafficRoutes(app: Express, pveManager: PVEManager, getTraf
       for (const connection of connections) {
         try {
           // 尝试获取虚拟机，如果成功说明连接可用
-          const vms = await pveManager.executeOnConnection(connection.id, (client) => client.getVMs());
+          const vms = await pveManager.getConnectionVMs(connection.id);
           for (const vm of vms) {
             try {
               const trafficData = await trafficMonitor.collectVMTraffic(connection, vm);
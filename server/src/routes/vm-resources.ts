@@ -1,122 +1,100 @@
 import { Express, Request, Response } from 'express';
 import { PVEManager } from '../services/pve-manager';
-
-// 并发控制函数
-async function promiseAllWithLimit<T>(promises: Promise<T>[], limit: number): Promise<T[]> {
-  const results: T[] = [];
-  for (let i = 0; i < promises.length; i += limit) {
-    const batch = promises.slice(i, i + limit);
-    const batchResults = await Promise.all(batch);
-    results.push(...batchResults);
-  }
-  return results;
-}
+import { filterVMs, parseVMFilters } from '../services/vm-filters';
+import { parseVMTags } from '../services/inventory';
 
 export function setupVMResourceRoutes(app: Express, pveManager: PVEManager) {
   
   // 获取所有VM的资源使用情况概览
   app.get('/api/pve/vm-resources/overview', async (req: Request, res: Response) => {
     try {
-      const vmResources: any[] = [];
-      const connections = pveManager.getAllConnections().filter(c => c.status === 'connected');
+      const { data: allVMs, errors } = await pveManager.getAllVMs();
+      const vms = filterVMs(allVMs, parseVMFilters(req.query));
       
-      // 并行处理所有连接
-      const connectionPromises = connections.map(async (connection) => {
+      // 获取每个VM的详细状态和资源信息（PVE请求由PVEManager统一限制并发）
+      const vmResources: any[] = await Promise.all(vms.map(async (vm: any) => {
         try {
-          const vms = await pveManager.executeOnConnection(connection.id, (client) => client.getVMs());
-          
-          // 批量获取每个VM的详细状态和资源信息（并行处理，限制并发数）
-          const vmPromises = vms.map(async (vm: any) => {
-            try {
-              // 对于停止的VM，跳过状态查询以提高性能
-              let status: any = {};
-              if (vm.status === 'running') {
-                status = await pveManager.executeOnConnection(connection.id, (client) => 
-                  client.getVMStatus(vm.node, vm.vmid, vm.type)
-                );
-              }
-              
-              return {
-                id: `${connection.id}-${vm.node}-${vm.vmid}`,
-                connectionId: connection.id,
-                connectionName: connection.name,
-                node: vm.node,
-                vmid: vm.vmid,
-                name: vm.name,
-                type: vm.type,
-                status: vm.status,
-                // 基础资源信息
-                cpu: status.cpu || 0,
-                maxcpu: status.maxcpu || vm.maxcpu || 1,
-                cpuPercent: status.cpu ? (status.cpu * 100) : 0,
-                mem: status.mem || 0,
-                maxmem: status.maxmem || vm.maxmem || 0,
-                memPercent: status.mem && status.maxmem ? (status.mem / status.maxmem * 100) : 0,
-                disk: status.disk || vm.disk || 0,
-                maxdisk: status.maxdisk || vm.maxdisk || 0,
-                diskPercent: status.disk && status.maxdisk ? (status.disk / status.maxdisk * 100) : 0,
-                uptime: status.uptime || 0,
-                // 网络信息
-                netin: status.netin || 0,
-                netout: status.netout || 0,
-                // 磁盘IO
-                diskread: status.diskread || 0,
-                diskwrite: status.diskwrite || 0,
-                // 格式化显示
-                memFormatted: formatBytes(status.mem || 0),
-                maxmemFormatted: formatBytes(status.maxmem || vm.maxmem || 0),
-                diskFormatted: formatBytes(status.disk || vm.disk || 0),
-                maxdiskFormatted: formatBytes(status.maxdisk || vm.maxdisk || 0),
-                uptimeFormatted: formatUptime(status.uptime || 0),
-                lastUpdate: new Date().toISOString()
-              };
-            } catch (error: any) {
-              console.error(`获取VM ${vm.vmid} 状态失败:`, error.message);
-              return {
-                id: `${connection.id}-${vm.node}-${vm.vmid}`,
-                connectionId: connection.id,
-                connectionName: connection.name,
-                node: vm.node,
-                vmid: vm.vmid,
-                name: vm.name,
-                type: vm.type,
-                status: vm.status,
-                cpu: 0,
-                maxcpu: vm.maxcpu || 1,
-                cpuPercent: 0,
-                mem: 0,
-                maxmem: vm.maxmem || 0,
-                memPercent: 0,
-                disk: vm.disk || 0,
-                maxdisk: vm.maxdisk || 0,
-                diskPercent: 0,
-                uptime: 0,
-                netin: 0,
-                netout: 0,
-                diskread: 0,
-                diskwrite: 0,
-                memFormatted: '0 B',
-                maxmemFormatted: formatBytes(vm.maxmem || 0),
-                diskFormatted: formatBytes(vm.disk || 0),
-                maxdiskFormatted: formatBytes(vm.maxdisk || 0),
-                uptimeFormatted: '0s',
-                lastUpdate: new Date().toISOString(),
-                error: error.message
-              };
-            }
-          });
+          // 对于停止的VM，跳过状态查询以提高性能
+          let status: any = {};
+          if (vm.status === 'running') {
+            status = await pveManager.executeOnConnection(vm.connectionId, (client) => 
+              client.getVMStatus(vm.node, vm.vmid, vm.type)
+            );
+          }
           
-          // 限制并发数量为5，避免过多同时请求导致性能问题
-          const vmResults = await promiseAllWithLimit(vmPromises, 5);
-          return vmResults;
+          return {
+            id: `${vm.connectionId}-${vm.node}-${vm.vmid}`,
+            connectionId: vm.connectionId,
+            connectionName: vm.connectionName,
+            node: vm.node,
+            vmid: vm.vmid,
+            name: vm.name,
+            type: vm.type,
+            status: vm.status,
+            tags: parseVMTags(vm.tags),
+            pool: vm.pool || null,
+            // 基础资源信息
+            cpu: status.cpu || 0,
+            maxcpu: status.maxcpu || vm.maxcpu || 1,
+            cpuPercent: status.cpu ? (status.cpu * 100) : 0,
+            mem: status.mem || 0,
+            maxmem: status.maxmem || vm.maxmem || 0,
+            memPercent: status.mem && status.maxmem ? (status.mem / status.maxmem * 100) : 0,
+            disk: status.disk || vm.disk || 0,
+            maxdisk: status.maxdisk || vm.maxdisk || 0,
+            diskPercent: status.disk && status.maxdisk ? (status.disk / status.maxdisk * 100) : 0,
+            uptime: status.uptime || 0,
+            // 网络信息
+            netin: status.netin || 0,
+            netout: status.netout || 0,
+            // 磁盘IO
+            diskread: status.diskread || 0,
+            diskwrite: status.diskwrite || 0,
+            // 格式化显示
+            memFormatted: formatBytes(status.mem || 0),
+            maxmemFormatted: formatBytes(status.maxmem || vm.maxmem || 0),
+            diskFormatted: formatBytes(status.disk || vm.disk || 0),
+            maxdiskFormatted: formatBytes(status.maxdisk || vm.maxdisk || 0),
+            uptimeFormatted: formatUptime(status.uptime || 0),
+            lastUpdate: new Date().toISOString()
+          };
         } catch (error: any) {
-          console.error(`获取连接 ${connection.id} 的VM列表失败:`, error.message);
-          return [];
+          console.error(`获取VM ${vm.vmid} 状态失败:`, error.message);
+          return {
+            id: `${vm.connectionId}-${vm.node}-${vm.vmid}`,
+            connectionId: vm.connectionId,
+            connectionName: vm.connectionName,
+            node: vm.node,
+            vmid: vm.vmid,
+            name: vm.name,
+            type: vm.type,
+            status: vm.status,
+            tags: parseVMTags(vm.tags),
+            pool: vm.pool || null,
+            cpu: 0,
+            maxcpu: vm.maxcpu || 1,
+            cpuPercent: 0,
+            mem: 0,
+            maxmem: vm.maxmem || 0,
+            memPercent: 0,
+            disk: vm.disk || 0,
+            maxdisk: vm.maxdisk || 0,
+            diskPercent: 0,
+            uptime: 0,
+            netin: 0,
+            netout: 0,
+            diskread: 0,
+            diskwrite: 0,
+            memFormatted: '0 B',
+            maxmemFormatted: formatBytes(vm.maxmem || 0),
+            diskFormatted: formatBytes(vm.disk || 0),
+            maxdiskFormatted: formatBytes(vm.maxdisk || 0),
+            uptimeFormatted: '0s',
+            lastUpdate: new Date().toISOString(),
+            error: error.message
+          };
         }
-      });
-      
-      const allVMResults = await Promise.all(connectionPromises);
-      vmResources.push(...allVMResults.flat());
+      }));
       
       // 计算汇总统计
       const totalVMs = vmResources.length;
@@ -175,6 +153,8 @@ export function setupVMResourceRoutes(app: Express, pveManager: PVEManager) {
       
       res.json({
         overview,
+        // 查询失败的连接或节点，此时 overview 只包含成功部分
+        errors,
         vmList: vmResources.sort((a, b) => {
           // 运行中的VM排在前面，然后按资源使用率排序
           if (a.status === 'running' && b.status !== 'running') return -1;
@@ -202,7 +182,7 @@ export function setupVMResourceRoutes(app: Express, pveManager: PVEManager) {
       
       // 获取VM基本信息和状态
       const [vmInfo, vmStatus] = await Promise.all([
-        pveManager.executeOnConnection(connectionId, (client) => client.getVMs(node)),
+        pveManager.getConnectionVMs(connectionId, node),
         pveManager.executeOnConnection(connectionId, (client) => client.getVMStatus(node, parseInt(vmid), vmType))
       ]);
       
@@ -0,0 +1,76 @@
+// 凭据主密钥轮换工具
+// 用法: npm run rotate-key
+//   - 新密钥从 NEW_CREDENTIAL_MASTER_KEY 读取，未设置时自动生成
+//   - 主密钥来自密钥文件时，轮换完成后自动替换密钥文件
+//   - 主密钥来自 CREDENTIAL_MASTER_KEY 时，需手动将新密钥更新到环境变量
+//   - 必须先停止服务：运行中的服务缓存了旧主密钥，之后保存的凭据会用旧密钥加密
+import fs from 'fs';
+import {
+  getMasterKey,
+  getKeyFilePath,
+  getKeyId,
+  getRunningServerPid,
+  generateMasterKey,
+  parseMasterKey,
+  writeKeyFile,
+  rotateMasterKey
+} from '../services/credential-vault';
+
+const database = require('../db/database');
+
+const waitForDatabase = (): Promise<void> => new Promise((resolve) => {
+  if (database.isReady) {
+    resolve();
+  } else {
+    database.once('ready', resolve);
+  }
+});
+
+async function main() {
+  const serverPid = getRunningServerPid();
+  if (serverPid) {
+    throw new Error(`服务正在运行 (PID ${serverPid})，请先停止服务再轮换主密钥`);
+  }
+
+  const fromEnv = !!process.env.CREDENTIAL_MASTER_KEY;
+  const keyFile = getKeyFilePath();
+
+  if (!fromEnv && !fs.existsSync(keyFile)) {
+    throw new Error(`未找到当前主密钥: 请设置 CREDENTIAL_MASTER_KEY 或确认密钥文件 ${keyFile} 存在`);
+  }
+
+  await waitForDatabase();
+
+  const oldKey = getMasterKey();
+  const newKey = process.env.NEW_CREDENTIAL_MASTER_KEY
+    ? parseMasterKey(process.env.NEW_CREDENTIAL_MASTER_KEY)
+    : generateMasterKey();
+
+  if (getKeyId(oldKey) === getKeyId(newKey)) {
+    throw new Error('新主密钥与当前主密钥相同');
+  }
+
+  // 先写入临时密钥文件，数据库更新成功后再替换，避免中途失败导致密钥丢失
+  const pendingKeyFile = `${keyFile}.new`;
+  if (!fromEnv) {
+    writeKeyFile(newKey, pendingKeyFile);
+  }
+
+  const updated = await rotateMasterKey(database, oldKey, newKey);
+  console.log(`主密钥轮换完成: ${getKeyId(oldKey)} -> ${getKeyId(newKey)}，更新了 ${updated} 个连接`);
+
+  if (fromEnv) {
+    console.log('请将 CREDENTIAL_MASTER_KEY 更新为以下新密钥后重启服务:');
+    console.log(newKey.toString('base64'));
+  } else {
+    fs.renameSync(pendingKeyFile, keyFile);
+    console.log(`密钥文件已更新: ${keyFile}`);
+  }
+
+  await database.close();
+}
+
+main().catch((error) => {
+  console.error('主密钥轮换失败:', error.message);
+  process.exit(1);
+});
@@ -17,10 +17,20 @@ import { setupAuthRoutes } from './routes/auth';
 import { setupLogRoutes } from './routes/logs';
 import { setupGroupRoutes } from './routes/groups';
 import { setupBatchRoutes } from './routes/batch';
+import { setupMaintenanceRoutes } from './routes/maintenance';
 import { setupBackupRoutes } from './routes/backup';
 import { setupVNCRoutes } from './routes/vnc';
 import { setupShellRoutes } from './routes/shell';
 import { createSchedulerRoutes, initScheduler } from './routes/scheduler';
+import { decryptSecret, migratePlaintextCredentials, removeServerPidFile, writeServerPidFile } from './services/credential-vault';
+import { syncInventory } from './services/inventory-store';
+import { setupInventoryRoutes } from './routes/inventory';
+import { setupCloudInitRoutes } from './routes/cloud-init';
+import { setupJobRoutes } from './routes/jobs';
+import { JobEngine } from './services/job-engine';
+import { registerBatchJobHandlers } from './services/batch-jobs';
+import { watchDynamicGroups } from './services/group-rules';
+import { checkMaintenance, describeConflicts } from './services/maintenance';
 
 // 导入流量监控模块
 const TrafficMonitorDB = require('./traffic-monitor-db');
@@ -75,18 +85,39 @@ const pveManager = new PVEManager();
 // 从数据库加载PVE连接
 const loadConnectionsFromDatabase = async () => {
   try {
+    // 加密旧版本遗留的明文凭据
+    await migratePlaintextCredentials(database);
+
     const dbConnections = await database.query('SELECT * FROM pve_connections');
     console.log(`从数据库加载了 ${dbConnections.length} 个连接`);
     
     for (const dbConn of dbConnections) {
+      let password: string | undefined;
+      let tokenSecret: string | undefined;
+      try {
+        password = decryptSecret(dbConn.password);
+        tokenSecret = decryptSecret(dbConn.token_secret);
+      } catch (error: any) {
+        console.error(`解密连接 ${dbConn.name} (${dbConn.id}) 的凭据失败:`, error.message);
+        continue;
+      }
+
       const config = {
         host: dbConn.host,
         port: dbConn.port,
+        endpoints: dbConn.endpoints ? JSON.parse(dbConn.endpoints) : undefined,
         username: dbConn.username,
-        password: dbConn.password,
+        password,
         realm: dbConn.realm,
+        tokenId: dbConn.token_id || undefined,
+        tokenSecret,
         ssl: dbConn.ssl === 1,
-        timeout: 30000
+        tlsMode: dbConn.tls_mode || undefined,
+        fingerprint: dbConn.tls_fingerprint || undefined,
+        endpointFingerprints: dbConn.tls_endpoint_fingerprints ? JSON.parse(dbConn.tls_endpoint_fingerprints) : undefined,
+        caCert: dbConn.tls_ca_cert || undefined,
+        timeout: dbConn.timeout || 30000,
+        maxConcurrency: dbConn.max_concurrency || undefined
       };
       
       await pveManager.addConnection(dbConn.id, dbConn.name, config);
@@ -96,6 +127,80 @@ const loadConnectionsFromDatabase = async () => {
   }
 };
 
+// TOFU模式首次连接时保存证书指纹（故障转移节点的指纹单独保存）
+pveManager.on('certificate-recorded', async ({ id, fingerprint, endpoint }) => {
+  try {
+    if (endpoint) {
+      const row = await database.get('SELECT tls_endpoint_fingerprints FROM pve_connections WHERE id = ?', [id]);
+      const fingerprints = row?.tls_endpoint_fingerprints ? JSON.parse(row.tls_endpoint_fingerprints) : {};
+      fingerprints[endpoint] = fingerprint;
+      await database.run(
+        'UPDATE pve_connections SET tls_endpoint_fingerprints = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [JSON.stringify(fingerprints), id]
+      );
+    } else {
+      await database.run(
+        'UPDATE pve_connections SET tls_fingerprint = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [fingerprint, id]
+      );
+    }
+    console.log(`已记录连接 ${id}${endpoint ? ` (${endpoint})` : ''} 的证书指纹: ${fingerprint}`);
+  } catch (error: any) {
+    console.error(`保存连接 ${id} 的证书指纹失败:`, error.message);
+  }
+});
+
+// 保存从集群状态发现的故障转移地址
+pveManager.on('endpoints-updated', async ({ id, endpoints }) => {
+  try {
+    await database.run(
+      'UPDATE pve_connections SET endpoints = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [JSON.stringify(endpoints), id]
+    );
+    console.log(`连接 ${id} 的集群节点地址已更新: ${endpoints.join(', ') || '无'}`);
+  } catch (error: any) {
+    console.error(`保存连接 ${id} 的集群节点地址失败:`, error.message);
+  }
+});
+
+// 将资源清单持久化到数据库，记录VM的新增、迁移、改名和删除
+pveManager.on('inventory-updated', async ({ connectionId, connectionName, vms, timestamp }) => {
+  try {
+    await syncInventory(database, connectionId, vms, timestamp);
+  } catch (error: any) {
+    console.error(`保存连接 ${connectionName} 的资源清单失败:`, error.message);
+  }
+});
+
+// 后台批量任务引擎（批量电源操作、批量备份、分组操作）
+const jobEngine = new JobEngine(database, pveManager, {
+  maxConcurrent: parseInt(process.env.JOB_MAX_CONCURRENT || '16', 10),
+  maxPerConnection: parseInt(process.env.JOB_MAX_PER_CONNECTION || '8', 10),
+  maxPerNode: parseInt(process.env.JOB_MAX_PER_NODE || '4', 10)
+});
+registerBatchJobHandlers(jobEngine, pveManager);
+
+// 因维护窗口排队的任务到期后再次检查（期间可能新增了冻结期）
+jobEngine.setHoldCheck(async (job, items) => {
+  const check = await checkMaintenance(database, items);
+  if (check.allowed) {
+    return {};
+  }
+  return check.nextAllowedAt
+    ? { holdUntil: new Date(check.nextAllowedAt) }
+    : { error: `维护窗口限制: ${describeConflicts(check.conflicts)}` };
+});
+
+// 新增/改名的VM加入动态分组时推送通知
+watchDynamicGroups(database, pveManager);
+
+// 恢复服务重启前未完成的任务（需在PVE连接加载完成后调用）
+const recoverJobs = () => {
+  jobEngine.recover()
+    .then(count => count > 0 && console.log(`已恢复 ${count} 个未完成的后台任务`))
+    .catch(error => console.error('恢复后台任务失败:', error.message));
+};
+
 // 流量监控实例 - 延迟初始化
 let trafficMonitor: any = null;
 
@@ -115,22 +220,29 @@ app.get('/api/health', (req, res) => {
   res.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
-    connections: pveManager.getConnectionStats()
+    connections: pveManager.getConnectionStats(),
+    connectionHealth: pveManager.getConnectionHealth(),
+    requests: pveManager.getRequestStats()
   });
 });
 
 // 设置路由
 setupAuthRoutes(app); // 认证路由
 setupPVERoutes(app, pveManager);
+setupCloudInitRoutes(app, pveManager); // cloud-init模板部署路由
 setupLogRoutes(app); // 日志路由
-setupGroupRoutes(app, pveManager); // 分组路由
-setupBatchRoutes(app, pveManager); // 批量操作路由
-setupBackupRoutes(app, pveManager); // 备份路由
+setupInventoryRoutes(app); // 资源清单历史路由
+setupGroupRoutes(app, pveManager, jobEngine); // 分组路由
+setupBatchRoutes(app, pveManager, jobEngine); // 批量操作路由
+setupMaintenanceRoutes(app); // 维护窗口路由
+setupBackupRoutes(app, pveManager, jobEngine); // 备份路由
+setupJobRoutes(app, jobEngine); // 后台任务路由
 setupVNCRoutes(app, pveManager, io); // VNC远程控制路由
 setupShellRoutes(app, pveManager); // Shell命令执行路由
 
 // 调度任务路由将在数据库就绪后初始化
 let schedulerInitialized = false;
+let jobsRecovered = false;
 
 // 立即设置流量监控路由（使用延迟初始化的trafficMonitor）
 setupTrafficRoutes(app, pveManager, () => trafficMonitor);
@@ -181,7 +293,7 @@ const startTrafficCollection = () => {
       for (const connection of connections) {
         try {
           // 尝试获取虚拟机，如果成功说明连接可用
-          const vms = await pveManager.executeOnConnection(connection.id, (client) => client.getVMs());
+          const vms = await pveManager.getConnectionVMs(connection.id);
           for (const vm of vms) {
             try {
               const trafficData = await trafficMonitor.collectVMTraffic(connection, vm);
@@ -236,6 +348,13 @@ const initializeAlertSystem = () => {
   try {
     alertGenerator = new AlertGenerator(database, pveManager);
     console.log('告警系统已启动');
+
+    // 证书指纹变化立即产生严重告警
+    pveManager.on('certificate-mismatch', (data) => {
+      alertGenerator.createCertificateMismatchAlert(data).catch((error: any) => {
+        console.error('创建证书告警失败:', error.message);
+      });
+    });
     
     // 启动告警监控定时任务
     startAlertMonitoring();
@@ -294,6 +413,9 @@ app.use('*', (req, res) => {
 // 启动服务器
 server.listen(PORT, HOST, () => {
   console.log(`PVE Manager服务器启动成功`);
+  // 记录服务PID，主密钥轮换工具据此判断服务是否在运行
+  writeServerPidFile();
+  process.on('exit', () => removeServerPidFile());
   console.log(`监听地址: ${HOST}:${PORT}`);
   console.log(`环境: ${process.env.NODE_ENV || 'development'}`);
   if (process.env.API_HOST) {
@@ -311,6 +433,12 @@ server.listen(PORT, HOST, () => {
       
       // 从数据库加载PVE连接
       await loadConnectionsFromDatabase();
+
+      // 连接就绪后再恢复后台任务，否则恢复的任务会因连接不可用而失败
+      if (!jobsRecovered) {
+        recoverJobs();
+        jobsRecovered = true;
+      }
       
       // 设置WebSocket处理器（包含流量监控）
       if (!websocketHandlersSetup) {
@@ -361,7 +489,7 @@ server.listen(PORT, HOST, () => {
   } else {
     database.once('ready', () => {
       console.log('数据库就绪，开始初始化流量监控系统');
-      setTimeout(() => initTrafficSystem().catch(console.error), 500);
+      initTrafficSystem().catch(console.error);
     });
   }
 });
@@ -0,0 +1,108 @@
+import { isTaskSuccessful } from './pve-api';
+import { PVEManager } from './pve-manager';
+import { JobEngine, JobHandler, JobItem, JobItemOutcome } from './job-engine';
+import { PowerAction, sendPowerAction } from './vm-actions';
+import { ReadinessCheck, waitForReadiness } from './readiness';
+
+// 电源操作等待超时（关机可能需要等待客户机响应）
+export const POWER_TASK_TIMEOUT = 10 * 60 * 1000;
+// 备份可能持续数小时
+export const BACKUP_TASK_TIMEOUT = 12 * 60 * 60 * 1000;
+
+async function waitForOutcome(pveManager: PVEManager, item: JobItem, taskId: string, timeout: number): Promise<JobItemOutcome> {
+  const status = await pveManager.waitForTask(item.connection_id, item.node, taskId, { timeout });
+  return isTaskSuccessful(status)
+    ? { status: 'success', exitstatus: status.exitstatus }
+    : { status: 'failed', exitstatus: status.exitstatus, error: status.exitstatus };
+}
+
+// 分组成员不记录类型，执行时从资源清单中查找
+async function resolveType(pveManager: PVEManager, item: JobItem): Promise<'qemu' | 'lxc'> {
+  if (item.type) {
+    return item.type;
+  }
+  const vms = await pveManager.getConnectionVMs(item.connection_id, item.node);
+  const vm = vms.find((v: any) => v.vmid === item.vmid);
+  if (!vm) {
+    throw new Error('虚拟机不存在');
+  }
+  return vm.type;
+}
+
+// 电源操作：检查状态后发送命令并等待PVE任务结束（params: { action }）
+function createPowerHandler(pveManager: PVEManager): JobHandler {
+  return async (item, params, context) => {
+    const type = await resolveType(pveManager, item);
+    if (item.task_id) {
+      return { ...await waitForOutcome(pveManager, item, item.task_id, POWER_TASK_TIMEOUT), type };
+    }
+
+    const sent = await sendPowerAction(pveManager, { connection_id: item.connection_id, node: item.node, vmid: item.vmid, type }, params.action as PowerAction);
+    if (!sent.success) {
+      return { status: 'failed', type, vmname: sent.vmname, error: sent.error };
+    }
+    if (sent.skipped) {
+      return { status: 'skipped', type, vmname: sent.vmname, error: `当前状态为 ${sent.previousStatus}` };
+    }
+
+    await context.setTask(sent.taskId!);
+    return { ...await waitForOutcome(pveManager, item, sent.taskId!, POWER_TASK_TIMEOUT), type, vmname: sent.vmname };
+  };
+}
+
+// 分组顺序操作：启动/重启后等待成员的就绪检查通过并延迟 startDelay 秒，再进入下一阶段
+// （item.options: { readiness, startDelay }，阶段顺序在创建任务时由 boot_order 确定）
+function createGroupPowerHandler(pveManager: PVEManager, power: JobHandler): JobHandler {
+  return async (item, params, context) => {
+    const outcome = await power(item, params, context);
+    const options = item.options || {};
+    const startsVM = params.action === 'start' || params.action === 'reboot';
+    if (!startsVM || outcome.status === 'failed' || !outcome.type) {
+      return outcome;
+    }
+
+    // 已在运行而跳过启动的成员同样需要就绪后才能启动依赖它的成员
+    const readiness: ReadinessCheck | null = options.readiness || null;
+    if (readiness) {
+      try {
+        await waitForReadiness(pveManager, { connection_id: item.connection_id, node: item.node, vmid: item.vmid, type: outcome.type }, readiness, context.isCancelled);
+      } catch (error: any) {
+        return { ...outcome, status: 'failed', error: error.message };
+      }
+    }
+
+    if (outcome.status === 'success' && options.startDelay > 0 && !context.isCancelled()) {
+      await new Promise(resolve => setTimeout(resolve, options.startDelay * 1000));
+    }
+    return outcome;
+  };
+}
+
+// 备份：发送 vzdump 并等待完成（params: { storage, mode, compress }）
+function createBackupHandler(pveManager: PVEManager): JobHandler {
+  return async (item, params, context) => {
+    if (!item.task_id) {
+      const connection = pveManager.getConnection(item.connection_id);
+      if (!connection || connection.status !== 'connected') {
+        return { status: 'failed', error: '连接不可用' };
+      }
+      const taskId = await pveManager.executeOnConnection(item.connection_id, (client) =>
+        client.createBackup(item.node, item.vmid, {
+          storage: params.storage,
+          mode: params.mode,
+          compress: params.compress,
+          notes: `Batch backup by PVE Manager at ${new Date().toISOString()}`
+        })
+      );
+      await context.setTask(taskId);
+    }
+    return waitForOutcome(pveManager, item, item.task_id!, BACKUP_TASK_TIMEOUT);
+  };
+}
+
+export function registerBatchJobHandlers(engine: JobEngine, pveManager: PVEManager): void {
+  const power = createPowerHandler(pveManager);
+  engine.register('vm_action', power);
+  engine.register('group_action', createGroupPowerHandler(pveManager, power));
+  engine.register('backup', createBackupHandler(pveManager));
+}
@@ -0,0 +1,87 @@
+// 熔断器：连续失败达到阈值后进入 open 状态，冷却期内直接拒绝请求，
+// 冷却结束后进入 half-open 允许试探请求，成功则恢复 closed，失败则重新 open
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // 连续失败次数阈值
+  cooldownMs: number; // open 状态持续时间
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  failures: number;
+  openedAt?: Date;
+  retryAt?: Date;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 60000
+};
+
+export class CircuitOpenError extends Error {
+  readonly code = 'PVE_CIRCUIT_OPEN';
+
+  constructor(name: string, public retryAt: Date) {
+    super(`连接 ${name} 已熔断，${retryAt.toLocaleTimeString()} 后重试`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt?: Date;
+
+  constructor(
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    private onStateChange?: (from: CircuitState, to: CircuitState) => void
+  ) {}
+
+  // 当前是否允许请求；冷却期结束时转为 half-open
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt!.getTime() >= this.options.cooldownMs) {
+      this.transition('half-open');
+    }
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.options.failureThreshold)) {
+      this.openedAt = new Date();
+      this.transition('open');
+    }
+  }
+
+  reset(): void {
+    this.recordSuccess();
+  }
+
+  getRetryAt(): Date | undefined {
+    return this.openedAt ? new Date(this.openedAt.getTime() + this.options.cooldownMs) : undefined;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt,
+      retryAt: this.state === 'open' ? this.getRetryAt() : undefined
+    };
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    this.onStateChange?.(from, to);
+  }
+}
@@ -0,0 +1,340 @@
+import { randomUUID } from 'crypto';
+import { PVEApiClient, isTaskSuccessful } from './pve-api';
+import { PVEManager } from './pve-manager';
+import { getConfigStorages } from './migration';
+
+// 单台VM的cloud-init参数
+export interface CloudInitVMSpec {
+  name: string;
+  vmid?: number; // 不指定时分配下一个可用的VMID
+  ciuser?: string;
+  cipassword?: string;
+  sshkeys?: string; // 多个公钥以换行分隔
+  ipconfig0?: string; // 如 ip=dhcp 或 ip=10.0.0.5/24,gw=10.0.0.1
+  nameserver?: string; // 空格分隔
+  searchdomain?: string;
+  cicustom?: string; // 自定义片段，如 user=local:snippets/user.yaml
+  cores?: number;
+  memory?: number; // MiB
+}
+
+export interface CloudInitDeploymentSpec {
+  templateVmid: number;
+  node: string; // 目标节点
+  storage?: string; // 完整克隆的目标存储
+  full: boolean;
+  start: boolean;
+  vms: CloudInitVMSpec[];
+}
+
+export type DeploymentStepName = 'clone' | 'configure' | 'regenerate' | 'start';
+export type DeploymentStatus = 'pending' | 'running' | 'success' | 'failed';
+
+export interface DeploymentStep {
+  name: DeploymentStepName;
+  status: DeploymentStatus;
+  upid?: string; // 对应的PVE任务ID
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface DeploymentItem {
+  name: string;
+  vmid?: number;
+  status: DeploymentStatus;
+  steps: DeploymentStep[];
+  error?: string;
+}
+
+export interface DeploymentJob {
+  id: string;
+  connectionId: string;
+  templateVmid: number;
+  node: string;
+  status: DeploymentStatus;
+  items: DeploymentItem[];
+  createdBy: string;
+  createdAt: Date;
+  finishedAt?: Date;
+}
+
+const DNS_NAME = /^(?=.{1,63}$)[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?)*$/;
+const IPCONFIG = /^(ip|gw|ip6|gw6)=[^,\s]+(,(ip|gw|ip6|gw6)=[^,\s]+)*$/;
+const CICUSTOM = /^(user|network|meta|vendor)=[a-zA-Z][a-zA-Z0-9._-]*:snippets\/[^,\s]+(,(user|network|meta|vendor)=[a-zA-Z][a-zA-Z0-9._-]*:snippets\/[^,\s]+)*$/;
+const NAMESERVERS = /^[0-9a-fA-F.:]+(\s+[0-9a-fA-F.:]+)*$/;
+const MAX_VMS_PER_DEPLOYMENT = 100;
+// 内存中保留的已结束部署数量
+const MAX_FINISHED_JOBS = 100;
+// 单个PVE任务（克隆、启动）的等待上限
+const TASK_TIMEOUT = 30 * 60 * 1000;
+
+export function validateDeploymentRequest(body: any): { errors: string[]; spec?: CloudInitDeploymentSpec } {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(body.templateVmid) || body.templateVmid < 100) {
+    errors.push('templateVmid 必须是有效的模板VMID');
+  }
+  if (!body.node || typeof body.node !== 'string') {
+    errors.push('缺少目标节点 node');
+  }
+  if (body.storage && body.full === false) {
+    errors.push('只有完整克隆可以指定目标存储');
+  }
+  if (!Array.isArray(body.vms) || body.vms.length === 0) {
+    errors.push('vms 至少包含一台虚拟机');
+  } else if (body.vms.length > MAX_VMS_PER_DEPLOYMENT) {
+    errors.push(`单次最多部署 ${MAX_VMS_PER_DEPLOYMENT} 台虚拟机`);
+  } else {
+    const names = new Set<string>();
+    const vmids = new Set<number>();
+    body.vms.forEach((vm: any, index: number) => {
+      const label = `第 ${index + 1} 台`;
+      if (!vm.name || !DNS_NAME.test(vm.name)) {
+        errors.push(`${label}: 名称必须是有效的主机名`);
+      } else if (names.has(vm.name)) {
+        errors.push(`${label}: 名称 ${vm.name} 重复`);
+      } else {
+        names.add(vm.name);
+      }
+      if (vm.vmid !== undefined && vm.vmid !== null) {
+        if (!Number.isInteger(vm.vmid) || vm.vmid < 100) {
+          errors.push(`${label}: vmid 必须是不小于100的整数`);
+        } else if (vmids.has(vm.vmid)) {
+          errors.push(`${label}: vmid ${vm.vmid} 重复`);
+        } else {
+          vmids.add(vm.vmid);
+        }
+      }
+      if (vm.ipconfig0 && !IPCONFIG.test(vm.ipconfig0)) {
+        errors.push(`${label}: ipconfig0 格式无效 (如 ip=dhcp 或 ip=10.0.0.5/24,gw=10.0.0.1)`);
+      }
+      if (vm.nameserver && !NAMESERVERS.test(vm.nameserver.trim())) {
+        errors.push(`${label}: nameserver 必须是以空格分隔的IP地址`);
+      }
+      if (vm.cicustom && !CICUSTOM.test(vm.cicustom)) {
+        errors.push(`${label}: cicustom 格式无效 (如 user=local:snippets/user.yaml)`);
+      }
+      if (vm.sshkeys && !/^(ssh-|ecdsa-|sk-)/.test(vm.sshkeys.trim())) {
+        errors.push(`${label}: SSH 公钥格式无效`);
+      }
+      if (vm.cores !== undefined && (!Number.isInteger(vm.cores) || vm.cores < 1 || vm.cores > 128)) {
+        errors.push(`${label}: CPU核心数必须是 1-128 之间的整数`);
+      }
+      if (vm.memory !== undefined && (!Number.isInteger(vm.memory) || vm.memory < 16)) {
+        errors.push(`${label}: 内存必须是不小于16的整数 (MiB)`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    spec: {
+      templateVmid: body.templateVmid,
+      node: body.node,
+      storage: body.storage || undefined,
+      full: body.full !== false,
+      start: body.start !== false,
+      vms: body.vms.map((vm: any) => ({ ...vm, sshkeys: vm.sshkeys?.trim(), nameserver: vm.nameserver?.trim() }))
+    }
+  };
+}
+
+// 生成要写入VM配置的cloud-init参数；PVE要求 sshkeys 经过URL编码
+export function buildCloudInitConfig(vm: CloudInitVMSpec): any {
+  const config: any = {};
+  if (vm.ciuser) config.ciuser = vm.ciuser;
+  if (vm.cipassword) config.cipassword = vm.cipassword;
+  if (vm.sshkeys) config.sshkeys = encodeURIComponent(vm.sshkeys);
+  if (vm.ipconfig0) config.ipconfig0 = vm.ipconfig0;
+  if (vm.nameserver) config.nameserver = vm.nameserver;
+  if (vm.searchdomain) config.searchdomain = vm.searchdomain;
+  if (vm.cicustom) config.cicustom = vm.cicustom;
+  if (vm.cores) config.cores = vm.cores;
+  if (vm.memory) config.memory = vm.memory;
+  return config;
+}
+
+// 模板中已有的cloud-init驱动器（如 ide2: local-lvm:vm-9000-cloudinit,media=cdrom）
+export function findCloudInitDrive(config: any): string | undefined {
+  return Object.keys(config || {}).find(key =>
+    /^(ide|sata|scsi)\d+$/.test(key) && typeof config[key] === 'string' && config[key].includes('cloudinit')
+  );
+}
+
+// 部署任务：对每台VM依次执行 克隆 → 写入cloud-init配置 → 重新生成cloud-init驱动器 → 启动
+export class CloudInitDeployer {
+  private jobs: Map<string, DeploymentJob> = new Map();
+
+  constructor(private pveManager: PVEManager) {}
+
+  start(connectionId: string, spec: CloudInitDeploymentSpec, createdBy: string): DeploymentJob {
+    const job: DeploymentJob = {
+      id: randomUUID(),
+      connectionId,
+      templateVmid: spec.templateVmid,
+      node: spec.node,
+      status: 'pending',
+      items: spec.vms.map(vm => ({
+        name: vm.name,
+        vmid: vm.vmid,
+        status: 'pending',
+        steps: (['clone', 'configure', 'regenerate', 'start'] as DeploymentStepName[])
+          .filter(name => name !== 'start' || spec.start)
+          .map(name => ({ name, status: 'pending' }))
+      })),
+      createdBy,
+      createdAt: new Date()
+    };
+    this.jobs.set(job.id, job);
+    this.pruneJobs();
+
+    this.run(job, spec).catch((error) => {
+      console.error(`cloud-init部署 ${job.id} 异常:`, error);
+    });
+    return job;
+  }
+
+  get(id: string): DeploymentJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): DeploymentJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  private async run(job: DeploymentJob, spec: CloudInitDeploymentSpec): Promise<void> {
+    job.status = 'running';
+    this.publish(job);
+
+    const template = await this.pveManager.executeOnConnection(job.connectionId, async (client) => {
+      const resource = (await client.getClusterResources())
+        .find((item: any) => item.type === 'qemu' && item.vmid === spec.templateVmid);
+      if (!resource || resource.template !== 1) {
+        throw new Error(`VM ${spec.templateVmid} 不是模板`);
+      }
+      const config = await client.getVMConfig(resource.node, spec.templateVmid, 'qemu');
+      return { node: resource.node as string, config };
+    }).catch((error) => {
+      for (const item of job.items) {
+        item.status = 'failed';
+        item.error = error.message;
+      }
+      return null;
+    });
+
+    if (template) {
+      for (let i = 0; i < job.items.length; i++) {
+        await this.deployOne(job, job.items[i], spec, spec.vms[i], template);
+      }
+    }
+
+    job.status = job.items.every(item => item.status === 'success') ? 'success' : 'failed';
+    job.finishedAt = new Date();
+    this.publish(job);
+  }
+
+  private async deployOne(
+    job: DeploymentJob,
+    item: DeploymentItem,
+    spec: CloudInitDeploymentSpec,
+    vm: CloudInitVMSpec,
+    template: { node: string; config: any }
+  ): Promise<void> {
+    item.status = 'running';
+    const cloudInitDrive = findCloudInitDrive(template.config);
+
+    try {
+      await this.runStep(job, item, 'clone', async (client) => {
+        const vmid = item.vmid ?? await client.getNextVMID();
+        item.vmid = vmid;
+        return client.cloneVM(template.node, spec.templateVmid, 'qemu', {
+          newid: vmid,
+          name: vm.name,
+          target: spec.node !== template.node ? spec.node : undefined,
+          storage: spec.storage,
+          full: spec.full
+        });
+      }, template.node);
+
+      await this.runStep(job, item, 'configure', async (client) => {
+        const config = buildCloudInitConfig(vm);
+        // 模板没有cloud-init驱动器时在VM磁盘所在存储上添加
+        if (!cloudInitDrive) {
+          const cloned = await client.getVMConfig(spec.node, item.vmid!, 'qemu');
+          const storage = spec.storage || getConfigStorages(cloned, 'qemu')[0];
+          if (!storage) {
+            throw new Error('无法确定cloud-init驱动器的存储');
+          }
+          config.ide2 = `${storage}:cloudinit`;
+        }
+        await client.updateVMConfig(spec.node, item.vmid!, 'qemu', config);
+        return null;
+      });
+
+      await this.runStep(job, item, 'regenerate', async (client) => {
+        await client.regenerateCloudInit(spec.node, item.vmid!);
+        return null;
+      });
+
+      if (spec.start) {
+        await this.runStep(job, item, 'start', (client) => client.startVM(spec.node, item.vmid!, 'qemu'));
+      }
+
+      item.status = 'success';
+    } catch (error: any) {
+      item.status = 'failed';
+      item.error = error.message;
+    }
+    this.publish(job);
+  }
+
+  // 执行一个步骤；返回任务ID时等待任务结束（taskNode 为任务所在节点，默认目标节点）
+  private async runStep(
+    job: DeploymentJob,
+    item: DeploymentItem,
+    name: DeploymentStepName,
+    operation: (client: PVEApiClient) => Promise<string | null>,
+    taskNode: string = job.node
+  ): Promise<void> {
+    const step = item.steps.find(candidate => candidate.name === name)!;
+    step.status = 'running';
+    step.startedAt = new Date();
+    this.publish(job);
+
+    try {
+      const upid = await this.pveManager.executeOnConnection(job.connectionId, operation);
+      if (upid) {
+        step.upid = upid;
+        this.publish(job);
+        const status = await this.pveManager.waitForTask(job.connectionId, taskNode, upid, { timeout: TASK_TIMEOUT });
+        if (!isTaskSuccessful(status)) {
+          throw new Error(status.exitstatus);
+        }
+      }
+      step.status = 'success';
+    } catch (error: any) {
+      step.status = 'failed';
+      step.error = error.message;
+      throw new Error(`${name}: ${error.message}`);
+    } finally {
+      step.finishedAt = new Date();
+      this.publish(job);
+    }
+  }
+
+  private publish(job: DeploymentJob): void {
+    this.pveManager.emit('cloudinit-deployment-updated', job);
+  }
+
+  private pruneJobs(): void {
+    const finished = this.list().filter(job => job.finishedAt);
+    for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
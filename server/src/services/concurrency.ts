@@ -0,0 +1,97 @@
+// 并发控制：全局并发上限 + 按来源（PVE连接）的并发上限，超出的任务排队等待
+export interface ConcurrencyLimiterOptions {
+  maxConcurrent: number; // 全局同时执行的任务数
+  maxPerKey: number; // 每个来源默认同时执行的任务数
+}
+
+interface QueuedTask {
+  key: string;
+  limit: number;
+  start: () => void;
+}
+
+export class ConcurrencyLimiter {
+  private active = 0;
+  private activeByKey: Map<string, number> = new Map();
+  private queue: QueuedTask[] = [];
+
+  constructor(private options: ConcurrencyLimiterOptions) {}
+
+  // 在并发限制内执行任务，limit 可覆盖该来源的并发上限
+  run<T>(key: string, task: () => Promise<T>, limit: number = this.options.maxPerKey): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        key,
+        limit,
+        start: () => {
+          task().then(resolve, reject).finally(() => this.release(key));
+        }
+      });
+      this.drain();
+    });
+  }
+
+  getStats(): { active: number; queued: number } {
+    return { active: this.active, queued: this.queue.length };
+  }
+
+  private release(key: string): void {
+    this.active--;
+    const count = (this.activeByKey.get(key) || 1) - 1;
+    if (count > 0) {
+      this.activeByKey.set(key, count);
+    } else {
+      this.activeByKey.delete(key);
+    }
+    this.drain();
+  }
+
+  // 按排队顺序启动可以执行的任务，跳过已达到来源上限的任务
+  private drain(): void {
+    for (let i = 0; i < this.queue.length && this.active < this.options.maxConcurrent;) {
+      const item = this.queue[i];
+      const running = this.activeByKey.get(item.key) || 0;
+      if (running >= item.limit) {
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      this.active++;
+      this.activeByKey.set(item.key, running + 1);
+      item.start();
+    }
+  }
+}
+
+export class DeadlineExceededError extends Error {
+  readonly code = 'DEADLINE_EXCEEDED';
+
+  constructor(label: string, public deadlineMs: number) {
+    super(`${label} 超过 ${deadlineMs}ms 未完成`);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+// 为任务设置截止时间，超时后返回错误（底层请求仍由请求超时兜底）
+export function withDeadline<T>(promise: Promise<T>, deadlineMs: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new DeadlineExceededError(label, deadlineMs)), deadlineMs);
+  });
+  return Promise.race([promise, deadline]).finally(() => clearTimeout(timer));
+}
+
+// 汇总多个来源时单个来源的错误
+export interface SourceError {
+  connectionId?: string;
+  connectionName?: string;
+  node?: string;
+  error: string;
+}
+
+// 部分成功的汇总结果：data 为成功来源的数据，errors 为失败来源
+export interface PartialResult<T> {
+  data: T[];
+  errors: SourceError[];
+}
@@ -0,0 +1,179 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  decryptSecret,
+  encryptSecret,
+  generateMasterKey,
+  getKeyId,
+  getRunningServerPid,
+  isEncrypted,
+  migratePlaintextCredentials,
+  parseMasterKey,
+  rewrapSecret,
+  rotateMasterKey
+} from './credential-vault';
+
+// 替换密文中的某一段（0 主密钥ID，1 加密后的DEK，2 IV，3 认证标签，4 密文）
+function replacePart(value: string, index: number, replace: (part: string) => string): string {
+  const parts = value.slice('enc:v1:'.length).split(':');
+  parts[index] = replace(parts[index]);
+  return 'enc:v1:' + parts.join(':');
+}
+
+function flipFirstByte(base64: string): string {
+  const raw = Buffer.from(base64, 'base64');
+  raw[0] ^= 0xff;
+  return raw.toString('base64');
+}
+
+// 模拟 database 的 query/run/transaction，数据保存在内存中
+function createFakeDb(rows: any[]) {
+  const applyUpdate = (sql: string, params: any[]) => {
+    const columns = [...sql.matchAll(/(\w+) = \?/g)].map(match => match[1]).filter(column => column !== 'id');
+    const row = rows.find(r => r.id === params[params.length - 1]);
+    columns.forEach((column, index) => { row[column] = params[index]; });
+  };
+  return {
+    rows,
+    query: async () => rows.map(row => ({ ...row })),
+    run: async (sql: string, params: any[]) => applyUpdate(sql, params),
+    transaction: async (operations: { sql: string; params: any[] }[]) => operations.forEach(op => applyUpdate(op.sql, op.params))
+  };
+}
+
+describe('parseMasterKey', () => {
+  it('支持 hex 和 base64 编码', () => {
+    const key = generateMasterKey();
+    expect(parseMasterKey(key.toString('hex')).equals(key)).toBe(true);
+    expect(parseMasterKey(` ${key.toString('base64')}\n`).equals(key)).toBe(true);
+  });
+
+  it('长度不是32字节时抛出错误', () => {
+    expect(() => parseMasterKey('abcd')).toThrow();
+    expect(() => parseMasterKey(Buffer.alloc(16).toString('base64'))).toThrow();
+  });
+});
+
+describe('encryptSecret / decryptSecret', () => {
+  const key = generateMasterKey();
+
+  it('加密后可以解密，每次密文不同', () => {
+    const first = encryptSecret('p@ssw0rd', key)!;
+    const second = encryptSecret('p@ssw0rd', key)!;
+    expect(isEncrypted(first)).toBe(true);
+    expect(first).not.toEqual(second);
+    expect(first).not.toContain('p@ssw0rd');
+    expect(decryptSecret(first, key)).toBe('p@ssw0rd');
+    expect(decryptSecret(second, key)).toBe('p@ssw0rd');
+  });
+
+  it('空值原样返回，已加密的值不重复加密', () => {
+    expect(encryptSecret('', key)).toBe('');
+    expect(encryptSecret(null, key)).toBeNull();
+    expect(encryptSecret(undefined, key)).toBeNull();
+    const encrypted = encryptSecret('secret', key)!;
+    expect(encryptSecret(encrypted, key)).toBe(encrypted);
+    expect(decryptSecret('', key)).toBeUndefined();
+    expect(decryptSecret(null, key)).toBeUndefined();
+  });
+
+  it('未加密的旧数据原样返回', () => {
+    expect(decryptSecret('legacy-plaintext', key)).toBe('legacy-plaintext');
+  });
+
+  it('认证标签、密文或数据密钥被篡改时解密失败', () => {
+    const encrypted = encryptSecret('secret', key)!;
+    expect(() => decryptSecret(replacePart(encrypted, 3, flipFirstByte), key)).toThrow();
+    expect(() => decryptSecret(replacePart(encrypted, 4, flipFirstByte), key)).toThrow();
+    expect(() => decryptSecret(replacePart(encrypted, 1, flipFirstByte), key)).toThrow();
+  });
+
+  it('使用其他主密钥解密时报错', () => {
+    const encrypted = encryptSecret('secret', key)!;
+    const otherKey = generateMasterKey();
+    expect(() => decryptSecret(encrypted, otherKey)).toThrow(/其他主密钥/);
+    // 伪造主密钥ID也无法解开数据密钥
+    expect(() => decryptSecret(replacePart(encrypted, 0, () => getKeyId(otherKey)), otherKey)).toThrow();
+  });
+
+  it('格式不完整的密文报错', () => {
+    expect(() => decryptSecret('enc:v1:abc:def', key)).toThrow(/格式无效/);
+  });
+});
+
+describe('主密钥轮换', () => {
+  const oldKey = generateMasterKey();
+  const newKey = generateMasterKey();
+
+  it('rewrapSecret 只替换数据密钥的包装，旧密钥不再能解密', () => {
+    const encrypted = encryptSecret('secret', oldKey)!;
+    const rewrapped = rewrapSecret(encrypted, oldKey, newKey);
+    expect(decryptSecret(rewrapped, newKey)).toBe('secret');
+    expect(() => decryptSecret(rewrapped, oldKey)).toThrow();
+    expect(rewrapped.split(':').slice(-3)).toEqual(encrypted.split(':').slice(-3));
+    expect(() => rewrapSecret(encrypted, newKey, oldKey)).toThrow(/未知主密钥/);
+  });
+
+  it('rotateMasterKey 重新包装所有凭据，并加密残留的明文', async () => {
+    const db = createFakeDb([
+      { id: 'a', password: encryptSecret('pw-a', oldKey), token_secret: null },
+      { id: 'b', password: 'plain-b', token_secret: encryptSecret('token-b', oldKey) },
+      { id: 'c', password: '', token_secret: null }
+    ]);
+
+    expect(await rotateMasterKey(db, oldKey, newKey)).toBe(2);
+    expect(decryptSecret(db.rows[0].password, newKey)).toBe('pw-a');
+    expect(decryptSecret(db.rows[1].password, newKey)).toBe('plain-b');
+    expect(decryptSecret(db.rows[1].token_secret, newKey)).toBe('token-b');
+    expect(db.rows[2].password).toBe('');
+  });
+
+  it('轮换后迁移明文凭据使用新主密钥，已加密的列不变', async () => {
+    const encrypted = encryptSecret('already', newKey);
+    const db = createFakeDb([
+      { id: 'a', password: 'plain', token_secret: 'token' },
+      { id: 'b', password: encrypted, token_secret: null }
+    ]);
+
+    expect(await migratePlaintextCredentials(db)).toBe(1);
+    expect(decryptSecret(db.rows[0].password, newKey)).toBe('plain');
+    expect(decryptSecret(db.rows[0].token_secret, newKey)).toBe('token');
+    expect(db.rows[1].password).toBe(encrypted);
+  });
+
+  it('存在其他主密钥加密的凭据时不修改任何数据', async () => {
+    const unknown = encryptSecret('pw-x', generateMasterKey());
+    const first = encryptSecret('pw-a', oldKey);
+    const db = createFakeDb([
+      { id: 'a', password: first, token_secret: null },
+      { id: 'x', password: unknown, token_secret: null }
+    ]);
+
+    await expect(rotateMasterKey(db, oldKey, newKey)).rejects.toThrow();
+    expect(db.rows[0].password).toBe(first);
+  });
+});
+
+describe('getRunningServerPid', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-test-'));
+  const pidFile = path.join(dir, 'server.pid');
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('PID文件不存在时返回 null', () => {
+    expect(getRunningServerPid(pidFile)).toBeNull();
+  });
+
+  it('进程仍在运行时返回其PID', () => {
+    fs.writeFileSync(pidFile, `${process.ppid}\n`);
+    expect(getRunningServerPid(pidFile)).toBe(process.ppid);
+  });
+
+  it('进程已退出或是当前进程时返回 null', () => {
+    fs.writeFileSync(pidFile, '999999999\n');
+    expect(getRunningServerPid(pidFile)).toBeNull();
+    fs.writeFileSync(pidFile, `${process.pid}\n`);
+    expect(getRunningServerPid(pidFile)).toBeNull();
+  });
+});
@@ -0,0 +1,293 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// 凭据加密（信封加密）
+// 每个凭据使用随机数据密钥 (DEK) 以 AES-256-GCM 加密，DEK 再由主密钥 (KEK) 加密后与密文一起存储。
+// 存储格式: enc:v1:<主密钥ID>:<加密后的DEK>:<IV>:<认证标签>:<密文>（均为base64）
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+// pve_connections 中需要加密的列
+export const ENCRYPTED_CONNECTION_COLUMNS = ['password', 'token_secret'] as const;
+
+// 默认密钥文件放在数据目录之外，避免复制或备份数据目录时密钥与密文一起泄露
+export const DEFAULT_KEY_FILE = path.join(__dirname, '../../keys/master.key');
+// 旧版本的默认位置（与数据库同在 data 目录）
+const LEGACY_KEY_FILE = path.join(__dirname, '../../data/master.key');
+
+// 服务运行时写入的PID文件：服务会缓存主密钥，轮换工具据此拒绝在服务运行期间执行
+export const SERVER_PID_FILE = path.join(__dirname, '../../data/server.pid');
+
+let cachedMasterKey: Buffer | null = null;
+
+// 解析主密钥：支持64位hex或base64编码的32字节密钥
+export function parseMasterKey(encoded: string): Buffer {
+  const value = encoded.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(value)
+    ? Buffer.from(value, 'hex')
+    : Buffer.from(value, 'base64');
+
+  if (key.length !== KEY_LENGTH) {
+    throw new Error('主密钥必须是32字节（64位hex或base64编码）');
+  }
+  return key;
+}
+
+export function generateMasterKey(): Buffer {
+  return crypto.randomBytes(KEY_LENGTH);
+}
+
+export function getKeyFilePath(): string {
+  if (process.env.CREDENTIAL_KEY_FILE) {
+    return process.env.CREDENTIAL_KEY_FILE;
+  }
+  // 兼容旧版本：默认位置没有密钥而旧位置有时继续使用旧密钥文件
+  return !fs.existsSync(DEFAULT_KEY_FILE) && fs.existsSync(LEGACY_KEY_FILE) ? LEGACY_KEY_FILE : DEFAULT_KEY_FILE;
+}
+
+// 密钥文件与数据库在同一目录时，复制数据目录即可同时得到密文和主密钥
+function warnKeyFileLocation(keyFile: string): void {
+  const dataDir = path.dirname(LEGACY_KEY_FILE);
+  if (path.resolve(path.dirname(keyFile)) === path.resolve(dataDir)) {
+    console.warn('================================================================');
+    console.warn(`警告: 凭据主密钥文件 ${keyFile} 与数据库位于同一目录，`);
+    console.warn('复制或备份数据目录会同时泄露密文和主密钥。');
+    console.warn(`请将密钥文件移动到 ${DEFAULT_KEY_FILE}，或通过 CREDENTIAL_MASTER_KEY / CREDENTIAL_KEY_FILE 指定`);
+    console.warn('================================================================');
+  }
+}
+
+// 将主密钥写入密钥文件（仅所有者可读写）
+export function writeKeyFile(key: Buffer, filePath: string = getKeyFilePath()): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, key.toString('base64') + '\n', { mode: 0o600 });
+}
+
+// 获取主密钥：优先环境变量 CREDENTIAL_MASTER_KEY，其次密钥文件，都不存在时生成新的密钥文件
+export function getMasterKey(): Buffer {
+  if (cachedMasterKey) {
+    return cachedMasterKey;
+  }
+
+  if (process.env.CREDENTIAL_MASTER_KEY) {
+    cachedMasterKey = parseMasterKey(process.env.CREDENTIAL_MASTER_KEY);
+    return cachedMasterKey;
+  }
+
+  const keyFile = getKeyFilePath();
+  warnKeyFileLocation(keyFile);
+  if (fs.existsSync(keyFile)) {
+    cachedMasterKey = parseMasterKey(fs.readFileSync(keyFile, 'utf8'));
+    return cachedMasterKey;
+  }
+
+  const key = generateMasterKey();
+  writeKeyFile(key, keyFile);
+  console.warn('================================================================');
+  console.warn(`未设置 CREDENTIAL_MASTER_KEY，已生成新的凭据主密钥: ${keyFile}`);
+  console.warn('请单独备份此文件，不要与数据库放在一起；丢失后已保存的凭据将无法解密。');
+  console.warn('生产环境建议通过 CREDENTIAL_MASTER_KEY 环境变量提供主密钥。');
+  console.warn('================================================================');
+  cachedMasterKey = key;
+  return cachedMasterKey;
+}
+
+export function writeServerPidFile(filePath: string = SERVER_PID_FILE): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${process.pid}\n`);
+}
+
+export function removeServerPidFile(filePath: string = SERVER_PID_FILE): void {
+  try {
+    if (parseInt(fs.readFileSync(filePath, 'utf8'), 10) === process.pid) {
+      fs.unlinkSync(filePath);
+    }
+  } catch {
+    // PID文件不存在时忽略
+  }
+}
+
+// 返回正在运行的服务进程ID；PID文件不存在或进程已退出时返回 null
+export function getRunningServerPid(filePath: string = SERVER_PID_FILE): number | null {
+  let pid: number;
+  try {
+    pid = parseInt(fs.readFileSync(filePath, 'utf8'), 10);
+  } catch {
+    return null;
+  }
+  if (!Number.isInteger(pid) || pid <= 0 || pid === process.pid) {
+    return null;
+  }
+  try {
+    process.kill(pid, 0);
+    return pid;
+  } catch (error: any) {
+    // EPERM 表示进程存在但属于其他用户
+    return error.code === 'EPERM' ? pid : null;
+  }
+}
+
+// 主密钥ID，用于识别密文由哪个主密钥加密
+export function getKeyId(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; data: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), data };
+}
+
+function unseal(key: Buffer, iv: Buffer, tag: Buffer, data: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+function wrapDataKey(masterKey: Buffer, dataKey: Buffer): string {
+  const { iv, tag, data } = seal(masterKey, dataKey);
+  return Buffer.concat([iv, tag, data]).toString('base64');
+}
+
+function unwrapDataKey(masterKey: Buffer, wrapped: string): Buffer {
+  const raw = Buffer.from(wrapped, 'base64');
+  return unseal(masterKey, raw.subarray(0, IV_LENGTH), raw.subarray(IV_LENGTH, IV_LENGTH + 16), raw.subarray(IV_LENGTH + 16));
+}
+
+interface EncryptedValue {
+  keyId: string;
+  wrappedKey: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function parseEncrypted(value: string): EncryptedValue {
+  const parts = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  if (parts.length !== 5) {
+    throw new Error('凭据密文格式无效');
+  }
+  const [keyId, wrappedKey, iv, tag, data] = parts;
+  return { keyId, wrappedKey, iv, tag, data };
+}
+
+function formatEncrypted(value: EncryptedValue): string {
+  return ENCRYPTED_PREFIX + [value.keyId, value.wrappedKey, value.iv, value.tag, value.data].join(':');
+}
+
+export function isEncrypted(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+// 加密凭据，空值原样返回
+export function encryptSecret(plaintext: string | null | undefined, masterKey: Buffer = getMasterKey()): string | null {
+  if (plaintext === null || plaintext === undefined || plaintext === '') {
+    return plaintext ?? null;
+  }
+  if (isEncrypted(plaintext)) {
+    return plaintext;
+  }
+
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const { iv, tag, data } = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+  return formatEncrypted({
+    keyId: getKeyId(masterKey),
+    wrappedKey: wrapDataKey(masterKey, dataKey),
+    iv: iv.toString('base64'),
+    tag: tag.toString('base64'),
+    data: data.toString('base64')
+  });
+}
+
+// 解密凭据，未加密的旧数据原样返回
+export function decryptSecret(value: string | null | undefined, masterKey: Buffer = getMasterKey()): string | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const encrypted = parseEncrypted(value);
+  if (encrypted.keyId !== getKeyId(masterKey)) {
+    throw new Error(`凭据由其他主密钥加密 (${encrypted.keyId})，请检查 CREDENTIAL_MASTER_KEY 或密钥文件`);
+  }
+
+  const dataKey = unwrapDataKey(masterKey, encrypted.wrappedKey);
+  return unseal(
+    dataKey,
+    Buffer.from(encrypted.iv, 'base64'),
+    Buffer.from(encrypted.tag, 'base64'),
+    Buffer.from(encrypted.data, 'base64')
+  ).toString('utf8');
+}
+
+// 用新主密钥重新包装数据密钥（凭据密文本身不变）
+export function rewrapSecret(value: string, oldKey: Buffer, newKey: Buffer): string {
+  const encrypted = parseEncrypted(value);
+  if (encrypted.keyId !== getKeyId(oldKey)) {
+    throw new Error(`凭据由未知主密钥加密 (${encrypted.keyId})`);
+  }
+
+  const dataKey = unwrapDataKey(oldKey, encrypted.wrappedKey);
+  return formatEncrypted({
+    ...encrypted,
+    keyId: getKeyId(newKey),
+    wrappedKey: wrapDataKey(newKey, dataKey)
+  });
+}
+
+// 将数据库中的明文凭据迁移为密文，返回迁移的连接数
+export async function migratePlaintextCredentials(db: any): Promise<number> {
+  const rows = await db.query(`SELECT id, ${ENCRYPTED_CONNECTION_COLUMNS.join(', ')} FROM pve_connections`);
+  let migrated = 0;
+
+  for (const row of rows) {
+    const plaintextColumns = ENCRYPTED_CONNECTION_COLUMNS.filter(col => row[col] && !isEncrypted(row[col]));
+    if (plaintextColumns.length === 0) continue;
+
+    await db.run(
+      `UPDATE pve_connections SET ${plaintextColumns.map(col => `${col} = ?`).join(', ')} WHERE id = ?`,
+      [...plaintextColumns.map(col => encryptSecret(row[col])), row.id]
+    );
+    migrated++;
+  }
+
+  if (migrated > 0) {
+    console.log(`已加密 ${migrated} 个连接的明文凭据`);
+  }
+  return migrated;
+}
+
+// 主密钥轮换：用新主密钥重新包装所有凭据的数据密钥，返回更新的连接数
+export async function rotateMasterKey(db: any, oldKey: Buffer, newKey: Buffer): Promise<number> {
+  const rows = await db.query(`SELECT id, ${ENCRYPTED_CONNECTION_COLUMNS.join(', ')} FROM pve_connections`);
+  const operations: { sql: string; params: any[] }[] = [];
+
+  for (const row of rows) {
+    const columns = ENCRYPTED_CONNECTION_COLUMNS.filter(col => row[col]);
+    if (columns.length === 0) continue;
+
+    const values = columns.map(col => isEncrypted(row[col])
+      ? rewrapSecret(row[col], oldKey, newKey)
+      : encryptSecret(row[col], newKey));
+
+    operations.push({
+      sql: `UPDATE pve_connections SET ${columns.map(col => `${col} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      params: [...values, row.id]
+    });
+  }
+
+  if (operations.length > 0) {
+    await db.transaction(operations);
+  }
+
+  cachedMasterKey = newKey;
+  return operations.length;
+}
@@ -0,0 +1,119 @@
+import { formatInTimezone, getNextRunTime, getNextRunTimes, parseCron } from './cron';
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('parseCron', () => {
+  it('支持 5 段和 6 段表达式', () => {
+    expect(parseCron('*/15 9-17 * * mon-fri').cron).toBeDefined();
+    const { cron } = parseCron('30 0 12 * * *');
+    expect([...cron!.seconds]).toEqual([30]);
+    expect([...cron!.minutes]).toEqual([0]);
+    expect([...cron!.hours]).toEqual([12]);
+  });
+
+  it('解析月份和星期的英文名称，7 表示周日', () => {
+    const { cron } = parseCron('0 0 * JAN,dec sun,7');
+    expect([...cron!.months].sort((a, b) => a - b)).toEqual([1, 12]);
+    expect([...cron!.daysOfWeek]).toEqual([0]);
+  });
+
+  it('解析别名', () => {
+    expect(parseCron('@daily').cron).toEqual(parseCron('0 0 * * *').cron);
+    expect(parseCron('@WEEKLY').cron).toEqual(parseCron('0 0 * * 0').cron);
+  });
+
+  it('无效表达式返回错误', () => {
+    expect(parseCron('').error).toBeDefined();
+    expect(parseCron('* * * *').error).toBeDefined();
+    expect(parseCron('60 * * * *').error).toBeDefined();
+    expect(parseCron('* * 0 * *').error).toBeDefined();
+    expect(parseCron('* * * * 5-1').error).toBeDefined();
+    expect(parseCron('*/0 * * * *').error).toBeDefined();
+    expect(parseCron('* * L-31 * *').error).toBeDefined();
+    expect(parseCron('* * * foo *').error).toBeDefined();
+  });
+});
+
+describe('getNextRunTimes', () => {
+  it('按任务时区计算，默认 Asia/Shanghai', () => {
+    expect(getNextRunTime('0 9 * * *', undefined, new Date('2026-10-19T00:00:00Z'))!.toISOString())
+      .toBe('2026-10-19T01:00:00.000Z');
+    expect(getNextRunTime('0 9 * * *', 'UTC', new Date('2026-10-19T00:00:00Z'))!.toISOString())
+      .toBe('2026-10-19T09:00:00.000Z');
+  });
+
+  it('返回严格晚于起始时间的执行时间', () => {
+    expect(getNextRunTime('0 9 * * *', 'UTC', new Date('2026-10-19T09:00:00.500Z'))!.toISOString())
+      .toBe('2026-10-20T09:00:00.000Z');
+  });
+
+  it('无效时区抛出错误', () => {
+    expect(() => getNextRunTimes('* * * * *', 'Mars/Olympus')).toThrow();
+  });
+
+  it('L 为月末，区分闰年', () => {
+    expect(iso(getNextRunTimes('0 0 L 2 *', 'UTC', 2, new Date('2027-01-01T00:00:00Z'))))
+      .toEqual(['2027-02-28T00:00:00.000Z', '2028-02-29T00:00:00.000Z']);
+  });
+
+  it('L-n 为月末前 n 天', () => {
+    expect(iso(getNextRunTimes('0 0 L-2 * *', 'UTC', 3, new Date('2026-01-01T00:00:00Z'))))
+      .toEqual(['2026-01-29T00:00:00.000Z', '2026-02-26T00:00:00.000Z', '2026-03-29T00:00:00.000Z']);
+    expect(getNextRunTime('0 0 L-2 2 *', 'UTC', new Date('2027-03-01T00:00:00Z'))!.toISOString())
+      .toBe('2028-02-27T00:00:00.000Z');
+  });
+
+  it('nL 为当月最后一个周n', () => {
+    expect(iso(getNextRunTimes('0 0 * * 5L', 'UTC', 3, new Date('2026-10-01T00:00:00Z'))))
+      .toEqual(['2026-10-30T00:00:00.000Z', '2026-11-27T00:00:00.000Z', '2026-12-25T00:00:00.000Z']);
+    expect(getNextRunTime('0 0 * * friL', 'UTC', new Date('2026-10-01T00:00:00Z'))!.toISOString())
+      .toBe('2026-10-30T00:00:00.000Z');
+  });
+
+  it('2月29日只在闰年执行，跨越非闰年的世纪年', () => {
+    expect(getNextRunTime('0 0 29 2 *', 'UTC', new Date('2026-01-01T00:00:00Z'))!.toISOString())
+      .toBe('2028-02-29T00:00:00.000Z');
+    expect(getNextRunTime('0 0 29 2 *', 'UTC', new Date('2097-03-01T00:00:00Z'))!.toISOString())
+      .toBe('2104-02-29T00:00:00.000Z');
+  });
+
+  it('不存在的日期不会执行', () => {
+    expect(getNextRunTimes('0 0 31 2 *', 'UTC', 1, new Date('2026-01-01T00:00:00Z'))).toEqual([]);
+  });
+
+  it('日和星期都有限定时满足其一即执行', () => {
+    // 2026-10 的 13 日是周二，周五为 2、9、16 日
+    expect(iso(getNextRunTimes('0 0 13 * 5', 'UTC', 4, new Date('2026-10-01T00:00:00Z'))))
+      .toEqual(['2026-10-02T00:00:00.000Z', '2026-10-09T00:00:00.000Z', '2026-10-13T00:00:00.000Z', '2026-10-16T00:00:00.000Z']);
+  });
+
+  it('只限定日或星期时只按该字段匹配', () => {
+    expect(iso(getNextRunTimes('0 0 13 * *', 'UTC', 2, new Date('2026-10-01T00:00:00Z'))))
+      .toEqual(['2026-10-13T00:00:00.000Z', '2026-11-13T00:00:00.000Z']);
+    expect(iso(getNextRunTimes('0 0 ? * 5', 'UTC', 2, new Date('2026-10-01T00:00:00Z'))))
+      .toEqual(['2026-10-02T00:00:00.000Z', '2026-10-09T00:00:00.000Z']);
+  });
+
+  it('夏令时跳过的时间顺延到跳变之后', () => {
+    // America/New_York 2026-03-08 02:00 EST 跳到 03:00 EDT
+    const runs = getNextRunTimes('30 2 * * *', 'America/New_York', 3, new Date('2026-03-07T12:00:00Z'));
+    expect(iso(runs)).toEqual(['2026-03-08T07:30:00.000Z', '2026-03-09T06:30:00.000Z', '2026-03-10T06:30:00.000Z']);
+    expect(formatInTimezone(runs[0], 'America/New_York')).toBe('2026-03-08 03:30:00');
+  });
+
+  it('夏令时回拨重复的时间只执行第一次', () => {
+    // America/New_York 2026-11-01 02:00 EDT 回拨到 01:00 EST，01:30 出现两次
+    expect(iso(getNextRunTimes('30 1 * * *', 'America/New_York', 2, new Date('2026-10-31T12:00:00Z'))))
+      .toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+    expect(iso(getNextRunTimes('0 * * * *', 'America/New_York', 2, new Date('2026-11-01T04:30:00Z'))))
+      .toEqual(['2026-11-01T05:00:00.000Z', '2026-11-01T07:00:00.000Z']);
+    // 已在第一次 01:30 之后时不会在第二次 01:30 再执行
+    expect(getNextRunTime('30 1 * * *', 'America/New_York', new Date('2026-11-01T05:45:00Z'))!.toISOString())
+      .toBe('2026-11-02T06:30:00.000Z');
+  });
+
+  it('6 段表达式按秒计算', () => {
+    expect(iso(getNextRunTimes('*/20 * * * * *', 'UTC', 3, new Date('2026-10-19T00:00:05Z'))))
+      .toEqual(['2026-10-19T00:00:20.000Z', '2026-10-19T00:00:40.000Z', '2026-10-19T00:01:00.000Z']);
+  });
+});
@@ -0,0 +1,312 @@
+// 定时任务的 cron 表达式解析和按时区计算下次执行时间
+// 支持 5 段 (分 时 日 月 周) 和 6 段 (秒 分 时 日 月 周)，每段支持 *、?、列表、范围、步长和英文名称，
+// 日字段支持 L (月末) 和 L-n (月末前n天)，周字段支持 nL (当月最后一个周n)，另支持 @daily 等别名
+export interface CronExpression {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  lastDayOffsets: number[]; // L / L-n
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6，0为周日
+  lastWeekdays: Set<number>; // nL
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+export const DEFAULT_TIMEZONE = 'Asia/Shanghai';
+export const MAX_PREVIEW_COUNT = 20;
+
+// 向后搜索的最长年数，覆盖 2月29日 这类每4年（跨世纪时8年）才出现一次的表达式
+const SEARCH_YEARS = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number; // 名称数组下标与取值的差
+}
+
+const FIELDS: Record<string, FieldSpec> = {
+  second: { label: '秒', min: 0, max: 59 },
+  minute: { label: '分钟', min: 0, max: 59 },
+  hour: { label: '小时', min: 0, max: 23 },
+  dayOfMonth: { label: '日期', min: 1, max: 31 },
+  month: { label: '月份', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  dayOfWeek: { label: '星期', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 }
+};
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const lower = text.toLowerCase();
+  if (spec.names) {
+    const index = spec.names.indexOf(lower);
+    if (index !== -1) {
+      return index + spec.nameOffset!;
+    }
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`${spec.label}字段的值 "${text}" 无效`);
+  }
+  const value = parseInt(text, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.label}字段的值 ${value} 超出范围 ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+// 解析单个字段的一项：*、a、a-b，可带 /step；a/step 表示从 a 到最大值
+function parseItem(item: string, spec: FieldSpec, values: Set<number>): void {
+  const [range, stepText, extra] = item.split('/');
+  if (extra !== undefined || range === '') {
+    throw new Error(`${spec.label}字段 "${item}" 格式无效`);
+  }
+
+  let step = 1;
+  if (stepText !== undefined) {
+    if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+      throw new Error(`${spec.label}字段的步长 "${stepText}" 无效`);
+    }
+    step = parseInt(stepText, 10);
+  }
+
+  let start: number;
+  let end: number;
+  if (range === '*' || range === '?') {
+    start = spec.min;
+    end = spec.max;
+  } else if (range.includes('-')) {
+    const [from, to, rest] = range.split('-');
+    if (rest !== undefined) {
+      throw new Error(`${spec.label}字段 "${item}" 格式无效`);
+    }
+    start = parseValue(from, spec);
+    end = parseValue(to, spec);
+    if (start > end) {
+      throw new Error(`${spec.label}字段的范围 "${range}" 起始值大于结束值`);
+    }
+  } else {
+    start = parseValue(range, spec);
+    end = stepText !== undefined ? spec.max : start;
+  }
+
+  for (let value = start; value <= end; value += step) {
+    values.add(value);
+  }
+}
+
+function isWildcard(field: string): boolean {
+  return field === '*' || field === '?';
+}
+
+// 解析 cron 表达式，返回解析结果或错误信息
+export function parseCron(expression: string): { cron?: CronExpression; error?: string } {
+  if (typeof expression !== 'string' || !expression.trim()) {
+    return { error: 'cron 表达式不能为空' };
+  }
+
+  const text = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const parts = text.split(/\s+/);
+  if (parts.length !== 5 && parts.length !== 6) {
+    return { error: 'cron 表达式必须是 5 段 (分 时 日 月 周) 或 6 段 (秒 分 时 日 月 周)' };
+  }
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] = parts.length === 6 ? parts : ['0', ...parts];
+
+  try {
+    const parseField = (field: string, spec: FieldSpec) => {
+      const values = new Set<number>();
+      field.split(',').forEach(item => parseItem(item, spec, values));
+      return values;
+    };
+
+    const daysOfMonth = new Set<number>();
+    const lastDayOffsets: number[] = [];
+    for (const item of dayOfMonth.split(',')) {
+      const match = item.toUpperCase().match(/^L(?:-(\d+))?$/);
+      if (match) {
+        const offset = match[1] ? parseInt(match[1], 10) : 0;
+        if (offset > 30) {
+          throw new Error(`日期字段 "${item}" 超出范围`);
+        }
+        lastDayOffsets.push(offset);
+      } else {
+        parseItem(item, FIELDS.dayOfMonth, daysOfMonth);
+      }
+    }
+
+    const daysOfWeek = new Set<number>();
+    const lastWeekdays = new Set<number>();
+    for (const item of dayOfWeek.split(',')) {
+      const match = item.match(/^(\w+)L$/i);
+      if (match) {
+        lastWeekdays.add(parseValue(match[1], FIELDS.dayOfWeek) % 7);
+      } else {
+        const values = new Set<number>();
+        parseItem(item, FIELDS.dayOfWeek, values);
+        values.forEach(value => daysOfWeek.add(value % 7)); // 7 也表示周日
+      }
+    }
+
+    return {
+      cron: {
+        seconds: parseField(second, FIELDS.second),
+        minutes: parseField(minute, FIELDS.minute),
+        hours: parseField(hour, FIELDS.hour),
+        daysOfMonth,
+        lastDayOffsets,
+        months: parseField(month, FIELDS.month),
+        daysOfWeek,
+        lastWeekdays,
+        domRestricted: !isWildcard(dayOfMonth),
+        dowRestricted: !isWildcard(dayOfWeek)
+      }
+    };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// 时刻在指定时区的墙上时间，用 UTC 字段表示的时间戳（只用于按字段计算）
+function toWallClock(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+}
+
+// 墙上时间对应的时刻：夏令时回拨重复的时间取第一次出现，跳过的时间顺延到跳变之后
+function fromWallClock(wall: number, timezone: string): number {
+  const offsetBefore = toWallClock(wall - DAY_MS, timezone) - (wall - DAY_MS);
+  const offsetAfter = toWallClock(wall + DAY_MS, timezone) - (wall + DAY_MS);
+  const candidates = [wall - offsetBefore, wall - offsetAfter]
+    .filter(instant => toWallClock(instant, timezone) === wall);
+  return candidates.length > 0 ? Math.min(...candidates) : wall - offsetBefore;
+}
+
+// 按时区格式化为 YYYY-MM-DD HH:mm:ss
+export function formatInTimezone(date: Date, timezone: string): string {
+  return new Date(toWallClock(date.getTime(), timezone)).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function matchesDay(cron: CronExpression, wall: Date): boolean {
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth();
+  const day = wall.getUTCDate();
+  const weekday = wall.getUTCDay();
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  const domMatch = cron.daysOfMonth.has(day) || cron.lastDayOffsets.some(offset => day === lastDay - offset);
+  const dowMatch = cron.daysOfWeek.has(weekday) || (cron.lastWeekdays.has(weekday) && day + 7 > lastDay);
+
+  // 与标准 cron 一致：日和周都有限定时满足其一即可
+  if (cron.domRestricted && cron.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  if (cron.domRestricted) {
+    return domMatch;
+  }
+  if (cron.dowRestricted) {
+    return dowMatch;
+  }
+  return true;
+}
+
+// 计算 from 之后的下 count 次执行时间；表达式在搜索范围内不再匹配时返回的数量可能少于 count
+export function getNextRunTimes(expression: string, timezone: string = DEFAULT_TIMEZONE, count = 1, from: Date = new Date()): Date[] {
+  const { cron, error } = parseCron(expression);
+  if (!cron) {
+    throw new Error(error);
+  }
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`无效的时区: ${timezone}`);
+  }
+
+  const results: Date[] = [];
+  let after = Math.floor(from.getTime() / 1000) * 1000;
+  const wall = new Date(toWallClock(after, timezone) + 1000);
+  const endYear = wall.getUTCFullYear() + SEARCH_YEARS;
+
+  while (results.length < count && wall.getUTCFullYear() <= endYear) {
+    if (!cron.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    if (!cron.seconds.has(wall.getUTCSeconds())) {
+      wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+      continue;
+    }
+
+    const instant = fromWallClock(wall.getTime(), timezone);
+    if (instant > after) {
+      results.push(new Date(instant));
+      after = instant;
+    }
+    wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+  }
+
+  return results;
+}
+
+export function getNextRunTime(expression: string, timezone: string = DEFAULT_TIMEZONE, from: Date = new Date()): Date | null {
+  return getNextRunTimes(expression, timezone, 1, from)[0] || null;
+}
@@ -0,0 +1,276 @@
+import { PVEManager } from './pve-manager';
+import { parseVMTags } from './inventory';
+
+// 动态分组：成员由保存的规则决定，每次使用时对资源清单实时求值（所有条件同时满足）
+export type GroupType = 'static' | 'dynamic';
+
+export interface GroupRules {
+  name?: string; // 名称正则（不区分大小写）
+  tags?: string[]; // 需同时包含的PVE标签
+  nodes?: string[];
+  connections?: string[]; // 连接ID
+  type?: 'qemu' | 'lxc';
+  pools?: string[];
+  statuses?: string[];
+}
+
+// 分组成员：静态分组来自 vm_group_members，动态分组来自资源清单（没有启动顺序设置）
+export interface GroupMember {
+  id?: number;
+  connection_id: string;
+  node: string;
+  vmid: number;
+  type?: 'qemu' | 'lxc';
+  vmname?: string;
+  vmstatus?: string;
+  connectionName?: string;
+  boot_order: number;
+  start_delay: number;
+  readiness: any;
+}
+
+export interface GroupMembersResult {
+  members: GroupMember[];
+  errors: Array<{ connectionId?: string; connectionName?: string; error: string }>; // 无法读取清单的连接
+}
+
+const MAX_NAME_PATTERN_LENGTH = 200;
+const QUANTIFIER_PATTERN = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+const GROUP_PREFIX_PATTERN = /^\?(?:[:=!]|<[=!]|<[A-Za-z_]\w*>)/;
+
+// 名称正则会对每个VM求值，拒绝可能导致灾难性回溯的写法：
+// 被 * + {n} 等量词修饰的分组内不能再包含量词或分支（如 (a+)+、(a|aa)*），也不支持反向引用
+export function isSafeNamePattern(pattern: string): boolean {
+  const groups: boolean[] = []; // 每层分组内是否出现量词或分支
+  let lastGroupComplex = false; // 前一个原子是否为包含量词或分支的分组
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) {
+        return false;
+      }
+      i++;
+      lastGroupComplex = false;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+      lastGroupComplex = false;
+      continue;
+    }
+    if (char === '(') {
+      groups.push(false);
+      const prefix = pattern.slice(i + 1).match(GROUP_PREFIX_PATTERN);
+      i += prefix ? prefix[0].length : 0;
+      continue;
+    }
+    if (char === ')') {
+      lastGroupComplex = groups.pop() ?? false;
+      if (lastGroupComplex && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+      continue;
+    }
+    if (char === '|') {
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+      lastGroupComplex = false;
+      continue;
+    }
+
+    const quantifier = pattern.slice(i).match(QUANTIFIER_PATTERN);
+    if (quantifier) {
+      if (lastGroupComplex && quantifier[0] !== '?') {
+        return false;
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+      i += quantifier[0].length - 1;
+      if (pattern[i + 1] === '?') {
+        i++;
+      }
+    }
+    lastGroupComplex = false;
+  }
+  return true;
+}
+
+function normalizeList(value: any, field: string): { list?: string[]; error?: string } {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+    return { error: `${field} 必须是非空字符串数组` };
+  }
+  const list = [...new Set(value.map((item: string) => item.trim()))];
+  return list.length > 0 ? { list } : {};
+}
+
+// 校验并规范化分组规则，至少需要一个条件
+export function normalizeGroupRules(rules: any): { rules?: GroupRules; error?: string } {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    return { error: '动态分组需要提供规则 rules' };
+  }
+
+  const normalized: GroupRules = {};
+  if (rules.name !== undefined && rules.name !== null && rules.name !== '') {
+    if (typeof rules.name !== 'string' || rules.name.length > MAX_NAME_PATTERN_LENGTH) {
+      return { error: `名称规则必须是不超过 ${MAX_NAME_PATTERN_LENGTH} 个字符的正则表达式` };
+    }
+    try {
+      new RegExp(rules.name, 'i');
+    } catch (error: any) {
+      return { error: `名称正则无效: ${error.message}` };
+    }
+    if (!isSafeNamePattern(rules.name)) {
+      return { error: '名称正则不能包含嵌套量词（如 (a+)+）、被量词修饰的分支（如 (a|b)*）或反向引用' };
+    }
+    normalized.name = rules.name;
+  }
+
+  const lists: Array<[keyof GroupRules, string]> = [
+    ['tags', 'tags'], ['nodes', 'nodes'], ['connections', 'connections'], ['pools', 'pools'], ['statuses', 'statuses']
+  ];
+  for (const [key, field] of lists) {
+    const { list, error } = normalizeList(rules[key], field);
+    if (error) {
+      return { error };
+    }
+    if (list) {
+      (normalized as any)[key] = list;
+    }
+  }
+
+  if (rules.type !== undefined && rules.type !== null && rules.type !== '') {
+    if (rules.type !== 'qemu' && rules.type !== 'lxc') {
+      return { error: 'type 必须是 qemu 或 lxc' };
+    }
+    normalized.type = rules.type;
+  }
+
+  if (Object.keys(normalized).length === 0) {
+    return { error: '动态分组规则至少需要一个条件' };
+  }
+  return { rules: normalized };
+}
+
+export type GroupRulesMatcher = (vm: any, connectionId: string) => boolean;
+
+// 将规则编译为匹配函数，名称正则只编译一次；规则校验之前保存的不安全正则不匹配任何VM
+export function compileGroupRules(rules: GroupRules): GroupRulesMatcher {
+  if (rules.name && !isSafeNamePattern(rules.name)) {
+    console.warn(`动态分组名称正则可能导致回溯过慢，已忽略该分组: ${rules.name}`);
+    return () => false;
+  }
+  const namePattern = rules.name ? new RegExp(rules.name, 'i') : null;
+  return (vm, connectionId) => matchesCompiledRules(vm, connectionId, rules, namePattern);
+}
+
+// 判断虚拟机是否满足规则；对多个VM求值时应使用 compileGroupRules
+export function matchesGroupRules(vm: any, connectionId: string, rules: GroupRules): boolean {
+  return compileGroupRules(rules)(vm, connectionId);
+}
+
+// 模板不计入动态分组
+function matchesCompiledRules(vm: any, connectionId: string, rules: GroupRules, namePattern: RegExp | null): boolean {
+  if (vm.template === 1) {
+    return false;
+  }
+  if (namePattern && !namePattern.test(vm.name || '')) {
+    return false;
+  }
+  if (rules.tags) {
+    const tags = parseVMTags(vm.tags);
+    if (!rules.tags.every(tag => tags.includes(tag))) {
+      return false;
+    }
+  }
+  if (rules.nodes && !rules.nodes.includes(vm.node)) {
+    return false;
+  }
+  if (rules.connections && !rules.connections.includes(connectionId)) {
+    return false;
+  }
+  if (rules.type && vm.type !== rules.type) {
+    return false;
+  }
+  if (rules.pools && !rules.pools.includes(vm.pool)) {
+    return false;
+  }
+  if (rules.statuses && !rules.statuses.includes(vm.status)) {
+    return false;
+  }
+  return true;
+}
+
+export function parseGroup(row: any) {
+  return { ...row, type: row.type || 'static', rules: row.rules ? JSON.parse(row.rules) : null };
+}
+
+export function parseGroupMember(row: any): GroupMember {
+  return { ...row, readiness: row.readiness ? JSON.parse(row.readiness) : null };
+}
+
+// 对资源清单求值动态规则；allVMs 可由调用方预先获取，以便一次求值多个分组
+export function evaluateGroupRules(rules: GroupRules, allVMs: any[]): GroupMember[] {
+  const matches = compileGroupRules(rules);
+  return allVMs
+    .filter(vm => matches(vm, vm.connectionId))
+    .map(vm => ({
+      connection_id: vm.connectionId,
+      node: vm.node,
+      vmid: vm.vmid,
+      type: vm.type,
+      vmname: vm.name,
+      vmstatus: vm.status,
+      connectionName: vm.connectionName,
+      boot_order: 0,
+      start_delay: 0,
+      readiness: null
+    }))
+    .sort((a, b) => a.connection_id.localeCompare(b.connection_id) || a.vmid - b.vmid);
+}
+
+// 获取分组的当前成员，静态分组按启动顺序返回
+export async function resolveGroupMembers(database: any, pveManager: PVEManager, group: any): Promise<GroupMembersResult> {
+  const { type, rules } = parseGroup(group);
+  if (type === 'dynamic') {
+    const { data, errors } = await pveManager.getAllVMs();
+    return { members: evaluateGroupRules(rules, data), errors };
+  }
+
+  const rows = await database.query('SELECT * FROM vm_group_members WHERE group_id = ? ORDER BY boot_order, id', [group.id]);
+  return { members: rows.map(parseGroupMember), errors: [] };
+}
+
+// 新增或改名的VM满足动态分组规则时推送 group-member-joined，客户端据此刷新分组
+export function watchDynamicGroups(database: any, pveManager: PVEManager): void {
+  const onChange = async (data: any) => {
+    try {
+      const groups = (await database.query(`SELECT * FROM vm_groups WHERE type = 'dynamic'`)).map(parseGroup);
+      for (const group of groups) {
+        if (group.rules && matchesGroupRules(data.vm, data.connectionId, group.rules)) {
+          pveManager.emit('group-member-joined', {
+            groupId: group.id,
+            groupName: group.name,
+            connectionId: data.connectionId,
+            vm: data.vm
+          });
+        }
+      }
+    } catch (error: any) {
+      console.error('动态分组求值失败:', error.message);
+    }
+  };
+
+  pveManager.on('vm-added', onChange);
+  pveManager.on('vm-renamed', onChange);
+}
@@ -0,0 +1,100 @@
+import { VMInfo } from './pve-api';
+
+// 资源清单持久化：将每次拉取的清单同步到 virtual_machines，并在 vm_inventory_history 记录变化
+export type InventoryHistoryEvent = 'added' | 'removed' | 'migrated' | 'renamed';
+
+interface Operation {
+  sql: string;
+  params: any[];
+}
+
+// 同一连接的同步串行执行，避免两次刷新同时插入同一VM
+const pendingSyncs: Map<string, Promise<void>> = new Map();
+
+// 与 SQLite CURRENT_TIMESTAMP 相同的格式（UTC，YYYY-MM-DD HH:MM:SS）
+export function toDbTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+export function syncInventory(database: any, connectionId: string, vms: VMInfo[], seenAt: Date = new Date()): Promise<void> {
+  const previous = pendingSyncs.get(connectionId) || Promise.resolve();
+  const current = previous
+    .catch(() => undefined)
+    .then(() => applyInventory(database, connectionId, vms, seenAt))
+    .finally(() => {
+      if (pendingSyncs.get(connectionId) === current) {
+        pendingSyncs.delete(connectionId);
+      }
+    });
+  pendingSyncs.set(connectionId, current);
+  return current;
+}
+
+async function applyInventory(database: any, connectionId: string, vms: VMInfo[], seenAt: Date): Promise<void> {
+  const timestamp = toDbTimestamp(seenAt);
+  const rows = await database.query(
+    'SELECT * FROM virtual_machines WHERE connection_id = ? AND deleted_at IS NULL',
+    [connectionId]
+  );
+  const active = new Map<number, any>(rows.map((row: any) => [row.vmid, row]));
+  const operations: Operation[] = [];
+
+  const addHistory = (row: { id: string; vmid: number; node: string; name: string }, event: InventoryHistoryEvent, oldValue: string | null, newValue: string | null) => {
+    operations.push({
+      sql: `INSERT INTO vm_inventory_history (vm_id, connection_id, vmid, event, old_value, new_value, node, name, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      params: [row.id, connectionId, row.vmid, event, oldValue, newValue, row.node, row.name, timestamp]
+    });
+  };
+
+  const markRemoved = (row: any) => {
+    operations.push({
+      sql: 'UPDATE virtual_machines SET deleted_at = ?, updated_at = ? WHERE id = ?',
+      params: [timestamp, timestamp, row.id]
+    });
+    addHistory(row, 'removed', null, null);
+  };
+
+  for (const vm of vms) {
+    const name = vm.name || `${vm.type === 'lxc' ? 'CT' : 'VM'} ${vm.vmid}`;
+    let row = active.get(vm.vmid);
+    active.delete(vm.vmid);
+
+    // 类型不同说明VMID已被删除后重用
+    if (row && row.type !== vm.type) {
+      markRemoved(row);
+      row = undefined;
+    }
+
+    if (!row) {
+      const id = `${connectionId}-${vm.vmid}-${seenAt.getTime()}`;
+      operations.push({
+        sql: `INSERT INTO virtual_machines (id, connection_id, node, vmid, name, type, status, first_seen, last_seen, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        params: [id, connectionId, vm.node, vm.vmid, name, vm.type, vm.status, timestamp, timestamp, timestamp, timestamp]
+      });
+      addHistory({ id, vmid: vm.vmid, node: vm.node, name }, 'added', null, null);
+      continue;
+    }
+
+    const current = { id: row.id, vmid: vm.vmid, node: vm.node, name };
+    if (row.node !== vm.node) {
+      addHistory(current, 'migrated', row.node, vm.node);
+    }
+    if (row.name !== name) {
+      addHistory(current, 'renamed', row.name, name);
+    }
+    operations.push({
+      sql: 'UPDATE virtual_machines SET node = ?, name = ?, status = ?, last_seen = ?, updated_at = ? WHERE id = ?',
+      params: [vm.node, name, vm.status, timestamp, timestamp, row.id]
+    });
+  }
+
+  for (const row of active.values()) {
+    markRemoved(row);
+  }
+
+  if (operations.length > 0) {
+    await database.transaction(operations);
+  }
+}
@@ -0,0 +1,68 @@
+import { PVENode } from '../config/pve';
+import { VMInfo } from './pve-api';
+
+// 资源清单：由 /cluster/resources 一次请求得到的虚拟机和节点快照
+export interface InventorySnapshot {
+  vms: Map<number, VMInfo>; // key 为 vmid（集群内唯一）
+  nodes: PVENode[];
+  updatedAt: Date;
+}
+
+export type InventoryChange =
+  | { type: 'vm-added'; vm: VMInfo }
+  | { type: 'vm-removed'; vm: VMInfo }
+  | { type: 'vm-status-changed'; vm: VMInfo; from: string; to: string }
+  | { type: 'vm-migrated'; vm: VMInfo; fromNode: string; toNode: string }
+  | { type: 'vm-renamed'; vm: VMInfo; fromName: string; toName: string };
+
+// PVE标签以分号分隔（旧版本也可能使用逗号或空格）
+export function parseVMTags(tags?: string): string[] {
+  return tags ? tags.split(/[;,\s]+/).filter(Boolean) : [];
+}
+
+// 将 /cluster/resources 的结果拆分为虚拟机和节点
+export function parseClusterResources(resources: any[]): { vms: Map<number, VMInfo>; nodes: PVENode[] } {
+  const vms = new Map<number, VMInfo>();
+  const nodes: PVENode[] = [];
+
+  for (const resource of resources) {
+    if (resource.type === 'qemu' || resource.type === 'lxc') {
+      vms.set(resource.vmid, { ...resource, type: resource.type });
+    } else if (resource.type === 'node') {
+      nodes.push({ ...resource, status: resource.status || 'unknown' });
+    }
+  }
+
+  return { vms, nodes };
+}
+
+// 比较前后两次快照，得到虚拟机的增删、状态变化、迁移和改名
+export function diffInventory(previous: Map<number, VMInfo>, current: Map<number, VMInfo>): InventoryChange[] {
+  const changes: InventoryChange[] = [];
+
+  for (const [vmid, vm] of current) {
+    const before = previous.get(vmid);
+    if (!before) {
+      changes.push({ type: 'vm-added', vm });
+      continue;
+    }
+
+    if (before.node !== vm.node) {
+      changes.push({ type: 'vm-migrated', vm, fromNode: before.node, toNode: vm.node });
+    }
+    if (before.status !== vm.status) {
+      changes.push({ type: 'vm-status-changed', vm, from: before.status, to: vm.status });
+    }
+    if (before.name !== vm.name) {
+      changes.push({ type: 'vm-renamed', vm, fromName: before.name, toName: vm.name });
+    }
+  }
+
+  for (const [vmid, vm] of previous) {
+    if (!current.has(vmid)) {
+      changes.push({ type: 'vm-removed', vm });
+    }
+  }
+
+  return changes;
+}
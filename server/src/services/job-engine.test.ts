@@ -0,0 +1,167 @@
+import { EventEmitter } from 'events';
+import { Job, JobEngine, JobHandler, JobItem, JobTarget } from './job-engine';
+
+const user = { id: 'u1', username: 'admin' };
+const FINISHED = ['completed', 'partial', 'failed', 'cancelled'];
+
+// 模拟 database 中 jobs / job_items 两张表的读写，数据保存在内存中
+function createFakeDb() {
+  const jobs: any[] = [];
+  const items: any[] = [];
+  let nextItemId = 1;
+
+  const insert = (sql: string, params: any[]) => {
+    if (sql.includes('INSERT INTO jobs')) {
+      const [id, type, jobParams, max_retries, total, hold_until, user_id, username, created_at] = params;
+      jobs.push({
+        id, type, status: 'queued', params: jobParams, max_retries, total, succeeded: 0, failed: 0, skipped: 0,
+        cancel_requested: 0, hold_until, error: null, user_id, username, created_at, started_at: null, finished_at: null
+      });
+    } else {
+      const [job_id, seq, stage, options, connection_id, node, vmid, type] = params;
+      items.push({
+        id: nextItemId++, job_id, seq, stage, options, connection_id, node, vmid, type, vmname: null, status: 'pending',
+        attempts: 0, task_id: null, exitstatus: null, error: null, started_at: null, finished_at: null
+      });
+    }
+  };
+
+  const countItems = (jobId: string, status: string) => items.filter(item => item.job_id === jobId && item.status === status).length;
+
+  return {
+    jobs,
+    items,
+    transaction: async (operations: { sql: string; params: any[] }[]) => operations.forEach(op => insert(op.sql, op.params)),
+    get: async (_sql: string, params: any[]) => {
+      const job = jobs.find(row => row.id === params[0]);
+      return job ? { ...job } : undefined;
+    },
+    query: async (_sql: string, params: any[]) => items
+      .filter(item => item.job_id === params[0])
+      .sort((a, b) => a.stage - b.stage || a.seq - b.seq)
+      .map(item => ({ ...item })),
+    run: async (sql: string, params: any[]) => {
+      const table = sql.includes('UPDATE jobs') ? jobs : items;
+      const row = table.find(r => r.id === params[params.length - 1]);
+      if (sql.includes('succeeded = (SELECT')) {
+        row.succeeded = countItems(row.id, 'success');
+        row.failed = countItems(row.id, 'failed');
+        row.skipped = countItems(row.id, 'skipped');
+      } else if (sql.includes("status = 'running'")) {
+        row.status = 'running';
+        row.started_at = row.started_at || params[0];
+      } else {
+        const columns = [...sql.matchAll(/(\w+) = \?/g)].map(match => match[1]).filter(column => column !== 'id');
+        columns.forEach((column, index) => { row[column] = params[index]; });
+      }
+    }
+  };
+}
+
+function setup() {
+  const db = createFakeDb();
+  const events = new EventEmitter();
+  const engine = new JobEngine(db, events as any, { retryDelay: 0 });
+
+  // 创建任务并等待其结束
+  const runJob = async (handler: JobHandler, targets: JobTarget[], params: any = {}, maxRetries: number = 0): Promise<{ job: Job; items: JobItem[] }> => {
+    engine.register('vm_action', handler);
+    const done = new Promise<Job>(resolve => {
+      events.on('job-updated', (job: Job) => {
+        if (FINISHED.includes(job.status)) {
+          resolve(job);
+        }
+      });
+    });
+    await engine.create('vm_action', params, targets, user, maxRetries);
+    const job = await done;
+    return { job, items: await engine.getItems(job.id) };
+  };
+
+  return { db, runJob };
+}
+
+const target = (vmid: number, stage?: number): JobTarget => ({ connection_id: 'c1', node: `pve${vmid % 2}`, vmid, type: 'qemu', stage });
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('JobEngine 阶段执行', () => {
+  it('按阶段从小到大依次执行，前一阶段全部结束后才开始下一阶段', async () => {
+    const { runJob } = setup();
+    const log: string[] = [];
+    const { job } = await runJob(async (item) => {
+      log.push(`start:${item.vmid}`);
+      await tick();
+      log.push(`end:${item.vmid}`);
+      return { status: 'success' };
+    }, [target(301, 20), target(101, 0), target(201, 10), target(102, 0), target(401, -10)]);
+
+    expect(job.status).toBe('completed');
+    expect(job.succeeded).toBe(5);
+    expect(log.slice(0, 2)).toEqual(['start:401', 'end:401']);
+    expect(log.slice(2, 4).sort()).toEqual(['start:101', 'start:102']);
+    expect(log.slice(4, 6).sort()).toEqual(['end:101', 'end:102']);
+    expect(log.slice(6)).toEqual(['start:201', 'end:201', 'start:301', 'end:301']);
+  });
+
+  it('stopOnFailure 时前序阶段失败则取消后续阶段', async () => {
+    const { runJob } = setup();
+    const handled: number[] = [];
+    const { job, items } = await runJob(async (item) => {
+      handled.push(item.vmid);
+      return item.vmid === 101 ? { status: 'failed', error: '启动失败' } : { status: 'success' };
+    }, [target(101, 0), target(102, 0), target(201, 10), target(301, 20)], { stopOnFailure: true });
+
+    expect(handled.sort()).toEqual([101, 102]);
+    expect(items.map(item => [item.vmid, item.status])).toEqual([
+      [101, 'failed'], [102, 'success'], [201, 'cancelled'], [301, 'cancelled']
+    ]);
+    expect(items[2].error).toBe('前序阶段执行失败，未执行');
+    expect(job.status).toBe('partial');
+    expect(job.succeeded).toBe(1);
+    expect(job.failed).toBe(1);
+  });
+
+  it('未设置 stopOnFailure 时失败后继续执行后续阶段', async () => {
+    const { runJob } = setup();
+    const { job, items } = await runJob(async (item) => (
+      item.vmid === 101 ? { status: 'failed', error: '启动失败' } : { status: 'success' }
+    ), [target(101, 0), target(201, 10)]);
+
+    expect(items.map(item => item.status)).toEqual(['failed', 'success']);
+    expect(job.status).toBe('partial');
+  });
+});
+
+describe('JobEngine 失败重试', () => {
+  it('重试时清除上次的PVE任务ID和错误，重新发送命令', async () => {
+    const { db, runJob } = setup();
+    const seen: Array<string | null> = [];
+    const { job, items } = await runJob(async (item, _params, context) => {
+      seen.push(item.task_id);
+      if (item.attempts === 1) {
+        await context.setTask('UPID:first');
+        return { status: 'failed', exitstatus: 'ERROR', error: '第一次失败' };
+      }
+      return { status: 'success', vmname: 'web01', exitstatus: 'OK' };
+    }, [target(101)], {}, 1);
+
+    expect(seen).toEqual([null, null]);
+    expect(items[0]).toMatchObject({ status: 'success', attempts: 2, task_id: null, error: null, exitstatus: 'OK', vmname: 'web01' });
+    expect(db.items[0].finished_at).not.toBeNull();
+    expect(job.status).toBe('completed');
+  });
+
+  it('处理器抛出异常按失败处理，超过重试次数后不再重试', async () => {
+    const { runJob } = setup();
+    let calls = 0;
+    const { job, items } = await runJob(async () => {
+      calls++;
+      throw new Error(`第${calls}次失败`);
+    }, [target(101)], {}, 2);
+
+    expect(calls).toBe(3);
+    expect(items[0]).toMatchObject({ status: 'failed', attempts: 3, error: '第3次失败' });
+    expect(job.status).toBe('failed');
+    expect(job.failed).toBe(1);
+  });
+});
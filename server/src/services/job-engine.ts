@@ -0,0 +1,430 @@
+import { randomUUID } from 'crypto';
+import { PVEManager } from './pve-manager';
+import { ConcurrencyLimiter } from './concurrency';
+import { toDbTimestamp } from './inventory-store';
+
+// 持久化的后台批量任务：任务和逐项状态保存在 jobs / job_items 表，进度通过 PVEManager 事件推送
+export type JobType = 'vm_action' | 'backup' | 'group_action';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'partial' | 'failed' | 'cancelled';
+export type JobItemStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped' | 'cancelled';
+
+export interface JobTarget {
+  connection_id: string;
+  node: string;
+  vmid: number;
+  type?: 'qemu' | 'lxc' | null;
+  stage?: number; // 执行阶段，阶段之间依次执行，默认全部为 0（一起并发）
+  options?: any; // 条目级参数，传给处理器
+}
+
+export interface JobItem extends JobTarget {
+  id: number;
+  job_id: string;
+  seq: number;
+  stage: number;
+  options: any;
+  vmname: string | null;
+  status: JobItemStatus;
+  attempts: number;
+  task_id: string | null;
+  exitstatus: string | null;
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  params: any;
+  max_retries: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  cancel_requested: number;
+  hold_until: string | null; // 等待维护窗口，到达该时间后再检查并开始执行
+  error: string | null;
+  user_id: string | null;
+  username: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface JobItemOutcome {
+  status: 'success' | 'failed' | 'skipped';
+  vmname?: string;
+  type?: 'qemu' | 'lxc';
+  exitstatus?: string;
+  error?: string;
+}
+
+export interface JobContext {
+  // 记录已发送的PVE任务ID；服务重启后恢复执行时 item.task_id 不为空，处理器应继续等待该任务而不是重新发送
+  setTask(taskId: string): Promise<void>;
+  // 任务是否已请求取消，长时间等待的处理器应定期检查
+  isCancelled(): boolean;
+}
+
+export type JobHandler = (item: JobItem, params: any, context: JobContext) => Promise<JobItemOutcome>;
+
+// 保留的任务到达 hold_until 时再次检查：返回新的 holdUntil 继续等待，返回 error 则任务失败，否则开始执行
+export type JobHoldCheck = (job: Job, items: JobItem[]) => Promise<{ holdUntil?: Date; error?: string }>;
+
+export interface JobEngineOptions {
+  maxConcurrent: number; // 全局同时执行的条目数
+  maxPerConnection: number; // 每个PVE连接同时执行的条目数
+  maxPerNode: number; // 每个节点同时执行的条目数
+  retryDelay: number; // 重试的基础间隔（毫秒），按尝试次数递增
+}
+
+export const MAX_JOB_RETRIES = 5;
+
+const DEFAULT_OPTIONS: JobEngineOptions = {
+  maxConcurrent: 16,
+  maxPerConnection: 8,
+  maxPerNode: 4,
+  retryDelay: 5000
+};
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'partial', 'failed', 'cancelled'];
+// 定时器的最长间隔，超过时到期后重新计算
+const MAX_HOLD_TIMER = 24 * 60 * 60 * 1000;
+
+// 校验批量请求中的虚拟机列表 [{connection_id, node, vmid, type}]，requireType 为 false 时允许缺少类型
+export function validateJobTargets(vms: any, requireType: boolean = true): string | null {
+  if (!Array.isArray(vms) || vms.length === 0) {
+    return '请提供要操作的虚拟机列表';
+  }
+  const invalid = vms.some((vm: any) =>
+    !vm || !vm.connection_id || !vm.node || !Number.isInteger(vm.vmid) ||
+    (requireType ? vm.type !== 'qemu' && vm.type !== 'lxc' : false)
+  );
+  return invalid ? '虚拟机列表中每项需要 connection_id, node, vmid' + (requireType ? ', type' : '') : null;
+}
+
+// 失败重试次数，默认重试一次
+export function parseJobRetries(value: any): number | null {
+  if (value === undefined || value === null) {
+    return 1;
+  }
+  return Number.isInteger(value) && value >= 0 && value <= MAX_JOB_RETRIES ? value : null;
+}
+
+function now(): string {
+  return toDbTimestamp(new Date());
+}
+
+function parseJob(row: any): Job {
+  return { ...row, params: row.params ? JSON.parse(row.params) : {} };
+}
+
+function parseItem(row: any): JobItem {
+  return { ...row, options: row.options ? JSON.parse(row.options) : null };
+}
+
+export class JobEngine {
+  private handlers: Map<JobType, JobHandler> = new Map();
+  private nodeLimiter: ConcurrencyLimiter;
+  private connectionLimiter: ConcurrencyLimiter;
+  private running: Set<string> = new Set();
+  private cancelled: Set<string> = new Set();
+  private holdTimers: Map<string, NodeJS.Timeout> = new Map();
+  private holdCheck: JobHoldCheck | null = null;
+  private options: JobEngineOptions;
+
+  constructor(private database: any, private pveManager: PVEManager, options: Partial<JobEngineOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    // 条目先占用节点并发，再占用连接并发；全局上限由节点限制器控制
+    this.nodeLimiter = new ConcurrencyLimiter({ maxConcurrent: this.options.maxConcurrent, maxPerKey: this.options.maxPerNode });
+    this.connectionLimiter = new ConcurrencyLimiter({ maxConcurrent: this.options.maxConcurrent, maxPerKey: this.options.maxPerConnection });
+  }
+
+  register(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  setHoldCheck(check: JobHoldCheck): void {
+    this.holdCheck = check;
+  }
+
+  // 创建任务并立即开始在后台执行，指定 holdUntil 时保持 queued 到该时间再执行；
+  // params.stopOnFailure 为 true 时某阶段有失败条目则不再执行后续阶段
+  async create(type: JobType, params: any, targets: JobTarget[], user: { id: string; username: string }, maxRetries: number = 0, holdUntil?: Date): Promise<Job> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`未注册的任务类型: ${type}`);
+    }
+
+    const id = randomUUID();
+    await this.database.transaction([
+      {
+        sql: `INSERT INTO jobs (id, type, status, params, max_retries, total, hold_until, user_id, username, created_at)
+              VALUES (?, ?, 'queued', ?, ?, ?, ?, ?, ?, ?)`,
+        params: [id, type, JSON.stringify(params), maxRetries, targets.length, holdUntil ? holdUntil.toISOString() : null, user.id, user.username, now()]
+      },
+      ...targets.map((target, seq) => ({
+        sql: `INSERT INTO job_items (job_id, seq, stage, options, connection_id, node, vmid, type) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        params: [id, seq, target.stage ?? 0, target.options ? JSON.stringify(target.options) : null,
+          target.connection_id, target.node, target.vmid, target.type || null]
+      }))
+    ]);
+
+    const job = (await this.getJob(id))!;
+    this.pveManager.emit('job-updated', job);
+    if (job.hold_until) {
+      this.hold(id, job.hold_until);
+    } else {
+      this.start(id);
+    }
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | null> {
+    const row = await this.database.get('SELECT * FROM jobs WHERE id = ?', [id]);
+    return row ? parseJob(row) : null;
+  }
+
+  async getItems(id: string): Promise<JobItem[]> {
+    const rows = await this.database.query('SELECT * FROM job_items WHERE job_id = ? ORDER BY stage, seq', [id]);
+    return rows.map(parseItem);
+  }
+
+  async list(filters: { status?: string; type?: string; userId?: string; limit?: number; offset?: number } = {}): Promise<{ jobs: Job[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.type) {
+      conditions.push('type = ?');
+      params.push(filters.type);
+    }
+    if (filters.userId) {
+      conditions.push('user_id = ?');
+      params.push(filters.userId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filters.limit ?? 50;
+    const offset = filters.offset ?? 0;
+
+    const rows = await this.database.query(`SELECT * FROM jobs ${where} ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`, [...params, limit, offset]);
+    const count = await this.database.get(`SELECT COUNT(*) as total FROM jobs ${where}`, params);
+    return { jobs: rows.map(parseJob), total: count.total };
+  }
+
+  // 请求取消：未开始的条目标记为 cancelled，执行中的条目（已发送给PVE的命令）等待其结束
+  async cancel(id: string): Promise<Job | null> {
+    const job = await this.getJob(id);
+    if (!job || FINISHED_STATUSES.includes(job.status)) {
+      return job;
+    }
+
+    await this.database.run('UPDATE jobs SET cancel_requested = 1 WHERE id = ?', [id]);
+    if (this.holdTimers.has(id)) {
+      clearTimeout(this.holdTimers.get(id));
+      this.holdTimers.delete(id);
+    }
+    if (this.running.has(id)) {
+      this.cancelled.add(id);
+    } else {
+      await this.database.run(`UPDATE job_items SET status = 'cancelled', finished_at = ? WHERE job_id = ? AND status = 'pending'`, [now(), id]);
+      await this.finish(id);
+    }
+    return this.getJob(id);
+  }
+
+  // 服务启动时恢复未完成的任务；中断时执行中的条目重新排队（已记录的PVE任务会继续等待）
+  async recover(): Promise<number> {
+    const rows = await this.database.query(`SELECT id, cancel_requested, hold_until FROM jobs WHERE status IN ('queued', 'running')`);
+    for (const row of rows) {
+      await this.database.run(`UPDATE job_items SET status = 'pending' WHERE job_id = ? AND status = 'running'`, [row.id]);
+      if (row.cancel_requested) {
+        this.cancelled.add(row.id);
+      }
+      if (row.hold_until && !row.cancel_requested) {
+        this.hold(row.id, row.hold_until);
+      } else {
+        this.start(row.id);
+      }
+    }
+    return rows.length;
+  }
+
+  // 保留任务到 holdUntil，等待期间不占用执行位置，可直接取消
+  private hold(id: string, holdUntil: string): void {
+    const delay = new Date(holdUntil).getTime() - Date.now();
+    if (delay <= 0) {
+      this.release(id).catch(async (error) => {
+        console.error(`后台任务 ${id} 检查保留状态失败:`, error);
+        await this.database.run(`UPDATE jobs SET status = 'failed', error = ?, finished_at = ? WHERE id = ?`, [error.message, now(), id]).catch(() => undefined);
+      });
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.holdTimers.delete(id);
+      this.hold(id, holdUntil);
+    }, Math.min(delay, MAX_HOLD_TIMER));
+    timer.unref();
+    this.holdTimers.set(id, timer);
+  }
+
+  // 保留时间到达：再次检查（期间可能新增了冻结期），仍不允许执行时继续保留
+  private async release(id: string): Promise<void> {
+    const job = await this.getJob(id);
+    if (!job || FINISHED_STATUSES.includes(job.status)) {
+      return;
+    }
+    if (this.holdCheck && !job.cancel_requested) {
+      const items = await this.getItems(id);
+      const { holdUntil, error } = await this.holdCheck(job, items);
+      if (error) {
+        await this.database.run(`UPDATE job_items SET status = 'cancelled', error = ?, finished_at = ? WHERE job_id = ? AND status = 'pending'`, [error, now(), id]);
+        await this.database.run(`UPDATE jobs SET status = 'failed', error = ?, hold_until = NULL, finished_at = ? WHERE id = ?`, [error, now(), id]);
+        this.pveManager.emit('job-updated', await this.getJob(id));
+        return;
+      }
+      if (holdUntil) {
+        await this.database.run('UPDATE jobs SET hold_until = ? WHERE id = ?', [holdUntil.toISOString(), id]);
+        this.pveManager.emit('job-updated', await this.getJob(id));
+        this.hold(id, holdUntil.toISOString());
+        return;
+      }
+    }
+    await this.database.run('UPDATE jobs SET hold_until = NULL WHERE id = ?', [id]);
+    this.start(id);
+  }
+
+  private start(id: string): void {
+    if (this.running.has(id)) {
+      return;
+    }
+    this.running.add(id);
+    this.run(id)
+      .catch(async (error) => {
+        console.error(`后台任务 ${id} 执行失败:`, error);
+        await this.database.run(`UPDATE jobs SET status = 'failed', error = ?, finished_at = ? WHERE id = ?`, [error.message, now(), id]).catch(() => undefined);
+      })
+      .finally(() => {
+        this.running.delete(id);
+        this.cancelled.delete(id);
+      });
+  }
+
+  private async run(id: string): Promise<void> {
+    const job = await this.getJob(id);
+    if (!job) {
+      return;
+    }
+    const handler = this.handlers.get(job.type)!;
+
+    await this.database.run(`UPDATE jobs SET status = 'running', started_at = COALESCE(started_at, ?) WHERE id = ?`, [now(), id]);
+    this.pveManager.emit('job-updated', await this.getJob(id));
+
+    // 按阶段依次执行，同一阶段内的条目受并发限制并行执行
+    const allItems = await this.getItems(id);
+    const stages = [...new Set(allItems.filter(item => item.status === 'pending').map(item => item.stage))].sort((a, b) => a - b);
+    for (const stage of stages) {
+      const items = allItems.filter(item => item.stage === stage && item.status === 'pending');
+      if (job.params.stopOnFailure && allItems.some(item => item.stage < stage && item.status === 'failed')) {
+        for (const item of items) {
+          await this.updateItem(item, { status: 'cancelled', error: '前序阶段执行失败，未执行', finished_at: now() });
+        }
+        continue;
+      }
+
+      await Promise.all(items.map(item =>
+        this.nodeLimiter.run(`${item.connection_id}:${item.node}`, () =>
+          this.connectionLimiter.run(item.connection_id, () => this.runItem(job, item, handler))
+        )
+      ));
+    }
+
+    await this.finish(id);
+  }
+
+  private async runItem(job: Job, item: JobItem, handler: JobHandler): Promise<void> {
+    while (true) {
+      if (this.cancelled.has(job.id)) {
+        await this.updateItem(item, { status: 'cancelled', finished_at: now() });
+        return;
+      }
+
+      await this.updateItem(item, {
+        status: 'running',
+        attempts: item.attempts + 1,
+        started_at: item.started_at || now(),
+        error: null
+      });
+
+      let outcome: JobItemOutcome;
+      try {
+        outcome = await handler(item, job.params, {
+          setTask: (taskId) => this.updateItem(item, { task_id: taskId }),
+          isCancelled: () => this.cancelled.has(job.id)
+        });
+      } catch (error: any) {
+        outcome = { status: 'failed', error: error.message };
+      }
+
+      const retry = outcome.status === 'failed' && item.attempts <= job.max_retries && !this.cancelled.has(job.id);
+      const changes: Partial<JobItem> = {
+        vmname: outcome.vmname ?? item.vmname,
+        type: outcome.type ?? item.type,
+        exitstatus: outcome.exitstatus ?? null,
+        error: outcome.error ?? null
+      };
+
+      if (!retry) {
+        await this.updateItem(item, { ...changes, status: outcome.status, finished_at: now() });
+        await this.refreshCounters(job.id);
+        return;
+      }
+
+      // 重试时重新发送命令
+      await this.updateItem(item, { ...changes, status: 'pending', task_id: null });
+      await new Promise(resolve => setTimeout(resolve, this.options.retryDelay * item.attempts));
+    }
+  }
+
+  private async updateItem(item: JobItem, changes: Partial<JobItem>): Promise<void> {
+    Object.assign(item, changes);
+    const columns = Object.keys(changes);
+    await this.database.run(
+      `UPDATE job_items SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+      [...columns.map(column => (changes as any)[column]), item.id]
+    );
+    this.pveManager.emit('job-item-updated', { jobId: item.job_id, item: { ...item } });
+  }
+
+  private async refreshCounters(id: string): Promise<void> {
+    await this.database.run(
+      `UPDATE jobs SET
+         succeeded = (SELECT COUNT(*) FROM job_items WHERE job_id = ? AND status = 'success'),
+         failed = (SELECT COUNT(*) FROM job_items WHERE job_id = ? AND status = 'failed'),
+         skipped = (SELECT COUNT(*) FROM job_items WHERE job_id = ? AND status = 'skipped')
+       WHERE id = ?`,
+      [id, id, id, id]
+    );
+    this.pveManager.emit('job-updated', await this.getJob(id));
+  }
+
+  // 根据条目结果确定任务的最终状态
+  private async finish(id: string): Promise<void> {
+    await this.refreshCounters(id);
+    const job = (await this.getJob(id))!;
+    const cancelledItems = job.total - job.succeeded - job.failed - job.skipped;
+
+    let status: JobStatus = 'completed';
+    if (job.cancel_requested && cancelledItems > 0) {
+      status = 'cancelled';
+    } else if (job.failed > 0) {
+      status = job.failed === job.total ? 'failed' : 'partial';
+    }
+
+    await this.database.run('UPDATE jobs SET status = ?, finished_at = ? WHERE id = ?', [status, now(), id]);
+    this.pveManager.emit('job-updated', await this.getJob(id));
+  }
+}
@@ -0,0 +1,300 @@
+import { DEFAULT_TIMEZONE, getNextRunTime, getNextRunTimes, isValidTimezone, parseCron } from './cron';
+
+// 维护窗口和变更冻结期：中断性操作（关机、重启、停机备份等）只能在适用的维护窗口内执行，冻结期内禁止执行；
+// 没有适用于某个VM的维护窗口时不限制执行时间
+export type MaintenanceKind = 'window' | 'freeze';
+
+export interface MaintenanceScope {
+  connection_id?: string;
+  nodes?: string[];
+  vmids?: number[];
+}
+
+export interface MaintenanceWindow {
+  id: string;
+  name: string;
+  description: string | null;
+  kind: MaintenanceKind;
+  schedule_type: 'once' | 'cron';
+  start_at: string | null;
+  end_at: string | null;
+  cron_expression: string | null;
+  duration: number | null; // 周期性窗口每次持续的分钟数
+  timezone: string;
+  scope: MaintenanceScope; // 为空时适用于全部VM和节点
+  suppress_alerts: number;
+  enabled: number;
+}
+
+// 检查的目标：VM (带 vmid) 或节点
+export interface MaintenanceTarget {
+  connection_id: string;
+  node?: string;
+  vmid?: number;
+}
+
+export interface MaintenanceConflict {
+  connection_id: string;
+  node?: string;
+  vmid?: number;
+  reason: 'freeze' | 'outside_window';
+  windows: Array<{ id: string; name: string }>;
+  message: string;
+}
+
+export interface MaintenanceCheck {
+  allowed: boolean;
+  conflicts: MaintenanceConflict[];
+  nextAllowedAt: string | null; // 不允许时最早可以执行的时间，MAX_HOLD_DAYS 内没有时为 null
+}
+
+// 排队等待允许执行的最长时间
+export const MAX_HOLD_DAYS = 31;
+const MAX_DURATION = 7 * 24 * 60;
+// 计算最早允许时间时每个周期性窗口最多展开的次数
+const MAX_OCCURRENCES = 500;
+const DISRUPTIVE_ACTIONS = ['stop', 'shutdown', 'reboot'];
+const DISRUPTIVE_BACKUP_MODES = ['stop', 'suspend'];
+
+// 会中断VM服务的操作：关机、重启，以及停机或挂起模式的备份
+export function isDisruptiveAction(action: string, options: { mode?: string } = {}): boolean {
+  if (DISRUPTIVE_ACTIONS.includes(action) || action === 'restart') {
+    return true;
+  }
+  return action === 'backup' && DISRUPTIVE_BACKUP_MODES.includes(options.mode || '');
+}
+
+export function parseMaintenanceWindow(row: any): MaintenanceWindow {
+  return { ...row, scope: row.scope ? JSON.parse(row.scope) : {} };
+}
+
+function isValidDate(value: any): boolean {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+function normalizeScope(scope: any): { scope?: MaintenanceScope; error?: string } {
+  if (scope === undefined || scope === null) {
+    return { scope: {} };
+  }
+  if (typeof scope !== 'object' || Array.isArray(scope)) {
+    return { error: 'scope 必须是对象' };
+  }
+  const normalized: MaintenanceScope = {};
+  if (scope.connection_id) {
+    if (typeof scope.connection_id !== 'string') {
+      return { error: 'scope.connection_id 必须是字符串' };
+    }
+    normalized.connection_id = scope.connection_id;
+  }
+  if (scope.nodes !== undefined) {
+    if (!Array.isArray(scope.nodes) || scope.nodes.some((node: any) => typeof node !== 'string' || !node)) {
+      return { error: 'scope.nodes 必须是节点名数组' };
+    }
+    if (scope.nodes.length > 0) {
+      normalized.nodes = [...new Set<string>(scope.nodes)];
+    }
+  }
+  if (scope.vmids !== undefined) {
+    if (!Array.isArray(scope.vmids) || scope.vmids.some((vmid: any) => !Number.isInteger(vmid) || vmid <= 0)) {
+      return { error: 'scope.vmids 必须是VMID数组' };
+    }
+    if (scope.vmids.length > 0) {
+      normalized.vmids = [...new Set<number>(scope.vmids)];
+    }
+  }
+  return { scope: normalized };
+}
+
+// 校验创建/更新请求，更新时与现有记录合并后整体校验；返回可直接写入数据库的字段
+export function normalizeMaintenanceWindow(body: any, existing?: MaintenanceWindow): { values?: any; error?: string } {
+  const merged = { ...existing, ...body };
+  const name = typeof merged.name === 'string' ? merged.name.trim() : '';
+  if (!name) {
+    return { error: '请输入名称' };
+  }
+  if (merged.kind !== 'window' && merged.kind !== 'freeze') {
+    return { error: 'kind 必须是 window 或 freeze' };
+  }
+
+  const timezone = merged.timezone || DEFAULT_TIMEZONE;
+  if (!isValidTimezone(timezone)) {
+    return { error: `无效的时区: ${timezone}` };
+  }
+
+  const values: any = {
+    name,
+    description: merged.description || null,
+    kind: merged.kind,
+    schedule_type: merged.schedule_type,
+    start_at: null,
+    end_at: null,
+    cron_expression: null,
+    duration: null,
+    timezone,
+    suppress_alerts: merged.suppress_alerts === false || merged.suppress_alerts === 0 ? 0 : 1,
+    enabled: merged.enabled === false || merged.enabled === 0 ? 0 : 1
+  };
+
+  if (merged.schedule_type === 'once') {
+    if (!isValidDate(merged.start_at) || !isValidDate(merged.end_at)) {
+      return { error: '一次性窗口需要有效的 start_at 和 end_at' };
+    }
+    const start = new Date(merged.start_at);
+    const end = new Date(merged.end_at);
+    if (end <= start) {
+      return { error: '结束时间必须晚于开始时间' };
+    }
+    values.start_at = start.toISOString();
+    values.end_at = end.toISOString();
+  } else if (merged.schedule_type === 'cron') {
+    const { error } = parseCron(merged.cron_expression || '');
+    if (error) {
+      return { error: `cron 表达式无效: ${error}` };
+    }
+    if (!Number.isInteger(merged.duration) || merged.duration < 1 || merged.duration > MAX_DURATION) {
+      return { error: `持续时间必须是 1-${MAX_DURATION} 分钟之间的整数` };
+    }
+    values.cron_expression = merged.cron_expression.trim();
+    values.duration = merged.duration;
+  } else {
+    return { error: 'schedule_type 必须是 once 或 cron' };
+  }
+
+  const { scope, error } = normalizeScope(merged.scope);
+  if (error) {
+    return { error };
+  }
+  values.scope = JSON.stringify(scope);
+  return { values };
+}
+
+// at 时刻所处的一次窗口 [start, end)，不在窗口内时返回 null
+export function getActiveOccurrence(window: MaintenanceWindow, at: Date): { start: Date; end: Date } | null {
+  if (window.schedule_type === 'once') {
+    const start = new Date(window.start_at!);
+    const end = new Date(window.end_at!);
+    return start <= at && at < end ? { start, end } : null;
+  }
+
+  // 在 (at - duration, at] 内开始的一次窗口覆盖 at
+  const duration = window.duration! * 60 * 1000;
+  const start = getNextRunTime(window.cron_expression!, window.timezone || DEFAULT_TIMEZONE, new Date(at.getTime() - duration));
+  if (!start || start > at) {
+    return null;
+  }
+  const end = new Date(start.getTime() + duration);
+  return at < end ? { start, end } : null;
+}
+
+// 窗口的下一次开始时间（不含当前正在进行的一次）
+export function getNextOccurrence(window: MaintenanceWindow, from: Date = new Date()): Date | null {
+  if (window.schedule_type === 'once') {
+    const start = new Date(window.start_at!);
+    return start > from ? start : null;
+  }
+  return getNextRunTime(window.cron_expression!, window.timezone || DEFAULT_TIMEZONE, from);
+}
+
+export function coversTarget(scope: MaintenanceScope, target: MaintenanceTarget): boolean {
+  if (scope.connection_id && scope.connection_id !== target.connection_id) {
+    return false;
+  }
+  const nodes = scope.nodes || [];
+  const vmids = scope.vmids || [];
+  if (nodes.length === 0 && vmids.length === 0) {
+    return true;
+  }
+  return (!!target.node && nodes.includes(target.node)) || (target.vmid !== undefined && vmids.includes(target.vmid));
+}
+
+function describeTarget(target: MaintenanceTarget): string {
+  return target.vmid !== undefined ? `VM ${target.vmid}` : `节点 ${target.node}`;
+}
+
+// at 时刻不允许执行中断性操作的目标
+export function getMaintenanceConflicts(windows: MaintenanceWindow[], targets: MaintenanceTarget[], at: Date): MaintenanceConflict[] {
+  const conflicts: MaintenanceConflict[] = [];
+  for (const target of targets) {
+    const applicable = windows.filter(window => window.enabled && coversTarget(window.scope, target));
+    const base = { connection_id: target.connection_id, node: target.node, vmid: target.vmid };
+
+    const freezes = applicable.filter(window => window.kind === 'freeze' && getActiveOccurrence(window, at));
+    if (freezes.length > 0) {
+      conflicts.push({
+        ...base,
+        reason: 'freeze',
+        windows: freezes.map(({ id, name }) => ({ id, name })),
+        message: `${describeTarget(target)} 处于冻结期: ${freezes.map(w => w.name).join('、')}`
+      });
+      continue;
+    }
+
+    const allowed = applicable.filter(window => window.kind === 'window');
+    if (allowed.length > 0 && !allowed.some(window => getActiveOccurrence(window, at))) {
+      conflicts.push({
+        ...base,
+        reason: 'outside_window',
+        windows: allowed.map(({ id, name }) => ({ id, name })),
+        message: `${describeTarget(target)} 不在维护窗口内: ${allowed.map(w => w.name).join('、')}`
+      });
+    }
+  }
+  return conflicts;
+}
+
+// 窗口在 [from, until] 内的开始和结束时间点，是否允许执行只会在这些时间点变化
+function getBoundaries(window: MaintenanceWindow, from: Date, until: Date): number[] {
+  if (window.schedule_type === 'once') {
+    return [new Date(window.start_at!).getTime(), new Date(window.end_at!).getTime()];
+  }
+  const duration = window.duration! * 60 * 1000;
+  const starts = getNextRunTimes(window.cron_expression!, window.timezone || DEFAULT_TIMEZONE, MAX_OCCURRENCES, new Date(from.getTime() - duration));
+  return starts
+    .filter(start => start <= until)
+    .flatMap(start => [start.getTime(), start.getTime() + duration]);
+}
+
+// 最早允许对全部目标执行中断性操作的时间，MAX_HOLD_DAYS 内没有时返回 null
+export function findNextAllowedTime(windows: MaintenanceWindow[], targets: MaintenanceTarget[], from: Date = new Date()): Date | null {
+  const relevant = windows.filter(window => window.enabled && targets.some(target => coversTarget(window.scope, target)));
+  const until = new Date(from.getTime() + MAX_HOLD_DAYS * 24 * 60 * 60 * 1000);
+  const candidates = [...new Set(relevant.flatMap(window => getBoundaries(window, from, until)))]
+    .filter(time => time > from.getTime() && time <= until.getTime())
+    .sort((a, b) => a - b);
+
+  for (const time of candidates) {
+    if (getMaintenanceConflicts(relevant, targets, new Date(time)).length === 0) {
+      return new Date(time);
+    }
+  }
+  return null;
+}
+
+export async function loadMaintenanceWindows(db: any): Promise<MaintenanceWindow[]> {
+  const rows = await db.query('SELECT * FROM maintenance_windows WHERE enabled = 1');
+  return rows.map(parseMaintenanceWindow);
+}
+
+// 检查是否允许现在对这些目标执行中断性操作
+export async function checkMaintenance(db: any, targets: MaintenanceTarget[], at: Date = new Date()): Promise<MaintenanceCheck> {
+  const windows = await loadMaintenanceWindows(db);
+  const conflicts = getMaintenanceConflicts(windows, targets, at);
+  if (conflicts.length === 0) {
+    return { allowed: true, conflicts, nextAllowedAt: null };
+  }
+  const next = findNextAllowedTime(windows, targets, at);
+  return { allowed: false, conflicts, nextAllowedAt: next ? next.toISOString() : null };
+}
+
+export function describeConflicts(conflicts: MaintenanceConflict[]): string {
+  const shown = conflicts.slice(0, 3).map(conflict => conflict.message).join('；');
+  return conflicts.length > 3 ? `${shown} 等 ${conflicts.length} 个目标` : shown;
+}
+
+// 正在进行且设置了抑制告警、覆盖该VM或节点的维护窗口（冻结期不抑制告警）
+export async function findSuppressingWindow(db: any, target: MaintenanceTarget, at: Date = new Date()): Promise<MaintenanceWindow | null> {
+  const windows = await loadMaintenanceWindows(db);
+  return windows.find(window =>
+    window.kind === 'window' && window.suppress_alerts && coversTarget(window.scope, target) && getActiveOccurrence(window, at)
+  ) || null;
+}
@@ -0,0 +1,200 @@
+import { PVEApiClient, MigrateOptions, isTaskSuccessful } from './pve-api';
+import { PVEManager } from './pve-manager';
+
+// 迁移预检结果：problems 非空时PVE会拒绝迁移，warnings 仅提示
+export interface MigrationPrecheck {
+  allowed: boolean;
+  running: boolean;
+  node: string;
+  target: string;
+  localDisks: string[];
+  localResources: string[];
+  storages: string[]; // VM磁盘所在的存储
+  unavailableStorages: string[]; // 目标节点上不可用的存储
+  allowedNodes?: string[];
+  problems: string[];
+  warnings: string[];
+}
+
+export interface MigrationRequest extends MigrateOptions {
+  node: string;
+  vmid: number;
+  type: 'qemu' | 'lxc';
+}
+
+// 存放磁盘卷的配置项
+const QEMU_DISK_KEY = /^(ide|sata|scsi|virtio|efidisk|tpmstate|unused)\d+$/;
+const LXC_DISK_KEY = /^(rootfs|mp\d+|unused\d+)$/;
+
+// 从VM配置中提取磁盘卷所在的存储（忽略光驱、直通设备和宿主机路径）
+export function getConfigStorages(config: any, type: 'qemu' | 'lxc'): string[] {
+  const storages = new Set<string>();
+  const diskKey = type === 'qemu' ? QEMU_DISK_KEY : LXC_DISK_KEY;
+
+  for (const [key, value] of Object.entries(config || {})) {
+    if (!diskKey.test(key) || typeof value !== 'string') {
+      continue;
+    }
+    const volume = value.split(',')[0];
+    if (value.includes('media=cdrom') || volume === 'none' || volume.startsWith('/')) {
+      continue;
+    }
+    const match = volume.match(/^([^:]+):/);
+    if (match) {
+      storages.add(match[1]);
+    }
+  }
+
+  return Array.from(storages);
+}
+
+export async function precheckMigration(client: PVEApiClient, request: MigrationRequest): Promise<MigrationPrecheck> {
+  const { node, vmid, type, target } = request;
+  const problems: string[] = [];
+  const warnings: string[] = [];
+
+  if (target === node) {
+    problems.push('目标节点与当前节点相同');
+  }
+
+  const [status, config, targetStorages] = await Promise.all([
+    client.getVMStatus(node, vmid, type),
+    client.getVMConfig(node, vmid, type),
+    client.getStorages(target)
+  ]);
+  const running = status.status === 'running';
+
+  let preconditions: any = null;
+  try {
+    preconditions = await client.getMigratePreconditions(node, vmid, type, target);
+  } catch (error: any) {
+    // 旧版本PVE的LXC没有预检接口，只做存储检查
+    if (error.response?.status !== 501) {
+      throw error;
+    }
+  }
+
+  const localDisks: string[] = (preconditions?.local_disks || []).map((disk: any) => disk.volid);
+  const localResources: string[] = [
+    ...(preconditions?.local_resources || []),
+    ...(preconditions?.['mapped-resources'] || [])
+  ];
+
+  // 目标节点上已启用且处于活动状态的存储
+  const available = new Set(
+    targetStorages.filter((storage: any) => storage.enabled !== 0 && storage.active !== 0).map((storage: any) => storage.storage)
+  );
+  const storages = getConfigStorages(config, type);
+  const unavailable = new Set<string>(preconditions?.not_allowed_nodes?.[target]?.unavailable_storages || []);
+
+  if (request.targetStorage) {
+    if (!available.has(request.targetStorage)) {
+      problems.push(`目标存储 ${request.targetStorage} 在节点 ${target} 上不可用`);
+    }
+  } else {
+    storages.filter(storage => !available.has(storage)).forEach(storage => unavailable.add(storage));
+    if (unavailable.size > 0) {
+      problems.push(`存储 ${Array.from(unavailable).join(', ')} 在节点 ${target} 上不可用，请指定目标存储`);
+    }
+  }
+
+  if (localResources.length > 0) {
+    problems.push(`存在本地资源 ${localResources.join(', ')}，无法迁移`);
+  }
+
+  if (type === 'qemu') {
+    if (running && !request.online) {
+      problems.push('运行中的虚拟机需要在线迁移 (online)');
+    }
+    if (localDisks.length > 0 && !request.withLocalDisks) {
+      problems.push(`存在本地磁盘 ${localDisks.join(', ')}，需要启用 with-local-disks`);
+    }
+    if (localDisks.length > 0 && request.withLocalDisks && running) {
+      warnings.push('在线迁移本地磁盘需要复制全部磁盘数据，耗时较长');
+    }
+  } else if (running && !request.restart) {
+    problems.push('运行中的容器需要使用重启模式迁移 (restart)');
+  } else if (running) {
+    warnings.push('重启模式迁移期间容器会短暂停机');
+  }
+
+  if (preconditions?.allowed_nodes && !preconditions.allowed_nodes.includes(target) && target !== node) {
+    warnings.push(`PVE未将 ${target} 列为可迁移节点`);
+  }
+
+  return {
+    allowed: problems.length === 0,
+    running,
+    node,
+    target,
+    localDisks,
+    localResources,
+    storages,
+    unavailableStorages: Array.from(unavailable),
+    allowedNodes: preconditions?.allowed_nodes,
+    problems,
+    warnings
+  };
+}
+
+// 从迁移日志中解析进度，如 "migration active, transferred 1.1 GiB of 2.0 GiB VM-state"
+// 或 "drive-scsi0: transferred 2.0 GiB of 32.0 GiB (6.25%)"
+const TRANSFER_PATTERN = /transferred\s+([\d.]+)\s*([KMGT]i?B|B)\s+of\s+([\d.]+)\s*([KMGT]i?B|B)/i;
+const UNIT_POWER: Record<string, number> = { b: 0, kb: 1, kib: 1, mb: 2, mib: 2, gb: 3, gib: 3, tb: 4, tib: 4 };
+
+export function parseMigrationProgress(lines: string[]): number | undefined {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const match = lines[i].match(TRANSFER_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const transferred = parseFloat(match[1]) * Math.pow(1024, UNIT_POWER[match[2].toLowerCase()] ?? 0);
+    const total = parseFloat(match[3]) * Math.pow(1024, UNIT_POWER[match[4].toLowerCase()] ?? 0);
+    if (total > 0) {
+      return Math.min(100, Math.round(transferred / total * 100));
+    }
+  }
+  return undefined;
+}
+
+// 在后台跟踪迁移任务，通过 PVEManager 事件推送进度（WebSocket 转发给客户端）
+export function trackMigration(pveManager: PVEManager, connectionId: string, request: MigrationRequest, upid: string): void {
+  const base = {
+    connectionId,
+    vmid: request.vmid,
+    type: request.type,
+    node: request.node,
+    target: request.target,
+    upid
+  };
+  let progress: number | undefined;
+
+  pveManager.waitForTask(connectionId, request.node, upid, {
+    withLog: true,
+    onProgress: (status, lines) => {
+      progress = parseMigrationProgress(lines) ?? progress;
+      // 只推送本次轮询的最后一行日志，长时间的磁盘迁移日志可能有数千行
+      pveManager.emit('vm-migration-progress', {
+        ...base,
+        status: status.status,
+        progress,
+        lastLine: lines.length > 0 ? lines[lines.length - 1] : undefined,
+        timestamp: new Date()
+      });
+    }
+  }).then((status) => {
+    pveManager.emit('vm-migration-completed', {
+      ...base,
+      success: isTaskSuccessful(status),
+      exitstatus: status.exitstatus,
+      timestamp: new Date()
+    });
+  }).catch((error) => {
+    pveManager.emit('vm-migration-completed', {
+      ...base,
+      success: false,
+      exitstatus: error.message,
+      timestamp: new Date()
+    });
+  });
+}
@@ -0,0 +1,294 @@
+import { PVEApiClient, isTaskSuccessful } from './pve-api';
+import { PVEManager } from './pve-manager';
+
+// 创建虚拟机/容器的请求规格（已校验）
+export interface ProvisioningSpec {
+  type: 'qemu' | 'lxc';
+  node: string;
+  vmid?: number; // 不指定时分配下一个可用的VMID
+  name: string;
+  cores: number;
+  sockets: number;
+  memory: number; // MiB
+  disk: { storage: string; size: number }; // size 单位 GiB
+  network: {
+    bridge: string;
+    model: string; // QEMU网卡型号
+    vlan?: number;
+    ip?: string; // LXC: dhcp 或 CIDR
+    gateway?: string;
+  };
+  start: boolean;
+  // QEMU：从ISO安装或从模板克隆
+  iso?: string;
+  ostype?: string;
+  templateVmid?: number;
+  // LXC
+  ostemplate?: string;
+  password?: string;
+  sshKeys?: string;
+  unprivileged?: boolean;
+  swap?: number; // MiB
+}
+
+const DNS_NAME = /^(?=.{1,63}$)[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?)*$/;
+const STORAGE_ID = /^[a-zA-Z][a-zA-Z0-9._-]*$/;
+const BRIDGE_NAME = /^[a-zA-Z0-9._-]+$/;
+const ISO_VOLUME = /^[a-zA-Z][a-zA-Z0-9._-]*:iso\/.+$/;
+const OSTEMPLATE_VOLUME = /^[a-zA-Z][a-zA-Z0-9._-]*:vztmpl\/.+$/;
+const IPV4_CIDR = /^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/;
+const IPV4 = /^(\d{1,3}\.){3}\d{1,3}$/;
+
+export const QEMU_NIC_MODELS = ['virtio', 'e1000', 'rtl8139', 'vmxnet3'];
+export const QEMU_OS_TYPES = ['l26', 'win11', 'win10', 'win8', 'win7', 'w2k8', 'wxp', 'solaris', 'other'];
+
+function isIntegerInRange(value: any, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+// 校验请求并填充默认值，返回错误列表或规格
+export function validateProvisioningRequest(body: any): { errors: string[]; spec?: ProvisioningSpec } {
+  const errors: string[] = [];
+  const type = body.type;
+  const disk = body.disk || {};
+  const network = body.network || {};
+
+  if (type !== 'qemu' && type !== 'lxc') {
+    errors.push('type 必须是 qemu 或 lxc');
+  }
+  if (!body.node || typeof body.node !== 'string') {
+    errors.push('缺少目标节点 node');
+  }
+  if (body.vmid !== undefined && body.vmid !== null && !isIntegerInRange(body.vmid, 100, 999999999)) {
+    errors.push('vmid 必须是 100-999999999 之间的整数');
+  }
+  if (!body.name || !DNS_NAME.test(body.name)) {
+    errors.push('名称必须是有效的主机名（字母、数字和连字符，最长63个字符）');
+  }
+
+  const cores = body.cores ?? 1;
+  const sockets = body.sockets ?? 1;
+  const memory = body.memory ?? (type === 'lxc' ? 512 : 2048);
+  if (!isIntegerInRange(cores, 1, 128)) {
+    errors.push('CPU核心数必须是 1-128 之间的整数');
+  }
+  if (!isIntegerInRange(sockets, 1, 4)) {
+    errors.push('CPU插槽数必须是 1-4 之间的整数');
+  }
+  if (!isIntegerInRange(memory, 16, 4 * 1024 * 1024)) {
+    errors.push('内存必须是 16 MiB 到 4 TiB 之间的整数 (MiB)');
+  }
+
+  // 从模板克隆时沿用模板的磁盘
+  const fromTemplate = type === 'qemu' && body.templateVmid !== undefined && body.templateVmid !== null;
+  if (!disk.storage || !STORAGE_ID.test(disk.storage)) {
+    errors.push('请选择磁盘存储');
+  }
+  if (!fromTemplate && !isIntegerInRange(disk.size, 1, 65536)) {
+    errors.push('磁盘大小必须是 1-65536 之间的整数 (GiB)');
+  }
+
+  if (!network.bridge || !BRIDGE_NAME.test(network.bridge)) {
+    errors.push('请选择网桥');
+  }
+  if (network.vlan !== undefined && network.vlan !== null && !isIntegerInRange(network.vlan, 1, 4094)) {
+    errors.push('VLAN 必须是 1-4094 之间的整数');
+  }
+  const model = network.model || 'virtio';
+  if (type === 'qemu' && !QEMU_NIC_MODELS.includes(model)) {
+    errors.push(`网卡型号必须是 ${QEMU_NIC_MODELS.join(', ')} 之一`);
+  }
+
+  if (type === 'qemu') {
+    if (body.iso && fromTemplate) {
+      errors.push('ISO 和模板只能选择其一');
+    }
+    if (body.iso && !ISO_VOLUME.test(body.iso)) {
+      errors.push('ISO 必须是存储中的ISO镜像卷 (storage:iso/文件名)');
+    }
+    if (fromTemplate && !isIntegerInRange(body.templateVmid, 100, 999999999)) {
+      errors.push('templateVmid 必须是有效的VMID');
+    }
+    if (body.ostype && !QEMU_OS_TYPES.includes(body.ostype)) {
+      errors.push(`ostype 必须是 ${QEMU_OS_TYPES.join(', ')} 之一`);
+    }
+  }
+
+  if (type === 'lxc') {
+    if (!body.ostemplate || !OSTEMPLATE_VOLUME.test(body.ostemplate)) {
+      errors.push('请选择容器模板 ostemplate (storage:vztmpl/文件名)');
+    }
+    if (!body.password && !body.sshKeys) {
+      errors.push('容器需要设置 root 密码或 SSH 公钥');
+    }
+    if (body.password && (typeof body.password !== 'string' || body.password.length < 5)) {
+      errors.push('root 密码至少5个字符');
+    }
+    if (body.sshKeys && (typeof body.sshKeys !== 'string' || !/^(ssh-|ecdsa-|sk-)/m.test(body.sshKeys.trim()))) {
+      errors.push('SSH 公钥格式无效');
+    }
+    if (network.ip && network.ip !== 'dhcp' && !IPV4_CIDR.test(network.ip)) {
+      errors.push('IP 必须是 dhcp 或 CIDR 格式 (如 192.168.1.10/24)');
+    }
+    if (network.gateway && !IPV4.test(network.gateway)) {
+      errors.push('网关必须是IPv4地址');
+    }
+    if (body.swap !== undefined && !isIntegerInRange(body.swap, 0, 4 * 1024 * 1024)) {
+      errors.push('swap 必须是非负整数 (MiB)');
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    spec: {
+      type,
+      node: body.node,
+      vmid: body.vmid ?? undefined,
+      name: body.name,
+      cores,
+      sockets,
+      memory,
+      disk: { storage: disk.storage, size: disk.size },
+      network: {
+        bridge: network.bridge,
+        model,
+        vlan: network.vlan ?? undefined,
+        ip: network.ip || 'dhcp',
+        gateway: network.gateway || undefined
+      },
+      start: !!body.start,
+      iso: body.iso || undefined,
+      ostype: body.ostype || 'l26',
+      templateVmid: fromTemplate ? body.templateVmid : undefined,
+      ostemplate: body.ostemplate,
+      password: body.password || undefined,
+      sshKeys: body.sshKeys ? body.sshKeys.trim() : undefined,
+      unprivileged: body.unprivileged !== false,
+      swap: body.swap ?? 512
+    }
+  };
+}
+
+function qemuNetwork(spec: ProvisioningSpec): string {
+  return `${spec.network.model},bridge=${spec.network.bridge}${spec.network.vlan ? `,tag=${spec.network.vlan}` : ''}`;
+}
+
+export function buildQemuConfig(spec: ProvisioningSpec, vmid: number): any {
+  const config: any = {
+    vmid,
+    name: spec.name,
+    cores: spec.cores,
+    sockets: spec.sockets,
+    memory: spec.memory,
+    ostype: spec.ostype,
+    scsihw: 'virtio-scsi-single',
+    scsi0: `${spec.disk.storage}:${spec.disk.size}`,
+    net0: qemuNetwork(spec),
+    boot: spec.iso ? 'order=scsi0;ide2;net0' : 'order=scsi0;net0',
+    start: spec.start ? 1 : 0
+  };
+  if (spec.iso) {
+    config.ide2 = `${spec.iso},media=cdrom`;
+  }
+  return config;
+}
+
+export function buildLxcConfig(spec: ProvisioningSpec, vmid: number): any {
+  const network = spec.network;
+  const config: any = {
+    vmid,
+    hostname: spec.name,
+    ostemplate: spec.ostemplate,
+    cores: spec.cores,
+    memory: spec.memory,
+    swap: spec.swap,
+    rootfs: `${spec.disk.storage}:${spec.disk.size}`,
+    net0: `name=eth0,bridge=${network.bridge},ip=${network.ip}${network.gateway ? `,gw=${network.gateway}` : ''}${network.vlan ? `,tag=${network.vlan}` : ''}`,
+    unprivileged: spec.unprivileged ? 1 : 0,
+    start: spec.start ? 1 : 0
+  };
+  if (spec.password) {
+    config.password = spec.password;
+  }
+  if (spec.sshKeys) {
+    config['ssh-public-keys'] = spec.sshKeys;
+  }
+  return config;
+}
+
+// 创建虚拟机/容器，返回任务ID；从模板克隆时返回克隆任务ID，硬件配置在克隆完成后应用
+export async function provision(client: PVEApiClient, spec: ProvisioningSpec): Promise<{ vmid: number; taskId: string; node: string }> {
+  const vmid = spec.vmid ?? await client.getNextVMID();
+
+  if (spec.type === 'lxc') {
+    const taskId = await client.createLxcContainer(spec.node, buildLxcConfig(spec, vmid));
+    return { vmid, taskId, node: spec.node };
+  }
+
+  if (spec.templateVmid !== undefined) {
+    const template = (await client.getClusterResources())
+      .find((resource: any) => resource.type === 'qemu' && resource.vmid === spec.templateVmid);
+    if (!template || template.template !== 1) {
+      throw new Error(`VM ${spec.templateVmid} 不是模板`);
+    }
+    const taskId = await client.cloneVM(template.node, spec.templateVmid, 'qemu', {
+      newid: vmid,
+      name: spec.name,
+      target: spec.node !== template.node ? spec.node : undefined,
+      storage: spec.disk.storage,
+      full: true
+    });
+    // 克隆任务在模板所在节点执行
+    return { vmid, taskId, node: template.node };
+  }
+
+  const taskId = await client.createQemuVM(spec.node, buildQemuConfig(spec, vmid));
+  return { vmid, taskId, node: spec.node };
+}
+
+// 等待创建任务完成（从模板克隆时随后应用CPU、内存和网络配置并按需启动），结果通过 PVEManager 事件推送
+export function trackProvisioning(
+  pveManager: PVEManager,
+  connectionId: string,
+  spec: ProvisioningSpec,
+  result: { vmid: number; taskId: string; node: string }
+): void {
+  const finish = (success: boolean, error?: string) => {
+    pveManager.emit('vm-provisioned', {
+      connectionId,
+      vmid: result.vmid,
+      type: spec.type,
+      node: spec.node,
+      name: spec.name,
+      taskId: result.taskId,
+      success,
+      error,
+      timestamp: new Date()
+    });
+  };
+
+  (async () => {
+    const status = await pveManager.waitForTask(connectionId, result.node, result.taskId);
+    if (!isTaskSuccessful(status)) {
+      throw new Error(status.exitstatus);
+    }
+    if (spec.templateVmid === undefined) {
+      return;
+    }
+    await pveManager.executeOnConnection(connectionId, async (client) => {
+      await client.updateVMConfig(spec.node, result.vmid, 'qemu', {
+        cores: spec.cores,
+        sockets: spec.sockets,
+        memory: spec.memory,
+        net0: qemuNetwork(spec)
+      });
+      if (spec.start) {
+        await client.startVM(spec.node, result.vmid, 'qemu');
+      }
+    });
+  })().then(() => finish(true), (error) => finish(false, error.message));
+}
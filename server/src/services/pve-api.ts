@@ -1,6 +1,8 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import https from 'https';
 import { PVEConfig, PVENode } from '../config/pve';
+import { createPVEHttpsAgent, isCertificateMismatch } from './tls-pinning';
+import { PartialResult } from './concurrency';
 
 export interface PVETicket {
   ticket: string;
@@ -22,37 +24,128 @@ export interface VMInfo {
   uptime: number;
   node: string;
   type: 'qemu' | 'lxc';
+  template?: number; // 1 表示模板
+  tags?: string; // PVE标签，分号分隔
+  pool?: string; // 所属资源池
+}
+
+export interface CloneOptions {
+  newid: number;
+  name?: string; // LXC 对应 hostname
+  target?: string; // 目标节点，默认与源相同
+  storage?: string; // 目标存储，仅完整克隆可用
+  full?: boolean; // 完整克隆或链接克隆，不指定时由PVE决定（模板默认链接克隆）
+  description?: string;
+}
+
+export interface MigrateOptions {
+  target: string;
+  online?: boolean; // QEMU在线迁移
+  restart?: boolean; // LXC重启模式迁移（运行中的容器）
+  withLocalDisks?: boolean; // QEMU迁移本地磁盘
+  targetStorage?: string; // 目标存储
+  timeout?: number; // LXC重启模式的关机超时（秒）
+}
+
+export interface BackupOptions {
+  storage: string;
+  mode?: 'snapshot' | 'suspend' | 'stop';
+  compress?: string;
+  notes?: string;
+}
+
+// PVE任务结束状态：OK 或带警告时视为成功
+export function isTaskSuccessful(status: any): boolean {
+  return status?.status === 'stopped' && (status.exitstatus === 'OK' || /^WARNINGS/.test(status.exitstatus || ''));
+}
+
+export interface PVEClientOptions {
+  // TOFU模式下首次记录证书指纹时调用，endpoint 为故障转移节点地址（主节点为空）
+  onFingerprintRecorded?: (fingerprint: string, endpoint?: string) => void;
+  // 故障转移切换到新的API地址时调用
+  onEndpointChanged?: (from: string, to: string) => void;
+  // 调度每个HTTP请求（用于并发限制），不提供时直接发送
+  schedule?: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+// 集群节点状态 (/cluster/status 中 type 为 node 的条目)
+export interface ClusterNodeStatus {
+  type: 'node' | 'cluster';
+  name: string;
+  ip?: string;
+  online?: number;
+  local?: number;
+  nodeid?: number;
+}
+
+// 连接不到该地址时的网络错误，这类错误才会触发故障转移
+const ENDPOINT_UNREACHABLE_CODES = [
+  'ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH', 'ENOTFOUND', 'EAI_AGAIN'
+];
+
+// 解析 host 或 host:port 格式的地址
+export function parseEndpoint(endpoint: string, defaultPort: number): { host: string; port: number } {
+  const match = endpoint.match(/^([^:]+):(\d+)$/);
+  return match
+    ? { host: match[1], port: parseInt(match[2]) }
+    : { host: endpoint, port: defaultPort };
 }
 
 export class PVEApiClient {
   private client: AxiosInstance;
   private ticket: PVETicket | null = null;
   private config: PVEConfig;
+  private options: PVEClientOptions;
+  // 按优先级排列的API地址，第一个为配置的主机
+  private endpoints: string[];
+  private activeIndex = 0;
+  private agents: Map<string, https.Agent> = new Map();
 
-  constructor(config: PVEConfig) {
+  constructor(config: PVEConfig, options: PVEClientOptions = {}) {
     this.config = config;
+    this.options = options;
+    this.endpoints = [...new Set([config.host, ...(config.endpoints || [])])];
     
+    // 在适配器层做并发限制：只有实际的HTTP交换占用并发名额，拦截器中的重试会重新排队
+    const adapter = axios.getAdapter(axios.defaults.adapter);
+    const schedule = options.schedule;
     this.client = axios.create({
-      baseURL: `${config.ssl ? 'https' : 'http'}://${config.host}:${config.port}/api2/json`,
+      baseURL: this.getBaseURL(config.host),
       timeout: config.timeout,
-      httpsAgent: new https.Agent({
-        rejectUnauthorized: false // 忽略自签名证书
-      })
+      adapter: schedule ? (requestConfig) => schedule(() => adapter(requestConfig)) : adapter
     });
 
-    // 添加请求拦截器自动添加认证头
+    // 添加请求拦截器：指向当前活动地址并自动添加认证头
     this.client.interceptors.request.use((config) => {
-      if (this.ticket) {
+      const endpoint = this.endpoints[this.activeIndex];
+      config.baseURL = this.getBaseURL(endpoint);
+      config.httpsAgent = this.getHttpsAgent(endpoint);
+      (config as any).pveEndpointIndex = this.activeIndex;
+
+      if (this.usesApiToken()) {
+        config.headers['Authorization'] = this.getTokenAuthorization();
+      } else if (this.ticket) {
         config.headers['Cookie'] = `PVEAuthCookie=${this.ticket.ticket}`;
         config.headers['CSRFPreventionToken'] = this.ticket.CSRFPreventionToken;
       }
       return config;
     });
 
-    // 添加响应拦截器处理认证失败
+    // 添加响应拦截器处理认证失败和节点故障转移
     this.client.interceptors.response.use(
       (response) => response,
       async (error) => {
+        const requestConfig = error.config;
+
+        if (requestConfig && this.isEndpointUnreachable(error)) {
+          const attempts = requestConfig.pveEndpointAttempts || 1;
+          if (attempts < this.endpoints.length) {
+            this.failover(requestConfig.pveEndpointIndex);
+            requestConfig.pveEndpointAttempts = attempts + 1;
+            return this.client.request(requestConfig);
+          }
+        }
+
         if (error.response?.status === 401 && this.ticket) {
           // Token过期，重新认证
           await this.authenticate();
@@ -64,7 +157,94 @@ export class PVEApiClient {
     );
   }
 
-  async authenticate(): Promise<PVETicket> {
+  private getBaseURL(endpoint: string): string {
+    const { host, port } = parseEndpoint(endpoint, this.config.port);
+    return `${this.config.ssl ? 'https' : 'http'}://${host}:${port}/api2/json`;
+  }
+
+  // 每个地址使用独立的 https.Agent（各节点证书指纹不同）
+  private getHttpsAgent(endpoint: string): https.Agent | undefined {
+    if (!this.config.ssl) {
+      return undefined;
+    }
+
+    let agent = this.agents.get(endpoint);
+    if (!agent) {
+      agent = createPVEHttpsAgent(this.config, this.options.onFingerprintRecorded, endpoint);
+      this.agents.set(endpoint, agent);
+    }
+    return agent;
+  }
+
+  // 证书指纹不匹配不做故障转移，避免绕过证书校验
+  private isEndpointUnreachable(error: any): boolean {
+    return !error.response
+      && !isCertificateMismatch(error)
+      && ENDPOINT_UNREACHABLE_CODES.includes(error.code);
+  }
+
+  // 切换到下一个地址；并发请求中只有第一个失败的请求会推进
+  private failover(failedIndex: number): void {
+    if (failedIndex !== this.activeIndex) {
+      return;
+    }
+
+    const from = this.endpoints[this.activeIndex];
+    this.activeIndex = (this.activeIndex + 1) % this.endpoints.length;
+    const to = this.endpoints[this.activeIndex];
+
+    console.warn(`PVE地址 ${from} 不可达，切换到 ${to}`);
+    this.options.onEndpointChanged?.(from, to);
+  }
+
+  // 当前使用的API地址
+  getActiveEndpoint(): string {
+    return this.endpoints[this.activeIndex];
+  }
+
+  getEndpoints(): string[] {
+    return [...this.endpoints];
+  }
+
+  // 从 /cluster/status 获取集群中其他节点的地址，返回合并后的故障转移地址列表
+  async discoverEndpoints(): Promise<string[]> {
+    const status: ClusterNodeStatus[] = await this.getClusterStatus();
+    // 通过主机连接时跳过 local 节点（即主机自身）
+    const discovered = status
+      .filter(item => item.type === 'node' && item.ip && !(item.local && this.activeIndex === 0))
+      .map(item => item.ip!);
+
+    const endpoints = [...new Set([...(this.config.endpoints || []), ...discovered])]
+      .filter(endpoint => endpoint !== this.config.host);
+
+    for (const endpoint of endpoints) {
+      if (!this.endpoints.includes(endpoint)) {
+        this.endpoints.push(endpoint);
+      }
+    }
+    this.config.endpoints = endpoints;
+    return endpoints;
+  }
+
+  // 是否使用API Token认证
+  usesApiToken(): boolean {
+    return !!(this.config.tokenId && this.config.tokenSecret);
+  }
+
+  // 构造 PVEAPIToken 认证头，tokenId 可为完整的 user@realm!tokenid 或仅 tokenid
+  private getTokenAuthorization(): string {
+    const tokenId = this.config.tokenId!.includes('!')
+      ? this.config.tokenId
+      : `${this.config.username}@${this.config.realm}!${this.config.tokenId}`;
+    return `PVEAPIToken=${tokenId}=${this.config.tokenSecret}`;
+  }
+
+  async authenticate(): Promise<PVETicket | null> {
+    // API Token 无需申请票据，每个请求都携带 Authorization 头
+    if (this.usesApiToken()) {
+      return null;
+    }
+
     try {
       const response: AxiosResponse<{ data: PVETicket }> = await this.client.post('/access/ticket', {
         username: `${this.config.username}@${this.config.realm}`,
@@ -74,6 +254,9 @@ export class PVEApiClient {
       this.ticket = response.data.data;
       return this.ticket;
     } catch (error: any) {
+      if (isCertificateMismatch(error)) {
+        throw error;
+      }
       throw new Error(`PVE认证失败: ${error.message}`);
     }
   }
@@ -84,6 +267,10 @@ export class PVEApiClient {
       await this.getVersion();
       return true;
     } catch (error) {
+      // 证书指纹不匹配需要上层单独处理
+      if (isCertificateMismatch(error)) {
+        throw error;
+      }
       return false;
     }
   }
@@ -93,41 +280,56 @@ export class PVEApiClient {
     return response.data.data;
   }
 
+  async getClusterStatus(): Promise<ClusterNodeStatus[]> {
+    const response = await this.client.get('/cluster/status');
+    return response.data.data;
+  }
+
   async getNodes(): Promise<PVENode[]> {
     const response = await this.client.get('/nodes');
     return response.data.data;
   }
 
   async getVMs(node?: string): Promise<VMInfo[]> {
-    const vms: VMInfo[] = [];
-    
+    const result = await this.collectVMs(node);
+    for (const error of result.errors) {
+      console.error(`获取节点 ${error.node} 的虚拟机失败:`, error.error);
+    }
+    return result.data;
+  }
+
+  // 并行获取各节点的QEMU虚拟机和LXC容器，单个节点失败时返回其余节点的结果及错误
+  async collectVMs(node?: string): Promise<PartialResult<VMInfo>> {
     const nodes = node ? [{ node }] : await this.getNodes();
-    
-    for (const nodeInfo of nodes) {
-      try {
-        // 获取QEMU虚拟机
-        const qemuResponse = await this.client.get(`/nodes/${nodeInfo.node}/qemu`);
-        const qemuVMs = qemuResponse.data.data.map((vm: any) => ({
-          ...vm,
-          node: nodeInfo.node,
-          type: 'qemu' as const
-        }));
-        
-        // 获取LXC容器
-        const lxcResponse = await this.client.get(`/nodes/${nodeInfo.node}/lxc`);
-        const lxcVMs = lxcResponse.data.data.map((vm: any) => ({
-          ...vm,
-          node: nodeInfo.node,
-          type: 'lxc' as const
-        }));
-        
-        vms.push(...qemuVMs, ...lxcVMs);
-      } catch (error) {
-        console.error(`获取节点 ${nodeInfo.node} 的虚拟机失败:`, error);
+
+    const results = await Promise.allSettled(nodes.map(async (nodeInfo) => {
+      const [qemuResponse, lxcResponse] = await Promise.all([
+        this.client.get(`/nodes/${nodeInfo.node}/qemu`),
+        this.client.get(`/nodes/${nodeInfo.node}/lxc`)
+      ]);
+
+      const qemuVMs = qemuResponse.data.data.map((vm: any) => ({
+        ...vm,
+        node: nodeInfo.node,
+        type: 'qemu' as const
+      }));
+      const lxcVMs = lxcResponse.data.data.map((vm: any) => ({
+        ...vm,
+        node: nodeInfo.node,
+        type: 'lxc' as const
+      }));
+      return [...qemuVMs, ...lxcVMs] as VMInfo[];
+    }));
+
+    const result: PartialResult<VMInfo> = { data: [], errors: [] };
+    results.forEach((settled, index) => {
+      if (settled.status === 'fulfilled') {
+        result.data.push(...settled.value);
+      } else {
+        result.errors.push({ node: nodes[index].node, error: settled.reason?.message || String(settled.reason) });
       }
-    }
-    
-    return vms;
+    });
+    return result;
   }
 
   async getVMStatus(node: string, vmid: number, type: 'qemu' | 'lxc'): Promise<any> {
@@ -155,6 +357,28 @@ export class PVEApiClient {
     return response.data.data;
   }
 
+  async rebootVM(node: string, vmid: number, type: 'qemu' | 'lxc'): Promise<string> {
+    const response = await this.client.post(`/nodes/${node}/${type}/${vmid}/status/reboot`);
+    return response.data.data;
+  }
+
+  // QEMU guest agent 存活检查，agent 未运行时PVE返回错误
+  async agentPing(node: string, vmid: number): Promise<void> {
+    await this.client.post(`/nodes/${node}/qemu/${vmid}/agent/ping`);
+  }
+
+  // vzdump备份，mode 为 snapshot、suspend 或 stop
+  async createBackup(node: string, vmid: number, options: BackupOptions): Promise<string> {
+    const response = await this.client.post(`/nodes/${node}/vzdump`, {
+      vmid,
+      storage: options.storage,
+      mode: options.mode || 'snapshot',
+      compress: options.compress || 'zstd',
+      notes: options.notes
+    });
+    return response.data.data;
+  }
+
   async suspendVM(node: string, vmid: number): Promise<string> {
     // 只有QEMU支持挂起
     const response = await this.client.post(`/nodes/${node}/qemu/${vmid}/status/suspend`);
@@ -172,11 +396,160 @@ export class PVEApiClient {
     return response.data.data;
   }
 
+  // 快照列表（包含表示当前状态的 current 项）
+  async getSnapshots(node: string, vmid: number, type: 'qemu' | 'lxc'): Promise<any[]> {
+    const response = await this.client.get(`/nodes/${node}/${type}/${vmid}/snapshot`);
+    return response.data.data;
+  }
+
+  async createSnapshot(
+    node: string,
+    vmid: number,
+    type: 'qemu' | 'lxc',
+    snapname: string,
+    options: { description?: string; vmstate?: boolean } = {}
+  ): Promise<string> {
+    const params: any = { snapname };
+    if (options.description) {
+      params.description = options.description;
+    }
+    // 只有QEMU支持保存内存状态
+    if (type === 'qemu' && options.vmstate) {
+      params.vmstate = 1;
+    }
+    const response = await this.client.post(`/nodes/${node}/${type}/${vmid}/snapshot`, params);
+    return response.data.data;
+  }
+
+  async rollbackSnapshot(node: string, vmid: number, type: 'qemu' | 'lxc', snapname: string, start: boolean = false): Promise<string> {
+    const params = start ? { start: 1 } : {};
+    const response = await this.client.post(`/nodes/${node}/${type}/${vmid}/snapshot/${encodeURIComponent(snapname)}/rollback`, params);
+    return response.data.data;
+  }
+
+  async deleteSnapshot(node: string, vmid: number, type: 'qemu' | 'lxc', snapname: string, force: boolean = false): Promise<string> {
+    const response = await this.client.delete(`/nodes/${node}/${type}/${vmid}/snapshot/${encodeURIComponent(snapname)}`, {
+      params: force ? { force: 1 } : {}
+    });
+    return response.data.data;
+  }
+
+  // 获取集群中下一个可用的VMID
+  async getNextVMID(): Promise<number> {
+    const response = await this.client.get('/cluster/nextid');
+    return parseInt(response.data.data, 10);
+  }
+
+  async cloneVM(node: string, vmid: number, type: 'qemu' | 'lxc', options: CloneOptions): Promise<string> {
+    const params: any = { newid: options.newid };
+    if (options.name) {
+      params[type === 'lxc' ? 'hostname' : 'name'] = options.name;
+    }
+    if (options.target) {
+      params.target = options.target;
+    }
+    if (options.storage) {
+      params.storage = options.storage;
+    }
+    if (options.full !== undefined) {
+      params.full = options.full ? 1 : 0;
+    }
+    if (options.description) {
+      params.description = options.description;
+    }
+    const response = await this.client.post(`/nodes/${node}/${type}/${vmid}/clone`, params);
+    return response.data.data;
+  }
+
+  // 转换为模板；QEMU返回任务ID，LXC同步完成返回 null
+  async convertToTemplate(node: string, vmid: number, type: 'qemu' | 'lxc'): Promise<string | null> {
+    const response = await this.client.post(`/nodes/${node}/${type}/${vmid}/template`);
+    return response.data.data || null;
+  }
+
   async getTaskStatus(node: string, upid: string): Promise<any> {
     const response = await this.client.get(`/nodes/${node}/tasks/${upid}/status`);
     return response.data.data;
   }
 
+  // 任务日志，start 为起始行号，返回 [{ n, t }]
+  async getTaskLog(node: string, upid: string, start: number = 0, limit: number = 500): Promise<{ n: number; t: string }[]> {
+    const response = await this.client.get(`/nodes/${node}/tasks/${upid}/log`, {
+      params: { start, limit }
+    });
+    return response.data.data;
+  }
+
+  async getVMConfig(node: string, vmid: number, type: 'qemu' | 'lxc'): Promise<any> {
+    const response = await this.client.get(`/nodes/${node}/${type}/${vmid}/config`);
+    return response.data.data;
+  }
+
+  // 修改配置（同步生效，返回 null）
+  async updateVMConfig(node: string, vmid: number, type: 'qemu' | 'lxc', params: any): Promise<void> {
+    await this.client.put(`/nodes/${node}/${type}/${vmid}/config`, params);
+  }
+
+  // 当前配置与待生效修改（每项含 value、pending、delete）
+  async getPendingConfig(node: string, vmid: number, type: 'qemu' | 'lxc'): Promise<any[]> {
+    const response = await this.client.get(`/nodes/${node}/${type}/${vmid}/pending`);
+    return response.data.data;
+  }
+
+  // 磁盘扩容，size 为 +10G（增加）或 50G（调整到）；只能增大。旧版本PVE同步执行时返回 null
+  async resizeDisk(node: string, vmid: number, type: 'qemu' | 'lxc', disk: string, size: string): Promise<string | null> {
+    const response = await this.client.put(`/nodes/${node}/${type}/${vmid}/resize`, { disk, size });
+    return response.data.data;
+  }
+
+  // 按当前配置重新生成cloud-init驱动器
+  async regenerateCloudInit(node: string, vmid: number): Promise<void> {
+    await this.client.put(`/nodes/${node}/qemu/${vmid}/cloudinit`);
+  }
+
+  // 存储中的内容，content 可为 iso、vztmpl、images 等
+  async getStorageContent(node: string, storage: string, content?: string): Promise<any[]> {
+    const response = await this.client.get(`/nodes/${node}/storage/${storage}/content`, {
+      params: content ? { content } : {}
+    });
+    return response.data.data;
+  }
+
+  // 迁移前置条件（本地磁盘、本地资源、目标节点不可用的存储）；旧版本PVE的LXC不支持该接口
+  async getMigratePreconditions(node: string, vmid: number, type: 'qemu' | 'lxc', target?: string): Promise<any> {
+    const response = await this.client.get(`/nodes/${node}/${type}/${vmid}/migrate`, {
+      params: target ? { target } : {}
+    });
+    return response.data.data;
+  }
+
+  async migrateVM(node: string, vmid: number, type: 'qemu' | 'lxc', options: MigrateOptions): Promise<string> {
+    const params: any = { target: options.target };
+    if (type === 'qemu') {
+      if (options.online) {
+        params.online = 1;
+      }
+      if (options.withLocalDisks) {
+        params['with-local-disks'] = 1;
+      }
+      if (options.targetStorage) {
+        params.targetstorage = options.targetStorage;
+      }
+    } else {
+      if (options.restart) {
+        params.restart = 1;
+        if (options.timeout) {
+          params.timeout = options.timeout;
+        }
+      }
+      if (options.targetStorage) {
+        params['target-storage'] = options.targetStorage;
+      }
+    }
+    const response = await this.client.post(`/nodes/${node}/${type}/${vmid}/migrate`, params);
+    return response.data.data;
+  }
+
   async getNodeResources(node: string): Promise<any> {
     const response = await this.client.get(`/nodes/${node}/status`);
     return response.data.data;
@@ -208,6 +581,32 @@ export class PVEApiClient {
     return response.data.data;
   }
 
+  // 设置标签（PVE以分号分隔保存），空列表时删除标签
+  async setVMTags(node: string, vmid: number, type: 'qemu' | 'lxc', tags: string[]): Promise<void> {
+    await this.updateVMConfig(node, vmid, type, tags.length > 0 ? { tags: tags.join(';') } : { delete: 'tags' });
+  }
+
+  async getPools(): Promise<Array<{ poolid: string; comment?: string }>> {
+    const response = await this.client.get('/pools');
+    return response.data.data;
+  }
+
+  async createPool(poolid: string, comment?: string): Promise<void> {
+    await this.client.post('/pools', { poolid, comment });
+  }
+
+  // 将VM加入资源池或从资源池移除（一个VM只能属于一个资源池）
+  // allowMove: VM已在其他资源池时由PVE在同一次请求中移动过来（需要 PVE 8.0 及以上）
+  async addVMToPool(poolid: string, vmid: number, allowMove: boolean = false): Promise<void> {
+    await this.client.put(`/pools/${encodeURIComponent(poolid)}`, allowMove
+      ? { vms: String(vmid), 'allow-move': 1 }
+      : { vms: String(vmid) });
+  }
+
+  async removeVMFromPool(poolid: string, vmid: number): Promise<void> {
+    await this.client.put(`/pools/${encodeURIComponent(poolid)}`, { vms: String(vmid), delete: 1 });
+  }
+
   // 获取实时统计数据
   async getRRDData(node: string, timeframe: string = 'hour'): Promise<any> {
     const response = await this.client.get(`/nodes/${node}/rrddata`, {
@@ -1,28 +1,228 @@
-import { PVEApiClient } from './pve-api';
+import { PVEApiClient, VMInfo } from './pve-api';
 import { PVEConfig } from '../config/pve';
 import { EventEmitter } from 'events';
+import { CertificateMismatchError, isCertificateMismatch } from './tls-pinning';
+import { CircuitBreaker, CircuitBreakerSnapshot, CircuitOpenError, DEFAULT_CIRCUIT_BREAKER_OPTIONS } from './circuit-breaker';
+import { ConcurrencyLimiter, DeadlineExceededError, PartialResult, withDeadline } from './concurrency';
+import { InventorySnapshot, diffInventory, parseClusterResources } from './inventory';
 
 export interface PVEConnection {
   id: string;
   name: string;
   config: PVEConfig;
   client: PVEApiClient;
-  status: 'connected' | 'disconnected' | 'error';
+  // certificate-mismatch: TLS证书指纹与记录不一致，需管理员确认后才会重新连接
+  status: 'connected' | 'disconnected' | 'error' | 'certificate-mismatch';
   lastError?: string;
   lastConnected?: Date;
 }
 
+// 后台重连状态
+interface ReconnectState {
+  attempts: number;
+  nextAttemptAt?: Date;
+  timer?: NodeJS.Timeout;
+}
+
+export interface ConnectionHealth extends CircuitBreakerSnapshot {
+  id: string;
+  name: string;
+  status: PVEConnection['status'];
+  reconnectAttempts: number;
+  nextReconnectAt?: Date;
+}
+
+// 重连退避：5秒起，每次翻倍，最长5分钟
+const RECONNECT_BASE_DELAY = 5000;
+const RECONNECT_MAX_DELAY = 5 * 60 * 1000;
+
+// 并发限制：所有连接合计最多32个、每个连接默认最多4个同时进行的PVE API请求
+const MAX_CONCURRENT_REQUESTS = 32;
+const DEFAULT_CONNECTION_CONCURRENCY = 4;
+// 汇总查询时单个连接的截止时间
+const DEFAULT_FANOUT_DEADLINE = 20000;
+
+// 资源清单缓存的有效期，超过后读取时重新拉取 /cluster/resources
+const INVENTORY_MAX_AGE = 15000;
+
+// 等待PVE任务时的轮询间隔，以及轮询连续失败多少次后放弃
+const TASK_POLL_INTERVAL = 2000;
+const TASK_POLL_MAX_ERRORS = 3;
+
+export interface TaskWaitOptions {
+  interval?: number;
+  timeout?: number; // 毫秒，不指定时一直等待
+  withLog?: boolean; // 同时读取新增的任务日志
+  onProgress?: (status: any, newLogLines: string[]) => void;
+}
+
+export class TaskTimeoutError extends Error {
+  readonly code = 'PVE_TASK_TIMEOUT';
+
+  constructor(public upid: string, timeoutMs: number) {
+    super(`任务 ${upid} 超过 ${Math.round(timeoutMs / 1000)} 秒未完成`);
+    this.name = 'TaskTimeoutError';
+  }
+}
+
+// 指数退避加随机抖动，避免多个连接同时重试
+function getReconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * Math.pow(2, attempt));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+// 没有收到HTTP响应的错误（网络不可达、超时、证书不匹配）才视为连接故障，PVE返回的业务错误不影响连接状态
+function isConnectivityError(error: any): boolean {
+  return isCertificateMismatch(error) || !error?.response;
+}
+
 export class PVEManager extends EventEmitter {
   private connections: Map<string, PVEConnection> = new Map();
   private monitoringInterval: NodeJS.Timeout | null = null;
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private reconnectStates: Map<string, ReconnectState> = new Map();
+  private inventory: Map<string, InventorySnapshot> = new Map();
+  private inventoryRefreshes: Map<string, Promise<InventorySnapshot>> = new Map();
+  private limiter = new ConcurrencyLimiter({
+    maxConcurrent: MAX_CONCURRENT_REQUESTS,
+    maxPerKey: DEFAULT_CONNECTION_CONCURRENCY
+  });
 
   constructor() {
     super();
   }
 
+  // 创建客户端，TOFU模式首次记录证书指纹时发出 certificate-recorded 事件，故障转移时发出 endpoint-changed 事件
+  // 客户端的所有请求经过共享的并发限制器
+  private createClient(id: string, config: PVEConfig): PVEApiClient {
+    return new PVEApiClient(config, {
+      onFingerprintRecorded: (fingerprint, endpoint) => {
+        this.emit('certificate-recorded', { id, fingerprint, endpoint });
+      },
+      onEndpointChanged: (from, to) => {
+        this.emit('endpoint-changed', { id, from, to });
+      },
+      schedule: (task) => this.limiter.run(id, task, config.maxConcurrency || DEFAULT_CONNECTION_CONCURRENCY)
+    });
+  }
+
+  // 从集群状态中发现其他节点地址，地址列表变化时发出 endpoints-updated 事件
+  private async refreshEndpoints(connection: PVEConnection): Promise<void> {
+    const previous = (connection.config.endpoints || []).join(',');
+    try {
+      const endpoints = await connection.client.discoverEndpoints();
+      if (endpoints.join(',') !== previous) {
+        this.emit('endpoints-updated', { id: connection.id, endpoints });
+      }
+    } catch (error: any) {
+      // 权限不足（如Token缺少Sys.Audit）时只使用已配置的地址
+      console.warn(`发现连接 ${connection.id} 的集群节点失败:`, error.message);
+    }
+  }
+
+  // 每个连接一个熔断器，状态变化时发出 circuit-state-changed 事件
+  private getBreaker(id: string): CircuitBreaker {
+    let breaker = this.breakers.get(id);
+    if (!breaker) {
+      breaker = new CircuitBreaker(DEFAULT_CIRCUIT_BREAKER_OPTIONS, (from, to) => {
+        const connection = this.connections.get(id);
+        console.log(`连接 ${connection?.name || id} 熔断器状态: ${from} -> ${to}`);
+        this.emit('circuit-state-changed', { id, name: connection?.name, from, to, retryAt: breaker!.getRetryAt() });
+      });
+      this.breakers.set(id, breaker);
+    }
+    return breaker;
+  }
+
+  // 安排后台重连，已有待执行的重连时不重复安排
+  private scheduleReconnect(connection: PVEConnection): void {
+    if (connection.status === 'certificate-mismatch' || !this.connections.has(connection.id)) {
+      return;
+    }
+
+    const state = this.reconnectStates.get(connection.id) || { attempts: 0 };
+    if (state.timer) {
+      return;
+    }
+
+    const delay = getReconnectDelay(state.attempts);
+    state.attempts++;
+    state.nextAttemptAt = new Date(Date.now() + delay);
+    state.timer = setTimeout(async () => {
+      state.timer = undefined;
+      const current = this.connections.get(connection.id);
+      if (!current || current.status === 'connected' || current.status === 'certificate-mismatch') {
+        return;
+      }
+
+      this.emit('reconnect-attempt', { id: connection.id, name: connection.name, attempt: state.attempts });
+      await this.testConnection(connection.id);
+    }, delay);
+    state.timer.unref();
+
+    this.reconnectStates.set(connection.id, state);
+    this.emit('reconnect-scheduled', {
+      id: connection.id,
+      name: connection.name,
+      attempt: state.attempts,
+      delay,
+      nextAttemptAt: state.nextAttemptAt
+    });
+  }
+
+  private clearReconnect(id: string): void {
+    const state = this.reconnectStates.get(id);
+    if (state?.timer) {
+      clearTimeout(state.timer);
+    }
+    this.reconnectStates.delete(id);
+  }
+
+  // 连接恢复：关闭熔断器并停止后台重连
+  private markConnectionRecovered(connection: PVEConnection): void {
+    const reconnect = this.reconnectStates.get(connection.id);
+    this.clearReconnect(connection.id);
+    this.getBreaker(connection.id).recordSuccess();
+
+    if (reconnect) {
+      this.emit('reconnect-succeeded', { id: connection.id, name: connection.name, attempts: reconnect.attempts });
+    }
+  }
+
+  // 记录连接失败，证书指纹不匹配时进入 certificate-mismatch 状态，其他错误进入后台重连
+  private markConnectionFailed(connection: PVEConnection, error: any): void {
+    const errorMessage = error?.message || String(error);
+    connection.lastError = errorMessage;
+    this.getBreaker(connection.id).recordFailure();
+
+    if (isCertificateMismatch(error)) {
+      const mismatch: CertificateMismatchError = error instanceof CertificateMismatchError ? error : error.cause;
+      const wasMismatched = connection.status === 'certificate-mismatch';
+      connection.status = 'certificate-mismatch';
+
+      // 只在首次进入该状态时发出事件，避免重复告警
+      if (!wasMismatched) {
+        this.emit('certificate-mismatch', {
+          id: connection.id,
+          name: connection.name,
+          host: connection.config.host,
+          endpoint: mismatch?.endpoint,
+          expected: mismatch?.expected,
+          actual: mismatch?.actual
+        });
+      }
+    } else {
+      connection.status = 'error';
+      this.scheduleReconnect(connection);
+    }
+
+    this.emit('connection-error', { id: connection.id, error: errorMessage });
+  }
+
   async addConnection(id: string, name: string, config: PVEConfig): Promise<boolean> {
+    const client = this.createClient(id, config);
+
     try {
-      const client = new PVEApiClient(config);
       
       // 测试连接
       const isConnected = await client.testConnection();
@@ -40,6 +240,14 @@ export class PVEManager extends EventEmitter {
       this.connections.set(id, connection);
       
       this.emit('connection-added', { id, name, status: connection.status });
+
+      if (isConnected) {
+        this.markConnectionRecovered(connection);
+        await this.refreshEndpoints(connection);
+      } else {
+        this.getBreaker(id).recordFailure();
+        this.scheduleReconnect(connection);
+      }
       
       return isConnected;
     } catch (error: any) {
@@ -47,23 +255,72 @@ export class PVEManager extends EventEmitter {
         id,
         name,
         config,
-        client: new PVEApiClient(config),
+        client,
         status: 'error',
         lastError: error.message
       };
 
       this.connections.set(id, connection);
-      this.emit('connection-error', { id, error: error.message });
+      this.markConnectionFailed(connection, error);
       
       return false;
     }
   }
 
+  // 原地更新连接配置：保留连接ID（流量历史、分组、告警仍关联到该连接），替换客户端并重新认证
+  async updateConnection(id: string, name: string, config: PVEConfig): Promise<boolean> {
+    const connection = this.connections.get(id);
+    if (!connection) {
+      throw new Error(`连接 ${id} 不存在`);
+    }
+
+    connection.client.disconnect();
+    connection.name = name;
+    connection.config = config;
+    connection.client = this.createClient(id, config);
+    connection.status = 'disconnected';
+    this.clearReconnect(id);
+    this.getBreaker(id).reset();
+    this.inventory.delete(id);
+
+    this.emit('connection-updated', { id, name });
+
+    return this.testConnection(id);
+  }
+
+  // 信任服务器当前证书指纹（证书更换后由管理员确认），并重新测试连接
+  // endpoint 为故障转移节点地址时只更新该节点的指纹
+  async trustCertificate(id: string, fingerprint: string, endpoint?: string): Promise<boolean> {
+    const connection = this.connections.get(id);
+    if (!connection) {
+      throw new Error(`连接 ${id} 不存在`);
+    }
+
+    if (endpoint && endpoint !== connection.config.host) {
+      connection.config.endpointFingerprints = { ...connection.config.endpointFingerprints, [endpoint]: fingerprint };
+    } else {
+      connection.config.fingerprint = fingerprint;
+    }
+    if (connection.config.tlsMode === 'ca') {
+      connection.config.tlsMode = 'fingerprint';
+    }
+    connection.client.disconnect();
+    connection.client = this.createClient(id, connection.config);
+    connection.status = 'disconnected';
+    this.clearReconnect(id);
+    this.getBreaker(id).reset();
+
+    return this.testConnection(id);
+  }
+
   removeConnection(id: string): boolean {
     const connection = this.connections.get(id);
     if (connection) {
       connection.client.disconnect();
       this.connections.delete(id);
+      this.clearReconnect(id);
+      this.breakers.delete(id);
+      this.inventory.delete(id);
       this.emit('connection-removed', { id });
       return true;
     }
@@ -101,61 +358,147 @@ export class PVEManager extends EventEmitter {
         status: connection.status,
         error: connection.lastError 
       });
+
+      if (isConnected) {
+        this.markConnectionRecovered(connection);
+        await this.refreshEndpoints(connection);
+      } else {
+        this.getBreaker(id).recordFailure();
+        this.scheduleReconnect(connection);
+      }
       
       return isConnected;
     } catch (error: any) {
-      connection.status = 'error';
-      connection.lastError = error.message;
-      
-      this.emit('connection-error', { id, error: error.message });
+      this.markConnectionFailed(connection, error);
       
       return false;
     }
   }
 
-  async getAllVMs(): Promise<any[]> {
-    const allVMs: any[] = [];
-    
-    for (const connection of this.connections.values()) {
-      if (connection.status === 'connected') {
-        try {
-          const vms = await connection.client.getVMs();
-          allVMs.push(...vms.map(vm => ({
-            ...vm,
-            connectionId: connection.id,
-            connectionName: connection.name
-          })));
-        } catch (error: any) {
-          console.error(`获取连接 ${connection.id} 的虚拟机失败:`, error.message);
-          connection.status = 'error';
-          connection.lastError = error.message;
-          this.emit('connection-error', { id: connection.id, error: error.message });
+  // 并行查询所有连接（HTTP请求受并发限制），返回成功部分的数据及各来源的错误
+  private async fanOut<T>(
+    label: string,
+    deadlineMs: number,
+    query: (connection: PVEConnection) => Promise<PartialResult<T>>
+  ): Promise<PartialResult<T>> {
+    const result: PartialResult<T> = { data: [], errors: [] };
+
+    await Promise.all(Array.from(this.connections.values()).map(async (connection) => {
+      const source = { connectionId: connection.id, connectionName: connection.name };
+
+      if (connection.status !== 'connected') {
+        result.errors.push({ ...source, error: `连接不可用: ${connection.lastError || connection.status}` });
+        return;
+      }
+
+      const breaker = this.getBreaker(connection.id);
+      if (!breaker.canRequest()) {
+        result.errors.push({ ...source, error: new CircuitOpenError(connection.name, breaker.getRetryAt()!).message });
+        return;
+      }
+
+      try {
+        const partial = await withDeadline(query(connection), deadlineMs, `获取连接 ${connection.name} 的${label}`);
+        breaker.recordSuccess();
+        result.data.push(...partial.data);
+        result.errors.push(...partial.errors.map(error => ({ ...source, ...error })));
+      } catch (error: any) {
+        console.error(`获取连接 ${connection.id} 的${label}失败:`, error.message);
+        result.errors.push({ ...source, error: error.message });
+        if (!(error instanceof DeadlineExceededError) && isConnectivityError(error)) {
+          this.markConnectionFailed(connection, error);
         }
       }
-    }
-    
-    return allVMs;
+    }));
+
+    return result;
   }
 
-  async getAllNodes(): Promise<any[]> {
-    const allNodes: any[] = [];
-    
-    for (const connection of this.connections.values()) {
-      if (connection.status === 'connected') {
-        try {
-          const nodes = await connection.client.getNodes();
-          allNodes.push(...nodes.map(node => ({
-            ...node,
-            connectionId: connection.id,
-            connectionName: connection.name
-          })));
-        } catch (error: any) {
-          console.error(`获取连接 ${connection.id} 的节点失败:`, error.message);
-        }
+  // 拉取 /cluster/resources 更新连接的资源清单，并按变化发出 vm-added / vm-removed / vm-status-changed / vm-migrated / vm-renamed 事件
+  private async loadInventory(connection: PVEConnection): Promise<InventorySnapshot> {
+    const resources = await connection.client.getClusterResources();
+    const { vms, nodes } = parseClusterResources(resources);
+    const previous = this.inventory.get(connection.id);
+    const snapshot: InventorySnapshot = { vms, nodes, updatedAt: new Date() };
+
+    // 连接在拉取期间被删除时不再缓存
+    if (!this.connections.has(connection.id)) {
+      return snapshot;
+    }
+    this.inventory.set(connection.id, snapshot);
+
+    const source = { connectionId: connection.id, connectionName: connection.name };
+    if (previous) {
+      for (const change of diffInventory(previous.vms, vms)) {
+        const { type, vm, ...details } = change;
+        this.emit(type, { ...source, vm: { ...vm, ...source }, ...details });
       }
     }
-    
-    return allNodes;
+
+    this.emit('inventory-updated', {
+      ...source,
+      initial: !previous,
+      vms: Array.from(vms.values()),
+      nodes,
+      timestamp: snapshot.updatedAt
+    });
+
+    return snapshot;
+  }
+
+  // 读取资源清单缓存，超过 maxAge 时重新拉取；同一连接的并发拉取合并为一次请求
+  private getFreshInventory(connection: PVEConnection, maxAge: number = INVENTORY_MAX_AGE): Promise<InventorySnapshot> {
+    const cached = this.inventory.get(connection.id);
+    if (cached && Date.now() - cached.updatedAt.getTime() < maxAge) {
+      return Promise.resolve(cached);
+    }
+
+    let refresh = this.inventoryRefreshes.get(connection.id);
+    if (!refresh) {
+      refresh = this.loadInventory(connection).finally(() => this.inventoryRefreshes.delete(connection.id));
+      this.inventoryRefreshes.set(connection.id, refresh);
+    }
+    return refresh;
+  }
+
+  // 获取连接的资源清单，maxAge 为 0 时强制刷新
+  async getInventory(connectionId: string, maxAge: number = INVENTORY_MAX_AGE): Promise<InventorySnapshot> {
+    return this.executeOnConnection(connectionId, () => this.getFreshInventory(this.connections.get(connectionId)!, maxAge));
+  }
+
+  // 从资源清单缓存读取连接的虚拟机，可按节点过滤
+  async getConnectionVMs(connectionId: string, node?: string): Promise<VMInfo[]> {
+    const snapshot = await this.getInventory(connectionId);
+    const vms = Array.from(snapshot.vms.values());
+    return node ? vms.filter(vm => vm.node === node) : vms;
+  }
+
+  async getAllVMs(deadlineMs: number = DEFAULT_FANOUT_DEADLINE): Promise<PartialResult<any>> {
+    return this.fanOut('虚拟机', deadlineMs, async (connection) => {
+      const snapshot = await this.getFreshInventory(connection);
+      return {
+        data: Array.from(snapshot.vms.values()).map(vm => ({
+          ...vm,
+          connectionId: connection.id,
+          connectionName: connection.name
+        })),
+        errors: []
+      };
+    });
+  }
+
+  async getAllNodes(deadlineMs: number = DEFAULT_FANOUT_DEADLINE): Promise<PartialResult<any>> {
+    return this.fanOut('节点', deadlineMs, async (connection) => {
+      const snapshot = await this.getFreshInventory(connection);
+      return {
+        data: snapshot.nodes.map(node => ({
+          ...node,
+          connectionId: connection.id,
+          connectionName: connection.name
+        })),
+        errors: []
+      };
+    });
   }
 
   async executeOnConnection<T>(
@@ -167,6 +510,16 @@ export class PVEManager extends EventEmitter {
       throw new Error(`连接 ${connectionId} 不存在`);
     }
 
+    if (connection.status === 'certificate-mismatch') {
+      throw new Error(`连接 ${connectionId} 的TLS证书指纹不匹配，请确认证书后重新信任: ${connection.lastError}`);
+    }
+
+    // 熔断期间直接失败，不再等待请求超时
+    const breaker = this.getBreaker(connectionId);
+    if (!breaker.canRequest()) {
+      throw new CircuitOpenError(connection.name, breaker.getRetryAt()!);
+    }
+
     if (connection.status !== 'connected') {
       // 尝试重新连接
       await this.testConnection(connectionId);
@@ -177,15 +530,56 @@ export class PVEManager extends EventEmitter {
     }
 
     try {
-      return await operation(connection.client);
+      const result = await operation(connection.client);
+      breaker.recordSuccess();
+      return result;
     } catch (error: any) {
-      connection.status = 'error';
-      connection.lastError = error.message;
-      this.emit('connection-error', { id: connectionId, error: error.message });
+      if (isConnectivityError(error)) {
+        this.markConnectionFailed(connection, error);
+      }
       throw error;
     }
   }
 
+  // 轮询PVE任务直到结束，返回最终状态（成功与否由调用方根据 exitstatus 判断）
+  async waitForTask(connectionId: string, node: string, upid: string, options: TaskWaitOptions = {}): Promise<any> {
+    const interval = options.interval ?? TASK_POLL_INTERVAL;
+    const startedAt = Date.now();
+    let logOffset = 0;
+    let errors = 0;
+
+    while (true) {
+      try {
+        const status = await this.executeOnConnection(connectionId, (client) => client.getTaskStatus(node, upid));
+        let lines: string[] = [];
+        if (options.withLog) {
+          const log = await this.executeOnConnection(connectionId, (client) => client.getTaskLog(node, upid, logOffset));
+          // 暂无新日志时PVE返回一行 "no content"
+          if (!(log.length === 1 && log[0].t === 'no content')) {
+            lines = log.map(entry => entry.t);
+            logOffset += log.length;
+          }
+        }
+        errors = 0;
+        options.onProgress?.(status, lines);
+
+        if (status.status === 'stopped') {
+          return status;
+        }
+      } catch (error) {
+        // 轮询偶发失败（如故障转移期间）时继续等待
+        if (++errors >= TASK_POLL_MAX_ERRORS) {
+          throw error;
+        }
+      }
+
+      if (options.timeout && Date.now() - startedAt >= options.timeout) {
+        throw new TaskTimeoutError(upid, options.timeout);
+      }
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+  }
+
   startMonitoring(intervalMs: number = 30000): void {
     if (this.monitoringInterval) {
       clearInterval(this.monitoringInterval);
@@ -195,18 +589,15 @@ export class PVEManager extends EventEmitter {
       for (const [id, connection] of this.connections) {
         if (connection.status === 'connected') {
           try {
-            await connection.client.getVersion();
-            // 获取最新资源数据
-            const nodes = await connection.client.getNodes();
+            // 刷新资源清单（同时作为连接健康检查）
+            const snapshot = await this.getFreshInventory(connection, 0);
             this.emit('resource-update', { 
               connectionId: id, 
-              nodes,
-              timestamp: new Date()
+              nodes: snapshot.nodes,
+              timestamp: snapshot.updatedAt
             });
           } catch (error: any) {
-            connection.status = 'error';
-            connection.lastError = error.message;
-            this.emit('connection-error', { id, error: error.message });
+            this.markConnectionFailed(connection, error);
           }
         }
       }
@@ -220,6 +611,10 @@ export class PVEManager extends EventEmitter {
     }
   }
 
+  getRequestStats(): { active: number; queued: number } {
+    return this.limiter.getStats();
+  }
+
   getConnectionStats(): any {
     const total = this.connections.size;
     const connected = Array.from(this.connections.values())
@@ -228,18 +623,41 @@ export class PVEManager extends EventEmitter {
       .filter(conn => conn.status === 'disconnected').length;
     const error = Array.from(this.connections.values())
       .filter(conn => conn.status === 'error').length;
+    const certificateMismatch = Array.from(this.connections.values())
+      .filter(conn => conn.status === 'certificate-mismatch').length;
 
     return {
       total,
       connected,
       disconnected,
       error,
+      certificateMismatch,
       healthRatio: total > 0 ? connected / total : 0
     };
   }
 
+  // 各连接的熔断器与后台重连状态
+  getConnectionHealth(): ConnectionHealth[] {
+    return Array.from(this.connections.values()).map(connection => {
+      const reconnect = this.reconnectStates.get(connection.id);
+      return {
+        id: connection.id,
+        name: connection.name,
+        status: connection.status,
+        ...this.getBreaker(connection.id).getSnapshot(),
+        reconnectAttempts: reconnect?.attempts || 0,
+        nextReconnectAt: reconnect?.timer ? reconnect.nextAttemptAt : undefined
+      };
+    });
+  }
+
   destroy(): void {
     this.stopMonitoring();
+    for (const id of this.reconnectStates.keys()) {
+      this.clearReconnect(id);
+    }
+    this.breakers.clear();
+    this.inventory.clear();
     for (const connection of this.connections.values()) {
       connection.client.disconnect();
     }
@@ -0,0 +1,161 @@
+import * as net from 'net';
+import * as https from 'https';
+import axios from 'axios';
+import { PVEManager } from './pve-manager';
+
+// 分组顺序启动的就绪检查：VM启动后轮询检查通过才继续启动下一阶段
+export type ReadinessType = 'agent' | 'tcp' | 'http';
+
+export interface ReadinessCheck {
+  type: ReadinessType;
+  host?: string; // tcp: 目标地址
+  port?: number; // tcp: 目标端口
+  url?: string; // http: 检查地址
+  expect_status?: number; // http: 期望的状态码，默认接受 2xx/3xx
+  timeout?: number; // 等待就绪的最长秒数
+}
+
+export interface ReadinessTarget {
+  connection_id: string;
+  node: string;
+  vmid: number;
+  type: 'qemu' | 'lxc';
+}
+
+export const DEFAULT_READINESS_TIMEOUT = 300;
+export const MAX_READINESS_TIMEOUT = 3600;
+
+const POLL_INTERVAL = 5000;
+const PROBE_TIMEOUT = 5000;
+
+// 探测的服务通常使用自签名证书，只关心是否可用，不校验证书
+const probeHttpsAgent = new https.Agent({ rejectUnauthorized: false });
+
+// 校验并规范化就绪检查配置，返回错误信息或规范化后的配置
+export function normalizeReadinessCheck(check: any): { check?: ReadinessCheck; error?: string } {
+  if (!check || typeof check !== 'object') {
+    return { error: '就绪检查配置无效' };
+  }
+
+  const timeout = check.timeout ?? DEFAULT_READINESS_TIMEOUT;
+  if (!Number.isInteger(timeout) || timeout < 1 || timeout > MAX_READINESS_TIMEOUT) {
+    return { error: `就绪检查超时必须是 1-${MAX_READINESS_TIMEOUT} 秒之间的整数` };
+  }
+
+  switch (check.type) {
+    case 'agent':
+      return { check: { type: 'agent', timeout } };
+    case 'tcp':
+      if (typeof check.host !== 'string' || !check.host.trim()) {
+        return { error: 'TCP检查需要提供 host' };
+      }
+      if (!Number.isInteger(check.port) || check.port < 1 || check.port > 65535) {
+        return { error: 'TCP检查的端口必须是 1-65535 之间的整数' };
+      }
+      return { check: { type: 'tcp', host: check.host.trim(), port: check.port, timeout } };
+    case 'http': {
+      let url: URL;
+      try {
+        url = new URL(check.url);
+      } catch {
+        return { error: 'HTTP检查需要提供有效的 url' };
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { error: 'HTTP检查仅支持 http/https 地址' };
+      }
+      if (check.expect_status !== undefined && check.expect_status !== null &&
+        (!Number.isInteger(check.expect_status) || check.expect_status < 100 || check.expect_status > 599)) {
+        return { error: 'expect_status 必须是有效的HTTP状态码' };
+      }
+      return { check: { type: 'http', url: url.toString(), expect_status: check.expect_status ?? undefined, timeout } };
+    }
+    default:
+      return { error: '就绪检查类型必须是 agent、tcp 或 http' };
+  }
+}
+
+function probeTcp(host: string, port: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(PROBE_TIMEOUT);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve();
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error(`连接 ${host}:${port} 超时`));
+    });
+    socket.once('error', (error) => {
+      socket.destroy();
+      reject(error);
+    });
+  });
+}
+
+async function probeHttp(url: string, expectStatus?: number): Promise<void> {
+  const response = await axios.get(url, {
+    timeout: PROBE_TIMEOUT,
+    httpsAgent: probeHttpsAgent,
+    maxRedirects: 0,
+    validateStatus: () => true
+  });
+  const ok = expectStatus ? response.status === expectStatus : response.status >= 200 && response.status < 400;
+  if (!ok) {
+    throw new Error(`HTTP状态码 ${response.status}`);
+  }
+}
+
+async function probe(pveManager: PVEManager, target: ReadinessTarget, check: ReadinessCheck): Promise<void> {
+  switch (check.type) {
+    case 'agent':
+      await pveManager.executeOnConnection(target.connection_id, (client) => client.agentPing(target.node, target.vmid));
+      return;
+    case 'tcp':
+      return probeTcp(check.host!, check.port!);
+    case 'http':
+      return probeHttp(check.url!, check.expect_status);
+  }
+}
+
+export function describeReadinessCheck(check: ReadinessCheck): string {
+  switch (check.type) {
+    case 'agent':
+      return 'guest agent';
+    case 'tcp':
+      return `TCP ${check.host}:${check.port}`;
+    case 'http':
+      return `HTTP ${check.url}`;
+  }
+}
+
+// 轮询直到检查通过；超时或被取消时抛出错误（包含最后一次失败原因）
+export async function waitForReadiness(
+  pveManager: PVEManager,
+  target: ReadinessTarget,
+  check: ReadinessCheck,
+  isCancelled: () => boolean = () => false
+): Promise<void> {
+  if (check.type === 'agent' && target.type !== 'qemu') {
+    throw new Error('guest agent 检查仅支持 QEMU 虚拟机');
+  }
+
+  const deadline = Date.now() + (check.timeout ?? DEFAULT_READINESS_TIMEOUT) * 1000;
+  let lastError = '';
+  while (true) {
+    try {
+      await probe(pveManager, target, check);
+      return;
+    } catch (error: any) {
+      lastError = error.message;
+    }
+
+    if (isCancelled()) {
+      throw new Error('任务已取消，未等待就绪检查');
+    }
+    if (Date.now() + POLL_INTERVAL > deadline) {
+      throw new Error(`就绪检查未通过 (${describeReadinessCheck(check)}): ${lastError}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+  }
+}
@@ -0,0 +1,153 @@
+import { BackupOptions, isTaskSuccessful } from './pve-api';
+import { PVEManager } from './pve-manager';
+import { POWER_ACTIONS, PowerAction, normalizePowerAction, sendPowerAction } from './vm-actions';
+import { POWER_TASK_TIMEOUT, BACKUP_TASK_TIMEOUT } from './batch-jobs';
+
+// 定时任务执行适配器：通过 PVEManager 对单个VM执行操作，并等待PVE任务结束后返回真实结果
+export type ScheduledAction = PowerAction | 'backup' | 'snapshot';
+
+export const SCHEDULED_ACTIONS: ScheduledAction[] = [...POWER_ACTIONS, 'backup', 'snapshot'];
+
+export interface ScheduledTarget {
+  connection_id: string;
+  node?: string; // 仅作参考，执行时以资源清单中的当前节点为准（VM可能已迁移）
+  vmid: number;
+}
+
+// 操作参数，来自任务的 target_details
+export interface ScheduledActionOptions {
+  storage?: string;
+  mode?: BackupOptions['mode'];
+  compress?: string;
+  snapshot_prefix?: string;
+  vmstate?: boolean;
+}
+
+export interface ScheduledActionResult {
+  connectionId: string;
+  node?: string;
+  vmid: number;
+  vmname?: string;
+  type?: 'qemu' | 'lxc';
+  action: ScheduledAction;
+  status: 'success' | 'failed' | 'skipped';
+  taskId?: string;
+  exitstatus?: string;
+  snapname?: string;
+  error?: string;
+}
+
+export const SNAPSHOT_TASK_TIMEOUT = 30 * 60 * 1000;
+
+// 快照名前缀：加上时间戳后不超过PVE的40个字符限制
+const SNAPSHOT_PREFIX_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]{0,23}$/;
+const DEFAULT_SNAPSHOT_PREFIX = 'auto';
+
+// 兼容旧的 restart 操作名
+export function normalizeScheduledAction(action: any): ScheduledAction | null {
+  if (action === 'backup' || action === 'snapshot') {
+    return action;
+  }
+  return normalizePowerAction(action);
+}
+
+// 校验操作参数，返回错误信息
+export function validateScheduledOptions(action: ScheduledAction, options: ScheduledActionOptions): string | null {
+  if (action === 'backup' && options.mode && !['snapshot', 'suspend', 'stop'].includes(options.mode)) {
+    return '备份模式必须是 snapshot、suspend 或 stop';
+  }
+  if (action === 'snapshot' && options.snapshot_prefix && !SNAPSHOT_PREFIX_PATTERN.test(options.snapshot_prefix)) {
+    return '快照名前缀必须以字母开头，最多24个字母、数字、下划线或连字符';
+  }
+  return null;
+}
+
+function buildSnapshotName(prefix: string | undefined, date: Date): string {
+  const stamp = date.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '_');
+  return `${prefix || DEFAULT_SNAPSHOT_PREFIX}_${stamp}`;
+}
+
+export async function waitForResult(
+  pveManager: PVEManager,
+  result: ScheduledActionResult,
+  taskId: string,
+  timeout: number
+): Promise<ScheduledActionResult> {
+  try {
+    const status = await pveManager.waitForTask(result.connectionId, result.node!, taskId, { timeout });
+    return isTaskSuccessful(status)
+      ? { ...result, status: 'success', taskId, exitstatus: status.exitstatus }
+      : { ...result, status: 'failed', taskId, exitstatus: status.exitstatus, error: status.exitstatus };
+  } catch (error: any) {
+    return { ...result, status: 'failed', taskId, error: error.message };
+  }
+}
+
+// 从资源清单查找目标VM当前所在节点和类型（qemu/lxc）
+export async function resolveTargetVM(pveManager: PVEManager, target: ScheduledTarget): Promise<{ vm?: any; error?: string }> {
+  const connection = pveManager.getConnection(target.connection_id);
+  if (!connection || connection.status !== 'connected') {
+    return { error: '连接不可用' };
+  }
+
+  try {
+    const vms = await pveManager.getConnectionVMs(target.connection_id);
+    const vm = vms.find((v: any) => v.vmid === target.vmid);
+    return vm ? { vm } : { error: '虚拟机不存在' };
+  } catch (error: any) {
+    return { error: `获取虚拟机信息失败: ${error.message}` };
+  }
+}
+
+// 对单个VM执行定时任务操作
+export async function executeScheduledAction(
+  pveManager: PVEManager,
+  target: ScheduledTarget,
+  action: ScheduledAction,
+  options: ScheduledActionOptions = {}
+): Promise<ScheduledActionResult> {
+  const result: ScheduledActionResult = { connectionId: target.connection_id, node: target.node, vmid: target.vmid, action, status: 'failed' };
+
+  const { vm, error } = await resolveTargetVM(pveManager, target);
+  if (!vm) {
+    return { ...result, error };
+  }
+
+  const resolved: ScheduledActionResult = { ...result, node: vm.node, vmname: vm.name, type: vm.type };
+
+  try {
+    if (action === 'backup') {
+      const taskId = await pveManager.executeOnConnection(target.connection_id, (client) =>
+        client.createBackup(vm.node, target.vmid, {
+          storage: options.storage || 'local',
+          mode: options.mode || 'snapshot',
+          compress: options.compress || 'zstd',
+          notes: `Scheduled backup by PVE Manager at ${new Date().toISOString()}`
+        })
+      );
+      return waitForResult(pveManager, resolved, taskId, BACKUP_TASK_TIMEOUT);
+    }
+
+    if (action === 'snapshot') {
+      const snapname = buildSnapshotName(options.snapshot_prefix, new Date());
+      const taskId = await pveManager.executeOnConnection(target.connection_id, (client) =>
+        client.createSnapshot(vm.node, target.vmid, vm.type, snapname, {
+          description: 'Scheduled snapshot by PVE Manager',
+          vmstate: !!options.vmstate
+        })
+      );
+      return waitForResult(pveManager, { ...resolved, snapname }, taskId, SNAPSHOT_TASK_TIMEOUT);
+    }
+
+    const sent = await sendPowerAction(pveManager, { connection_id: target.connection_id, node: vm.node, vmid: target.vmid, type: vm.type }, action);
+    if (!sent.success) {
+      return { ...resolved, vmname: sent.vmname || vm.name, error: sent.error };
+    }
+    if (sent.skipped) {
+      return { ...resolved, status: 'skipped', error: `当前状态为 ${sent.previousStatus}` };
+    }
+    return waitForResult(pveManager, resolved, sent.taskId!, POWER_TASK_TIMEOUT);
+  } catch (error: any) {
+    return { ...resolved, error: error.message };
+  }
+}
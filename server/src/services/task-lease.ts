@@ -0,0 +1,73 @@
+import * as os from 'os';
+import * as crypto from 'crypto';
+
+// 定时任务的数据库租约锁：多个管理实例共用同一数据库时，同一任务同时只由一个实例执行
+// 持有者在执行期间定期续期，实例崩溃后租约过期即可被其他实例接管
+export const SCHEDULER_INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+export const LEASE_DURATION = 60 * 1000;
+const LEASE_RENEW_INTERVAL = 20 * 1000;
+
+export interface TaskLease {
+  release(): Promise<void>;
+}
+
+// 认领一次计划执行：仅当 next_run 仍为 dueAt 时推进到 nextRun（一次性任务同时禁用），保证每次计划执行只被处理一次
+export interface OccurrenceClaim {
+  dueAt: string;
+  nextRun: string | null;
+  disable: boolean;
+}
+
+function leaseExpiry(): string {
+  return new Date(Date.now() + LEASE_DURATION).toISOString();
+}
+
+export function isTaskLeased(task: any): boolean {
+  return !!task.lock_owner && !!task.lock_expires && task.lock_expires > new Date().toISOString();
+}
+
+// 不获取租约只认领计划执行（用于跳过的执行），返回是否认领成功
+export async function claimOccurrence(db: any, taskId: string, claim: OccurrenceClaim): Promise<boolean> {
+  const result = await db.run(
+    `UPDATE scheduled_tasks SET next_run = ?, enabled = CASE WHEN ? THEN 0 ELSE enabled END, updated_at = ?
+     WHERE id = ? AND next_run = ?`,
+    [claim.nextRun, claim.disable ? 1 : 0, new Date().toISOString(), taskId, claim.dueAt]
+  );
+  return result.changes > 0;
+}
+
+// 获取任务租约（可同时认领一次计划执行），租约被其他执行持有或计划执行已被认领时返回 null
+export async function acquireTaskLease(db: any, taskId: string, claim?: OccurrenceClaim): Promise<TaskLease | null> {
+  const now = new Date().toISOString();
+  const result = claim
+    ? await db.run(
+      `UPDATE scheduled_tasks SET lock_owner = ?, lock_expires = ?, next_run = ?, enabled = CASE WHEN ? THEN 0 ELSE enabled END, updated_at = ?
+       WHERE id = ? AND next_run = ? AND (lock_owner IS NULL OR lock_expires IS NULL OR lock_expires < ?)`,
+      [SCHEDULER_INSTANCE_ID, leaseExpiry(), claim.nextRun, claim.disable ? 1 : 0, now, taskId, claim.dueAt, now]
+    )
+    : await db.run(
+      `UPDATE scheduled_tasks SET lock_owner = ?, lock_expires = ?
+       WHERE id = ? AND (lock_owner IS NULL OR lock_expires IS NULL OR lock_expires < ?)`,
+      [SCHEDULER_INSTANCE_ID, leaseExpiry(), taskId, now]
+    );
+  if (result.changes === 0) {
+    return null;
+  }
+
+  const renewTimer = setInterval(() => {
+    db.run('UPDATE scheduled_tasks SET lock_expires = ? WHERE id = ? AND lock_owner = ?', [leaseExpiry(), taskId, SCHEDULER_INSTANCE_ID])
+      .catch((error: any) => console.error(`续期任务租约失败 (${taskId}):`, error.message));
+  }, LEASE_RENEW_INTERVAL);
+  renewTimer.unref();
+
+  return {
+    release: async () => {
+      clearInterval(renewTimer);
+      await db.run(
+        'UPDATE scheduled_tasks SET lock_owner = NULL, lock_expires = NULL WHERE id = ? AND lock_owner = ?',
+        [taskId, SCHEDULER_INSTANCE_ID]
+      );
+    }
+  };
+}
@@ -0,0 +1,97 @@
+import { PVEConfig } from '../config/pve';
+import { CertificateMismatchError, createPVEHttpsAgent, isCertificateMismatch, normalizeFingerprint } from './tls-pinning';
+
+const HEX = 'ab'.repeat(32);
+const FINGERPRINT = 'AB:'.repeat(31) + 'AB';
+const OTHER_FINGERPRINT = 'CD:'.repeat(31) + 'CD';
+
+const baseConfig = (overrides: Partial<PVEConfig> = {}): PVEConfig => ({
+  host: 'pve1.example.com',
+  port: 8006,
+  username: 'root',
+  realm: 'pam',
+  ssl: true,
+  ...overrides
+} as PVEConfig);
+
+// 模拟TLS握手完成后对端证书指纹的校验
+const verify = (agent: any, fingerprint: string) => agent.verify(fingerprint);
+
+describe('normalizeFingerprint', () => {
+  it('统一为冒号分隔的大写格式', () => {
+    expect(normalizeFingerprint(HEX)).toBe(FINGERPRINT);
+    expect(normalizeFingerprint(FINGERPRINT.toLowerCase())).toBe(FINGERPRINT);
+    expect(normalizeFingerprint(` ${HEX.replace(/(..)/g, '$1-')} `)).toBe(FINGERPRINT);
+    expect(normalizeFingerprint(normalizeFingerprint(HEX))).toBe(FINGERPRINT);
+  });
+
+  it('长度不是 SHA-256 时抛出错误', () => {
+    expect(() => normalizeFingerprint('')).toThrow();
+    expect(() => normalizeFingerprint('AB:CD')).toThrow();
+    expect(() => normalizeFingerprint('ab'.repeat(20))).toThrow(); // SHA-1
+    expect(() => normalizeFingerprint(HEX + 'ab')).toThrow();
+  });
+
+  it('忽略非十六进制字符，不能用其他字符凑长度', () => {
+    expect(() => normalizeFingerprint('zz'.repeat(32))).toThrow();
+  });
+});
+
+describe('isCertificateMismatch', () => {
+  it('识别直接抛出、包装在 cause 中和按 code 标记的错误', () => {
+    const error = new CertificateMismatchError(FINGERPRINT, OTHER_FINGERPRINT);
+    expect(isCertificateMismatch(error)).toBe(true);
+    expect(isCertificateMismatch({ cause: error })).toBe(true);
+    expect(isCertificateMismatch({ code: 'PVE_CERT_MISMATCH' })).toBe(true);
+    expect(isCertificateMismatch(new Error('ECONNREFUSED'))).toBe(false);
+    expect(isCertificateMismatch(undefined)).toBe(false);
+  });
+});
+
+describe('createPVEHttpsAgent', () => {
+  it('TOFU 首次连接记录指纹，之后必须一致', () => {
+    const config = baseConfig({ tlsMode: 'tofu' });
+    const recorded = jest.fn();
+    const agent = createPVEHttpsAgent(config, recorded);
+
+    verify(agent, HEX);
+    expect(config.fingerprint).toBe(FINGERPRINT);
+    expect(recorded).toHaveBeenCalledWith(FINGERPRINT, undefined);
+
+    expect(() => verify(agent, HEX.toUpperCase())).not.toThrow();
+    expect(() => verify(agent, OTHER_FINGERPRINT)).toThrow(CertificateMismatchError);
+    expect(config.fingerprint).toBe(FINGERPRINT);
+  });
+
+  it('指纹模式只接受配置的指纹', () => {
+    const agent = createPVEHttpsAgent(baseConfig({ tlsMode: 'fingerprint', fingerprint: HEX }));
+    expect(() => verify(agent, FINGERPRINT)).not.toThrow();
+    expect(() => verify(agent, OTHER_FINGERPRINT)).toThrow(CertificateMismatchError);
+    expect(() => createPVEHttpsAgent(baseConfig({ tlsMode: 'fingerprint' }))).toThrow();
+  });
+
+  it('故障转移节点使用各自记录的指纹', () => {
+    const config = baseConfig({ tlsMode: 'tofu', fingerprint: FINGERPRINT });
+    const recorded = jest.fn();
+    const agent = createPVEHttpsAgent(config, recorded, 'pve2.example.com:8006');
+
+    verify(agent, OTHER_FINGERPRINT);
+    expect(config.endpointFingerprints).toEqual({ 'pve2.example.com:8006': OTHER_FINGERPRINT });
+    expect(config.fingerprint).toBe(FINGERPRINT);
+    expect(recorded).toHaveBeenCalledWith(OTHER_FINGERPRINT, 'pve2.example.com:8006');
+
+    try {
+      verify(agent, FINGERPRINT);
+      throw new Error('应当抛出 CertificateMismatchError');
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(CertificateMismatchError);
+      expect(error.endpoint).toBe('pve2.example.com:8006');
+      expect(error.expected).toBe(OTHER_FINGERPRINT);
+      expect(error.actual).toBe(FINGERPRINT);
+    }
+  });
+
+  it('CA 模式需要提供 CA 证书', () => {
+    expect(() => createPVEHttpsAgent(baseConfig({ tlsMode: 'ca' }))).toThrow();
+  });
+});
@@ -0,0 +1,134 @@
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+import { ClientRequestArgs } from 'http';
+import { Duplex } from 'stream';
+import { PVEConfig } from '../config/pve';
+
+// PVE连接的TLS证书校验
+// - tofu: 首次连接时记录证书SHA-256指纹，之后必须一致
+// - fingerprint: 使用显式配置的指纹
+// - ca: 使用自定义CA证书校验证书链
+export type TLSMode = 'tofu' | 'fingerprint' | 'ca';
+
+export const DEFAULT_TLS_MODE: TLSMode = 'tofu';
+
+export class CertificateMismatchError extends Error {
+  readonly code = 'PVE_CERT_MISMATCH';
+
+  // endpoint: 集群故障转移节点的地址，主节点为空
+  constructor(public expected: string, public actual: string, public endpoint?: string) {
+    super(`TLS证书指纹不匹配${endpoint ? ` (${endpoint})` : ''}: 期望 ${expected}，实际 ${actual}`);
+    this.name = 'CertificateMismatchError';
+  }
+}
+
+// 判断错误是否由证书指纹不匹配引起（axios 会将底层错误包装在 cause 中）
+export function isCertificateMismatch(error: any): boolean {
+  return error instanceof CertificateMismatchError
+    || error?.cause instanceof CertificateMismatchError
+    || error?.code === 'PVE_CERT_MISMATCH';
+}
+
+// 统一为 AA:BB:CC... 的大写格式
+export function normalizeFingerprint(fingerprint: string): string {
+  const hex = fingerprint.replace(/[^0-9a-fA-F]/g, '').toUpperCase();
+  if (hex.length !== 64) {
+    throw new Error('无效的SHA-256证书指纹');
+  }
+  return hex.match(/.{2}/g)!.join(':');
+}
+
+// 在TLS握手完成、发送任何请求数据之前校验对端证书指纹的Agent
+// createConnection 不直接返回socket，而是在校验通过后通过回调交给 http.Agent（Agent 支持异步创建连接）
+class FingerprintPinningAgent extends https.Agent {
+  constructor(private verify: (fingerprint: string) => void) {
+    // 禁用TLS会话复用：复用的会话拿不到对端证书，无法校验指纹
+    super({ rejectUnauthorized: false, maxCachedSessions: 0 });
+  }
+
+  createConnection(options: ClientRequestArgs, callback?: (err: Error | null, stream: Duplex) => void): Duplex {
+    const socket = super.createConnection(options) as tls.TLSSocket;
+    const done = callback || (() => undefined);
+
+    socket.once('error', (error) => done(error, socket));
+    socket.once('secureConnect', () => {
+      try {
+        this.verify(socket.getPeerCertificate().fingerprint256 || '');
+        done(null, socket);
+      } catch (error: any) {
+        socket.destroy();
+        done(error, socket);
+      }
+    });
+
+    return undefined as unknown as Duplex;
+  }
+}
+
+// 根据连接配置创建 https.Agent；TOFU 模式首次记录指纹时回调 onFingerprintRecorded
+// endpoint 为集群中的其他节点时，使用该节点单独记录的指纹（每个PVE节点有自己的证书）
+export function createPVEHttpsAgent(
+  config: PVEConfig,
+  onFingerprintRecorded?: (fingerprint: string, endpoint?: string) => void,
+  endpoint?: string
+): https.Agent {
+  const mode = config.tlsMode || DEFAULT_TLS_MODE;
+
+  if (mode === 'ca') {
+    if (!config.caCert) {
+      throw new Error('CA证书模式需要提供 caCert');
+    }
+    return new https.Agent({ ca: config.caCert, rejectUnauthorized: true });
+  }
+
+  if (mode === 'fingerprint' && !config.fingerprint) {
+    throw new Error('指纹模式需要提供 fingerprint');
+  }
+
+  const secondary = endpoint && endpoint !== config.host ? endpoint : undefined;
+  const getPinned = () => secondary ? config.endpointFingerprints?.[secondary] : config.fingerprint;
+  const setPinned = (fingerprint: string) => {
+    if (secondary) {
+      config.endpointFingerprints = { ...config.endpointFingerprints, [secondary]: fingerprint };
+    } else {
+      config.fingerprint = fingerprint;
+    }
+  };
+
+  return new FingerprintPinningAgent((actual) => {
+    const observed = normalizeFingerprint(actual);
+    const pinned = getPinned();
+
+    if (!pinned) {
+      // TOFU: 首次连接，记录指纹（故障转移节点在指纹模式下同样首次记录）
+      setPinned(observed);
+      onFingerprintRecorded?.(observed, secondary);
+      return;
+    }
+
+    const expected = normalizeFingerprint(pinned);
+    if (expected !== observed) {
+      throw new CertificateMismatchError(expected, observed, secondary);
+    }
+  });
+}
+
+// 获取服务器当前证书的SHA-256指纹（不做任何校验）
+export function fetchCertificateFingerprint(host: string, port: number, timeout: number = 10000): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const servername = net.isIP(host) ? undefined : host;
+    const socket = tls.connect({ host, port, servername, rejectUnauthorized: false, timeout }, () => {
+      const certificate = socket.getPeerCertificate();
+      socket.end();
+      if (!certificate || !certificate.fingerprint256) {
+        reject(new Error('服务器未提供证书'));
+        return;
+      }
+      resolve(normalizeFingerprint(certificate.fingerprint256));
+    });
+
+    socket.on('timeout', () => socket.destroy(new Error('获取证书超时')));
+    socket.on('error', reject);
+  });
+}
@@ -0,0 +1,71 @@
+import { PVEManager } from './pve-manager';
+
+export type PowerAction = 'start' | 'stop' | 'shutdown' | 'reboot';
+
+export const POWER_ACTIONS: PowerAction[] = ['start', 'stop', 'shutdown', 'reboot'];
+
+// 执行操作前要求的VM状态，不满足时跳过
+const REQUIRED_STATUS: Record<PowerAction, string> = {
+  start: 'stopped',
+  stop: 'running',
+  shutdown: 'running',
+  reboot: 'running'
+};
+
+export interface PowerTarget {
+  connection_id: string;
+  node: string;
+  vmid: number;
+  type: 'qemu' | 'lxc';
+}
+
+export interface PowerActionResult {
+  connection_id: string;
+  node: string;
+  vmid: number;
+  vmname?: string;
+  success: boolean;
+  skipped?: boolean;
+  taskId?: string | null;
+  exitstatus?: string;
+  previousStatus?: string;
+  error?: string;
+}
+
+// 兼容旧的 restart 操作名
+export function normalizePowerAction(action: any): PowerAction | null {
+  if (action === 'restart') {
+    return 'reboot';
+  }
+  return POWER_ACTIONS.includes(action) ? action : null;
+}
+
+// 检查VM当前状态并发送电源命令，返回PVE任务ID（状态不满足时跳过）
+export async function sendPowerAction(pveManager: PVEManager, target: PowerTarget, action: PowerAction): Promise<PowerActionResult> {
+  const base = { connection_id: target.connection_id, node: target.node, vmid: target.vmid };
+  const connection = pveManager.getConnection(target.connection_id);
+  if (!connection || connection.status !== 'connected') {
+    return { ...base, success: false, error: '连接不可用' };
+  }
+
+  try {
+    return await pveManager.executeOnConnection(target.connection_id, async (client) => {
+      const vmStatus = await client.getVMStatus(target.node, target.vmid, target.type);
+      const result = { ...base, vmname: vmStatus.name, previousStatus: vmStatus.status };
+      if (vmStatus.status !== REQUIRED_STATUS[action]) {
+        return { ...result, success: true, skipped: true, taskId: null };
+      }
+
+      const commands: Record<PowerAction, () => Promise<string>> = {
+        start: () => client.startVM(target.node, target.vmid, target.type),
+        stop: () => client.stopVM(target.node, target.vmid, target.type),
+        shutdown: () => client.shutdownVM(target.node, target.vmid, target.type),
+        reboot: () => client.rebootVM(target.node, target.vmid, target.type)
+      };
+      const taskId = await commands[action]();
+      return { ...result, success: true, skipped: false, taskId };
+    });
+  } catch (error: any) {
+    return { ...base, success: false, error: error.message };
+  }
+}
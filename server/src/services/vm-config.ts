@@ -0,0 +1,251 @@
+import { PVEApiClient } from './pve-api';
+
+// 配置在读取后已被他人修改（digest 不一致）
+export class ConfigConflictError extends Error {
+  readonly code = 'PVE_CONFIG_CONFLICT';
+
+  constructor(public currentDigest: string) {
+    super('配置已被其他用户修改，请刷新后重试');
+    this.name = 'ConfigConflictError';
+  }
+}
+
+export interface NetworkDeviceSpec {
+  model?: string; // QEMU网卡型号，默认 virtio
+  bridge: string;
+  vlan?: number;
+  firewall?: boolean;
+  ip?: string; // LXC: dhcp 或 CIDR
+  gateway?: string; // LXC
+}
+
+export interface DiskResize {
+  disk: string; // 如 scsi0、rootfs、mp0
+  size: string; // 如 +10G（增加）或 50G（调整到）
+}
+
+export interface ConfigUpdateRequest {
+  digest: string;
+  set: Record<string, string | number>;
+  delete: string[];
+  addNetworks: NetworkDeviceSpec[];
+  resize: DiskResize[];
+}
+
+export type ChangeEffect = 'live' | 'hotplug' | 'reboot';
+
+export interface ConfigChange {
+  key: string;
+  action: 'set' | 'delete' | 'resize';
+  value?: string | number;
+  effect: ChangeEffect; // live: 立即生效；hotplug: 运行中热插拔；reboot: 重启后生效
+}
+
+// 不影响运行状态、修改后立即生效的配置项
+const LIVE_KEYS = new Set([
+  'name', 'hostname', 'description', 'onboot', 'startup', 'tags', 'protection',
+  'ciuser', 'cipassword', 'sshkeys', 'nameserver', 'searchdomain', 'cicustom'
+]);
+// LXC运行中可直接生效的资源限制
+const LXC_HOTPLUG_KEYS = new Set(['cores', 'cpulimit', 'cpuunits', 'memory', 'swap']);
+// 禁止通过配置接口修改的字段
+const PROTECTED_KEYS = new Set(['digest', 'vmid', 'node', 'delete', 'revert', 'template', 'lock', 'parent', 'snaptime']);
+const CONFIG_KEY = /^[a-z][a-z0-9_-]*$/;
+const RESIZE_SIZE = /^\+?\d+(\.\d+)?[KMGT]?$/;
+const QEMU_DISK_KEY = /^(ide|sata|scsi|virtio|efidisk|tpmstate)\d+$/;
+const LXC_DISK_KEY = /^(rootfs|mp\d+)$/;
+
+// QEMU的热插拔功能列表，PVE默认为 network,disk,usb
+export function getHotplugFeatures(config: any): string[] {
+  const hotplug = config.hotplug === undefined ? 'network,disk,usb' : String(config.hotplug);
+  if (hotplug === '0') {
+    return [];
+  }
+  if (hotplug === '1') {
+    return ['network', 'disk', 'usb'];
+  }
+  return hotplug.split(',').map(feature => feature.trim()).filter(Boolean);
+}
+
+// 判断单个配置项的修改在虚拟机运行时的生效方式
+export function classifyChange(type: 'qemu' | 'lxc', key: string, config: any): ChangeEffect {
+  if (LIVE_KEYS.has(key) || /^ipconfig\d+$/.test(key)) {
+    return 'live';
+  }
+
+  if (type === 'lxc') {
+    return LXC_HOTPLUG_KEYS.has(key) || /^net\d+$/.test(key) ? 'hotplug' : 'reboot';
+  }
+
+  const hotplug = getHotplugFeatures(config);
+  if (/^net\d+$/.test(key)) {
+    return hotplug.includes('network') ? 'hotplug' : 'reboot';
+  }
+  if (/^(scsi|virtio)\d+$/.test(key)) {
+    return hotplug.includes('disk') ? 'hotplug' : 'reboot';
+  }
+  if (/^usb\d+$/.test(key)) {
+    return hotplug.includes('usb') ? 'hotplug' : 'reboot';
+  }
+  if (key === 'vcpus') {
+    return hotplug.includes('cpu') ? 'hotplug' : 'reboot';
+  }
+  if (key === 'memory') {
+    // 内存热插拔还需要启用NUMA
+    return hotplug.includes('memory') && String(config.numa) === '1' ? 'hotplug' : 'reboot';
+  }
+  if (key === 'balloon') {
+    return 'hotplug';
+  }
+  return 'reboot';
+}
+
+export function validateConfigUpdate(body: any, type: 'qemu' | 'lxc'): { errors: string[]; request?: ConfigUpdateRequest } {
+  const errors: string[] = [];
+  const set = body.set || {};
+  const remove: string[] = body.delete || [];
+  const addNetworks: NetworkDeviceSpec[] = body.addNetworks || [];
+  const resize: DiskResize[] = body.resize || [];
+
+  if (!body.digest || typeof body.digest !== 'string') {
+    errors.push('缺少配置摘要 digest（请先读取配置）');
+  }
+  if (typeof set !== 'object' || Array.isArray(set)) {
+    errors.push('set 必须是对象');
+  } else {
+    for (const [key, value] of Object.entries(set)) {
+      if (!CONFIG_KEY.test(key) || PROTECTED_KEYS.has(key)) {
+        errors.push(`不允许修改配置项 ${key}`);
+      } else if (typeof value !== 'string' && typeof value !== 'number') {
+        errors.push(`配置项 ${key} 的值必须是字符串或数字`);
+      }
+    }
+  }
+  if (!Array.isArray(remove) || remove.some(key => typeof key !== 'string' || !CONFIG_KEY.test(key) || PROTECTED_KEYS.has(key))) {
+    errors.push('delete 必须是可删除的配置项名称数组');
+  } else if (remove.some(key => key in set)) {
+    errors.push('同一配置项不能同时修改和删除');
+  }
+  if (!Array.isArray(addNetworks) || addNetworks.some(nic => !nic || !nic.bridge || !/^[a-zA-Z0-9._-]+$/.test(nic.bridge))) {
+    errors.push('addNetworks 中每个网卡都需要有效的网桥 bridge');
+  } else if (addNetworks.some(nic => nic.vlan !== undefined && nic.vlan !== null && (!Number.isInteger(nic.vlan) || nic.vlan < 1 || nic.vlan > 4094))) {
+    errors.push('VLAN 必须是 1-4094 之间的整数');
+  }
+  const diskKey = type === 'qemu' ? QEMU_DISK_KEY : LXC_DISK_KEY;
+  if (!Array.isArray(resize) || resize.some(item => !item || !diskKey.test(item.disk) || !RESIZE_SIZE.test(String(item.size)))) {
+    errors.push('resize 中每项需要有效的磁盘 (如 scsi0、rootfs) 和大小 (如 +10G)');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return { errors, request: { digest: body.digest, set, delete: remove, addNetworks, resize } };
+}
+
+// 生成网卡配置字符串，使用第一个空闲的 netN（同一请求中删除的网卡编号不复用）
+function buildNetworkDevices(type: 'qemu' | 'lxc', config: any, request: ConfigUpdateRequest): Record<string, string> {
+  const devices: Record<string, string> = {};
+  const used = (key: string) => key in config || key in request.set || key in devices || request.delete.includes(key);
+  let index = 0;
+  for (const nic of request.addNetworks) {
+    while (used(`net${index}`)) {
+      index++;
+    }
+    const options = [
+      type === 'qemu' ? `${nic.model || 'virtio'},bridge=${nic.bridge}` : `name=eth${index},bridge=${nic.bridge},ip=${nic.ip || 'dhcp'}`
+    ];
+    if (type === 'lxc' && nic.gateway) options.push(`gw=${nic.gateway}`);
+    if (nic.vlan) options.push(`tag=${nic.vlan}`);
+    if (nic.firewall) options.push('firewall=1');
+    devices[`net${index}`] = options.join(',');
+  }
+  return devices;
+}
+
+// 读取配置及待生效的修改
+export async function readVMConfig(client: PVEApiClient, node: string, vmid: number, type: 'qemu' | 'lxc') {
+  const [config, pending, status] = await Promise.all([
+    client.getVMConfig(node, vmid, type),
+    client.getPendingConfig(node, vmid, type),
+    client.getVMStatus(node, vmid, type)
+  ]);
+  const pendingChanges = pending.filter((item: any) => item.pending !== undefined || item.delete);
+
+  return {
+    config,
+    digest: config.digest,
+    running: status.status === 'running',
+    hotplug: type === 'qemu' ? getHotplugFeatures(config) : undefined,
+    pending: pendingChanges.map((item: any) => ({
+      key: item.key,
+      value: item.value,
+      pending: item.pending,
+      delete: !!item.delete
+    }))
+  };
+}
+
+// 计算修改内容及其生效方式；dryRun 时只返回计划，不写入
+export async function applyConfigUpdate(
+  client: PVEApiClient,
+  node: string,
+  vmid: number,
+  type: 'qemu' | 'lxc',
+  request: ConfigUpdateRequest,
+  dryRun: boolean = false
+) {
+  const config = await client.getVMConfig(node, vmid, type);
+  if (config.digest !== request.digest) {
+    throw new ConfigConflictError(config.digest);
+  }
+
+  const set = { ...request.set, ...buildNetworkDevices(type, config, request) };
+  const changes: ConfigChange[] = [
+    ...Object.entries(set).map(([key, value]) => ({ key, action: 'set' as const, value, effect: classifyChange(type, key, config) })),
+    ...request.delete.map(key => ({ key, action: 'delete' as const, effect: classifyChange(type, key, config) })),
+    // 磁盘扩容在运行中也会立即生效
+    ...request.resize.map(item => ({ key: item.disk, action: 'resize' as const, value: item.size, effect: 'live' as ChangeEffect }))
+  ];
+
+  if (dryRun) {
+    return { dryRun: true, changes, digest: config.digest };
+  }
+
+  if (Object.keys(set).length > 0 || request.delete.length > 0) {
+    const params: any = { ...set, digest: request.digest };
+    if (request.delete.length > 0) {
+      params.delete = request.delete.join(',');
+    }
+    try {
+      await client.updateVMConfig(node, vmid, type, params);
+    } catch (error: any) {
+      // 读取与写入之间被他人修改时PVE拒绝写入
+      if (/modified configuration|digest/i.test(error.response?.data?.message || error.message || '')) {
+        const latest = await client.getVMConfig(node, vmid, type);
+        throw new ConfigConflictError(latest.digest);
+      }
+      throw error;
+    }
+  }
+
+  const resizeTasks: { disk: string; taskId: string | null }[] = [];
+  for (const item of request.resize) {
+    resizeTasks.push({ disk: item.disk, taskId: await client.resizeDisk(node, vmid, type, item.disk, String(item.size)) });
+  }
+
+  const result = await readVMConfig(client, node, vmid, type);
+  const pendingKeys = new Set(result.pending.map((item: any) => item.key));
+
+  return {
+    // 以PVE实际记录的待生效项为准：未进入 pending 的修改均已生效（如已关机的虚拟机）
+    changes: changes.map(change => {
+      if (change.action !== 'resize' && pendingKeys.has(change.key)) {
+        return { ...change, effect: 'reboot' as ChangeEffect };
+      }
+      return { ...change, effect: change.effect === 'reboot' ? 'live' as ChangeEffect : change.effect };
+    }),
+    resizeTasks,
+    rebootRequired: result.pending.length > 0,
+    ...result
+  };
+}
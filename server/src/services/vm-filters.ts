@@ -0,0 +1,64 @@
+import { PVEManager } from './pve-manager';
+import { parseVMTags } from './inventory';
+
+// 按PVE标签和资源池过滤虚拟机，用于虚拟机列表、流量、告警和资源概览接口
+export interface VMFilters {
+  tags?: string[]; // 需同时包含的标签
+  pool?: string;
+}
+
+// PVE标签允许的字符
+const TAG_PATTERN = /^[a-z0-9_][a-z0-9_\-+.]*$/i;
+
+export function isValidTag(tag: string): boolean {
+  return TAG_PATTERN.test(tag);
+}
+
+// 从查询参数解析过滤条件（?tags=a,b&pool=x），没有条件时返回 null
+export function parseVMFilters(query: any): VMFilters | null {
+  const filters: VMFilters = {};
+  if (typeof query.tags === 'string' && query.tags.trim()) {
+    filters.tags = parseVMTags(query.tags);
+  }
+  if (typeof query.pool === 'string' && query.pool.trim()) {
+    filters.pool = query.pool.trim();
+  }
+  return filters.tags || filters.pool ? filters : null;
+}
+
+export function matchesVMFilters(vm: { tags?: string; pool?: string }, filters: VMFilters | null): boolean {
+  if (!filters) {
+    return true;
+  }
+  if (filters.tags) {
+    const tags = parseVMTags(vm.tags);
+    if (!filters.tags.every(tag => tags.includes(tag))) {
+      return false;
+    }
+  }
+  return !filters.pool || vm.pool === filters.pool;
+}
+
+export function filterVMs<T extends { tags?: string; pool?: string }>(vms: T[], filters: VMFilters | null): T[] {
+  return filters ? vms.filter(vm => matchesVMFilters(vm, filters)) : vms;
+}
+
+// 流量和告警记录只保存 connection_id + vmid，按当前资源清单判断记录对应的VM是否满足条件
+export async function buildVMFilterIndex(pveManager: PVEManager, filters: VMFilters): Promise<(connectionId: string, vmid: number) => boolean> {
+  const { data: vms } = await pveManager.getAllVMs();
+  const keys = new Set(filterVMs(vms, filters).map((vm: any) => `${vm.connectionId}:${vm.vmid}`));
+  return (connectionId, vmid) => keys.has(`${connectionId}:${vmid}`);
+}
+
+// 过滤带连接ID（connection_id 或 connectionId）和 vmid 字段的记录（流量统计等），没有条件时原样返回
+export async function filterVMRecords<T extends { vmid: number | string; connection_id?: string; connectionId?: string }>(
+  pveManager: PVEManager,
+  filters: VMFilters | null,
+  records: T[]
+): Promise<T[]> {
+  if (!filters) {
+    return records;
+  }
+  const matches = await buildVMFilterIndex(pveManager, filters);
+  return records.filter(record => matches((record.connection_id ?? record.connectionId)!, Number(record.vmid)));
+}
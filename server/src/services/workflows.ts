@@ -0,0 +1,273 @@
+import { PVEManager } from './pve-manager';
+import { ReadinessCheck, describeReadinessCheck, normalizeReadinessCheck, waitForReadiness } from './readiness';
+import {
+  ScheduledAction,
+  ScheduledActionOptions,
+  ScheduledActionResult,
+  ScheduledTarget,
+  SNAPSHOT_TASK_TIMEOUT,
+  executeScheduledAction,
+  normalizeScheduledAction,
+  resolveTargetVM,
+  validateScheduledOptions,
+  waitForResult
+} from './scheduled-actions';
+
+// 工作流：按顺序执行的多个步骤（如 快照 → 关机 → 备份 → 启动 → 健康检查），可被多个定时任务复用于不同目标
+export type WorkflowStepAction = ScheduledAction | 'health_check' | 'wait';
+
+// 步骤失败时：continue 继续后续步骤，abort 停止该VM的后续步骤，rollback 回滚到本次工作流创建的快照后停止
+export type StepFailurePolicy = 'continue' | 'abort' | 'rollback';
+
+export interface WorkflowStep {
+  name?: string;
+  action: WorkflowStepAction;
+  on_failure: StepFailurePolicy;
+  options?: ScheduledActionOptions; // backup / snapshot 参数
+  check?: ReadinessCheck; // health_check：host/url 中可使用 {name}、{vmid}、{node} 占位符
+  seconds?: number; // wait
+}
+
+export interface WorkflowStepResult extends Partial<ScheduledActionResult> {
+  vmid: number;
+  connectionId: string;
+  status: 'success' | 'failed' | 'skipped';
+  check?: string; // health_check：实际检查的目标
+  duration?: number; // health_check：等待就绪的毫秒数
+  rollback?: { snapname: string; status: 'success' | 'failed'; taskId?: string; error?: string };
+}
+
+export interface WorkflowRunDetails {
+  workflowId: string;
+  workflowName: string;
+  steps: Array<{ index: number; name: string; action: WorkflowStepAction; on_failure: StepFailurePolicy; results: WorkflowStepResult[] }>;
+  results: Array<{ connectionId: string; vmid: number; node?: string; vmname?: string; status: 'success' | 'partial' | 'failed'; error?: string }>;
+}
+
+export const MAX_WORKFLOW_STEPS = 20;
+const MAX_WAIT_SECONDS = 3600;
+const WAIT_POLL_INTERVAL = 1000;
+const FAILURE_POLICIES: StepFailurePolicy[] = ['continue', 'abort', 'rollback'];
+const PLACEHOLDER_PATTERN = /\{(name|vmid|node)\}/g;
+
+const STEP_LABELS: Record<WorkflowStepAction, string> = {
+  start: '启动',
+  stop: '强制关机',
+  shutdown: '关机',
+  reboot: '重启',
+  backup: '备份',
+  snapshot: '快照',
+  health_check: '健康检查',
+  wait: '等待'
+};
+
+function fillPlaceholders(check: any, values: { name: string; vmid: number; node: string }): any {
+  const fill = (text: any) => typeof text === 'string'
+    ? text.replace(PLACEHOLDER_PATTERN, (_, key: 'name' | 'vmid' | 'node') => String(values[key]))
+    : text;
+  return { ...check, host: fill(check.host), url: fill(check.url) };
+}
+
+// 校验并规范化工作流步骤，返回规范化后的步骤或错误信息
+export function normalizeWorkflowSteps(steps: any): { steps?: WorkflowStep[]; error?: string } {
+  if (!Array.isArray(steps) || steps.length === 0 || steps.length > MAX_WORKFLOW_STEPS) {
+    return { error: `工作流需要 1-${MAX_WORKFLOW_STEPS} 个步骤` };
+  }
+
+  const normalized: WorkflowStep[] = [];
+  for (const [index, step] of steps.entries()) {
+    const label = `第 ${index + 1} 步`;
+    if (!step || typeof step !== 'object') {
+      return { error: `${label}无效` };
+    }
+
+    const onFailure = step.on_failure ?? 'abort';
+    if (!FAILURE_POLICIES.includes(onFailure)) {
+      return { error: `${label}: on_failure 必须是 ${FAILURE_POLICIES.join('、')} 之一` };
+    }
+    if (onFailure === 'rollback' && !normalized.some(s => s.action === 'snapshot')) {
+      return { error: `${label}: rollback 需要在之前的步骤中创建快照` };
+    }
+    const base: WorkflowStep = { action: step.action, on_failure: onFailure };
+    if (typeof step.name === 'string' && step.name.trim()) {
+      base.name = step.name.trim();
+    }
+
+    if (step.action === 'health_check') {
+      // 用示例值代入占位符后校验，保存原始配置，执行时按每个VM代入
+      const { check, error } = normalizeReadinessCheck(fillPlaceholders(step.check || {}, { name: 'vm', vmid: 100, node: 'node' }));
+      if (error) {
+        return { error: `${label}: ${error}` };
+      }
+      normalized.push({ ...base, check: { ...step.check, timeout: check!.timeout } });
+    } else if (step.action === 'wait') {
+      if (!Number.isInteger(step.seconds) || step.seconds < 1 || step.seconds > MAX_WAIT_SECONDS) {
+        return { error: `${label}: 等待时间必须是 1-${MAX_WAIT_SECONDS} 秒之间的整数` };
+      }
+      normalized.push({ ...base, seconds: step.seconds });
+    } else {
+      const action = normalizeScheduledAction(step.action);
+      if (!action) {
+        return { error: `${label}: 不支持的操作 ${step.action}` };
+      }
+      const options: ScheduledActionOptions = step.options || {};
+      const error = validateScheduledOptions(action, options);
+      if (error) {
+        return { error: `${label}: ${error}` };
+      }
+      normalized.push({ ...base, action, ...(action === 'backup' || action === 'snapshot' ? { options } : {}) });
+    }
+  }
+  return { steps: normalized };
+}
+
+export function parseWorkflow(row: any) {
+  return { ...row, steps: JSON.parse(row.steps || '[]') as WorkflowStep[] };
+}
+
+async function runHealthCheck(pveManager: PVEManager, target: ScheduledTarget, step: WorkflowStep, isStopped: () => boolean): Promise<WorkflowStepResult> {
+  const result: WorkflowStepResult = { connectionId: target.connection_id, node: target.node, vmid: target.vmid, status: 'failed' };
+  const { vm, error } = await resolveTargetVM(pveManager, target);
+  if (!vm) {
+    return { ...result, error };
+  }
+
+  const { check } = normalizeReadinessCheck(fillPlaceholders(step.check, { name: vm.name, vmid: vm.vmid, node: vm.node }));
+  const resolved = { ...result, node: vm.node, vmname: vm.name, type: vm.type, check: describeReadinessCheck(check!) };
+  const startedAt = Date.now();
+  try {
+    await waitForReadiness(pveManager, { connection_id: target.connection_id, node: vm.node, vmid: vm.vmid, type: vm.type }, check!, isStopped);
+    return { ...resolved, status: 'success', duration: Date.now() - startedAt };
+  } catch (error: any) {
+    return { ...resolved, error: error.message, duration: Date.now() - startedAt };
+  }
+}
+
+// 回滚到本次工作流为该VM创建的快照
+async function rollbackToSnapshot(pveManager: PVEManager, target: ScheduledTarget, snapname: string): Promise<NonNullable<WorkflowStepResult['rollback']>> {
+  const { vm, error } = await resolveTargetVM(pveManager, target);
+  if (!vm) {
+    return { snapname, status: 'failed', error };
+  }
+  try {
+    const taskId = await pveManager.executeOnConnection(target.connection_id, (client) =>
+      client.rollbackSnapshot(vm.node, vm.vmid, vm.type, snapname)
+    );
+    const result = await waitForResult(
+      pveManager,
+      { connectionId: target.connection_id, node: vm.node, vmid: vm.vmid, action: 'snapshot', status: 'failed' },
+      taskId,
+      SNAPSHOT_TASK_TIMEOUT
+    );
+    return { snapname, status: result.status === 'success' ? 'success' : 'failed', taskId, error: result.error };
+  } catch (error: any) {
+    return { snapname, status: 'failed', error: error.message };
+  }
+}
+
+// 等待指定毫秒数，isStopped 返回 true 时提前结束
+async function sleepUnlessStopped(ms: number, isStopped: () => boolean): Promise<void> {
+  const until = Date.now() + ms;
+  while (Date.now() < until && !isStopped()) {
+    await new Promise(resolve => setTimeout(resolve, Math.min(WAIT_POLL_INTERVAL, until - Date.now())));
+  }
+}
+
+// 对单个VM执行步骤（wait 步骤由 runWorkflow 统一处理）
+async function runStep(pveManager: PVEManager, target: ScheduledTarget, step: WorkflowStep, isStopped: () => boolean): Promise<WorkflowStepResult> {
+  if (step.action === 'health_check') {
+    return runHealthCheck(pveManager, target, step, isStopped);
+  }
+  return executeScheduledAction(pveManager, target, step.action as ScheduledAction, step.options);
+}
+
+// 按步骤依次对所有目标执行（关机类步骤按相反顺序），每个VM的失败按步骤的 on_failure 处理；
+// wait 步骤对所有目标只等待一次。isStopped 返回 true（如超过最长运行时间）后不再开始新的步骤，
+// details.results 在每个步骤后更新，调用方在截止时间到达时可直接记录当时的结果
+export async function runWorkflow(
+  pveManager: PVEManager,
+  workflow: { id: string; name: string; steps: WorkflowStep[] },
+  targets: ScheduledTarget[],
+  details: WorkflowRunDetails,
+  isStopped: () => boolean = () => false
+): Promise<void> {
+  const states = targets.map(target => ({ target, stopped: false, failed: false, completedSteps: 0, snapname: undefined as string | undefined, error: undefined as string | undefined, vmname: undefined as string | undefined, node: target.node }));
+
+  // 每个VM的汇总结果：被停止或未执行完全部步骤（执行被中止）为失败，失败后继续为部分成功
+  const summarize = () => {
+    details.results = states.map(state => {
+      const unfinished = !state.stopped && state.completedSteps < workflow.steps.length;
+      return {
+        connectionId: state.target.connection_id,
+        vmid: state.target.vmid,
+        node: state.node,
+        vmname: state.vmname,
+        status: state.stopped || unfinished ? 'failed' : state.failed ? 'partial' : 'success',
+        error: unfinished && !state.error ? '执行被中止，剩余步骤未执行' : state.error
+      };
+    });
+  };
+  summarize();
+
+  for (const [index, step] of workflow.steps.entries()) {
+    const stepDetails = { index, name: step.name || STEP_LABELS[step.action], action: step.action, on_failure: step.on_failure, results: [] as WorkflowStepResult[] };
+    details.steps.push(stepDetails);
+    const ordered = step.action === 'stop' || step.action === 'shutdown' ? [...states].reverse() : states;
+
+    if (step.action === 'wait') {
+      if (states.some(state => !state.stopped)) {
+        await sleepUnlessStopped(step.seconds! * 1000, isStopped);
+      }
+      if (isStopped()) {
+        summarize();
+        return;
+      }
+      for (const state of ordered) {
+        const { target } = state;
+        stepDetails.results.push(state.stopped
+          ? { connectionId: target.connection_id, node: state.node, vmid: target.vmid, vmname: state.vmname, status: 'skipped', error: '前序步骤失败，未执行' }
+          : { connectionId: target.connection_id, node: state.node, vmid: target.vmid, vmname: state.vmname, status: 'success' });
+        state.completedSteps++;
+      }
+      summarize();
+      continue;
+    }
+
+    for (const state of ordered) {
+      const { target } = state;
+      if (isStopped()) {
+        summarize();
+        return;
+      }
+      if (state.stopped) {
+        stepDetails.results.push({ connectionId: target.connection_id, node: state.node, vmid: target.vmid, vmname: state.vmname, status: 'skipped', error: '前序步骤失败，未执行' });
+        continue;
+      }
+
+      const result = await runStep(pveManager, target, step, isStopped);
+      state.vmname = result.vmname || state.vmname;
+      state.node = result.node || state.node;
+      if (result.snapname && result.status === 'success') {
+        state.snapname = result.snapname;
+      }
+
+      if (result.status === 'failed') {
+        state.failed = true;
+        state.error = `${stepDetails.name}: ${result.error}`;
+        if (step.on_failure !== 'continue') {
+          state.stopped = true;
+        }
+        if (step.on_failure === 'rollback') {
+          result.rollback = state.snapname
+            ? await rollbackToSnapshot(pveManager, target, state.snapname)
+            : { snapname: '', status: 'failed', error: '没有可回滚的快照（快照步骤未成功）' };
+        }
+      }
+      stepDetails.results.push(result);
+      state.completedSteps++;
+      summarize();
+    }
+  }
+
+  summarize();
+}
@@ -36,8 +36,11 @@ export function setupWebSocketHandlers(io: SocketIOServer, pveManager: PVEManage
 
     socket.on('get-vms', async () => {
       try {
-        const vms = await pveManager.getAllVMs();
+        const { data: vms, errors } = await pveManager.getAllVMs();
         socket.emit('vms', vms);
+        if (errors.length > 0) {
+          socket.emit('partial-errors', { type: 'get-vms', errors });
+        }
       } catch (error: any) {
         socket.emit('error', { message: error.message, type: 'get-vms' });
       }
@@ -45,8 +48,11 @@ export function setupWebSocketHandlers(io: SocketIOServer, pveManager: PVEManage
 
     socket.on('get-nodes', async () => {
       try {
-        const nodes = await pveManager.getAllNodes();
+        const { data: nodes, errors } = await pveManager.getAllNodes();
         socket.emit('nodes', nodes);
+        if (errors.length > 0) {
+          socket.emit('partial-errors', { type: 'get-nodes', errors });
+        }
       } catch (error: any) {
         socket.emit('error', { message: error.message, type: 'get-nodes' });
       }
@@ -157,14 +163,13 @@ export function setupWebSocketHandlers(io: SocketIOServer, pveManager: PVEManage
           try {
             const connection = pveManager.getConnection(connectionId);
             if (connection && connection.status === 'connected') {
-              const nodes = await connection.client.getNodes();
-              const vms = await connection.client.getVMs();
+              const snapshot = await pveManager.getInventory(connectionId);
               
               socket.emit('monitoring-data', {
                 connectionId,
-                timestamp: new Date(),
-                nodes,
-                vms
+                timestamp: snapshot.updatedAt,
+                nodes: snapshot.nodes,
+                vms: Array.from(snapshot.vms.values())
               });
             }
           } catch (error: any) {
@@ -221,5 +226,43 @@ export function setupWebSocketHandlers(io: SocketIOServer, pveManager: PVEManage
     io.emit('connection-status-changed', data);
   });
 
+  pveManager.on('certificate-mismatch', (data) => {
+    io.emit('certificate-mismatch', data);
+  });
+
+  pveManager.on('endpoint-changed', (data) => {
+    io.emit('endpoint-changed', data);
+  });
+
+  pveManager.on('circuit-state-changed', (data) => {
+    io.emit('circuit-state-changed', data);
+  });
+
+  // 资源清单变化
+  for (const eventName of ['vm-added', 'vm-removed', 'vm-status-changed', 'vm-migrated', 'vm-renamed']) {
+    pveManager.on(eventName, (data) => {
+      io.emit(eventName, data);
+    });
+  }
+
+  // 迁移进度、创建结果和cloud-init部署进度
+  for (const eventName of ['vm-migration-progress', 'vm-migration-completed', 'vm-provisioned', 'cloudinit-deployment-updated']) {
+    pveManager.on(eventName, (data) => {
+      io.emit(eventName, data);
+    });
+  }
+
+  // 后台批量任务进度
+  for (const eventName of ['job-updated', 'job-item-updated']) {
+    pveManager.on(eventName, (data) => {
+      io.emit(eventName, data);
+    });
+  }
+
+  // 新VM按规则加入动态分组
+  pveManager.on('group-member-joined', (data) => {
+    io.emit('group-member-joined', data);
+  });
+
   console.log('WebSocket处理器设置完成');
 }
\ No newline at end of file